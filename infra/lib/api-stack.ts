@@ -16,6 +16,8 @@ export interface ApiStackProps extends cdk.StackProps {
   connectionsTable: dynamodb.Table;
   sessionsTable: dynamodb.Table;
   messagesTable: dynamodb.Table;
+  pushKeysTable: dynamodb.Table;
+  pushSubscriptionsTable: dynamodb.Table;
 }
 
 export class ApiStack extends cdk.Stack {
@@ -28,7 +30,8 @@ export class ApiStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: ApiStackProps) {
     super(scope, id, props);
 
-    const { stageName, connectionsTable, sessionsTable, messagesTable } = props;
+    const { stageName, connectionsTable, sessionsTable, messagesTable, pushKeysTable, pushSubscriptionsTable } =
+      props;
 
     // ==================== Cognito User Pool ====================
     this.userPool = new cognito.UserPool(this, 'UserPool', {
@@ -99,6 +102,8 @@ export class ApiStack extends cdk.Stack {
       CONNECTIONS_TABLE: connectionsTable.tableName,
       SESSIONS_TABLE: sessionsTable.tableName,
       MESSAGES_TABLE: messagesTable.tableName,
+      PUSH_KEYS_TABLE: pushKeysTable.tableName,
+      PUSH_SUBSCRIPTIONS_TABLE: pushSubscriptionsTable.tableName,
       NODE_OPTIONS: '--enable-source-maps',
     };
 
@@ -189,6 +194,9 @@ export class ApiStack extends cdk.Stack {
 
     messagesTable.grantReadWriteData(messageHandler);
 
+    pushKeysTable.grantReadWriteData(messageHandler);
+    pushSubscriptionsTable.grantReadWriteData(messageHandler);
+
     // ==================== WebSocket Authorizer ====================
     // Note: We don't specify identitySource to allow anonymous access.
     // When identitySource is specified and the value is missing, API Gateway
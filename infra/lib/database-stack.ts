@@ -10,6 +10,8 @@ export class DatabaseStack extends cdk.Stack {
   public readonly connectionsTable: dynamodb.Table;
   public readonly sessionsTable: dynamodb.Table;
   public readonly messagesTable: dynamodb.Table;
+  public readonly pushKeysTable: dynamodb.Table;
+  public readonly pushSubscriptionsTable: dynamodb.Table;
 
   constructor(scope: Construct, id: string, props: DatabaseStackProps) {
     super(scope, id, props);
@@ -82,6 +84,32 @@ export class DatabaseStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // Push keys table - each user's VAPID key pair for Web Push
+    this.pushKeysTable = new dynamodb.Table(this, 'PushKeysTable', {
+      tableName: `always-coder-${stageName}-push-keys`,
+      partitionKey: {
+        name: 'userId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Push subscriptions table - browsers that receive a user's notifications
+    this.pushSubscriptionsTable = new dynamodb.Table(this, 'PushSubscriptionsTable', {
+      tableName: `always-coder-${stageName}-push-subscriptions`,
+      partitionKey: {
+        name: 'userId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'subscriptionId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // Outputs
     new cdk.CfnOutput(this, 'ConnectionsTableName', {
       value: this.connectionsTable.tableName,
@@ -36,6 +36,8 @@ export class AlwaysCoderInfrastructure extends Construct {
       connectionsTable: this.databaseStack.connectionsTable,
       sessionsTable: this.databaseStack.sessionsTable,
       messagesTable: this.databaseStack.messagesTable,
+      pushKeysTable: this.databaseStack.pushKeysTable,
+      pushSubscriptionsTable: this.databaseStack.pushSubscriptionsTable,
     });
 
     // Add dependency
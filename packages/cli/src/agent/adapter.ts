@@ -0,0 +1,97 @@
+import { basename } from 'path';
+import type { AgentState } from '@always-coder/shared';
+
+/**
+ * State an adapter read from an agent's output
+ */
+export interface AgentDetection {
+  state: Exclude<AgentState, 'starting'>;
+  /** Line that gave the state away, e.g. the approval question */
+  detail?: string;
+}
+
+/**
+ * Reads what a coding agent is doing from its terminal output
+ *
+ * Adapters see the tail of the window's output with escape sequences removed.
+ * TUIs redraw in place, so the tail holds several frames and the last one
+ * counts.
+ */
+export interface AgentAdapter {
+  /** Reported in AGENT_STATE, e.g. 'claude' */
+  readonly name: string;
+  /** Whether a window running this command holds this agent */
+  matches(command: string): boolean;
+  /**
+   * State the output shows, or null when it doesn't tell
+   * @param quiet - No output came for a while, so nothing is animating
+   */
+  detect(screen: string, quiet: boolean): AgentDetection | null;
+}
+
+/**
+ * Text that gives a state away when it is the last thing recognized in the output
+ */
+export interface AgentPattern {
+  state: AgentDetection['state'];
+  pattern: RegExp;
+  /**
+   * Only shows the state while output keeps coming, like a spinner's status
+   * line; once output stops it means the agent went back to its prompt
+   */
+  whileOutput?: boolean;
+}
+
+/**
+ * Create an adapter that goes by whichever pattern matched last in the output
+ *
+ * When nothing matches, the agent is taken to be at its prompt once output
+ * stops. The line an approval or error pattern matched on is the detail.
+ *
+ * @param options.commands - Executable names the agent runs as
+ */
+export function createPatternAdapter(options: {
+  name: string;
+  commands: string[];
+  patterns: AgentPattern[];
+}): AgentAdapter {
+  const patterns = options.patterns.map((entry) => ({
+    ...entry,
+    pattern: new RegExp(entry.pattern.source, entry.pattern.flags.replace('g', '') + 'g'),
+  }));
+
+  return {
+    name: options.name,
+    matches: (command) => options.commands.includes(basename(command)),
+    detect: (screen, quiet) => {
+      let latest: { entry: AgentPattern; start: number; end: number } | null = null;
+      for (const entry of patterns) {
+        for (const match of screen.matchAll(entry.pattern)) {
+          if (!latest || match.index! >= latest.start) {
+            latest = { entry, start: match.index!, end: match.index! + match[0].length };
+          }
+        }
+      }
+
+      if (!latest) return quiet ? { state: 'idle' } : null;
+      const { entry, start, end } = latest;
+      if (entry.whileOutput && quiet) return { state: 'idle' };
+      if (entry.state !== 'approval' && entry.state !== 'error') return { state: entry.state };
+      return { state: entry.state, detail: lineAround(screen, start, end) };
+    },
+  };
+}
+
+/**
+ * The line of `text` holding a match, without box drawing and extra spaces
+ */
+function lineAround(text: string, start: number, end: number): string | undefined {
+  const from = text.lastIndexOf('\n', start) + 1;
+  const to = text.indexOf('\n', end);
+  const line = text
+    .slice(from, to === -1 ? undefined : to)
+    .replace(/[│┃╭╮╰╯─━]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return line ? line.slice(0, 200) : undefined;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { claudeAdapter, codexAdapter, getAgentAdapter, registerAgentAdapter } from './adapters.js';
+import { createPatternAdapter } from './adapter.js';
+
+describe('agent adapters', () => {
+  describe('getAgentAdapter', () => {
+    it('should find the adapter by executable name', () => {
+      expect(getAgentAdapter('claude')).toBe(claudeAdapter);
+      expect(getAgentAdapter('/usr/local/bin/codex')).toBe(codexAdapter);
+      expect(getAgentAdapter('bash')).toBeUndefined();
+    });
+
+    it('should try registered adapters before the built-in ones', () => {
+      const custom = createPatternAdapter({ name: 'aider', commands: ['aider', 'claude'], patterns: [] });
+      registerAgentAdapter(custom);
+
+      expect(getAgentAdapter('aider')).toBe(custom);
+      expect(getAgentAdapter('claude')).toBe(custom);
+    });
+  });
+
+  describe('claude', () => {
+    const cases: { name: string; screen: string; quiet: boolean; state: string | null; detail?: string }[] = [
+      { name: 'the banner while it starts', screen: '✻ Welcome to Claude Code!\n', quiet: false, state: null },
+      { name: 'the prompt once output stops', screen: '✻ Welcome to Claude Code!\n> \n', quiet: true, state: 'idle' },
+      { name: 'the spinner', screen: '> fix the tests\n✻ Thinking… (3s · esc to interrupt)\n', quiet: false, state: 'working' },
+      { name: 'a spinner that stopped', screen: '✻ Thinking… (3s · esc to interrupt)\n', quiet: true, state: 'idle' },
+      {
+        name: 'a permission prompt',
+        screen: '✻ Running… (esc to interrupt)\n│ Do you want to proceed?                │\n│ ❯ 1. Yes\n',
+        quiet: true,
+        state: 'approval',
+        detail: 'Do you want to proceed?',
+      },
+      {
+        name: 'work after the prompt was answered',
+        screen: 'Do you want to make this edit to app.ts?\n❯ 1. Yes\n✻ Editing… (esc to interrupt)\n',
+        quiet: false,
+        state: 'working',
+      },
+      {
+        name: 'an API error',
+        screen: '✻ Thinking… (esc to interrupt)\n  ⎿  API Error: 529 Overloaded\n> \n',
+        quiet: true,
+        state: 'error',
+        detail: '⎿ API Error: 529 Overloaded',
+      },
+    ];
+
+    for (const { name, screen, quiet, state, detail } of cases) {
+      it(`should read ${name}`, () => {
+        const detection = claudeAdapter.detect(screen, quiet);
+
+        expect(detection?.state ?? null).toBe(state);
+        expect(detection?.detail).toBe(detail);
+      });
+    }
+  });
+
+  describe('codex', () => {
+    const cases: { name: string; screen: string; quiet: boolean; state: string; detail?: string }[] = [
+      { name: 'a working status', screen: '• Working (12s • esc to interrupt)\n', quiet: false, state: 'working' },
+      {
+        name: 'a command approval',
+        screen: 'Would you like to run the following command?\n$ rm -rf build\n› 1. Yes, proceed\n',
+        quiet: true,
+        state: 'approval',
+        detail: 'Would you like to run the following command?',
+      },
+      {
+        name: 'a stream error',
+        screen: '■ stream error: connection reset; retrying 1/5\n',
+        quiet: true,
+        state: 'error',
+        detail: '■ stream error: connection reset; retrying 1/5',
+      },
+      { name: 'the prompt', screen: '› Ask Codex to do anything\n', quiet: true, state: 'idle' },
+    ];
+
+    for (const { name, screen, quiet, state, detail } of cases) {
+      it(`should read ${name}`, () => {
+        const detection = codexAdapter.detect(screen, quiet);
+
+        expect(detection?.state).toBe(state);
+        expect(detection?.detail).toBe(detail);
+      });
+    }
+  });
+});
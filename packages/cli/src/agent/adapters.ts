@@ -0,0 +1,51 @@
+import { createPatternAdapter, type AgentAdapter } from './adapter.js';
+
+/**
+ * Claude Code
+ * Its status line reads "esc to interrupt" while it thinks or runs tools, and
+ * permission prompts ask "Do you want to ...?".
+ */
+export const claudeAdapter: AgentAdapter = createPatternAdapter({
+  name: 'claude',
+  commands: ['claude'],
+  patterns: [
+    { state: 'working', pattern: /esc to interrupt/i, whileOutput: true },
+    { state: 'approval', pattern: /Do you want to (?:proceed|make this edit|create|allow|run)[^\n]*\?/ },
+    { state: 'error', pattern: /API Error[^\n]*/ },
+  ],
+});
+
+/**
+ * OpenAI Codex CLI
+ * Shows "Working (… esc to interrupt)" while busy and asks before running
+ * commands or applying edits.
+ */
+export const codexAdapter: AgentAdapter = createPatternAdapter({
+  name: 'codex',
+  commands: ['codex'],
+  patterns: [
+    { state: 'working', pattern: /esc to interrupt/i, whileOutput: true },
+    {
+      state: 'approval',
+      pattern: /(?:Allow command\?|Would you like to (?:run the following command|make the following edits)\?)/,
+    },
+    { state: 'error', pattern: /(?:stream error|error sending request)[^\n]*/i },
+  ],
+});
+
+const adapters: AgentAdapter[] = [claudeAdapter, codexAdapter];
+
+/**
+ * Add an adapter for another agent
+ * Adapters registered later are tried first, so one can replace a built-in one.
+ */
+export function registerAgentAdapter(adapter: AgentAdapter): void {
+  adapters.unshift(adapter);
+}
+
+/**
+ * Adapter for the agent a command starts, if there is one
+ */
+export function getAgentAdapter(command: string): AgentAdapter | undefined {
+  return adapters.find((adapter) => adapter.matches(command));
+}
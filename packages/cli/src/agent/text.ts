@@ -0,0 +1,35 @@
+// Escape sequences: CSI, OSC (ended by BEL or ST) and the two-byte ones
+const ESCAPE = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+const COMPLETE_ESCAPE = new RegExp(`^(?:${ESCAPE.source})`);
+// Cursor movements that start a new line of text
+const LINE_MOVE = /^\x1b\[[0-9;]*[BEHf]$/;
+const CONTROL = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+/**
+ * Turns terminal output into the text it shows
+ *
+ * Escape sequences are removed (cursor movements to another line become line
+ * breaks) and line endings become `\n`. A sequence cut off at the end of a
+ * chunk is held back until the next one completes it.
+ */
+export class PlainTextDecoder {
+  private partial = '';
+
+  /**
+   * Text of the next chunk of output
+   */
+  push(data: string): string {
+    let text = this.partial + data;
+    this.partial = '';
+    const lastEscape = text.lastIndexOf('\x1b');
+    if (lastEscape !== -1 && text.length - lastEscape < 64 && !COMPLETE_ESCAPE.test(text.slice(lastEscape))) {
+      this.partial = text.slice(lastEscape);
+      text = text.slice(0, lastEscape);
+    }
+
+    return text
+      .replace(ESCAPE, (sequence) => (LINE_MOVE.test(sequence) ? '\n' : ''))
+      .replace(/\r\n?/g, '\n')
+      .replace(CONTROL, '');
+  }
+}
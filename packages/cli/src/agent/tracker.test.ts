@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AgentStatePayload } from '@always-coder/shared';
+import { AgentStateTracker } from './tracker.js';
+import { claudeAdapter } from './adapters.js';
+
+describe('AgentStateTracker', () => {
+  let changes: AgentStatePayload[];
+  let tracker: AgentStateTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    changes = [];
+    tracker = new AgentStateTracker({
+      adapter: claudeAdapter,
+      onChange: (state) => changes.push(state),
+      quietDelay: 1000,
+    });
+  });
+
+  afterEach(() => {
+    tracker.close();
+    vi.useRealTimers();
+  });
+
+  it('should start out starting', () => {
+    expect(tracker.getState()).toMatchObject({ agent: 'claude', state: 'starting' });
+  });
+
+  it('should report a state once and again when it changes', () => {
+    tracker.push('✻ Thinking… (1s · esc to interrupt)\r\n');
+    tracker.push('\x1b[1A\x1b[2K✻ Thinking… (2s · esc to interrupt)\r\n');
+    expect(changes.map((change) => change.state)).toEqual(['working']);
+
+    vi.advanceTimersByTime(1000);
+    expect(changes.map((change) => change.state)).toEqual(['working', 'idle']);
+    expect(tracker.getState().state).toBe('idle');
+  });
+
+  it('should keep working while output keeps coming', () => {
+    tracker.push('✻ Thinking… (esc to interrupt)');
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(500);
+      tracker.push('\x1b[2K\r✽ Thinking… (esc to interrupt)');
+    }
+
+    expect(changes.map((change) => change.state)).toEqual(['working']);
+  });
+
+  it('should read text drawn with escape sequences', () => {
+    tracker.push('\x1b[?25l\x1b[38;5;246mDo you\x1b[39m want to \x1b]0;title\x07proceed?\x1b[5;1H❯ 1. Yes');
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ state: 'approval', detail: 'Do you want to proceed?' });
+  });
+
+  it('should put together an escape sequence split across chunks', () => {
+    tracker.push('Do you want to\x1b[3');
+    tracker.push('8;5;246m proceed?');
+
+    expect(tracker.getState().detail).toBe('Do you want to proceed?');
+  });
+
+  it('should only keep the tail of the output', () => {
+    const small = new AgentStateTracker({ adapter: claudeAdapter, onChange: () => {}, tailSize: 40 });
+    small.push('Do you want to proceed?\n');
+    small.push('x'.repeat(40));
+    vi.advanceTimersByTime(2000);
+
+    expect(small.getState().state).toBe('idle');
+    small.close();
+  });
+
+  it('should stop checking once closed', () => {
+    tracker.push('✻ Thinking… (esc to interrupt)');
+    tracker.close();
+    vi.advanceTimersByTime(5000);
+
+    expect(changes.map((change) => change.state)).toEqual(['working']);
+  });
+});
@@ -0,0 +1,82 @@
+import type { AgentStatePayload } from '@always-coder/shared';
+import type { AgentAdapter } from './adapter.js';
+import { PlainTextDecoder } from './text.js';
+
+/**
+ * Agent state tracker options
+ */
+export interface AgentStateTrackerOptions {
+  adapter: AgentAdapter;
+  /** Called with the new state whenever it changes */
+  onChange: (state: AgentStatePayload) => void;
+  /** Output has to stop this long (ms) before the agent counts as quiet */
+  quietDelay?: number;
+  /** Characters of output, escape sequences removed, kept for the adapter */
+  tailSize?: number;
+}
+
+/**
+ * Follows an agent's output in one window and reports its state
+ *
+ * Each chunk of output is checked as it arrives, and once more when output
+ * stops for quietDelay, which is how an agent that finished working is told
+ * from one that is still animating.
+ */
+export class AgentStateTracker {
+  private adapter: AgentAdapter;
+  private onChange: (state: AgentStatePayload) => void;
+  private quietDelay: number;
+  private tailSize: number;
+  private tail = '';
+  private text = new PlainTextDecoder();
+  private state: AgentStatePayload;
+  private quietTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: AgentStateTrackerOptions) {
+    this.adapter = options.adapter;
+    this.onChange = options.onChange;
+    this.quietDelay = options.quietDelay ?? 1500;
+    this.tailSize = options.tailSize ?? 4096;
+    this.state = { agent: this.adapter.name, state: 'starting', since: Date.now() };
+  }
+
+  /**
+   * Current state
+   */
+  getState(): AgentStatePayload {
+    return this.state;
+  }
+
+  /**
+   * Add a chunk of the window's output
+   */
+  push(data: string): void {
+    this.tail = (this.tail + this.text.push(data)).slice(-this.tailSize);
+    this.update(false);
+
+    if (this.quietTimer) clearTimeout(this.quietTimer);
+    this.quietTimer = setTimeout(() => {
+      this.quietTimer = null;
+      this.update(true);
+    }, this.quietDelay);
+  }
+
+  /**
+   * Stop tracking (the window closed)
+   */
+  close(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer);
+      this.quietTimer = null;
+    }
+  }
+
+  private update(quiet: boolean): void {
+    const detection = this.adapter.detect(this.tail, quiet);
+    if (!detection) return;
+    if (detection.state === this.state.state && detection.detail === this.state.detail) return;
+
+    this.state = { agent: this.adapter.name, ...detection, since: Date.now() };
+    this.onChange(this.state);
+  }
+}
@@ -314,6 +314,61 @@ describe('Config Module', () => {
     });
   });
 
+  describe('getInputPolicy', () => {
+    function mockConfig(config: Record<string, unknown>): void {
+      vi.mocked(existsSync).mockImplementation((path: unknown) => !String(path).includes('config.local.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ server: '', webUrl: '', ...config }));
+    }
+
+    it('should return undefined when none is configured', async () => {
+      mockConfig({});
+
+      const { getInputPolicy } = await import('./index.js');
+
+      expect(getInputPolicy()).toBeUndefined();
+    });
+
+    it('should return the configured rules', async () => {
+      const inputPolicy = { rules: [{ id: 'no-push', roles: ['guest'], line: '^git push', action: 'deny' }] };
+      mockConfig({ inputPolicy });
+
+      const { getInputPolicy } = await import('./index.js');
+
+      expect(getInputPolicy()).toEqual(inputPolicy);
+    });
+
+    it('should throw for a rule that cannot be used', async () => {
+      mockConfig({ inputPolicy: { rules: [{ line: '(', action: 'deny' }] } });
+
+      const { getInputPolicy } = await import('./index.js');
+
+      expect(() => getInputPolicy()).toThrow('inputPolicy rule 0: line is not a valid regular expression');
+    });
+  });
+
+  describe('getNotificationConfig', () => {
+    function mockConfig(config: Record<string, unknown>): void {
+      vi.mocked(existsSync).mockImplementation((path: unknown) => !String(path).includes('config.local.json'));
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ server: '', webUrl: '', ...config }));
+    }
+
+    it('should use the defaults when none are configured', async () => {
+      mockConfig({});
+
+      const { getNotificationConfig } = await import('./index.js');
+
+      expect(getNotificationConfig()).toEqual({});
+    });
+
+    it('should throw for settings that cannot be used', async () => {
+      mockConfig({ notifications: { idleAfter: 'soon' } });
+
+      const { getNotificationConfig } = await import('./index.js');
+
+      expect(() => getNotificationConfig()).toThrow('notifications: idleAfter must be a number of seconds');
+    });
+  });
+
   describe('validateAndNormalizeUrl', () => {
     it('should pass through valid https URL', async () => {
       const { validateAndNormalizeUrl } = await import('./index.js');
@@ -2,6 +2,9 @@ import { homedir } from 'os';
 import { join, dirname } from 'path';
 import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync } from 'fs';
 import { fileURLToPath } from 'url';
+import { parseInputPolicy, type InputPolicyConfig } from '@always-coder/shared';
+import type { LaunchProfile } from './profiles.js';
+import { parseNotificationConfig, type NotificationConfig } from '../notify/notifier.js';
 
 /**
  * Configuration interface
@@ -13,6 +16,16 @@ export interface Config {
   authToken?: string;
   refreshToken?: string;
   instanceLabel?: string;
+  /** Terminal output kept on disk per window, in KB */
+  scrollbackSize?: number;
+  /** Rules for web client input, checked before the built-in ones */
+  inputPolicy?: InputPolicyConfig;
+  /** Named launch settings for `always run --profile <name>` */
+  profiles?: Record<string, LaunchProfile>;
+  /** Profile plain `always` runs (default: claude) */
+  defaultProfile?: string;
+  /** When sessions send push notifications to subscribed browsers */
+  notifications?: NotificationConfig;
   // Cognito configuration (fetched from server)
   cognitoUserPoolId?: string;
   cognitoClientId?: string;
@@ -67,6 +80,39 @@ export function getConfigDir(): string {
   return dir;
 }
 
+/**
+ * Get the directory holding per-session scrollback
+ */
+export function getSessionsDir(): string {
+  return join(getConfigDir(), 'sessions');
+}
+
+/**
+ * Get the scrollback kept per window in bytes (config `scrollbackSize` in KB, default 1MB)
+ */
+export function getScrollbackSize(): number {
+  const size = loadConfig().scrollbackSize;
+  return (Number.isInteger(size) && size! > 0 ? size! : 1024) * 1024;
+}
+
+/**
+ * Get the configured input policy, if any
+ * @throws InputPolicyError when config.json has one that can't be used
+ */
+export function getInputPolicy(): InputPolicyConfig | undefined {
+  const policy = loadConfig().inputPolicy;
+  return policy === undefined ? undefined : parseInputPolicy(policy);
+}
+
+/**
+ * Get the notification settings (all defaults when config.json has none)
+ * @throws Error when config.json has some that can't be used
+ */
+export function getNotificationConfig(): NotificationConfig {
+  const notifications = loadConfig().notifications;
+  return notifications === undefined ? {} : parseNotificationConfig(notifications);
+}
+
 /**
  * Get the config file path
  */
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { homedir } from 'os';
+import { loadConfig } from './index.js';
+import {
+  BUILTIN_PROFILES,
+  getDefaultProfileName,
+  getLaunchProfile,
+  parseLaunchProfile,
+  resolveProfilePath,
+} from './profiles.js';
+
+vi.mock('./index.js', () => ({
+  loadConfig: vi.fn(),
+}));
+
+describe('launch profiles', () => {
+  beforeEach(() => {
+    vi.mocked(loadConfig).mockReturnValue({ server: '', webUrl: '' });
+  });
+
+  describe('parseLaunchProfile', () => {
+    it('should accept a full profile', () => {
+      const profile = {
+        command: 'claude',
+        args: ['--verbose'],
+        env: { ANTHROPIC_LOG: 'debug' },
+        cwd: '~/work',
+        inputPolicy: { rules: [{ id: 'no-push', line: '^git push', action: 'deny' }] },
+        record: 'sessions/claude.cast',
+        recordInput: true,
+      };
+
+      expect(parseLaunchProfile('team', profile)).toEqual(profile);
+    });
+
+    const invalid: { name: string; raw: unknown; message: string }[] = [
+      { name: 'a non-object', raw: 'claude', message: 'must be an object' },
+      { name: 'a missing command', raw: { args: [] }, message: 'command must be a non-empty string' },
+      { name: 'args that are not strings', raw: { command: 'claude', args: [1] }, message: 'args must be a list of strings' },
+      { name: 'env values that are not strings', raw: { command: 'claude', env: { DEBUG: true } }, message: 'env must map names to strings' },
+      { name: 'a cwd that is not a string', raw: { command: 'claude', cwd: 1 }, message: 'cwd must be a string' },
+      { name: 'a record that is not a path', raw: { command: 'claude', record: true }, message: 'record must be a file path' },
+      {
+        name: 'an input policy that cannot be used',
+        raw: { command: 'claude', inputPolicy: { rules: [{ action: 'deny' }] } },
+        message: 'inputPolicy rule 0: needs exactly one of',
+      },
+    ];
+
+    for (const { name, raw, message } of invalid) {
+      it(`should refuse ${name}`, () => {
+        expect(() => parseLaunchProfile('team', raw)).toThrow(`Profile "team": ${message}`);
+      });
+    }
+  });
+
+  describe('getLaunchProfile', () => {
+    it('should have built-in profiles that run the agents without extra flags', () => {
+      expect(getLaunchProfile('claude')).toEqual(BUILTIN_PROFILES.claude);
+      expect(BUILTIN_PROFILES.claude).toEqual({ command: 'claude' });
+      expect(getLaunchProfile('codex')).toEqual({ command: 'codex' });
+    });
+
+    it('should let config.json define and replace profiles', () => {
+      vi.mocked(loadConfig).mockReturnValue({
+        server: '',
+        webUrl: '',
+        profiles: { claude: { command: 'claude', args: ['--verbose'] }, review: { command: 'codex', args: ['review'] } },
+      });
+
+      expect(getLaunchProfile('claude').args).toEqual(['--verbose']);
+      expect(getLaunchProfile('review')).toMatchObject({ command: 'codex', args: ['review'] });
+    });
+
+    it('should name the available profiles when one is unknown', () => {
+      expect(() => getLaunchProfile('nope')).toThrow('Unknown profile "nope". Available: claude, codex');
+      expect(() => getLaunchProfile('toString')).toThrow('Unknown profile');
+    });
+  });
+
+  describe('getDefaultProfileName', () => {
+    it('should default to claude unless config names another', () => {
+      expect(getDefaultProfileName()).toBe('claude');
+
+      vi.mocked(loadConfig).mockReturnValue({ server: '', webUrl: '', defaultProfile: 'review' });
+      expect(getDefaultProfileName()).toBe('review');
+    });
+  });
+
+  describe('resolveProfilePath', () => {
+    it('should resolve the home directory and relative paths', () => {
+      expect(resolveProfilePath('~')).toBe(homedir());
+      expect(resolveProfilePath('~/work')).toBe(`${homedir()}/work`);
+      expect(resolveProfilePath('app', '/srv')).toBe('/srv/app');
+      expect(resolveProfilePath('/tmp/x', '/srv')).toBe('/tmp/x');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { homedir } from 'os';
+import { resolve } from 'path';
+import { parseInputPolicy, type InputPolicyConfig } from '@always-coder/shared';
+import { loadConfig } from './index.js';
+
+/**
+ * How to launch a session, named in config.json under `profiles`
+ */
+export interface LaunchProfile {
+  command: string;
+  /** Put before any arguments given on the command line */
+  args?: string[];
+  /** Added to the environment of the session's terminal windows */
+  env?: Record<string, string>;
+  /** Working directory; `~` and relative paths are resolved (default: where `always` runs) */
+  cwd?: string;
+  /** Rules for web client input, checked before the config-wide inputPolicy */
+  inputPolicy?: InputPolicyConfig;
+  /** Record the session to this asciicast file, like --record */
+  record?: string;
+  /** Include input in the recording, like --record-input */
+  recordInput?: boolean;
+}
+
+/**
+ * Profiles every install has; a profile of the same name in config.json replaces one
+ * `claude` is what plain `always` runs unless config sets `defaultProfile`.
+ * They run the agent as it is; flags such as skipping its permission prompts
+ * are for the user to opt into in their own profile.
+ */
+export const BUILTIN_PROFILES: Record<string, LaunchProfile> = {
+  claude: { command: 'claude' },
+  codex: { command: 'codex' },
+};
+
+/**
+ * Validate a profile read from config.json
+ * @throws Error naming the profile and the field that is wrong
+ */
+export function parseLaunchProfile(name: string, raw: unknown): LaunchProfile {
+  const fail = (message: string): never => {
+    throw new Error(`Profile "${name}": ${message}`);
+  };
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail('must be an object');
+  const profile = raw as Record<string, unknown>;
+
+  if (typeof profile.command !== 'string' || profile.command.trim() === '') fail('command must be a non-empty string');
+  if (profile.args !== undefined && !isStringArray(profile.args)) fail('args must be a list of strings');
+  if (
+    profile.env !== undefined &&
+    (typeof profile.env !== 'object' ||
+      profile.env === null ||
+      !Object.values(profile.env).every((value) => typeof value === 'string'))
+  ) {
+    fail('env must map names to strings');
+  }
+  if (profile.cwd !== undefined && typeof profile.cwd !== 'string') fail('cwd must be a string');
+  if (profile.record !== undefined && typeof profile.record !== 'string') fail('record must be a file path');
+  if (profile.recordInput !== undefined && typeof profile.recordInput !== 'boolean') fail('recordInput must be a boolean');
+
+  let inputPolicy: InputPolicyConfig | undefined;
+  if (profile.inputPolicy !== undefined) {
+    try {
+      inputPolicy = parseInputPolicy(profile.inputPolicy);
+    } catch (error) {
+      fail((error as Error).message);
+    }
+  }
+
+  return { ...(profile as unknown as LaunchProfile), inputPolicy };
+}
+
+/**
+ * Profiles from config.json together with the built-in ones, unvalidated
+ */
+export function listLaunchProfiles(): Record<string, unknown> {
+  return { ...BUILTIN_PROFILES, ...loadConfig().profiles };
+}
+
+/**
+ * Get a profile by name
+ * @throws Error if there is no such profile or it isn't valid
+ */
+export function getLaunchProfile(name: string): LaunchProfile {
+  const profiles = listLaunchProfiles();
+  if (!Object.prototype.hasOwnProperty.call(profiles, name)) {
+    throw new Error(`Unknown profile "${name}". Available: ${Object.keys(profiles).join(', ')}`);
+  }
+  return parseLaunchProfile(name, profiles[name]);
+}
+
+/**
+ * Name of the profile plain `always` runs
+ */
+export function getDefaultProfileName(): string {
+  return loadConfig().defaultProfile || 'claude';
+}
+
+/**
+ * Resolve a path from a profile the way a shell would: `~` is the home directory,
+ * relative paths start from `base`
+ */
+export function resolveProfilePath(path: string, base: string = process.cwd()): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return resolve(homedir(), path.slice(2));
+  }
+  return resolve(base, path);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
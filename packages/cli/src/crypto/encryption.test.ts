@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { E2ECrypto, MessageType, ReplayDetectedError, createMessage, getCapabilities } from '@always-coder/shared';
+import { EncryptionManager } from './encryption.js';
+
+describe('EncryptionManager', () => {
+  let encryption: EncryptionManager;
+  let browserA: E2ECrypto;
+  let browserB: E2ECrypto;
+
+  // Join like a browser: derive the key, then follow the binding KEY_ROTATE
+  function join(connectionId: string, browser: E2ECrypto, compression?: 'deflate'): void {
+    const binding = encryption.addClient(connectionId, browser.getPublicKey(), compression);
+    browser.establishSharedKey(encryption.getPublicKey());
+    const rotate = browser.decrypt(binding);
+    expect(rotate.type).toBe(MessageType.KEY_ROTATE);
+    browser.acceptRotatedKey((rotate.payload as { publicKey: string }).publicKey, false);
+  }
+
+  beforeEach(() => {
+    encryption = new EncryptionManager('ABC234');
+    browserA = new E2ECrypto();
+    browserB = new E2ECrypto();
+  });
+
+  it('should not be ready until a client joins', () => {
+    expect(encryption.isReady()).toBe(false);
+
+    join('web-a', browserA);
+
+    expect(encryption.isReady()).toBe(true);
+    expect(encryption.getClientPublicKey('web-a')).toBe(browserA.getPublicKey());
+  });
+
+  it('should keep existing clients working when another joins', () => {
+    join('web-a', browserA);
+    const before = encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'one');
+
+    join('web-b', browserB);
+    const after = encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'two');
+
+    expect(browserA.decrypt(before).payload).toBe('one');
+    expect(browserA.decrypt(after).payload).toBe('two');
+    expect(after.recipientId).toBe('web-a');
+    expect(() => browserB.decrypt(after)).toThrow('Decryption failed');
+  });
+
+  it('should encrypt one envelope per client', () => {
+    join('web-a', browserA);
+    join('web-b', browserB);
+
+    const envelopes = encryption.encryptForAll(MessageType.TERMINAL_OUTPUT, 'hello', 'win-1');
+
+    expect(envelopes.map((e) => e.recipientId)).toEqual(['web-a', 'web-b']);
+    const [forA, forB] = envelopes;
+    expect(browserA.decrypt(forA)).toMatchObject({ payload: 'hello', windowId: 'win-1' });
+    expect(browserB.decrypt(forB)).toMatchObject({ payload: 'hello', windowId: 'win-1' });
+  });
+
+  it('should compress output only for clients that support it', () => {
+    join('web-a', browserA, 'deflate');
+    join('web-b', browserB);
+    const output = 'Compiling always-coder v1.1.2\r\n'.repeat(200);
+
+    const [forA, forB] = encryption.encryptForAll(MessageType.TERMINAL_OUTPUT, output);
+
+    expect(forA.ciphertext.length).toBeLessThan(forB.ciphertext.length / 10);
+    expect(browserA.decrypt(forA).payload).toBe(output);
+    expect(browserB.decrypt(forB).payload).toBe(output);
+  });
+
+  it('should skip clients that don\'t handle a message type', () => {
+    join('web-a', browserA);
+    const capabilities = {
+      ...getCapabilities(),
+      messageTypes: getCapabilities().messageTypes.filter((type) => type !== MessageType.HISTORY_CHUNK),
+    };
+    encryption.addClient('web-b', browserB.getPublicKey(), undefined, capabilities);
+
+    const envelopes = encryption.encryptForAll(MessageType.HISTORY_CHUNK, {});
+
+    expect(envelopes.map((e) => e.recipientId)).toEqual(['web-a']);
+    expect(encryption.supports('web-a', MessageType.HISTORY_CHUNK)).toBe(true);
+    expect(encryption.supports('web-b', MessageType.HISTORY_CHUNK)).toBe(false);
+    expect(encryption.supports('web-b', MessageType.TERMINAL_OUTPUT)).toBe(true);
+  });
+
+  it('should advertise its codecs when binding a key', () => {
+    const binding = encryption.addClient('web-a', browserA.getPublicKey());
+    browserA.establishSharedKey(encryption.getPublicKey());
+
+    expect(browserA.decrypt(binding).payload).toMatchObject({ compression: ['deflate'] });
+  });
+
+  it('should decrypt with the sending connection key', () => {
+    join('web-a', browserA);
+    join('web-b', browserB);
+
+    const envelope = browserB.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1), 'ABC234');
+
+    expect(encryption.decrypt({ ...envelope, connectionId: 'web-b' }).payload).toBe('ls\r');
+    expect(() => encryption.decrypt({ ...envelope, connectionId: 'web-a' })).toThrow('Decryption failed');
+    expect(() => encryption.decrypt(envelope)).toThrow('No shared key');
+  });
+
+  it('should reject a captured input envelope sent again', () => {
+    join('web-a', browserA);
+    const captured = { ...browserA.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'rm -rf build\r', 1), 'ABC234'), connectionId: 'web-a' };
+
+    expect(encryption.decrypt(captured).payload).toBe('rm -rf build\r');
+    expect(() => encryption.decrypt(captured)).toThrow(ReplayDetectedError);
+  });
+
+  it('should reject its own output reflected back by the relay', () => {
+    join('web-a', browserA);
+    const output = encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'Password: ');
+
+    expect(browserA.decrypt(output).from).toBe('cli');
+    expect(() => encryption.decrypt({ ...output, connectionId: 'web-a' })).toThrow(ReplayDetectedError);
+  });
+
+  it('should accept reordered input inside the window', () => {
+    join('web-a', browserA);
+    const [first, second] = [1, 2].map((seq) => ({
+      ...browserA.encrypt(createMessage(MessageType.TERMINAL_INPUT, `input ${seq}`, seq), 'ABC234'),
+      connectionId: 'web-a',
+    }));
+
+    expect(encryption.decrypt(second).payload).toBe('input 2');
+    expect(encryption.decrypt(first).payload).toBe('input 1');
+    expect(() => encryption.decrypt(first)).toThrow(ReplayDetectedError);
+  });
+
+  it('should not accept input from an earlier connection of the same page', () => {
+    join('web-a', browserA);
+    const captured = browserA.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1), 'ABC234');
+    encryption.removeClient('web-a');
+
+    // The page reconnects with the same key pair on a new connection
+    const reloaded = new E2ECrypto(browserA.getSecretKey());
+    join('web-b', reloaded);
+
+    expect(() => encryption.decrypt({ ...captured, connectionId: 'web-b' })).toThrow('Decryption failed');
+  });
+
+  it('should forget clients that left', () => {
+    join('web-a', browserA);
+
+    encryption.removeClient('web-a');
+
+    expect(encryption.isReady()).toBe(false);
+    expect(encryption.encryptForAll(MessageType.TERMINAL_OUTPUT, 'hello')).toEqual([]);
+    expect(() => encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'hello')).toThrow('No shared key');
+  });
+
+  describe('key rotation', () => {
+    beforeEach(() => {
+      encryption = new EncryptionManager('ABC234', { messages: 3, interval: 60_000 });
+    });
+
+    it('should be due after the message count or the interval', () => {
+      join('web-a', browserA);
+      join('web-b', browserB);
+      expect(encryption.getClientsDueForRotation()).toEqual([]);
+
+      for (let i = 0; i < 3; i++) {
+        encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'x');
+      }
+
+      expect(encryption.getClientsDueForRotation()).toEqual(['web-a']);
+      expect(encryption.getClientsDueForRotation(Date.now() + 60_000)).toEqual(['web-a', 'web-b']);
+    });
+
+    it('should hand the client a new key it can follow', () => {
+      join('web-a', browserA);
+      const beforeRotation = browserA.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'early', 1), 'ABC234');
+
+      const rotate = browserA.decrypt(encryption.rotateKey('web-a'));
+      expect(rotate.type).toBe(MessageType.KEY_ROTATE);
+      browserA.acceptRotatedKey((rotate.payload as { publicKey: string }).publicKey);
+
+      const output = encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'after');
+      expect(browserA.decrypt(output).payload).toBe('after');
+      expect(encryption.getClientsDueForRotation()).toEqual([]);
+
+      // Input sent before the browser switched is still accepted
+      expect(encryption.decrypt({ ...beforeRotation, connectionId: 'web-a' }).payload).toBe('early');
+      const input = browserA.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'late', 2), 'ABC234');
+      expect(encryption.decrypt({ ...input, connectionId: 'web-a' }).payload).toBe('late');
+    });
+
+    it('should not expose rotated traffic to the long-term keys', () => {
+      join('web-a', browserA);
+      browserA.acceptRotatedKey(
+        (browserA.decrypt(encryption.rotateKey('web-a')).payload as { publicKey: string }).publicKey
+      );
+
+      const output = encryption.encryptFor('web-a', MessageType.TERMINAL_OUTPUT, 'secret');
+
+      const leaked = new E2ECrypto(browserA.getSecretKey());
+      leaked.establishSharedKey(encryption.getPublicKey());
+      expect(() => leaked.decrypt(output)).toThrow('Decryption failed');
+    });
+  });
+});
@@ -1,23 +1,82 @@
 import {
   E2ECrypto,
+  MessageType,
+  PROTOCOL,
+  ReplayWindow,
+  SUPPORTED_COMPRESSION,
   generateSessionId,
+  createMessage,
+  supportsMessageType,
+  type Capabilities,
   type Message,
   type EncryptedEnvelope,
+  type CompressionCodec,
+  type KeyRotatePayload,
 } from '@always-coder/shared';
 
+/**
+ * Shared key with one web client
+ */
+interface ClientKey {
+  publicKey: string;
+  crypto: E2ECrypto;
+  // Codec the client can decompress, if any
+  compression?: CompressionCodec;
+  // What the client sent in its handshake; absent for older web apps
+  capabilities?: Capabilities;
+  // Sequence numbers received from the client
+  replay: ReplayWindow;
+  // Messages encrypted and time since the key was established or rotated
+  messageCount: number;
+  keyCreatedAt: number;
+}
+
+/**
+ * When to rotate a client's shared key
+ */
+export interface KeyRotationPolicy {
+  /** Rotate after this many messages to the client */
+  messages: number;
+  /** Rotate once the key is this old (ms) */
+  interval: number;
+}
+
 /**
  * Encryption manager for CLI
  * Wraps E2ECrypto with session-specific functionality
+ *
+ * The CLI keeps one key pair for the session but a separate shared key per
+ * web connection, so a browser joining never re-keys the ones already there.
+ * Output is encrypted once per client and addressed with `recipientId`.
+ *
+ * Shared keys are rotated per the policy with KEY_ROTATE: the client's key is
+ * ratcheted with a fresh ephemeral key whose secret is wiped right after, so the
+ * long-term key pair - including one persisted for reconnects - can't decrypt
+ * traffic sent after the first rotation.
+ *
+ * A first rotation right on join binds the key to the connection: a page keeps
+ * its key pair when it reconnects, so without it envelopes from an earlier
+ * connection could be replayed into a new one, past its fresh replay window.
+ * That first KEY_ROTATE also tells the client which codecs the CLI can decompress;
+ * messages to a client are compressed with the codec it advertised when joining.
  */
 export class EncryptionManager {
   private crypto: E2ECrypto;
   private sessionId: string;
   private sequenceNumber: number = 0;
-  private webPublicKey: string | null = null;
+  private clients: Map<string, ClientKey> = new Map();
+  private rotationPolicy: KeyRotationPolicy;
 
-  constructor(sessionId?: string) {
+  constructor(
+    sessionId?: string,
+    rotationPolicy: KeyRotationPolicy = {
+      messages: PROTOCOL.KEY_ROTATION_MESSAGES,
+      interval: PROTOCOL.KEY_ROTATION_INTERVAL,
+    }
+  ) {
     this.crypto = new E2ECrypto();
     this.sessionId = sessionId || generateSessionId();
+    this.rotationPolicy = rotationPolicy;
   }
 
   /**
@@ -35,52 +94,136 @@ export class EncryptionManager {
   }
 
   /**
-   * Check if encryption is ready (shared key established)
+   * Check if encryption is ready (shared key established with at least one client)
    */
   isReady(): boolean {
-    return this.crypto.hasSharedKey();
+    return this.clients.size > 0;
   }
 
   /**
-   * Establish shared key with web client
+   * Establish (or replace) the shared key with a web client
+   * @param compression - Codec negotiated from what the client advertised
+   * @returns KEY_ROTATE envelope binding the key to this connection; send it first
    */
-  establishSharedKey(webPublicKey: string): void {
-    this.crypto.establishSharedKey(webPublicKey);
-    this.webPublicKey = webPublicKey;
+  addClient(
+    connectionId: string,
+    webPublicKey: string,
+    compression?: CompressionCodec,
+    capabilities?: Capabilities
+  ): EncryptedEnvelope {
+    const crypto = new E2ECrypto(this.crypto.getSecretKey());
+    crypto.establishSharedKey(webPublicKey);
+    this.clients.set(connectionId, {
+      publicKey: webPublicKey,
+      crypto,
+      compression,
+      capabilities,
+      replay: new ReplayWindow(),
+      messageCount: 0,
+      keyCreatedAt: Date.now(),
+    });
+    // The client waits for this before sending, so the unbound key needn't be kept
+    return this.rotateKey(connectionId, false);
   }
 
   /**
-   * Check if the web public key has changed (web client refreshed and has new keypair)
+   * Forget a web client's shared key
    */
-  isWebKeyChanged(newWebPublicKey: string): boolean {
-    return this.webPublicKey !== null && this.webPublicKey !== newWebPublicKey;
+  removeClient(connectionId: string): void {
+    this.clients.delete(connectionId);
+  }
+
+  /**
+   * Check if a shared key exists for the connection
+   */
+  hasClient(connectionId: string): boolean {
+    return this.clients.has(connectionId);
+  }
+
+  /**
+   * Whether a web client handles a message type, going by its capabilities
+   */
+  supports(connectionId: string, type: string): boolean {
+    return supportsMessageType(this.clients.get(connectionId)?.capabilities, type);
+  }
+
+  /**
+   * Get the public key a web client joined with
+   */
+  getClientPublicKey(connectionId: string): string | undefined {
+    return this.clients.get(connectionId)?.publicKey;
+  }
+
+  /**
+   * Connections whose shared key is due for rotation
+   */
+  getClientsDueForRotation(now: number = Date.now()): string[] {
+    const { messages, interval } = this.rotationPolicy;
+    return Array.from(this.clients)
+      .filter(([, client]) => client.messageCount >= messages || now - client.keyCreatedAt >= interval)
+      .map(([connectionId]) => connectionId);
+  }
+
+  /**
+   * Rotate a client's shared key
+   * @param keepPrevious - Accept messages the client sent with the old key until the next rotation
+   * @returns KEY_ROTATE envelope (encrypted with the old key) to send before anything else
+   */
+  rotateKey(connectionId: string, keepPrevious = true): EncryptedEnvelope {
+    const client = this.clients.get(connectionId);
+    if (!client) {
+      throw new Error(`No shared key for connection ${connectionId}`);
+    }
+    const ephemeral = new E2ECrypto();
+    const payload: KeyRotatePayload = { publicKey: ephemeral.getPublicKey(), compression: [...SUPPORTED_COMPRESSION] };
+    const envelope = this.encryptFor(connectionId, MessageType.KEY_ROTATE, payload);
+
+    client.crypto.rotateSharedKey(ephemeral.getSecretKey(), keepPrevious);
+    client.messageCount = 0;
+    client.keyCreatedAt = Date.now();
+    return envelope;
   }
 
   /**
-   * Re-establish shared key with new web public key (for reconnection with new keypair)
+   * Encrypt a message for one web client
+   * @param windowId - Terminal window the message belongs to (TERMINAL_* messages)
    */
-  reestablishSharedKey(webPublicKey: string): void {
-    this.crypto.establishSharedKey(webPublicKey);
-    this.webPublicKey = webPublicKey;
+  encryptFor<T>(connectionId: string, type: string, payload: T, windowId?: string): EncryptedEnvelope {
+    const client = this.clients.get(connectionId);
+    if (!client) {
+      throw new Error(`No shared key for connection ${connectionId}`);
+    }
+    const message = createMessage(type as Message['type'], payload, ++this.sequenceNumber, windowId, 'cli');
+    client.messageCount++;
+    return { ...client.crypto.encrypt(message, this.sessionId, client.compression), recipientId: connectionId };
   }
 
   /**
-   * Encrypt a message for sending
+   * Encrypt a message for every web client that handles its type, one envelope each
+   * @param windowId - Terminal window the message belongs to (TERMINAL_* messages)
    */
-  encrypt<T>(type: string, payload: T): EncryptedEnvelope {
-    const message: Message<T> = {
-      type: type as Message['type'],
-      payload,
-      seq: ++this.sequenceNumber,
-    };
-    return this.crypto.encrypt(message, this.sessionId);
+  encryptForAll<T>(type: string, payload: T, windowId?: string): EncryptedEnvelope[] {
+    const message = createMessage(type as Message['type'], payload, ++this.sequenceNumber, windowId, 'cli');
+    return Array.from(this.clients)
+      .filter(([, client]) => supportsMessageType(client.capabilities, type))
+      .map(([connectionId, client]) => {
+        client.messageCount++;
+        return { ...client.crypto.encrypt(message, this.sessionId, client.compression), recipientId: connectionId };
+      });
   }
 
   /**
-   * Decrypt a received message
+   * Decrypt a message received from a web client (relay sets `connectionId`)
+   * @throws ReplayDetectedError if the message was received before or is one of ours reflected back
    */
   decrypt(envelope: EncryptedEnvelope): Message {
-    return this.crypto.decrypt(envelope);
+    const client = envelope.connectionId ? this.clients.get(envelope.connectionId) : undefined;
+    if (!client) {
+      throw new Error(`No shared key for connection ${envelope.connectionId ?? '(unknown)'}`);
+    }
+    const message = client.crypto.decrypt(envelope);
+    client.replay.accept(message, 'web');
+    return message;
   }
 
   /**
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { E2ECrypto, getDeviceKeyProofData, getKeyFingerprint } from '@always-coder/shared';
+import { getConfigDir } from '../config/index.js';
+import {
+  listTrustedDevices,
+  isTrustedDevice,
+  trustDevice,
+  forgetTrustedDevice,
+  verifyDeviceIdentity,
+} from './trust.js';
+
+vi.mock('../config/index.js', () => ({
+  getConfigDir: vi.fn(),
+}));
+
+describe('trusted devices', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'always-trust-'));
+    vi.mocked(getConfigDir).mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start with no trusted devices', () => {
+    expect(listTrustedDevices()).toEqual([]);
+    expect(isTrustedDevice(new E2ECrypto().getPublicKey())).toBe(false);
+  });
+
+  it('should remember trusted keys in a private file', () => {
+    const key = new E2ECrypto().getPublicKey();
+
+    trustDevice(key, 'dev@example.com');
+    trustDevice(key, 'dev@example.com');
+
+    expect(isTrustedDevice(key)).toBe(true);
+    expect(listTrustedDevices()).toHaveLength(1);
+    expect(listTrustedDevices()[0]).toMatchObject({ fingerprint: getKeyFingerprint(key), label: 'dev@example.com' });
+    expect(statSync(join(dir, 'trusted-devices.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it('should forget devices by fingerprint prefix', () => {
+    const kept = new E2ECrypto().getPublicKey();
+    const forgotten = new E2ECrypto().getPublicKey();
+    trustDevice(kept);
+    trustDevice(forgotten);
+
+    const fingerprint = getKeyFingerprint(forgotten);
+    expect(forgetTrustedDevice(fingerprint.slice(0, 9).toLowerCase())).toHaveLength(1);
+
+    expect(isTrustedDevice(forgotten)).toBe(false);
+    expect(isTrustedDevice(kept)).toBe(true);
+    expect(forgetTrustedDevice('')).toEqual([]);
+  });
+
+  describe('verifyDeviceIdentity', () => {
+    // Signs the way the browser does, with a WebCrypto ECDSA key
+    async function signAsBrowser(connectionKey: string) {
+      const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, [
+        'sign',
+        'verify',
+      ]);
+      const signature = await crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        privateKey,
+        getDeviceKeyProofData(connectionKey)
+      );
+      return {
+        publicKey: Buffer.from(await crypto.subtle.exportKey('raw', publicKey)).toString('base64'),
+        signature: Buffer.from(signature).toString('base64'),
+      };
+    }
+
+    it('should return the identity key when it signed the connection key', async () => {
+      const connectionKey = new E2ECrypto().getPublicKey();
+      const device = await signAsBrowser(connectionKey);
+
+      expect(verifyDeviceIdentity(connectionKey, device)).toBe(device.publicKey);
+    });
+
+    it('should refuse a signature over another key or a malformed identity', async () => {
+      const connectionKey = new E2ECrypto().getPublicKey();
+      const device = await signAsBrowser(connectionKey);
+
+      expect(verifyDeviceIdentity(new E2ECrypto().getPublicKey(), device)).toBeNull();
+      expect(verifyDeviceIdentity(connectionKey, { ...device, publicKey: connectionKey })).toBeNull();
+      expect(verifyDeviceIdentity(connectionKey, { ...device, signature: 'AAAA' })).toBeNull();
+      expect(verifyDeviceIdentity(connectionKey)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { join } from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { createPublicKey, verify } from 'crypto';
+import { getDeviceKeyProofData, getKeyFingerprint, type DeviceIdentity } from '@always-coder/shared';
+import { getConfigDir } from '../config/index.js';
+
+/**
+ * Browser device the user verified with the short authentication string
+ */
+export interface TrustedDevice {
+  publicKey: string;
+  fingerprint: string;
+  /** Who/what the device was when it was trusted (email or user agent) */
+  label?: string;
+  trustedAt: number;
+}
+
+function getTrustedDevicesPath(): string {
+  return join(getConfigDir(), 'trusted-devices.json');
+}
+
+/**
+ * Load all trusted devices
+ */
+export function listTrustedDevices(): TrustedDevice[] {
+  const path = getTrustedDevicesPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+  try {
+    const devices = JSON.parse(readFileSync(path, 'utf-8'));
+    return Array.isArray(devices) ? devices : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveTrustedDevices(devices: TrustedDevice[]): void {
+  writeFileSync(getTrustedDevicesPath(), JSON.stringify(devices, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Check a browser's identity signature over the key it joined with
+ * Browsers make a new connection key on every page load; the identity key is
+ * what stays the same, so trust and approvals follow it.
+ * @returns the identity key, or null if the signature doesn't hold
+ */
+export function verifyDeviceIdentity(connectionKey: string, device?: DeviceIdentity): string | null {
+  if (!device) return null;
+  try {
+    const point = Buffer.from(device.publicKey, 'base64');
+    if (point.length !== 65 || point[0] !== 0x04) return null;
+    const key = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    const valid = verify(
+      'sha256',
+      getDeviceKeyProofData(connectionKey),
+      { key, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(device.signature, 'base64')
+    );
+    return valid ? device.publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a device key was verified before
+ */
+export function isTrustedDevice(publicKey: string): boolean {
+  return listTrustedDevices().some((device) => device.publicKey === publicKey);
+}
+
+/**
+ * Remember a verified device key for future sessions
+ */
+export function trustDevice(publicKey: string, label?: string): TrustedDevice {
+  const device: TrustedDevice = {
+    publicKey,
+    fingerprint: getKeyFingerprint(publicKey),
+    label,
+    trustedAt: Date.now(),
+  };
+  saveTrustedDevices([...listTrustedDevices().filter((d) => d.publicKey !== publicKey), device]);
+  return device;
+}
+
+/**
+ * Forget trusted devices whose fingerprint starts with the given prefix
+ * (spaces and case are ignored)
+ * @returns the forgotten devices
+ */
+export function forgetTrustedDevice(fingerprint: string): TrustedDevice[] {
+  const normalize = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+  const prefix = normalize(fingerprint);
+  if (!prefix) return [];
+
+  const devices = listTrustedDevices();
+  const forgotten = devices.filter((d) => normalize(d.fingerprint).startsWith(prefix));
+  if (forgotten.length > 0) {
+    saveTrustedDevices(devices.filter((d) => !forgotten.includes(d)));
+  }
+  return forgotten;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { DetachKeys, DETACH_PREFIX } from './attach.js';
+
+describe('DetachKeys', () => {
+  it('should pass ordinary input through', () => {
+    expect(new DetachKeys().feed('ls -la\r')).toEqual({ input: 'ls -la\r', detach: false });
+  });
+
+  it('should detach on Ctrl+B d and drop what follows', () => {
+    expect(new DetachKeys().feed(`echo${DETACH_PREFIX}dmore`)).toEqual({ input: 'echo', detach: true });
+  });
+
+  it('should recognise the sequence split across chunks', () => {
+    const keys = new DetachKeys();
+
+    expect(keys.feed(`x${DETACH_PREFIX}`)).toEqual({ input: 'x', detach: false });
+    expect(keys.feed('d')).toEqual({ input: '', detach: true });
+  });
+
+  it('should send Ctrl+B itself when doubled or followed by another key', () => {
+    const keys = new DetachKeys();
+
+    expect(keys.feed(`${DETACH_PREFIX}${DETACH_PREFIX}`)).toEqual({ input: DETACH_PREFIX, detach: false });
+    expect(keys.feed(`${DETACH_PREFIX}c`)).toEqual({ input: `${DETACH_PREFIX}c`, detach: false });
+  });
+});
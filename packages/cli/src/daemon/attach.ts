@@ -0,0 +1,102 @@
+import { openAttachChannel, type AttachFrame } from './protocol.js';
+
+/**
+ * First key of the detach sequence (Ctrl+B), followed by d, like tmux
+ */
+export const DETACH_PREFIX = '\x02';
+
+// Leave the alternate screen, show the cursor and reset attributes and paste mode
+const RESTORE_TERMINAL = '\x1b[?1049l\x1b[?25h\x1b[?2004l\x1b[0m';
+
+/**
+ * Picks the detach sequence out of local input
+ *
+ * Ctrl+B then d detaches; Ctrl+B twice sends a single Ctrl+B; Ctrl+B then any
+ * other key sends both. The prefix may arrive in a different chunk than the key.
+ */
+export class DetachKeys {
+  private pending = false;
+
+  /**
+   * @returns the input to forward to the session, and whether to detach after it
+   */
+  feed(data: string): { input: string; detach: boolean } {
+    let input = '';
+    for (const char of data) {
+      if (this.pending) {
+        this.pending = false;
+        if (char === 'd') {
+          return { input, detach: true };
+        }
+        input += char === DETACH_PREFIX ? DETACH_PREFIX : DETACH_PREFIX + char;
+      } else if (char === DETACH_PREFIX) {
+        this.pending = true;
+      } else {
+        input += char;
+      }
+    }
+    return { input, detach: false };
+  }
+}
+
+/**
+ * Connect this terminal to a daemon session until detached or the session ends
+ * @throws DaemonRequestError if the session can't be attached
+ */
+export async function attachSession(
+  socketPath: string,
+  sessionId: string
+): Promise<{ sessionId: string; reason: 'detached' | 'ended' }> {
+  const { channel, sessionId: attachedId } = await openAttachChannel(socketPath, {
+    sessionId,
+    cols: process.stdout.columns || 80,
+    rows: process.stdout.rows || 24,
+  });
+  const keys = new DetachKeys();
+  let reason: 'detached' | 'ended' = 'ended';
+
+  const onInput = (data: Buffer) => {
+    const { input, detach } = keys.feed(data.toString());
+    if (input) {
+      channel.send({ type: 'input', data: input });
+    }
+    if (detach) {
+      reason = 'detached';
+      channel.send({ type: 'detach' });
+      channel.close();
+    }
+  };
+  const onResize = () => {
+    const { columns, rows } = process.stdout;
+    if (columns && rows) {
+      channel.send({ type: 'resize', cols: columns, rows });
+    }
+  };
+
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+  }
+  process.stdin.resume();
+  process.stdin.on('data', onInput);
+  process.stdout.on('resize', onResize);
+
+  channel.on('frame', (frame: AttachFrame) => {
+    if (frame.type === 'output') {
+      process.stdout.write(frame.data);
+    }
+  });
+
+  return new Promise((resolve) => {
+    channel.open();
+    channel.on('close', () => {
+      process.stdin.off('data', onInput);
+      process.stdout.off('resize', onResize);
+      if (process.stdin.isTTY) {
+        process.stdin.setRawMode(false);
+      }
+      process.stdin.pause();
+      process.stdout.write(RESTORE_TERMINAL + '\n');
+      resolve({ sessionId: attachedId, reason });
+    });
+  });
+}
@@ -1,30 +1,43 @@
 import { spawn } from 'child_process';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync, openSync } from 'fs';
+import { existsSync, mkdirSync, openSync } from 'fs';
 import { join } from 'path';
+import type { InputPolicyConfig } from '@always-coder/shared';
 import { getConfigDir } from '../config/index.js';
+import {
+  sendDaemonRequest,
+  type DaemonHealth,
+  type DaemonMethod,
+  type DaemonMethods,
+  type SupervisedSessionInfo,
+} from './protocol.js';
+
+export {
+  DaemonRequestError,
+  type DaemonSession,
+  type DaemonHealth,
+  type SupervisedSessionInfo,
+  type SupervisedSessionState,
+} from './protocol.js';
 
 /**
- * Daemon session info
+ * Session options forwarded to the supervisor
  */
-export interface DaemonSession {
-  sessionId: string;
-  pid: number;
-  command: string;
-  args: string[];
-  startedAt: number;
-  webUrl: string;
-  logFile: string;
-  // Instance identification
-  instanceId?: string;
-  hostname?: string;
-  instanceLabel?: string;
+export interface DaemonStartOptions {
+  /** Absolute path of the asciicast recording */
+  recordFile?: string;
+  recordInput?: boolean;
+  /** Working directory of the terminal (default: process.cwd()) */
+  cwd?: string;
+  /** Added to the terminal's environment, over the caller's own */
+  env?: Record<string, string>;
+  inputPolicy?: InputPolicyConfig;
 }
 
 /**
- * Get the sessions directory path
+ * Get the logs directory path
  */
-export function getSessionsDir(): string {
-  const dir = join(getConfigDir(), 'sessions');
+export function getLogsDir(): string {
+  const dir = join(getConfigDir(), 'logs');
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
@@ -32,236 +45,146 @@ export function getSessionsDir(): string {
 }
 
 /**
- * Get the logs directory path
+ * Get the supervisor control socket path
  */
-export function getLogsDir(): string {
-  const dir = join(getConfigDir(), 'logs');
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
-  }
-  return dir;
+export function getDaemonSocketPath(): string {
+  return join(getConfigDir(), 'daemon.sock');
 }
 
 /**
- * Get session file path
+ * Get the supervisor's own log file
  */
-export function getSessionFile(sessionId: string): string {
-  return join(getSessionsDir(), `${sessionId}.json`);
+export function getDaemonLogFile(): string {
+  return join(getLogsDir(), 'daemon.log');
 }
 
 /**
- * Save daemon session info
+ * This process's environment, for a session to run in
+ * The supervisor's own is whatever environment started it, maybe long ago.
  */
-export function saveDaemonSession(session: DaemonSession): void {
-  const filePath = getSessionFile(session.sessionId);
-  writeFileSync(filePath, JSON.stringify(session, null, 2));
+function getCallerEnv(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+}
+
+function request<M extends DaemonMethod>(
+  method: M,
+  params: DaemonMethods[M]['params'],
+  timeoutMs?: number
+): Promise<DaemonMethods[M]['result']> {
+  return sendDaemonRequest(getDaemonSocketPath(), { method, params }, timeoutMs);
 }
 
 /**
- * Load daemon session info
+ * Get supervisor health
+ * @returns null if no supervisor is running
  */
-export function loadDaemonSession(sessionId: string): DaemonSession | null {
-  const filePath = getSessionFile(sessionId);
-  if (!existsSync(filePath)) {
-    return null;
-  }
+export async function getDaemonHealth(): Promise<DaemonHealth | null> {
   try {
-    return JSON.parse(readFileSync(filePath, 'utf-8'));
+    return await request('status', undefined);
   } catch {
     return null;
   }
 }
 
 /**
- * Delete daemon session info
+ * Start the supervisor in the background unless one is already running
  */
-export function deleteDaemonSession(sessionId: string): void {
-  const filePath = getSessionFile(sessionId);
-  if (existsSync(filePath)) {
-    unlinkSync(filePath);
-  }
-}
+export async function ensureDaemon(timeoutMs: number = 10000): Promise<DaemonHealth> {
+  const running = await getDaemonHealth();
+  if (running) return running;
 
-/**
- * List all daemon sessions
- */
-export function listDaemonSessions(): DaemonSession[] {
-  const sessionsDir = getSessionsDir();
-  const sessions: DaemonSession[] = [];
+  // Get the path to the current script
+  const scriptPath = process.argv[1];
+  const logFile = getDaemonLogFile();
+  const out = openSync(logFile, 'a');
+  const err = openSync(logFile, 'a');
 
-  try {
-    const files = readdirSync(sessionsDir);
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        const filePath = join(sessionsDir, file);
-        try {
-          const session = JSON.parse(readFileSync(filePath, 'utf-8')) as DaemonSession;
-          sessions.push(session);
-        } catch {
-          // Skip invalid files
-        }
-      }
-    }
-  } catch {
-    // Directory might not exist
-  }
+  // Use setsid to create a new session, which prevents SIGHUP from being sent
+  // to the PTY child processes when the parent terminal closes
+  const child = spawn('setsid', ['-f', process.execPath, scriptPath, 'daemon'], {
+    detached: true,
+    stdio: ['ignore', out, err],
+    env: { ...process.env, ALWAYS_CODER_DAEMON: 'true' },
+  });
+  child.unref();
 
-  return sessions;
+  const startTime = Date.now();
+  while (Date.now() - startTime < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const health = await getDaemonHealth();
+    if (health) return health;
+  }
+  throw new Error(`Daemon did not start; see ${logFile}`);
 }
 
 /**
- * Check if a process is running
+ * Start a background session, starting the supervisor first if needed
+ * @returns the session once it is connected to the server
  */
-export function isProcessRunning(pid: number): boolean {
-  try {
-    process.kill(pid, 0);
-    return true;
-  } catch {
-    return false;
-  }
+export async function startDaemon(
+  command: string,
+  args: string[],
+  serverUrl?: string,
+  options: DaemonStartOptions = {}
+): Promise<SupervisedSessionInfo> {
+  await ensureDaemon();
+  return request(
+    'start',
+    {
+      command,
+      args,
+      cwd: options.cwd || process.cwd(),
+      env: { ...getCallerEnv(), ...options.env },
+      serverUrl,
+      recordFile: options.recordFile,
+      recordInput: options.recordInput,
+      inputPolicy: options.inputPolicy,
+    },
+    15000
+  );
 }
 
 /**
- * Clean up stale sessions (processes that are no longer running)
+ * List sessions owned by the supervisor
+ * @returns an empty list if no supervisor is running
  */
-export function cleanupStaleSessions(): void {
-  const sessions = listDaemonSessions();
-  for (const session of sessions) {
-    if (!isProcessRunning(session.pid)) {
-      deleteDaemonSession(session.sessionId);
-    }
-  }
+export async function listDaemonSessions(): Promise<SupervisedSessionInfo[]> {
+  if (!(await getDaemonHealth())) return [];
+  return request('list', undefined);
 }
 
 /**
- * Stop a daemon session
+ * Find a session by ID or ID prefix
  */
-export function stopDaemonSession(sessionId: string): boolean {
-  const session = loadDaemonSession(sessionId);
-  if (!session) {
-    return false;
-  }
-
-  try {
-    process.kill(session.pid, 'SIGTERM');
-    deleteDaemonSession(sessionId);
-    return true;
-  } catch {
-    // Process might already be dead
-    deleteDaemonSession(sessionId);
-    return false;
-  }
+export async function findDaemonSession(sessionId: string): Promise<SupervisedSessionInfo | undefined> {
+  const sessions = await listDaemonSessions();
+  return sessions.find((s) => s.sessionId === sessionId) || sessions.find((s) => s.sessionId.startsWith(sessionId));
 }
 
 /**
- * Stop all daemon sessions and clean up
+ * Stop a daemon session
  */
-export function cleanAllSessions(): { stopped: number; cleaned: number } {
-  const sessions = listDaemonSessions();
-  let stopped = 0;
-  let cleaned = 0;
-
-  for (const session of sessions) {
-    if (isProcessRunning(session.pid)) {
-      try {
-        process.kill(session.pid, 'SIGTERM');
-        stopped++;
-      } catch {
-        // Process might have died between check and kill
-      }
-    }
-    deleteDaemonSession(session.sessionId);
-    cleaned++;
-  }
-
-  return { stopped, cleaned };
+export async function stopDaemonSession(sessionId: string): Promise<boolean> {
+  if (!(await getDaemonHealth())) return false;
+  const { stopped } = await request('stop', { sessionId });
+  return stopped;
 }
 
 /**
- * Wait for a new session to be created by the daemon process
+ * Stop all daemon sessions (the supervisor keeps running)
  */
-export async function waitForSession(
-  pid: number,
-  timeoutMs: number = 10000
-): Promise<DaemonSession | null> {
-  const startTime = Date.now();
-  const checkInterval = 200; // Check every 200ms
-
-  while (Date.now() - startTime < timeoutMs) {
-    // Check if process is still running
-    if (!isProcessRunning(pid)) {
-      return null;
-    }
-
-    // Look for a session file with this PID
-    const sessions = listDaemonSessions();
-    const session = sessions.find((s) => s.pid === pid);
-    if (session) {
-      return session;
-    }
-
-    // Wait before checking again
-    await new Promise((resolve) => setTimeout(resolve, checkInterval));
-  }
-
-  return null;
+export async function cleanAllSessions(): Promise<{ stopped: number }> {
+  if (!(await getDaemonHealth())) return { stopped: 0 };
+  return request('clean', undefined);
 }
 
 /**
- * Start a daemon process
+ * Stop the supervisor and every session it owns
+ * @returns null if no supervisor was running
  */
-export function startDaemon(
-  command: string,
-  args: string[],
-  serverUrl?: string
-): { sessionId: string; pid: number; logFile: string } {
-  const logsDir = getLogsDir();
-  const timestamp = Date.now();
-  const logFile = join(logsDir, `session-${timestamp}.log`);
-
-  // Get the path to the current script
-  const scriptPath = process.argv[1];
-
-  // Build arguments for the daemon process
-  const daemonArgs = [
-    scriptPath,
-    command,
-    ...args,
-    '--daemon-child', // Internal flag to indicate this is a daemon child
-  ];
-
-  if (serverUrl) {
-    daemonArgs.push('--server', serverUrl);
-  }
-
-  // Pass log file path via environment
-  const env = {
-    ...process.env,
-    ALWAYS_CODER_DAEMON: 'true',
-    ALWAYS_CODER_LOG_FILE: logFile,
-  };
-
-  // Open log file for stdout/stderr
-  const stdoutLog = join(logsDir, `session-${timestamp}-stdout.log`);
-  const out = openSync(stdoutLog, 'a');
-  const err = openSync(stdoutLog, 'a');
-
-  // Use setsid to create a new session, which prevents SIGHUP from being sent
-  // to the PTY child processes when the parent terminal closes
-  const child = spawn('setsid', ['-f', process.execPath, ...daemonArgs], {
-    detached: true,
-    stdio: ['ignore', out, err],
-    env,
-  });
-
-  child.unref();
-
-  // Generate a temporary session ID (will be replaced by actual session ID)
-  const tempSessionId = `daemon-${timestamp}`;
-
-  return {
-    sessionId: tempSessionId,
-    pid: child.pid!,
-    logFile,
-  };
+export async function shutdownDaemon(): Promise<{ stopped: number } | null> {
+  if (!(await getDaemonHealth())) return null;
+  return request('shutdown', undefined);
 }
@@ -0,0 +1,364 @@
+import { EventEmitter } from 'events';
+import { createConnection, createServer, type Server, type Socket } from 'net';
+import type { AgentStatePayload, InputPolicyConfig } from '@always-coder/shared';
+
+/**
+ * Session as reported by the daemon supervisor
+ */
+export interface DaemonSession {
+  sessionId: string;
+  /** Supervisor process that owns the session */
+  pid: number;
+  command: string;
+  args: string[];
+  startedAt: number;
+  webUrl: string;
+  /** Read-only share link */
+  viewerUrl?: string;
+  logFile: string;
+  // Instance identification
+  instanceId?: string;
+  hostname?: string;
+  instanceLabel?: string;
+}
+
+/**
+ * Lifecycle of a supervised session
+ * - starting: connecting to the server
+ * - running: waiting for or serving web clients
+ * - restarting: crashed, waiting out the backoff before starting again
+ * - failed: crashed too often; left in the list until stopped
+ */
+export type SupervisedSessionState = 'starting' | 'running' | 'restarting' | 'failed';
+
+/**
+ * Session entry in `list` replies
+ */
+export interface SupervisedSessionInfo extends DaemonSession {
+  state: SupervisedSessionState;
+  /** Restarts after a crash so far */
+  restarts: number;
+  webClients: number;
+  /** What the coding agent in the main window is doing, when it runs one */
+  agent?: AgentStatePayload;
+  /** Exit code of the last crash */
+  lastExitCode?: number;
+  lastError?: string;
+}
+
+/**
+ * What to run in a new supervised session
+ */
+export interface DaemonSessionSpec {
+  command: string;
+  args: string[];
+  /** Working directory of the terminal (the caller's) */
+  cwd: string;
+  /** Added to the terminal's environment: the caller's own, then its profile's */
+  env?: Record<string, string>;
+  serverUrl?: string;
+  /** Absolute path of the asciicast recording */
+  recordFile?: string;
+  recordInput?: boolean;
+  inputPolicy?: InputPolicyConfig;
+}
+
+/**
+ * Supervisor health for `always daemon status`
+ */
+export interface DaemonHealth {
+  pid: number;
+  startedAt: number;
+  socketPath: string;
+  sessions: Record<SupervisedSessionState, number>;
+  /** Restarts across all sessions since the supervisor started */
+  restarts: number;
+  memoryRss: number;
+}
+
+/**
+ * Local terminal attaching to a session
+ */
+export interface AttachParams {
+  /** Session ID or a unique prefix of it */
+  sessionId: string;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Messages on an attached connection, after the `attach` reply
+ * - output: daemon → client, active window output
+ * - exit: daemon → client, the session ended
+ * - input, resize, detach: client → daemon
+ */
+export type AttachFrame =
+  | { type: 'output'; data: string }
+  | { type: 'exit' }
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number }
+  | { type: 'detach' };
+
+/**
+ * Requests the supervisor answers, with their params and results
+ */
+export interface DaemonMethods {
+  status: { params: undefined; result: DaemonHealth };
+  list: { params: undefined; result: SupervisedSessionInfo[] };
+  start: { params: DaemonSessionSpec; result: SupervisedSessionInfo };
+  /** Session ID or a unique prefix of it */
+  stop: { params: { sessionId: string }; result: { stopped: boolean } };
+  clean: { params: undefined; result: { stopped: number } };
+  shutdown: { params: undefined; result: { stopped: number } };
+  /** Keeps the connection open for AttachFrames once answered */
+  attach: { params: AttachParams; result: { sessionId: string } };
+}
+
+export type DaemonMethod = keyof DaemonMethods;
+
+export interface DaemonRequest<M extends DaemonMethod = DaemonMethod> {
+  method: M;
+  params: DaemonMethods[M]['params'];
+}
+
+export type DaemonResponse<M extends DaemonMethod = DaemonMethod> =
+  | { ok: true; result: DaemonMethods[M]['result'] }
+  | { ok: false; error: string };
+
+/**
+ * Error answered by the supervisor (as opposed to failing to reach it)
+ */
+export class DaemonRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DaemonRequestError';
+  }
+}
+
+// A start request carries the caller's whole environment, which the kernel caps
+// together with the arguments at ARG_MAX (usually 2MB); anything bigger is not from our client
+const MAX_REQUEST_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Send one request to the supervisor socket and wait for its reply
+ *
+ * One newline-terminated JSON request per connection, answered the same way.
+ * @throws DaemonRequestError if the supervisor refused the request
+ */
+export function sendDaemonRequest<M extends DaemonMethod>(
+  socketPath: string,
+  request: DaemonRequest<M>,
+  timeoutMs: number = 5000
+): Promise<DaemonMethods[M]['result']> {
+  return new Promise((resolve, reject) => {
+    const line = JSON.stringify(request) + '\n';
+    if (line.length > MAX_REQUEST_SIZE) {
+      const size = Math.ceil(line.length / 1024);
+      reject(new Error(`Daemon ${request.method} request is too large (${size}KB, at most ${MAX_REQUEST_SIZE / 1024}KB)`));
+      return;
+    }
+
+    const socket = createConnection(socketPath);
+    let buffer = '';
+
+    // Decode whole characters even when one is split across chunks
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(new Error(`Daemon did not answer ${request.method} within ${timeoutMs}ms`));
+    });
+    socket.on('connect', () => {
+      socket.write(line);
+    });
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      const end = buffer.indexOf('\n');
+      if (end === -1) return;
+
+      socket.end();
+      try {
+        const response = JSON.parse(buffer.slice(0, end)) as DaemonResponse<M>;
+        if (response.ok) {
+          resolve(response.result);
+        } else {
+          reject(new DaemonRequestError(response.error));
+        }
+      } catch {
+        reject(new Error('Invalid reply from daemon'));
+      }
+    });
+    socket.on('error', reject);
+    socket.on('close', () => reject(new Error('Daemon closed the connection without answering')));
+  });
+}
+
+/**
+ * Attached terminal connection carrying newline-delimited AttachFrames
+ *
+ * Frames sent before `open()` are held, so the daemon's first output can't
+ * overtake its reply to the attach request.
+ */
+export class AttachChannel extends EventEmitter {
+  private socket: Socket;
+  private buffer: string;
+  private held: string[] | null = [];
+
+  constructor(socket: Socket, buffered: string = '') {
+    super();
+    this.socket = socket;
+    this.buffer = buffered;
+    socket.on('data', (data) => {
+      this.buffer += data.toString();
+      this.readFrames();
+    });
+    socket.on('close', () => this.emit('close'));
+    socket.on('error', () => {
+      // Other end went away; 'close' follows
+    });
+  }
+
+  /**
+   * Start sending and delivering frames
+   */
+  open(): void {
+    for (const line of this.held ?? []) {
+      this.socket.write(line);
+    }
+    this.held = null;
+    this.readFrames();
+    this.socket.resume();
+  }
+
+  send(frame: AttachFrame): void {
+    if (this.socket.destroyed) return;
+    const line = JSON.stringify(frame) + '\n';
+    if (this.held) {
+      this.held.push(line);
+    } else {
+      this.socket.write(line);
+    }
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private readFrames(): void {
+    if (this.held) return;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 1);
+      try {
+        this.emit('frame', JSON.parse(line) as AttachFrame);
+      } catch {
+        // Ignore malformed frames
+      }
+    }
+  }
+}
+
+/**
+ * Open an attached connection to a session
+ * Call `open()` on the channel once its listeners are in place.
+ * @throws DaemonRequestError if the supervisor refused the attach
+ */
+export function openAttachChannel(socketPath: string, params: AttachParams): Promise<{
+  channel: AttachChannel;
+  sessionId: string;
+}> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath);
+    let buffer = '';
+    socket.setEncoding('utf8');
+
+    const onData = (data: Buffer | string) => {
+      buffer += data.toString();
+      const end = buffer.indexOf('\n');
+      if (end === -1) return;
+
+      socket.off('data', onData);
+      socket.off('close', onClose);
+      try {
+        const response = JSON.parse(buffer.slice(0, end)) as DaemonResponse<'attach'>;
+        if (!response.ok) {
+          socket.end();
+          reject(new DaemonRequestError(response.error));
+          return;
+        }
+        resolve({ channel: new AttachChannel(socket, buffer.slice(end + 1)), sessionId: response.result.sessionId });
+      } catch {
+        socket.destroy();
+        reject(new Error('Invalid reply from daemon'));
+      }
+    };
+    const onClose = () => reject(new Error('Daemon closed the connection without answering'));
+
+    socket.on('connect', () => {
+      socket.write(JSON.stringify({ method: 'attach', params }) + '\n');
+    });
+    socket.on('data', onData);
+    socket.on('error', reject);
+    socket.on('close', onClose);
+  });
+}
+
+/**
+ * Answer requests on a Unix socket
+ * Errors thrown by the handlers are sent back to the client. An `attach`
+ * request keeps the connection open as an AttachChannel.
+ */
+export function serveDaemonRequests(
+  handler: (request: DaemonRequest) => Promise<unknown>,
+  attach?: (params: AttachParams, channel: AttachChannel) => DaemonMethods['attach']['result']
+): Server {
+  return createServer((socket) => {
+    let buffer = '';
+    socket.setEncoding('utf8');
+
+    const onData = async (data: Buffer | string) => {
+      buffer += data.toString();
+      if (buffer.length > MAX_REQUEST_SIZE) {
+        socket.off('data', onData);
+        socket.end(JSON.stringify({ ok: false, error: 'Request too large' }) + '\n');
+        return;
+      }
+      const end = buffer.indexOf('\n');
+      if (end === -1) return;
+      socket.off('data', onData);
+      socket.pause();
+
+      let request: DaemonRequest;
+      try {
+        request = JSON.parse(buffer.slice(0, end)) as DaemonRequest;
+      } catch {
+        socket.end(JSON.stringify({ ok: false, error: 'Invalid request' }) + '\n');
+        return;
+      }
+
+      if (request.method === 'attach' && attach) {
+        const channel = new AttachChannel(socket, buffer.slice(end + 1));
+        try {
+          const result = attach(request.params as AttachParams, channel);
+          socket.write(JSON.stringify({ ok: true, result }) + '\n');
+          channel.open();
+        } catch (error) {
+          socket.end(JSON.stringify({ ok: false, error: error instanceof Error ? error.message : String(error) }) + '\n');
+        }
+        return;
+      }
+
+      let response: DaemonResponse;
+      try {
+        response = { ok: true, result: await handler(request) } as DaemonResponse;
+      } catch (error) {
+        response = { ok: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      socket.end(JSON.stringify(response) + '\n');
+    };
+
+    socket.on('data', onData);
+    socket.on('error', () => {
+      // Client went away before the reply
+    });
+  });
+}
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Supervisor, type SupervisedSession } from './supervisor.js';
+import {
+  DaemonRequestError,
+  openAttachChannel,
+  sendDaemonRequest,
+  type AttachFrame,
+  type DaemonSession,
+  type DaemonSessionSpec,
+} from './protocol.js';
+import { startDaemon } from './index.js';
+import { getConfigDir } from '../config/index.js';
+import type { AttachedTerminal } from '../session/manager.js';
+
+vi.mock('../session/manager.js', () => ({
+  SessionManager: vi.fn(),
+}));
+
+vi.mock('../config/index.js', () => ({
+  getConfigDir: vi.fn(),
+}));
+
+class FakeSession extends EventEmitter implements SupervisedSession {
+  static created: FakeSession[] = [];
+  start = vi.fn().mockResolvedValue(undefined);
+  close = vi.fn();
+  info: DaemonSession;
+  attached: AttachedTerminal | null = null;
+  attachment = { input: vi.fn(), resize: vi.fn(), detach: vi.fn() };
+
+  constructor(public spec: DaemonSessionSpec, logFile: string, public scrollbackDir: string = '') {
+    super();
+    this.info = {
+      sessionId: `SESS${FakeSession.created.length}`,
+      pid: process.pid,
+      command: spec.command,
+      args: spec.args,
+      startedAt: Date.now(),
+      webUrl: `https://example.com/join?id=SESS${FakeSession.created.length}`,
+      logFile,
+    };
+    FakeSession.created.push(this);
+  }
+
+  getDaemonSession(): DaemonSession {
+    return this.info;
+  }
+
+  getConnectedClientCount(): number {
+    return 0;
+  }
+
+  getAgentState(): null {
+    return null;
+  }
+
+  attachTerminal(terminal: AttachedTerminal) {
+    this.attached = terminal;
+    terminal.write('screen');
+    return this.attachment;
+  }
+}
+
+describe('Supervisor', () => {
+  const spec: DaemonSessionSpec = { command: 'claude', args: [], cwd: '/work' };
+  let dir: string;
+  let supervisor: Supervisor;
+
+  function latest(): FakeSession {
+    return FakeSession.created[FakeSession.created.length - 1];
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'always-daemon-'));
+    FakeSession.created = [];
+    supervisor = new Supervisor({
+      logsDir: dir,
+      sessionsDir: join(dir, 'sessions'),
+      createSession: (sessionSpec, logFile, scrollbackDir) => new FakeSession(sessionSpec, logFile, scrollbackDir),
+      maxRestarts: 2,
+      restartDelay: 100,
+      log: () => {},
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await supervisor.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report a session once it is running', async () => {
+    const session = await supervisor.startSession(spec);
+
+    expect(session).toMatchObject({ sessionId: 'SESS0', state: 'running', restarts: 0 });
+    expect(session.logFile.startsWith(dir)).toBe(true);
+    expect(supervisor.listSessions()).toHaveLength(1);
+    expect(supervisor.getHealth().sessions).toMatchObject({ running: 1, failed: 0 });
+  });
+
+  it('should forget sessions that fail to start', async () => {
+    const failing = new Supervisor({
+      logsDir: dir,
+      sessionsDir: dir,
+      createSession: (sessionSpec, logFile) => {
+        const session = new FakeSession(sessionSpec, logFile);
+        session.start.mockRejectedValue(new Error('server unreachable'));
+        return session;
+      },
+      log: () => {},
+    });
+
+    await expect(failing.startSession(spec)).rejects.toThrow('server unreachable');
+    expect(failing.listSessions()).toEqual([]);
+  });
+
+  it('should end a session whose command exits cleanly', async () => {
+    await supervisor.startSession(spec);
+
+    latest().emit('terminal:exit', 0);
+
+    expect(supervisor.listSessions()).toEqual([]);
+  });
+
+  it('should restart a crashed session with backoff', async () => {
+    vi.useFakeTimers();
+    await supervisor.startSession({ ...spec, recordFile: '/work/demo.cast' });
+
+    latest().emit('terminal:exit', 1);
+    expect(supervisor.listSessions()[0]).toMatchObject({ state: 'restarting', restarts: 1, lastExitCode: 1 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSession.created).toHaveLength(2);
+    // The crashed run's recording is kept
+    expect(latest().spec.recordFile).toBe('/work/demo.1.cast');
+    expect(supervisor.listSessions()[0]).toMatchObject({ sessionId: 'SESS1', state: 'running', restarts: 1 });
+
+    latest().emit('terminal:exit', 1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSession.created).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSession.created).toHaveLength(3);
+    expect(supervisor.getHealth().restarts).toBe(2);
+  });
+
+  it('should keep scrollback across restarts until the session is stopped', async () => {
+    vi.useFakeTimers();
+    await supervisor.startSession(spec);
+    const { scrollbackDir } = latest();
+    expect(scrollbackDir.startsWith(join(dir, 'sessions'))).toBe(true);
+    mkdirSync(scrollbackDir, { recursive: true });
+
+    latest().emit('terminal:exit', 1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(latest().scrollbackDir).toBe(scrollbackDir);
+    expect(existsSync(scrollbackDir)).toBe(true);
+
+    expect(supervisor.stopSession('SESS1')).toBe(true);
+    expect(existsSync(scrollbackDir)).toBe(false);
+  });
+
+  it('should give up on a session that keeps crashing', async () => {
+    vi.useFakeTimers();
+    await supervisor.startSession(spec);
+
+    for (let i = 0; i < 3; i++) {
+      latest().emit('terminal:exit', 139);
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(FakeSession.created).toHaveLength(3);
+    expect(supervisor.listSessions()[0]).toMatchObject({ state: 'failed', lastExitCode: 139 });
+    expect(supervisor.getHealth().sessions.failed).toBe(1);
+  });
+
+  it('should stop sessions by unique ID prefix', async () => {
+    await supervisor.startSession(spec);
+    await supervisor.startSession(spec);
+    const [first] = FakeSession.created;
+
+    expect(supervisor.stopSession('SESS')).toBe(false);
+    expect(supervisor.stopSession('SESS0')).toBe(true);
+
+    expect(first.close).toHaveBeenCalled();
+    expect(supervisor.listSessions().map((s) => s.sessionId)).toEqual(['SESS1']);
+    expect(supervisor.stopAll()).toBe(1);
+  });
+
+  describe('control socket', () => {
+    let socketPath: string;
+
+    beforeEach(() => {
+      socketPath = join(dir, 'daemon.sock');
+    });
+
+    it('should answer requests from clients', async () => {
+      // Scrollback of a previous supervisor's session, with nothing to start it with
+      mkdirSync(join(dir, 'sessions', 'session-1-1'), { recursive: true });
+      await supervisor.listen(socketPath);
+      expect(existsSync(join(dir, 'sessions', 'session-1-1'))).toBe(false);
+      expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+
+      const started = await sendDaemonRequest(socketPath, { method: 'start', params: spec });
+      expect(started.sessionId).toBe('SESS0');
+      expect(FakeSession.created[0].spec.cwd).toBe('/work');
+
+      const sessions = await sendDaemonRequest(socketPath, { method: 'list', params: undefined });
+      expect(sessions.map((s) => s.sessionId)).toEqual(['SESS0']);
+
+      const health = await sendDaemonRequest(socketPath, { method: 'status', params: undefined });
+      expect(health).toMatchObject({ pid: process.pid, socketPath, restarts: 0 });
+
+      await expect(sendDaemonRequest(socketPath, { method: 'stop', params: { sessionId: 'SESS0' } }))
+        .resolves.toEqual({ stopped: true });
+    });
+
+    it('should start the sessions of a supervisor that was killed again in their scrollback', async () => {
+      await supervisor.startSession(spec);
+      const { scrollbackDir } = latest();
+      writeFileSync(join(scrollbackDir, 'main.log'), 'earlier output');
+      // Left by a supervisor long ago
+      const expired = join(dir, 'sessions', 'session-1-1');
+      mkdirSync(expired);
+      writeFileSync(join(expired, 'spec.json'), JSON.stringify(spec));
+      const longAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+      utimesSync(join(expired, 'spec.json'), longAgo, longAgo);
+      utimesSync(expired, longAgo, longAgo);
+      await supervisor.close();
+      expect(existsSync(scrollbackDir)).toBe(true);
+
+      supervisor = new Supervisor({
+        logsDir: dir,
+        sessionsDir: join(dir, 'sessions'),
+        createSession: (sessionSpec, logFile, scrollbackDir) => new FakeSession(sessionSpec, logFile, scrollbackDir),
+        log: () => {},
+      });
+      await supervisor.listen(socketPath);
+
+      await vi.waitFor(() => expect(supervisor.listSessions()).toHaveLength(1));
+      expect(latest().spec).toEqual(spec);
+      expect(latest().scrollbackDir).toBe(scrollbackDir);
+      expect(readFileSync(join(scrollbackDir, 'main.log'), 'utf-8')).toBe('earlier output');
+      expect(existsSync(expired)).toBe(false);
+    });
+
+    it('should run a session in the environment of the caller that started it', async () => {
+      vi.mocked(getConfigDir).mockReturnValue(dir);
+      process.env.ALWAYS_TEST_CALLER_VAR = 'from the caller';
+      await supervisor.listen(socketPath);
+
+      try {
+        await startDaemon('claude', [], undefined, { cwd: '/work', env: { PROFILE_VAR: 'from the profile' } });
+      } finally {
+        delete process.env.ALWAYS_TEST_CALLER_VAR;
+      }
+
+      expect(latest().spec.env).toMatchObject({
+        ALWAYS_TEST_CALLER_VAR: 'from the caller',
+        PROFILE_VAR: 'from the profile',
+      });
+    });
+
+    it('should take the environment of a caller with a large shell environment', async () => {
+      vi.mocked(getConfigDir).mockReturnValue(dir);
+      await supervisor.listen(socketPath);
+      const env = { LARGE_VAR: 'x'.repeat(512 * 1024) };
+
+      await startDaemon('claude', [], undefined, { cwd: '/work', env });
+      expect(latest().spec.env).toMatchObject(env);
+
+      await expect(
+        sendDaemonRequest(socketPath, { method: 'start', params: { ...spec, env: { LARGE_VAR: 'x'.repeat(5 * 1024 * 1024) } } })
+      ).rejects.toThrow('Daemon start request is too large');
+    });
+
+    it('should stream an attached terminal until the session ends', async () => {
+      await supervisor.listen(socketPath);
+      await supervisor.startSession(spec);
+      const session = latest();
+
+      const { channel, sessionId } = await openAttachChannel(socketPath, { sessionId: 'SESS', cols: 100, rows: 30 });
+      const frames: AttachFrame[] = [];
+      channel.on('frame', (frame: AttachFrame) => frames.push(frame));
+      const closed = new Promise((resolve) => channel.on('close', resolve));
+      channel.open();
+      expect(sessionId).toBe('SESS0');
+
+      channel.send({ type: 'input', data: 'ls\r' });
+      channel.send({ type: 'resize', cols: 120, rows: 40 });
+      await vi.waitFor(() => expect(session.attachment.resize).toHaveBeenCalledWith(120, 40));
+      expect(session.attachment.input).toHaveBeenCalledWith('ls\r');
+
+      session.attached!.write('more');
+      session.attached!.end();
+      await closed;
+      expect(frames).toEqual([
+        { type: 'output', data: 'screen' },
+        { type: 'output', data: 'more' },
+        { type: 'exit' },
+      ]);
+      await vi.waitFor(() => expect(session.attachment.detach).toHaveBeenCalled());
+    });
+
+    it('should refuse to attach to unknown sessions', async () => {
+      await supervisor.listen(socketPath);
+
+      await expect(openAttachChannel(socketPath, { sessionId: 'NOPE', cols: 80, rows: 24 }))
+        .rejects.toThrow('Session NOPE not found');
+    });
+
+    it('should send request errors back to the client', async () => {
+      await supervisor.listen(socketPath);
+
+      await expect(
+        sendDaemonRequest(socketPath, { method: 'start', params: { command: 'claude' } as DaemonSessionSpec })
+      ).rejects.toThrow(DaemonRequestError);
+      await expect(
+        sendDaemonRequest(socketPath, {
+          method: 'start',
+          params: { ...spec, env: { PATH: 42 } as unknown as Record<string, string> },
+        })
+      ).rejects.toThrow('Invalid start request');
+      expect(FakeSession.created).toHaveLength(0);
+    });
+
+    it('should refuse to run twice but replace a stale socket', async () => {
+      await supervisor.listen(socketPath);
+      const second = new Supervisor({ logsDir: dir, sessionsDir: dir, log: () => {} });
+      await expect(second.listen(socketPath)).rejects.toThrow('already running');
+      await supervisor.close();
+
+      writeFileSync(socketPath, '');
+      await second.listen(socketPath);
+      await expect(sendDaemonRequest(socketPath, { method: 'list', params: undefined })).resolves.toEqual([]);
+      await second.close();
+    });
+  });
+});
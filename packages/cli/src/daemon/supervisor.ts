@@ -0,0 +1,507 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Server } from 'net';
+import type { AgentStatePayload } from '@always-coder/shared';
+import { SessionManager, type AttachedTerminal, type TerminalAttachment } from '../session/manager.js';
+import {
+  serveDaemonRequests,
+  sendDaemonRequest,
+  type AttachChannel,
+  type AttachFrame,
+  type AttachParams,
+  type DaemonHealth,
+  type DaemonRequest,
+  type DaemonSession,
+  type DaemonSessionSpec,
+  type SupervisedSessionInfo,
+  type SupervisedSessionState,
+} from './protocol.js';
+
+/**
+ * The part of SessionManager the supervisor drives
+ */
+export interface SupervisedSession {
+  start(): Promise<void>;
+  close(): void;
+  getDaemonSession(): DaemonSession | null;
+  getConnectedClientCount(): number;
+  getAgentState(): AgentStatePayload | null;
+  attachTerminal(terminal: AttachedTerminal, size: { cols: number; rows: number }): TerminalAttachment;
+  on(event: 'terminal:exit', listener: (exitCode: number) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * Supervisor options
+ */
+export interface SupervisorOptions {
+  /** Directory for per-session log files */
+  logsDir: string;
+  /** Directory for per-session scrollback, kept across restarts of a session */
+  sessionsDir: string;
+  /** Create the session for a spec (default: a daemon-mode SessionManager) */
+  createSession?: (spec: DaemonSessionSpec, logFile: string, scrollbackDir: string) => SupervisedSession;
+  /** Restarts allowed before a session is marked failed (default: 5) */
+  maxRestarts?: number;
+  /** First restart delay in ms, doubled on each further restart (default: 1000) */
+  restartDelay?: number;
+  /** A session up this long (ms) has its restart count reset (default: 60s) */
+  stableAfter?: number;
+  /** Sessions left by an earlier supervisor are started again unless idle this long (ms) (default: 24h) */
+  retention?: number;
+  log?: (message: string) => void;
+}
+
+interface Entry {
+  spec: DaemonSessionSpec;
+  logFile: string;
+  scrollbackDir: string;
+  session: SupervisedSession | null;
+  info: DaemonSession | null;
+  state: SupervisedSessionState;
+  restarts: number;
+  launches: number;
+  runningSince: number;
+  lastExitCode?: number;
+  lastError?: string;
+  restartTimer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_RESTART_DELAY = 30_000;
+
+// Kept in a session's scrollback directory, to start it again after the supervisor restarts
+const SPEC_FILE = 'spec.json';
+
+/**
+ * When anything in a directory last changed
+ */
+function getLastModified(dir: string): number {
+  return Math.max(statSync(dir).mtimeMs, ...readdirSync(dir).map((name) => statSync(join(dir, name)).mtimeMs));
+}
+
+function isTerminalSize(cols: unknown, rows: unknown): boolean {
+  return Number.isInteger(cols) && Number.isInteger(rows) && (cols as number) > 0 && (rows as number) > 0;
+}
+
+/**
+ * Long-lived process that owns every background session
+ *
+ * Sessions run in-process, each with its own PTY windows and WebSocket. A
+ * session whose command exits non-zero (or that fails to reconnect its
+ * terminal) is started again with exponential backoff; a clean exit ends it.
+ * A restarted session gets a new session ID and key pair, so web clients
+ * need the new link, but it keeps the crashed run's scrollback.
+ *
+ * Sessions outlive the supervisor too: one that stops without being asked to
+ * stop its sessions (a crash, a signal) starts them again the next time it
+ * runs, each with its scrollback.
+ */
+export class Supervisor {
+  private entries: Entry[] = [];
+  private options: Required<Omit<SupervisorOptions, 'createSession'>> & Pick<SupervisorOptions, 'createSession'>;
+  private startedAt = Date.now();
+  private totalRestarts = 0;
+  private server: Server | null = null;
+  private socketPath = '';
+  private sequence = 0;
+
+  constructor(options: SupervisorOptions) {
+    this.options = {
+      maxRestarts: 5,
+      restartDelay: 1000,
+      stableAfter: 60_000,
+      retention: 24 * 60 * 60 * 1000,
+      log: (message) => console.log(`[${new Date().toISOString()}] ${message}`),
+      ...options,
+    };
+  }
+
+  /**
+   * Start a new session and wait until it is connected to the server
+   */
+  async startSession(spec: DaemonSessionSpec): Promise<SupervisedSessionInfo> {
+    const entry = this.createEntry(`session-${Date.now()}-${++this.sequence}`, spec);
+    this.entries.push(entry);
+
+    try {
+      // Holds the caller's environment, so only this user may read it
+      mkdirSync(entry.scrollbackDir, { recursive: true, mode: 0o700 });
+      writeFileSync(join(entry.scrollbackDir, SPEC_FILE), JSON.stringify(spec), { mode: 0o600 });
+      await this.launch(entry);
+    } catch (error) {
+      // Nothing worked yet, so there is nothing to restart: report it instead
+      this.remove(entry);
+      throw error;
+    }
+    return this.describe(entry);
+  }
+
+  /**
+   * Stop a session by ID or unique ID prefix
+   */
+  stopSession(sessionId: string): boolean {
+    const entry = this.find(sessionId);
+    if (!entry) return false;
+
+    this.options.log(`Stopping session ${entry.info!.sessionId}`);
+    this.remove(entry);
+    return true;
+  }
+
+  /**
+   * Connect a local terminal to a running session
+   * @throws if the session doesn't exist or isn't running
+   */
+  attach(params: AttachParams, channel: AttachChannel): { sessionId: string } {
+    const { sessionId, cols, rows } = params ?? {};
+    if (typeof sessionId !== 'string' || !isTerminalSize(cols, rows)) {
+      throw new Error('Invalid attach request');
+    }
+    const entry = this.find(sessionId);
+    if (!entry) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (entry.state !== 'running' || !entry.session) {
+      throw new Error(`Session ${entry.info!.sessionId} is ${entry.state}`);
+    }
+
+    const attachment = entry.session.attachTerminal(
+      {
+        write: (data) => channel.send({ type: 'output', data }),
+        end: () => {
+          channel.send({ type: 'exit' });
+          channel.close();
+        },
+      },
+      { cols, rows }
+    );
+    channel.on('frame', (frame: AttachFrame) => {
+      switch (frame.type) {
+        case 'input':
+          if (typeof frame.data === 'string') attachment.input(frame.data);
+          break;
+        case 'resize':
+          if (isTerminalSize(frame.cols, frame.rows)) attachment.resize(frame.cols, frame.rows);
+          break;
+        case 'detach':
+          attachment.detach();
+          channel.close();
+          break;
+      }
+    });
+    channel.on('close', () => attachment.detach());
+    return { sessionId: entry.info!.sessionId };
+  }
+
+  /**
+   * Stop every session
+   * @returns number of sessions stopped
+   */
+  stopAll(): number {
+    const count = this.entries.length;
+    for (const entry of [...this.entries]) {
+      this.remove(entry);
+    }
+    return count;
+  }
+
+  /**
+   * Sessions in start order
+   */
+  listSessions(): SupervisedSessionInfo[] {
+    return this.entries.filter((entry) => entry.info).map((entry) => this.describe(entry));
+  }
+
+  /**
+   * Supervisor health
+   */
+  getHealth(): DaemonHealth {
+    const sessions: Record<SupervisedSessionState, number> = { starting: 0, running: 0, restarting: 0, failed: 0 };
+    for (const entry of this.entries) {
+      sessions[entry.state]++;
+    }
+    return {
+      pid: process.pid,
+      startedAt: this.startedAt,
+      socketPath: this.socketPath,
+      sessions,
+      restarts: this.totalRestarts,
+      memoryRss: process.memoryUsage().rss,
+    };
+  }
+
+  /**
+   * Answer requests on the control socket
+   * @throws if another supervisor is already listening there
+   */
+  async listen(socketPath: string): Promise<void> {
+    if (existsSync(socketPath)) {
+      const alive = await sendDaemonRequest(socketPath, { method: 'status', params: undefined }, 1000)
+        .then(() => true, () => false);
+      if (alive) {
+        throw new Error(`A daemon is already running on ${socketPath}`);
+      }
+      // Left behind by a supervisor that didn't shut down cleanly
+      unlinkSync(socketPath);
+    }
+    const orphans = this.findOrphanedSessions();
+
+    this.server = serveDaemonRequests(
+      (request) => this.handleRequest(request),
+      (params, channel) => this.attach(params, channel)
+    );
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(socketPath, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+    // Only this user may control the sessions
+    chmodSync(socketPath, 0o600);
+    this.socketPath = socketPath;
+    this.options.log(`Supervisor listening on ${socketPath}`);
+
+    for (const [name, spec] of orphans) {
+      this.restoreSession(name, spec);
+    }
+  }
+
+  /**
+   * Stop all sessions and the control socket
+   * Their scrollback is kept, so the next supervisor starts them again.
+   */
+  async close(): Promise<void> {
+    for (const entry of [...this.entries]) {
+      this.remove(entry, true);
+    }
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(request: DaemonRequest): Promise<unknown> {
+    switch (request.method) {
+      case 'status':
+        return this.getHealth();
+      case 'list':
+        return this.listSessions();
+      case 'start': {
+        const spec = request.params as DaemonSessionSpec;
+        if (
+          typeof spec?.command !== 'string' ||
+          typeof spec.cwd !== 'string' ||
+          !Array.isArray(spec.args) ||
+          !spec.args.every((arg) => typeof arg === 'string') ||
+          (spec.env !== undefined &&
+            (typeof spec.env !== 'object' ||
+              spec.env === null ||
+              Array.isArray(spec.env) ||
+              !Object.values(spec.env).every((value) => typeof value === 'string')))
+        ) {
+          throw new Error('Invalid start request');
+        }
+        return this.startSession(spec);
+      }
+      case 'stop': {
+        const { sessionId } = (request.params ?? {}) as { sessionId?: unknown };
+        return { stopped: typeof sessionId === 'string' && this.stopSession(sessionId) };
+      }
+      case 'clean':
+        return { stopped: this.stopAll() };
+      case 'shutdown': {
+        const stopped = this.stopAll();
+        // Reply first; the caller waits for the answer, not for the exit
+        setImmediate(() => {
+          this.close().then(() => process.exit(0));
+        });
+        return { stopped };
+      }
+      default:
+        throw new Error(`Unknown request: ${String((request as { method: unknown }).method)}`);
+    }
+  }
+
+  private find(sessionId: string): Entry | undefined {
+    if (!sessionId) return undefined;
+    const matches = this.entries.filter((entry) => entry.info?.sessionId.startsWith(sessionId));
+    const exact = matches.find((entry) => entry.info?.sessionId === sessionId);
+    return exact || (matches.length === 1 ? matches[0] : undefined);
+  }
+
+  private async launch(entry: Entry): Promise<void> {
+    let spec = entry.spec;
+    if (entry.launches++ > 0 && spec.recordFile) {
+      // Keep the recording up to the crash: demo.cast, demo.1.cast, ...
+      spec = { ...spec, recordFile: spec.recordFile.replace(/(\.cast)?$/, `.${entry.launches - 1}$1`) };
+    }
+    const session = this.options.createSession
+      ? this.options.createSession(spec, entry.logFile, entry.scrollbackDir)
+      : this.createSessionManager(spec, entry.logFile, entry.scrollbackDir);
+    entry.session = session;
+    entry.state = 'starting';
+
+    session.on('error', (error: Error) => {
+      entry.lastError = error.message;
+    });
+    session.on('terminal:exit', (exitCode: number) => {
+      // The session closes itself right after this
+      if (entry.session !== session) return;
+      entry.session = null;
+      if (exitCode === 0) {
+        this.options.log(`Session ${entry.info?.sessionId} exited`);
+        this.remove(entry);
+      } else {
+        this.crashed(entry, exitCode);
+      }
+    });
+
+    await session.start();
+    if (entry.session !== session) return;
+    entry.info = session.getDaemonSession();
+    entry.state = 'running';
+    entry.runningSince = Date.now();
+    this.options.log(`Session ${entry.info?.sessionId} running: ${entry.spec.command} ${entry.spec.args.join(' ')}`);
+  }
+
+  private crashed(entry: Entry, exitCode?: number, error?: unknown): void {
+    // Stopped while it was starting again
+    if (!this.entries.includes(entry)) return;
+    entry.lastExitCode = exitCode;
+    if (error) {
+      entry.lastError = error instanceof Error ? error.message : String(error);
+    }
+    if (Date.now() - entry.runningSince >= this.options.stableAfter) {
+      entry.restarts = 0;
+    }
+
+    if (entry.restarts >= this.options.maxRestarts) {
+      entry.state = 'failed';
+      this.options.log(`Session ${entry.info?.sessionId} failed ${entry.restarts + 1} times in a row; not restarting`);
+      return;
+    }
+
+    const delay = Math.min(this.options.restartDelay * 2 ** entry.restarts, MAX_RESTART_DELAY);
+    entry.state = 'restarting';
+    entry.restarts++;
+    this.totalRestarts++;
+    this.options.log(
+      `Session ${entry.info?.sessionId} crashed (${exitCode !== undefined ? `exit code ${exitCode}` : entry.lastError}); restarting in ${delay}ms`
+    );
+
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      this.launch(entry).catch((launchError) => {
+        entry.session?.close();
+        entry.session = null;
+        this.crashed(entry, undefined, launchError);
+      });
+    }, delay);
+  }
+
+  /**
+   * @param keepScrollback - Leave the session for the next supervisor to start again
+   */
+  private remove(entry: Entry, keepScrollback = false): void {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+    clearTimeout(entry.restartTimer);
+    const session = entry.session;
+    entry.session = null;
+    session?.close();
+    if (!keepScrollback) {
+      rmSync(entry.scrollbackDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Sessions an earlier supervisor left running, by name
+   * Scrollback without a spec (from before specs were kept) or idle past the
+   * retention age is removed instead.
+   */
+  private findOrphanedSessions(): [string, DaemonSessionSpec][] {
+    let names: string[];
+    try {
+      names = readdirSync(this.options.sessionsDir);
+    } catch {
+      return [];
+    }
+    const orphans: [string, DaemonSessionSpec][] = [];
+    for (const name of names) {
+      if (!name.startsWith('session-')) continue;
+      const dir = join(this.options.sessionsDir, name);
+      try {
+        if (Date.now() - getLastModified(dir) < this.options.retention) {
+          orphans.push([name, JSON.parse(readFileSync(join(dir, SPEC_FILE), 'utf-8')) as DaemonSessionSpec]);
+          continue;
+        }
+      } catch {
+        // No readable spec: nothing to start it with
+      }
+      rmSync(dir, { recursive: true, force: true });
+    }
+    return orphans;
+  }
+
+  /**
+   * Start a session left by an earlier supervisor again, in its scrollback
+   */
+  private restoreSession(name: string, spec: DaemonSessionSpec): void {
+    const entry = this.createEntry(name, spec);
+    // The recording of the earlier run is kept as well
+    entry.launches = 1;
+    this.entries.push(entry);
+    this.options.log(`Restoring session ${name}: ${spec.command} ${spec.args.join(' ')}`);
+    this.launch(entry).catch((error) => {
+      entry.session?.close();
+      entry.session = null;
+      this.crashed(entry, undefined, error);
+    });
+  }
+
+  private createEntry(name: string, spec: DaemonSessionSpec): Entry {
+    return {
+      spec,
+      logFile: join(this.options.logsDir, `${name}.log`),
+      scrollbackDir: join(this.options.sessionsDir, name),
+      session: null,
+      info: null,
+      state: 'starting',
+      restarts: 0,
+      launches: 0,
+      runningSince: 0,
+    };
+  }
+
+  private describe(entry: Entry): SupervisedSessionInfo {
+    return {
+      ...entry.info!,
+      state: entry.state,
+      restarts: entry.restarts,
+      webClients: entry.session?.getConnectedClientCount() ?? 0,
+      agent: entry.session?.getAgentState() ?? undefined,
+      lastExitCode: entry.lastExitCode,
+      lastError: entry.lastError,
+    };
+  }
+
+  private createSessionManager(spec: DaemonSessionSpec, logFile: string, scrollbackDir: string): SupervisedSession {
+    return new SessionManager({
+      command: spec.command,
+      args: spec.args.length > 0 ? spec.args : undefined,
+      cwd: spec.cwd,
+      env: spec.env,
+      serverUrl: spec.serverUrl,
+      daemon: true,
+      logFile,
+      recordFile: spec.recordFile,
+      recordInput: spec.recordInput,
+      inputPolicy: spec.inputPolicy,
+      scrollbackDir,
+    });
+  }
+}
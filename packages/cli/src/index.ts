@@ -19,20 +19,46 @@ import {
   fetchServerConfig,
   saveServerConfig,
   isServerConfigured,
+  getScrollbackSize,
+  getSessionsDir,
+  getInputPolicy,
+  getConfigPath,
 } from './config/index.js';
+import {
+  getLaunchProfile,
+  getDefaultProfileName,
+  listLaunchProfiles,
+  parseLaunchProfile,
+  resolveProfilePath,
+  type LaunchProfile,
+} from './config/profiles.js';
 import { login, logout, getCurrentUser } from './auth/cognito.js';
 import {
   startDaemon,
   listDaemonSessions,
+  findDaemonSession,
   stopDaemonSession,
-  cleanupStaleSessions,
   cleanAllSessions,
-  isProcessRunning,
-  waitForSession,
+  getDaemonHealth,
+  getDaemonSocketPath,
+  getLogsDir,
+  shutdownDaemon,
+  type SupervisedSessionInfo,
 } from './daemon/index.js';
+import { Supervisor } from './daemon/supervisor.js';
+import { attachSession } from './daemon/attach.js';
 import { getInstanceInfo, getInstanceDisplayName } from './utils/instance.js';
-import { fetchRemoteSessions } from './session/remote.js';
-import type { RemoteSessionInfo } from '@always-coder/shared';
+import { fetchRemoteSessions, updateSessionInvites } from './session/remote.js';
+import { playRecording } from './recording/player.js';
+import { displayViewerQRCode } from './qrcode/generator.js';
+import { listTrustedDevices, forgetTrustedDevice } from './crypto/trust.js';
+import {
+  parseAsciicast,
+  getAsciicastDuration,
+  type AgentStatePayload,
+  type InputPolicyConfig,
+  type RemoteSessionInfo,
+} from '@always-coder/shared';
 
 // In daemon mode, ignore SIGHUP early to prevent termination
 if (process.env.ALWAYS_CODER_DAEMON === 'true') {
@@ -86,20 +112,42 @@ program
 // Main command: wrap a command (using default command to avoid conflict with subcommands)
 program
   .command('run [command] [args...]', { isDefault: true })
-  .description('Run a command with remote terminal access (default: claude)')
+  .description('Run a command with remote terminal access (default: the claude profile)')
+  .option('-p, --profile <name>', 'Launch with a profile (see "always profiles"); arguments are added to its own')
   .option('-s, --server <url>', 'WebSocket server URL')
   .option('-d, --daemon', 'Run in background (daemon mode)')
-  .option('--daemon-child', 'Internal flag for daemon child process')
+  .option('--record <file>', 'Record the session to an asciicast v2 file')
+  .option('--record-input', 'Include keyboard input in the recording')
+  .option('--require-approval', 'Approve each web client on this terminal before it connects')
   .allowUnknownOption()  // Pass unknown options through to the child command
-  .action(async (command: string | undefined, args: string[], options: { server?: string; daemon?: boolean; daemonChild?: boolean }) => {
+  .action(async (command: string | undefined, args: string[], options: { profile?: string; server?: string; daemon?: boolean; record?: string; recordInput?: boolean; requireApproval?: boolean }) => {
+    // Without a command, the default profile says what to run; a command that
+    // names a profile (e.g. `always claude`) runs that profile
+    const namesProfile = !options.profile && !!command && Object.prototype.hasOwnProperty.call(listLaunchProfiles(), command);
+    const profileName = options.profile ?? (namesProfile ? command : command ? undefined : getDefaultProfileName());
+    let profile: LaunchProfile | undefined;
+    let inputPolicy: InputPolicyConfig | undefined;
+    if (profileName) {
+      try {
+        profile = getLaunchProfile(profileName);
+        // The profile's rules go before the config-wide ones
+        if (profile.inputPolicy) {
+          inputPolicy = { rules: [...profile.inputPolicy.rules, ...(getInputPolicy()?.rules ?? [])] };
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    }
+
     // Handle command that contains spaces (e.g., "sleep 300")
-    let cmd = command || 'claude';
-    let cmdArgs = args;
+    let cmd = profile ? profile.command : command!;
+    let cmdArgs = profile ? [...(profile.args ?? []), ...(command && !namesProfile ? [command] : []), ...args] : args;
 
-    // Check if command exists (skip check for daemon child processes)
-    const isDaemonChildEarly = options.daemonChild || process.env.ALWAYS_CODER_DAEMON === 'true';
-    if (!isDaemonChildEarly && cmd !== 'claude' && !commandExists(cmd.split(/\s+/)[0])) {
-      console.error(chalk.red(`Error: Command '${cmd}' not found`));
+    // Check if command exists
+    if (cmd !== 'claude' && !commandExists(cmd.split(/\s+/)[0])) {
+      const source = profileName ? ` (from profile "${profileName}")` : '';
+      console.error(chalk.red(`Error: Command '${cmd}' not found${source}`));
       console.log('');
       program.help();
       return;
@@ -110,96 +158,101 @@ program
       cmdArgs = [...parts.slice(1), ...args];
     }
 
-    // Check if this is a daemon child process
-    const isDaemonChild = options.daemonChild || process.env.ALWAYS_CODER_DAEMON === 'true';
-    const logFile = process.env.ALWAYS_CODER_LOG_FILE;
+    const cwd = profile?.cwd ? resolveProfilePath(profile.cwd) : process.cwd();
+    if (!fs.existsSync(cwd)) {
+      console.error(chalk.red(`Error: Working directory of profile "${profileName}" not found: ${cwd}`));
+      process.exit(1);
+    }
+
+    // Flags override the profile's recording settings
+    const record = options.record ?? profile?.record;
+    const recordInput = options.recordInput ?? profile?.recordInput;
+    if (recordInput && !record) {
+      console.error(chalk.red('Error: --record-input requires --record <file>'));
+      process.exit(1);
+    }
+    const recordFile = record ? resolveProfilePath(record) : undefined;
+
+    if (profileName) {
+      console.log(chalk.gray(`Profile ${profileName}: ${[cmd, ...cmdArgs].join(' ')}`));
+    }
+    // Approval prompts need someone at this terminal to answer them
+    if (options.requireApproval && options.daemon) {
+      console.error(chalk.red('Error: --require-approval cannot be used with --daemon'));
+      process.exit(1);
+    }
 
-    // If --daemon flag is set, start a daemon and exit
-    if (options.daemon && !isDaemonChild) {
+    // If --daemon flag is set, hand the session to the supervisor and exit
+    if (options.daemon) {
       console.log(chalk.cyan('╔═══════════════════════════════════════════════════════════╗'));
       console.log(chalk.cyan('║           Always Coder - Daemon Mode                      ║'));
       console.log(chalk.cyan('╚═══════════════════════════════════════════════════════════╝'));
 
       try {
-        const result = startDaemon(cmd, cmdArgs, options.server);
-        console.log(chalk.green('✓ Daemon started'));
-        console.log(chalk.gray(`   PID: ${result.pid}`));
-        console.log(chalk.gray(`   Log: ${result.logFile}`));
-        console.log('');
         console.log(chalk.yellow('Waiting for session to initialize...'));
+        const session = await startDaemon(cmd, cmdArgs, options.server, {
+          recordFile,
+          recordInput,
+          cwd,
+          env: profile?.env,
+          inputPolicy,
+        });
 
-        // Wait for session info to be created
-        const session = await waitForSession(result.pid, 15000);
-
-        if (session) {
-          console.log('');
-          console.log(chalk.green(`✓ Session ready: ${chalk.bold(session.sessionId)}`));
-          console.log('');
-          console.log(chalk.cyan('Web URL:'));
-          console.log(chalk.white(`   ${session.webUrl}`));
-          console.log('');
-          console.log(chalk.gray('Commands:'));
-          console.log(chalk.gray(`   always sessions              - List active sessions`));
-          console.log(chalk.gray(`   always stop ${session.sessionId}          - Stop this session`));
-          console.log(chalk.gray(`   always logs ${session.sessionId}          - View session logs`));
-        } else {
-          console.log('');
-          console.log(chalk.yellow('Session is still starting...'));
-          console.log(chalk.gray('Run "always sessions" to see the web URL when ready.'));
+        console.log(chalk.gray(`   Supervisor PID: ${session.pid}`));
+        console.log(chalk.gray(`   Log: ${session.logFile}`));
+        console.log('');
+        console.log(chalk.green(`✓ Session ready: ${chalk.bold(session.sessionId)}`));
+        console.log('');
+        console.log(chalk.cyan('Web URL:'));
+        console.log(chalk.white(`   ${session.webUrl}`));
+        if (session.viewerUrl) {
+          console.log(chalk.cyan('Read-only viewer URL:'));
+          console.log(chalk.white(`   ${session.viewerUrl}`));
+        }
+        console.log('');
+        console.log(chalk.gray('Commands:'));
+        console.log(chalk.gray(`   always sessions              - List active sessions`));
+        console.log(chalk.gray(`   always attach ${session.sessionId}        - Use it in this terminal`));
+        console.log(chalk.gray(`   always stop ${session.sessionId}          - Stop this session`));
+        console.log(chalk.gray(`   always logs ${session.sessionId}          - View session logs`));
+        console.log(chalk.gray(`   always share ${session.sessionId}         - Show the read-only viewer QR code`));
+        if (recordFile) {
+          console.log(chalk.gray(`   always replay ${recordFile}`));
         }
 
         process.exit(0);
       } catch (error) {
-        console.error(chalk.red('Failed to start daemon:'), error);
+        console.error(chalk.red('Failed to start daemon session:'), error instanceof Error ? error.message : error);
         process.exit(1);
       }
     }
 
-    // Normal session startup (interactive or daemon child)
-    if (!isDaemonChild) {
-      console.log(chalk.cyan('╔═══════════════════════════════════════════════════════════╗'));
-      console.log(chalk.cyan('║           Always Coder - Remote Terminal Access           ║'));
-      console.log(chalk.cyan('╚═══════════════════════════════════════════════════════════╝'));
-    }
-
-    // Add global error handlers for daemon mode
-    if (isDaemonChild) {
-      process.on('uncaughtException', (error) => {
-        if (logFile) {
-          fs.appendFileSync(logFile, `[${new Date().toISOString()}] UNCAUGHT EXCEPTION: ${error.stack || error}\n`);
-          fs.appendFileSync(logFile, `[${new Date().toISOString()}] Exiting due to uncaught exception\n`);
-        }
-        console.error('UNCAUGHT:', error);
-        process.exit(1);
-      });
-
-      process.on('unhandledRejection', (reason) => {
-        if (logFile) {
-          const stack = reason instanceof Error ? reason.stack : String(reason);
-          fs.appendFileSync(logFile, `[${new Date().toISOString()}] UNHANDLED REJECTION: ${stack}\n`);
-        }
-      });
+    // Normal interactive session startup
+    console.log(chalk.cyan('╔═══════════════════════════════════════════════════════════╗'));
+    console.log(chalk.cyan('║           Always Coder - Remote Terminal Access           ║'));
+    console.log(chalk.cyan('╚═══════════════════════════════════════════════════════════╝'));
 
-      process.on('exit', (code) => {
-        if (logFile) {
-          fs.appendFileSync(logFile, `[${new Date().toISOString()}] PROCESS EXIT with code: ${code}\n`);
-        }
+    let session: SessionManager;
+    try {
+      session = new SessionManager({
+        command: cmd,
+        args: cmdArgs.length > 0 ? cmdArgs : undefined,
+        cwd,
+        env: profile?.env,
+        serverUrl: options.server,
+        recordFile,
+        recordInput,
+        requireApproval: options.requireApproval,
+        inputPolicy,
       });
+    } catch (error) {
+      console.error(chalk.red('Failed to set up session:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
     }
 
-    const session = new SessionManager({
-      command: cmd,
-      args: cmdArgs.length > 0 ? cmdArgs : undefined,
-      serverUrl: options.server,
-      daemon: isDaemonChild,
-      logFile: logFile,
-    });
-
     // Handle graceful shutdown
     const shutdown = () => {
-      if (!isDaemonChild) {
-        console.log(chalk.yellow('\n\nReceived shutdown signal...'));
-      }
+      console.log(chalk.yellow('\n\nReceived shutdown signal...'));
       session.close();
       process.exit(0);
     };
@@ -207,38 +260,87 @@ program
     process.on('SIGINT', shutdown);
     process.on('SIGTERM', shutdown);
 
-    // In daemon mode, ignore SIGHUP to prevent termination when terminal closes
-    if (isDaemonChild) {
-      process.on('SIGHUP', () => {
-        if (logFile) {
-          fs.appendFileSync(logFile, `[${new Date().toISOString()}] Received SIGHUP, ignoring...\n`);
-        }
-      });
-    }
-
     session.on('terminal:exit', (exitCode: number) => {
-      if (isDaemonChild && logFile) {
-        fs.appendFileSync(logFile, `[${new Date().toISOString()}] terminal:exit event received with code: ${exitCode}\n`);
-      }
       process.exit(exitCode);
     });
 
     session.on('error', (error: Error) => {
-      if (!isDaemonChild) {
-        console.error(chalk.red('Session error:'), error.message);
-      }
+      console.error(chalk.red('Session error:'), error.message);
     });
 
     try {
       await session.start();
     } catch (error) {
-      if (!isDaemonChild) {
-        console.error(chalk.red('Failed to start session:'), error);
-      }
+      console.error(chalk.red('Failed to start session:'), error);
+      process.exit(1);
+    }
+  });
+
+// Daemon command - the supervisor that owns all background sessions
+const daemonCmd = program
+  .command('daemon')
+  .description('Run the supervisor that owns background sessions (started automatically by --daemon)')
+  .action(async () => {
+    const supervisor = new Supervisor({ logsDir: getLogsDir(), sessionsDir: getSessionsDir() });
+
+    // One bad session shouldn't take the others down with an unhandled rejection
+    process.on('unhandledRejection', (reason) => {
+      const stack = reason instanceof Error ? reason.stack : String(reason);
+      console.error(`[${new Date().toISOString()}] UNHANDLED REJECTION: ${stack}`);
+    });
+    process.on('uncaughtException', (error) => {
+      console.error(`[${new Date().toISOString()}] UNCAUGHT EXCEPTION: ${error.stack || error}`);
+      process.exit(1);
+    });
+
+    const shutdown = () => {
+      supervisor.close().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    try {
+      await supervisor.listen(getDaemonSocketPath());
+    } catch (error) {
+      console.error(chalk.red('Failed to start daemon:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
 
+daemonCmd
+  .command('status')
+  .description('Show supervisor health')
+  .action(async () => {
+    const health = await getDaemonHealth();
+    if (!health) {
+      console.log(chalk.yellow('Daemon is not running.'));
+      console.log(chalk.gray('It starts with the first session: always claude --daemon'));
+      return;
+    }
+
+    const { starting, running, restarting, failed } = health.sessions;
+    console.log(chalk.cyan('Daemon:'));
+    console.log(`   ${chalk.bold('Status:')}    ${chalk.green('running')}`);
+    console.log(`   ${chalk.bold('PID:')}       ${health.pid}`);
+    console.log(`   ${chalk.bold('Uptime:')}    ${formatUptime(Date.now() - health.startedAt)}`);
+    console.log(`   ${chalk.bold('Memory:')}    ${Math.round(health.memoryRss / 1024 / 1024)} MB`);
+    console.log(`   ${chalk.bold('Socket:')}    ${health.socketPath}`);
+    console.log(`   ${chalk.bold('Sessions:')}  ${running} running, ${starting} starting, ${restarting} restarting, ${failed} failed`);
+    console.log(`   ${chalk.bold('Restarts:')}  ${health.restarts}`);
+  });
+
+daemonCmd
+  .command('stop')
+  .description('Stop the supervisor and all its sessions')
+  .action(async () => {
+    const result = await shutdownDaemon();
+    if (!result) {
+      console.log(chalk.yellow('Daemon is not running.'));
+      return;
+    }
+    console.log(chalk.green(`✓ Daemon stopped (${result.stopped} session(s))`));
+  });
+
 // Config command
 const configCmd = program.command('config').description('Manage configuration');
 
@@ -255,9 +357,25 @@ configCmd
     } else if (key === 'instanceLabel') {
       setConfigValue('instanceLabel', value);
       console.log(chalk.green(`✓ Set ${key} = ${value}`));
+    } else if (key === 'scrollbackSize') {
+      const size = Number(value);
+      if (!Number.isInteger(size) || size <= 0) {
+        console.error(chalk.red('scrollbackSize must be a positive number of KB'));
+        process.exit(1);
+      }
+      setConfigValue('scrollbackSize', size);
+      console.log(chalk.green(`✓ Set ${key} = ${size} KB`));
+    } else if (key === 'defaultProfile') {
+      if (!Object.prototype.hasOwnProperty.call(listLaunchProfiles(), value)) {
+        console.error(chalk.red(`Unknown profile: ${value}`));
+        console.log(chalk.gray('Run "always profiles" to see the available profiles'));
+        process.exit(1);
+      }
+      setConfigValue('defaultProfile', value);
+      console.log(chalk.green(`✓ Set ${key} = ${value}`));
     } else {
       console.error(chalk.red(`Unknown config key: ${key}`));
-      console.log('Available keys: server, webUrl, instanceLabel');
+      console.log('Available keys: server, webUrl, instanceLabel, scrollbackSize, defaultProfile');
       process.exit(1);
     }
   });
@@ -275,9 +393,13 @@ configCmd
     } else if (key === 'instanceLabel') {
       const value = getConfigValue('instanceLabel');
       console.log(value || '');
+    } else if (key === 'scrollbackSize') {
+      console.log(`${getScrollbackSize() / 1024} KB`);
+    } else if (key === 'defaultProfile') {
+      console.log(getDefaultProfileName());
     } else {
       console.error(chalk.red(`Unknown config key: ${key}`));
-      console.log('Available keys: server, webUrl, instanceLabel');
+      console.log('Available keys: server, webUrl, instanceLabel, scrollbackSize, defaultProfile');
       process.exit(1);
     }
   });
@@ -290,11 +412,52 @@ configCmd
     console.log(chalk.cyan('Current configuration:'));
     Object.entries(config).forEach(([key, value]) => {
       if (value) {
-        console.log(`  ${key}: ${value}`);
+        console.log(`  ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
       }
     });
   });
 
+// Profiles command - list launch profiles
+program
+  .command('profiles')
+  .description('List launch profiles for "always run --profile <name>"')
+  .action(() => {
+    const defaultProfile = getDefaultProfileName();
+    console.log(chalk.cyan('Launch profiles:'));
+    console.log('');
+
+    for (const [name, raw] of Object.entries(listLaunchProfiles())) {
+      const marker = name === defaultProfile ? chalk.green(' (default)') : '';
+      let profile: LaunchProfile;
+      try {
+        profile = parseLaunchProfile(name, raw);
+      } catch (error) {
+        console.log(`  ${chalk.bold(name)}${marker}`);
+        console.log(chalk.red(`    ${error instanceof Error ? error.message : String(error)}`));
+        console.log('');
+        continue;
+      }
+
+      console.log(`  ${chalk.bold(name)}${marker}`);
+      console.log(chalk.gray(`    Command: ${[profile.command, ...(profile.args ?? [])].join(' ')}`));
+      if (profile.cwd) {
+        console.log(chalk.gray(`    Directory: ${resolveProfilePath(profile.cwd)}`));
+      }
+      if (profile.env) {
+        console.log(chalk.gray(`    Environment: ${Object.keys(profile.env).join(', ')}`));
+      }
+      if (profile.inputPolicy) {
+        console.log(chalk.gray(`    Input rules: ${profile.inputPolicy.rules.length}`));
+      }
+      if (profile.record) {
+        console.log(chalk.gray(`    Recording: ${profile.record}${profile.recordInput ? ' (with input)' : ''}`));
+      }
+      console.log('');
+    }
+
+    console.log(chalk.gray(`Define profiles under "profiles" in ${getConfigPath()}`));
+  });
+
 // Init command - quick setup for server and webUrl
 program
   .command('init <server> <webUrl>')
@@ -511,10 +674,7 @@ program
   .option('-r, --remote', 'Include sessions from other instances (requires login)')
   .option('-a, --all', 'Include closed/inactive sessions')
   .action(async (options: { remote?: boolean; all?: boolean }) => {
-    // Clean up stale sessions first
-    cleanupStaleSessions();
-
-    const localSessions = listDaemonSessions();
+    const localSessions = await listDaemonSessions();
     const currentInstance = await getInstanceInfo();
     const localSessionIds = new Set(localSessions.map(s => s.sessionId));
 
@@ -524,8 +684,7 @@ program
       console.log('');
 
       for (const session of localSessions) {
-        const running = isProcessRunning(session.pid);
-        const status = running ? chalk.green('● running') : chalk.red('● stopped');
+        const status = formatSessionState(session, '● ');
         const startedAt = new Date(session.startedAt).toLocaleString();
 
         // Display instance info if available
@@ -538,8 +697,13 @@ program
         console.log(`${status}  ${chalk.bold(session.sessionId)}`);
         console.log(chalk.gray(`    Instance: ${instanceDisplay}`));
         console.log(chalk.gray(`    Command: ${session.command} ${session.args.join(' ')}`));
-        console.log(chalk.gray(`    PID: ${session.pid}`));
         console.log(chalk.gray(`    Started: ${startedAt}`));
+        if (session.agent) {
+          console.log(chalk.gray(`    Agent: `) + formatAgentState(session.agent));
+        }
+        if (session.restarts > 0) {
+          console.log(chalk.yellow(`    Restarts: ${session.restarts} (last exit code ${session.lastExitCode ?? '-'})`));
+        }
         console.log(chalk.blue(`    Web URL: ${session.webUrl}`));
         console.log(chalk.gray(`    Log: ${session.logFile}`));
         console.log('');
@@ -602,12 +766,38 @@ program
 
     console.log(chalk.gray('Commands:'));
     console.log(chalk.gray('   always info <session-id>   Show detailed session info'));
+    console.log(chalk.gray('   always attach <session-id> Use a local session in this terminal'));
     console.log(chalk.gray('   always stop <session-id>   Stop a local session'));
     if (!options.remote) {
       console.log(chalk.gray('   always sessions --remote   Include sessions from other instances'));
     }
   });
 
+// Helper function to color a local session's state
+function formatSessionState(session: SupervisedSessionInfo, prefix: string = ''): string {
+  const colors: Record<SupervisedSessionInfo['state'], (text: string) => string> = {
+    starting: chalk.yellow,
+    running: chalk.green,
+    restarting: chalk.yellow,
+    failed: chalk.red,
+  };
+  return colors[session.state](prefix + session.state);
+}
+
+// Helper function to color what a session's agent is doing
+function formatAgentState(agent: AgentStatePayload): string {
+  const colors: Record<AgentStatePayload['state'], (text: string) => string> = {
+    starting: chalk.gray,
+    idle: chalk.green,
+    working: chalk.cyan,
+    approval: chalk.yellow,
+    error: chalk.red,
+  };
+  const state = colors[agent.state](`${agent.agent} ${agent.state}`);
+  const since = chalk.gray(` for ${formatUptime(Date.now() - agent.since)}`);
+  return state + since + (agent.detail ? chalk.gray(` - ${agent.detail}`) : '');
+}
+
 // Helper function to display a remote session
 function displayRemoteSession(session: RemoteSessionInfo): void {
   const statusMap: Record<string, string> = {
@@ -645,11 +835,7 @@ program
   .command('info <sessionId>')
   .description('Show detailed information for a session')
   .action(async (sessionId: string) => {
-    // Clean up stale sessions first
-    cleanupStaleSessions();
-
-    const sessions = listDaemonSessions();
-    const session = sessions.find(s => s.sessionId === sessionId || s.sessionId.startsWith(sessionId));
+    const session = await findDaemonSession(sessionId);
 
     if (!session) {
       console.log(chalk.red(`Session ${sessionId} not found`));
@@ -657,19 +843,25 @@ program
       process.exit(1);
     }
 
-    const running = isProcessRunning(session.pid);
-    const status = running ? chalk.green('running') : chalk.red('stopped');
+    const status = formatSessionState(session);
     const startedAt = new Date(session.startedAt).toLocaleString();
-    const uptime = running ? formatUptime(Date.now() - session.startedAt) : '-';
+    const uptime = session.state === 'running' ? formatUptime(Date.now() - session.startedAt) : '-';
 
     console.log(chalk.cyan('Session Details:'));
     console.log('');
     console.log(`   ${chalk.bold('Session ID:')}  ${session.sessionId}`);
     console.log(`   ${chalk.bold('Status:')}      ${status}`);
     console.log(`   ${chalk.bold('Command:')}     ${session.command} ${session.args.join(' ')}`);
-    console.log(`   ${chalk.bold('PID:')}         ${session.pid}`);
+    console.log(`   ${chalk.bold('Daemon PID:')}  ${session.pid}`);
     console.log(`   ${chalk.bold('Started:')}     ${startedAt}`);
     console.log(`   ${chalk.bold('Uptime:')}      ${uptime}`);
+    console.log(`   ${chalk.bold('Restarts:')}    ${session.restarts}`);
+    if (session.agent) {
+      console.log(`   ${chalk.bold('Agent:')}       ${formatAgentState(session.agent)}`);
+    }
+    if (session.lastError) {
+      console.log(`   ${chalk.bold('Last error:')}  ${session.lastError}`);
+    }
     console.log('');
     console.log(chalk.cyan('Instance:'));
     if (session.instanceLabel) {
@@ -680,9 +872,127 @@ program
     console.log('');
     console.log(chalk.cyan('Connection:'));
     console.log(`   ${chalk.bold('Web URL:')}     ${chalk.blue(session.webUrl)}`);
+    if (session.viewerUrl) {
+      console.log(`   ${chalk.bold('Viewer URL:')}  ${chalk.blue(session.viewerUrl)}`);
+    }
     console.log(`   ${chalk.bold('Log File:')}    ${session.logFile}`);
   });
 
+// Share command - show the read-only viewer link for a daemon session
+program
+  .command('share <sessionId>')
+  .description('Show a read-only viewer link and QR code for a session')
+  .action(async (sessionId: string) => {
+    const session = await findDaemonSession(sessionId);
+
+    if (!session) {
+      console.log(chalk.red(`Session ${sessionId} not found`));
+      console.log(chalk.gray('Run "always sessions" to see active sessions'));
+      process.exit(1);
+    }
+
+    if (!session.viewerUrl) {
+      console.log(chalk.yellow(`Session ${session.sessionId} has no viewer link`));
+      console.log(chalk.gray('Restart it with this version of always to share it read-only.'));
+      process.exit(1);
+    }
+
+    displayViewerQRCode(session.viewerUrl);
+    console.log(chalk.gray('Viewers see the terminal but cannot type into it.'));
+  });
+
+// Invite command - let other users join a session you own
+program
+  .command('invite <sessionId> [emails...]')
+  .description('Invite users by email to join a session (requires login)')
+  .option('-r, --remove <emails...>', 'Uninvite these users')
+  .action(async (sessionId: string, emails: string[], options: { remove?: string[] }) => {
+    try {
+      const invitedUsers = await updateSessionInvites(sessionId, emails, options.remove || []);
+
+      if (invitedUsers.length === 0) {
+        console.log(chalk.yellow(`Only you can join session ${sessionId}`));
+        return;
+      }
+      console.log(chalk.green(`✓ Invited to session ${sessionId}:`));
+      for (const email of invitedUsers) {
+        console.log(`   ${email}`);
+      }
+      console.log(chalk.gray('They join by logging in to the web app with that email and opening the session.'));
+    } catch (error) {
+      console.error(chalk.red('Failed to update invites:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Attach command - use a daemon session in this terminal, tmux-style
+program
+  .command('attach <sessionId>')
+  .description('Connect this terminal to a daemon session (detach with Ctrl+B d)')
+  .action(async (sessionId: string) => {
+    if (!process.stdin.isTTY) {
+      console.error(chalk.red('Error: always attach needs an interactive terminal'));
+      process.exit(1);
+    }
+    if (!(await getDaemonHealth())) {
+      console.log(chalk.red('No daemon is running'));
+      console.log(chalk.gray('Start a daemon session with: always claude --daemon'));
+      process.exit(1);
+    }
+
+    try {
+      const result = await attachSession(getDaemonSocketPath(), sessionId);
+      if (result.reason === 'detached') {
+        console.log(chalk.green(`✓ Detached from ${result.sessionId}; it keeps running`));
+        console.log(chalk.gray(`   Reattach with: always attach ${result.sessionId}`));
+      } else {
+        console.log(chalk.yellow(`Session ${result.sessionId} ended`));
+      }
+      process.exit(0);
+    } catch (error) {
+      console.log(chalk.red(`Failed to attach: ${error instanceof Error ? error.message : String(error)}`));
+      console.log(chalk.gray('Run "always sessions" to see active sessions'));
+      process.exit(1);
+    }
+  });
+
+// Devices command - browsers trusted from the approval prompt
+const devicesCmd = program
+  .command('devices')
+  .description('List trusted browser devices')
+  .action(() => {
+    const devices = listTrustedDevices();
+
+    if (devices.length === 0) {
+      console.log(chalk.gray('No trusted devices'));
+      console.log(chalk.gray('Press "t" at a --require-approval prompt to trust a device.'));
+      return;
+    }
+
+    console.log(chalk.bold('\nTrusted devices:\n'));
+    for (const device of devices) {
+      console.log(`  ${chalk.cyan(device.fingerprint)}  ${device.label || chalk.gray('unknown')}`);
+      console.log(chalk.gray(`     Trusted ${new Date(device.trustedAt).toLocaleString()}`));
+    }
+    console.log();
+  });
+
+devicesCmd
+  .command('forget <fingerprint>')
+  .description('Stop trusting a device (fingerprint or its prefix)')
+  .action((fingerprint: string) => {
+    const forgotten = forgetTrustedDevice(fingerprint);
+
+    if (forgotten.length === 0) {
+      console.log(chalk.red(`No trusted device matches ${fingerprint}`));
+      process.exit(1);
+    }
+
+    for (const device of forgotten) {
+      console.log(chalk.green(`✓ Forgot ${device.fingerprint}`));
+    }
+  });
+
 // Label command - set instance label
 program
   .command('label [name]')
@@ -714,7 +1024,7 @@ program
   .command('stop <sessionId>')
   .description('Stop a daemon session')
   .action(async (sessionId: string) => {
-    const stopped = stopDaemonSession(sessionId);
+    const stopped = await stopDaemonSession(sessionId);
 
     if (stopped) {
       console.log(chalk.green(`✓ Session ${sessionId} stopped`));
@@ -729,7 +1039,7 @@ program
   .description('Stop and clean up all daemon sessions')
   .option('-f, --force', 'Skip confirmation')
   .action(async (options: { force?: boolean }) => {
-    const sessions = listDaemonSessions();
+    const sessions = await listDaemonSessions();
 
     if (sessions.length === 0) {
       console.log(chalk.yellow('No sessions to clean.'));
@@ -739,7 +1049,7 @@ program
     if (!options.force) {
       console.log(chalk.yellow(`This will stop ${sessions.length} session(s):`));
       for (const session of sessions) {
-        console.log(chalk.gray(`  - ${session.sessionId} (PID: ${session.pid})`));
+        console.log(chalk.gray(`  - ${session.sessionId} (${session.command} ${session.args.join(' ')})`));
       }
       console.log('');
 
@@ -761,9 +1071,8 @@ program
       }
     }
 
-    const result = cleanAllSessions();
-    console.log(chalk.green(`✓ Stopped ${result.stopped} running session(s)`));
-    console.log(chalk.green(`✓ Cleaned up ${result.cleaned} session record(s)`));
+    const result = await cleanAllSessions();
+    console.log(chalk.green(`✓ Stopped ${result.stopped} session(s)`));
   });
 
 // Logs command - tail daemon session logs
@@ -773,11 +1082,7 @@ program
   .option('-f, --follow', 'Follow log output')
   .option('-n, --lines <number>', 'Number of lines to show', '50')
   .action(async (sessionId: string, options: { follow?: boolean; lines?: string }) => {
-    // Clean up stale sessions first
-    cleanupStaleSessions();
-
-    const sessions = listDaemonSessions();
-    const session = sessions.find(s => s.sessionId === sessionId || s.sessionId.startsWith(sessionId));
+    const session = await findDaemonSession(sessionId);
 
     if (!session) {
       console.log(chalk.red(`Session ${sessionId} not found`));
@@ -792,5 +1097,43 @@ program
     tail.on('exit', (code) => process.exit(code || 0));
   });
 
+// Replay command - play back a session recording
+program
+  .command('replay <file>')
+  .description('Play back a session recorded with --record')
+  .option('--speed <factor>', 'Playback speed multiplier', '1')
+  .option('-i, --idle-time-limit <seconds>', 'Cap pauses between output at this many seconds')
+  .action(async (file: string, options: { speed: string; idleTimeLimit?: string }) => {
+    const speed = Number(options.speed);
+    const idleTimeLimit = options.idleTimeLimit !== undefined ? Number(options.idleTimeLimit) : undefined;
+    if (!(speed > 0) || (idleTimeLimit !== undefined && !(idleTimeLimit > 0))) {
+      console.error(chalk.red('Error: --speed and --idle-time-limit must be positive numbers'));
+      process.exit(1);
+    }
+
+    let cast;
+    try {
+      cast = parseAsciicast(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.error(chalk.red(`Failed to read recording ${file}:`), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    const duration = getAsciicastDuration(cast.events, idleTimeLimit ?? cast.header.idle_time_limit) / speed;
+    console.log(chalk.cyan(`Replaying ${file} (${cast.header.width}x${cast.header.height}, ${formatUptime(duration * 1000)})`));
+    console.log(chalk.gray('Press Ctrl+C to stop.'));
+    console.log('');
+
+    const controller = new AbortController();
+    process.on('SIGINT', () => controller.abort());
+
+    await playRecording(cast, { speed, idleTimeLimit, signal: controller.signal });
+
+    // Reset attributes the recording may have left on
+    process.stdout.write('\x1b[0m\n');
+    console.log(chalk.gray(controller.signal.aborted ? 'Replay stopped.' : 'Replay finished.'));
+    process.exit(0);
+  });
+
 // Parse and run
 program.parse();
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AgentStatePayload } from '@always-coder/shared';
+import { WindowNotifier, parseNotificationConfig, type NotificationConfig, type NotificationEvent } from './notifier.js';
+
+describe('WindowNotifier', () => {
+  let events: NotificationEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createNotifier(config: NotificationConfig): WindowNotifier {
+    return new WindowNotifier({ config, onNotify: (event) => events.push(event), cooldown: 10_000 });
+  }
+
+  const agent = (state: AgentStatePayload['state'], detail?: string): AgentStatePayload => ({
+    agent: 'claude',
+    state,
+    detail,
+    since: Date.now(),
+  });
+
+  describe('agent states', () => {
+    it('should notify when the agent needs approval or fails', () => {
+      const notifier = createNotifier({});
+      notifier.agentState(agent('working'));
+      notifier.agentState(agent('approval', 'Do you want to proceed?'));
+      notifier.agentState(agent('error', '⎿ API Error: 529 Overloaded'));
+
+      expect(events).toEqual([
+        { reason: 'agent', title: 'claude needs approval', body: 'Do you want to proceed?' },
+        { reason: 'agent', title: 'claude hit an error', body: '⎿ API Error: 529 Overloaded' },
+      ]);
+    });
+
+    it('should only count idle once the agent has worked', () => {
+      const notifier = createNotifier({});
+      notifier.agentState(agent('starting'));
+      notifier.agentState(agent('idle'));
+      expect(events).toEqual([]);
+
+      notifier.agentState(agent('working'));
+      notifier.agentState(agent('idle'));
+      expect(events).toEqual([{ reason: 'agent', title: 'claude is waiting for you', body: '' }]);
+    });
+
+    it('should only notify for the configured states', () => {
+      const notifier = createNotifier({ agentStates: ['error'] });
+      notifier.agentState(agent('approval', 'Do you want to proceed?'));
+      notifier.agentState(agent('error', 'failed'));
+
+      expect(events.map((event) => event.title)).toEqual(['claude hit an error']);
+    });
+  });
+
+  describe('triggers', () => {
+    it('should notify for complete lines that match, once per cooldown', () => {
+      const notifier = createNotifier({
+        triggers: [{ pattern: 'tests? failed', title: 'Tests failed' }, { pattern: '^Deployed' }],
+      });
+      notifier.push('\x1b[31m2 tests failed\x1b[0m\r\nDeplo');
+      notifier.push('yed to https://example.com\r\n');
+      notifier.push('1 test failed\r\n');
+
+      expect(events).toEqual([
+        { reason: 'trigger', title: 'Tests failed', body: '2 tests failed' },
+        { reason: 'trigger', title: 'Deployed to https://example.com', body: '' },
+      ]);
+
+      vi.advanceTimersByTime(10_000);
+      notifier.push('1 test failed\r\n');
+      expect(events).toHaveLength(3);
+    });
+  });
+
+  describe('idle', () => {
+    it('should notify once output stops for idleAfter', () => {
+      const notifier = createNotifier({ idleAfter: 120 });
+      notifier.push('Build finished\r\n$ ');
+      vi.advanceTimersByTime(60_000);
+      notifier.push('\r\n$ ');
+      vi.advanceTimersByTime(119_000);
+      expect(events).toEqual([]);
+
+      vi.advanceTimersByTime(1000);
+      expect(events).toEqual([{ reason: 'idle', title: 'No output for 2 min', body: '$' }]);
+      vi.advanceTimersByTime(600_000);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should stop once closed', () => {
+      const notifier = createNotifier({ idleAfter: 5 });
+      notifier.push('working');
+      notifier.close();
+      vi.advanceTimersByTime(10_000);
+
+      expect(events).toEqual([]);
+    });
+  });
+});
+
+describe('parseNotificationConfig', () => {
+  it('should accept a full configuration', () => {
+    const config = {
+      enabled: true,
+      agentStates: ['approval'],
+      triggers: [{ pattern: 'FAIL', title: 'Tests failed' }],
+      idleAfter: 300,
+    };
+
+    expect(parseNotificationConfig(config)).toEqual(config);
+  });
+
+  const invalid: { name: string; raw: unknown; message: string }[] = [
+    { name: 'a non-object', raw: [], message: 'must be an object' },
+    { name: 'an unknown agent state', raw: { agentStates: ['busy'] }, message: 'agentStates must be a list of' },
+    { name: 'a negative idle time', raw: { idleAfter: -1 }, message: 'idleAfter must be a number of seconds' },
+    { name: 'a trigger without a pattern', raw: { triggers: [{ title: 'x' }] }, message: 'trigger 0: pattern must be' },
+    {
+      name: 'a pattern that does not compile',
+      raw: { triggers: [{ pattern: '(' }] },
+      message: 'trigger 0: pattern is not a valid',
+    },
+  ];
+
+  for (const { name, raw, message } of invalid) {
+    it(`should refuse ${name}`, () => {
+      expect(() => parseNotificationConfig(raw)).toThrow(`notifications: ${message}`);
+    });
+  }
+});
@@ -0,0 +1,211 @@
+import type { AgentState, AgentStatePayload } from '@always-coder/shared';
+import { PlainTextDecoder } from '../agent/text.js';
+
+/**
+ * Output pattern that sends a notification, as written in config.json
+ */
+export interface NotificationTrigger {
+  /** Regular expression tested against each line of output */
+  pattern: string;
+  /** Notification title (default: the line that matched is the whole message) */
+  title?: string;
+}
+
+/**
+ * When a session sends push notifications (config.json `notifications`)
+ */
+export interface NotificationConfig {
+  /** Send notifications to subscribed browsers (default: true) */
+  enabled?: boolean;
+  /** Agent states worth a notification (default: approval, error and idle after working) */
+  agentStates?: AgentState[];
+  /** Lines of output worth a notification */
+  triggers?: NotificationTrigger[];
+  /** Notify once a window has printed nothing for this many seconds (default: 0, off) */
+  idleAfter?: number;
+}
+
+/**
+ * Something in a window the user should look at
+ */
+export interface NotificationEvent {
+  reason: 'agent' | 'trigger' | 'idle';
+  title: string;
+  body: string;
+}
+
+/**
+ * Window notifier options
+ */
+export interface WindowNotifierOptions {
+  config: NotificationConfig;
+  onNotify: (event: NotificationEvent) => void;
+  /** The same trigger notifies at most once per this long (ms) */
+  cooldown?: number;
+}
+
+const DEFAULT_AGENT_STATES: AgentState[] = ['approval', 'error', 'idle'];
+const AGENT_STATES: AgentState[] = ['starting', 'idle', 'working', 'approval', 'error'];
+// Keeps notifications well under what a push message can carry
+const MAX_BODY_LENGTH = 200;
+// A partial line longer than this is checked as it is
+const MAX_LINE_LENGTH = 4096;
+
+/**
+ * Validate the notifications section of config.json
+ * @throws Error naming the setting that is wrong
+ */
+export function parseNotificationConfig(raw: unknown): NotificationConfig {
+  const fail = (message: string): never => {
+    throw new Error(`notifications: ${message}`);
+  };
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail('must be an object');
+  const config = raw as Record<string, unknown>;
+
+  if (config.enabled !== undefined && typeof config.enabled !== 'boolean') fail('enabled must be a boolean');
+  if (
+    config.agentStates !== undefined &&
+    !(Array.isArray(config.agentStates) && config.agentStates.every((state) => AGENT_STATES.includes(state)))
+  ) {
+    fail(`agentStates must be a list of ${AGENT_STATES.join(', ')}`);
+  }
+  if (
+    config.idleAfter !== undefined &&
+    !(typeof config.idleAfter === 'number' && Number.isFinite(config.idleAfter) && config.idleAfter >= 0)
+  ) {
+    fail('idleAfter must be a number of seconds');
+  }
+  if (config.triggers !== undefined) {
+    if (!Array.isArray(config.triggers)) fail('triggers must be a list');
+    (config.triggers as unknown[]).forEach((trigger, index) => {
+      const { pattern, title } = (trigger ?? {}) as Record<string, unknown>;
+      if (typeof pattern !== 'string' || pattern === '') fail(`trigger ${index}: pattern must be a non-empty string`);
+      try {
+        new RegExp(pattern as string);
+      } catch {
+        fail(`trigger ${index}: pattern is not a valid regular expression`);
+      }
+      if (title !== undefined && typeof title !== 'string') fail(`trigger ${index}: title must be a string`);
+    });
+  }
+
+  return config as NotificationConfig;
+}
+
+function truncate(text: string): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > MAX_BODY_LENGTH ? `${line.slice(0, MAX_BODY_LENGTH - 1)}…` : line;
+}
+
+function formatDuration(seconds: number): string {
+  return seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${seconds}s`;
+}
+
+/**
+ * Watches one window for things worth a notification
+ *
+ * Agent states come from the window's AgentStateTracker; trigger patterns are
+ * checked against each complete line of output, and the idle timer restarts
+ * with every chunk.
+ */
+export class WindowNotifier {
+  private agentStates: AgentState[];
+  private triggers: { pattern: RegExp; title?: string }[];
+  private idleAfter: number;
+  private onNotify: (event: NotificationEvent) => void;
+  private cooldown: number;
+  private text = new PlainTextDecoder();
+  private line = '';
+  private lastLine = '';
+  private lastAgentState: AgentState | null = null;
+  // Trigger index -> when it last notified
+  private lastTriggered: Map<number, number> = new Map();
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: WindowNotifierOptions) {
+    this.agentStates = options.config.agentStates ?? DEFAULT_AGENT_STATES;
+    this.triggers = (options.config.triggers ?? []).map(({ pattern, title }) => ({
+      pattern: new RegExp(pattern),
+      title,
+    }));
+    this.idleAfter = (options.config.idleAfter ?? 0) * 1000;
+    this.onNotify = options.onNotify;
+    this.cooldown = options.cooldown ?? 60_000;
+  }
+
+  /**
+   * Add a chunk of the window's output
+   */
+  push(data: string): void {
+    const lines = (this.line + this.text.push(data)).split('\n');
+    this.line = lines.pop()!;
+    if (this.line.length > MAX_LINE_LENGTH) {
+      lines.push(this.line);
+      this.line = '';
+    }
+    for (const line of lines) {
+      if (line.trim()) this.lastLine = line;
+      this.checkTriggers(line);
+    }
+
+    if (this.idleAfter > 0) {
+      if (this.idleTimer) clearTimeout(this.idleTimer);
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        this.onNotify({
+          reason: 'idle',
+          title: `No output for ${formatDuration(this.idleAfter / 1000)}`,
+          body: truncate(this.line.trim() ? this.line : this.lastLine),
+        });
+      }, this.idleAfter);
+    }
+  }
+
+  /**
+   * The window's agent changed state
+   * Idle only counts once the agent has done something, not when it first starts.
+   */
+  agentState(state: AgentStatePayload): void {
+    const previous = this.lastAgentState;
+    this.lastAgentState = state.state;
+    if (!this.agentStates.includes(state.state)) return;
+    if (state.state === 'idle' && (previous === null || previous === 'starting')) return;
+
+    const titles: Partial<Record<AgentState, string>> = {
+      approval: `${state.agent} needs approval`,
+      error: `${state.agent} hit an error`,
+      idle: `${state.agent} is waiting for you`,
+    };
+    this.onNotify({
+      reason: 'agent',
+      title: titles[state.state] ?? `${state.agent} is ${state.state}`,
+      body: truncate(state.detail ?? ''),
+    });
+  }
+
+  /**
+   * Stop watching (the window closed)
+   */
+  close(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private checkTriggers(line: string): void {
+    this.triggers.forEach((trigger, index) => {
+      if (!trigger.pattern.test(line)) return;
+
+      const now = Date.now();
+      if (now - (this.lastTriggered.get(index) ?? -Infinity) < this.cooldown) return;
+      this.lastTriggered.set(index, now);
+
+      this.onNotify({
+        reason: 'trigger',
+        title: trigger.title ?? truncate(line),
+        body: trigger.title ? truncate(line) : '',
+      });
+    });
+  }
+}
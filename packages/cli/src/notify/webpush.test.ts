@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createECDH } from 'crypto';
+import { encryptPushPayload } from './webpush.js';
+
+// RFC 8291 appendix A
+const VECTOR = {
+  plaintext: 'When I grow up, I want to be a watermelon',
+  senderPrivate: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+  salt: 'DGv6ra1nlYgDCS1FRnbzlw',
+  body:
+    'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+};
+
+describe('encryptPushPayload', () => {
+  it('should match the RFC 8291 example', () => {
+    const senderKey = createECDH('prime256v1');
+    senderKey.setPrivateKey(Buffer.from(VECTOR.senderPrivate, 'base64url'));
+
+    const body = encryptPushPayload(VECTOR.plaintext, VECTOR, {
+      senderKey,
+      salt: Buffer.from(VECTOR.salt, 'base64url'),
+    });
+
+    expect(body.toString('base64url')).toBe(VECTOR.body);
+  });
+
+  it('should use a new sender key and salt for every message', () => {
+    const first = encryptPushPayload('hello', VECTOR);
+    const second = encryptPushPayload('hello', VECTOR);
+
+    expect(first.subarray(0, 16).equals(second.subarray(0, 16))).toBe(false);
+    expect(first.subarray(21, 86).equals(second.subarray(21, 86))).toBe(false);
+    // Header, sender key, plaintext, delimiter and tag
+    expect(first).toHaveLength(21 + 65 + 5 + 1 + 16);
+  });
+
+  it('should refuse malformed keys and oversized messages', () => {
+    expect(() => encryptPushPayload('hello', { ...VECTOR, p256dh: 'AAAA' })).toThrow('Invalid p256dh key');
+    expect(() => encryptPushPayload('hello', { ...VECTOR, auth: 'AAAA' })).toThrow('Invalid auth secret');
+    expect(() => encryptPushPayload('x'.repeat(4096), VECTOR)).toThrow('too large');
+  });
+});
@@ -0,0 +1,84 @@
+import { createCipheriv, createECDH, createHmac, randomBytes, type ECDH } from 'crypto';
+
+/**
+ * A browser's push subscription keys (base64url, from PushSubscription.toJSON())
+ */
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Fixed inputs, for test vectors only
+ */
+export interface PushEncryptionOptions {
+  /** Sender key pair (default: a new one per message) */
+  senderKey?: ECDH;
+  /** 16 bytes (default: random) */
+  salt?: Buffer;
+}
+
+// Single record: the body must fit in what push services accept anyway
+const RECORD_SIZE = 4096;
+// Tag added by AES-GCM and the delimiter after the plaintext
+const RECORD_OVERHEAD = 16 + 1;
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// HKDF with one output block, which is all RFC 8291 needs
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  const prk = hmac(salt, ikm);
+  return hmac(prk, Buffer.concat([info, Buffer.from([1])])).subarray(0, length);
+}
+
+/**
+ * Encrypt a push message body for one subscription (RFC 8291, aes128gcm)
+ *
+ * Only the browser holding the subscription's private key can read it; the
+ * relay and the push service just pass it on.
+ * @throws Error if the subscription keys are malformed or the message doesn't fit
+ */
+export function encryptPushPayload(
+  plaintext: string | Buffer,
+  subscription: PushSubscriptionKeys,
+  options: PushEncryptionOptions = {}
+): Buffer {
+  const receiverKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+  if (receiverKey.length !== 65 || receiverKey[0] !== 0x04) throw new Error('Invalid p256dh key');
+  if (authSecret.length !== 16) throw new Error('Invalid auth secret');
+
+  const data = Buffer.isBuffer(plaintext) ? plaintext : Buffer.from(plaintext);
+  if (data.length + RECORD_OVERHEAD > RECORD_SIZE) throw new Error('Push message too large');
+
+  let senderKey = options.senderKey;
+  if (!senderKey) {
+    senderKey = createECDH('prime256v1');
+    senderKey.generateKeys();
+  }
+  const senderPublic = senderKey.getPublicKey();
+  const sharedSecret = senderKey.computeSecret(receiverKey);
+  const salt = options.salt ?? randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(data),
+    cipher.update(Buffer.from([2])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublic.length, 20);
+  return Buffer.concat([header, senderPublic, ciphertext]);
+}
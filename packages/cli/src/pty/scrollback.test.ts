@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Scrollback, findTrimPoint } from './scrollback.js';
+
+describe('findTrimPoint', () => {
+  it('should cut at the start of the next line', () => {
+    expect(findTrimPoint('one\ntwo\nthree', 2)).toBe(4);
+    expect(findTrimPoint('one\ntwo\nthree', 4)).toBe(4);
+    expect(findTrimPoint(Buffer.from('one\ntwo\nthree'), 5)).toBe(8);
+  });
+
+  it('should not cut inside an escape sequence', () => {
+    const data = 'abc\x1b[38;5;208mdef';
+    expect(findTrimPoint(data, 6)).toBe(data.indexOf('d'));
+    expect(findTrimPoint('ab\x1b]0;title\x07cd', 5)).toBe(12);
+  });
+
+  it('should drop an escape sequence that is cut off', () => {
+    expect(findTrimPoint('abc\x1b[38;5', 5)).toBe(9);
+  });
+
+  it('should not cut inside a character', () => {
+    const bytes = Buffer.from('aé€b');
+    expect(findTrimPoint(bytes, 2)).toBe(3);
+    expect(findTrimPoint(bytes, 4)).toBe(6);
+    expect(findTrimPoint('a😀b', 2)).toBe(3);
+  });
+});
+
+describe('Scrollback', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'always-scrollback-'));
+    file = join(dir, 'sessions', 'main.log');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function line(i: number): string {
+    return `line ${String(i).padStart(3, '0')}\r\n`; // 10 bytes
+  }
+
+  it('should keep output on disk, private to the user', () => {
+    const scrollback = new Scrollback({ file, maxSize: 1000 });
+    scrollback.append('hello\r\n');
+    scrollback.append('world');
+
+    expect(readFileSync(file, 'utf-8')).toBe('hello\r\nworld');
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(scrollback.tail(1000)).toEqual({ data: 'hello\r\nworld', start: 0 });
+    scrollback.close();
+  });
+
+  it('should drop the oldest lines past the size limit', () => {
+    const scrollback = new Scrollback({ file, maxSize: 100 });
+    for (let i = 0; i < 13; i++) {
+      scrollback.append(line(i));
+    }
+
+    // 130 bytes is past the 25% slack, so the file is cut back to 100
+    expect(scrollback.start).toBe(30);
+    expect(scrollback.end).toBe(130);
+    expect(readFileSync(file, 'utf-8').startsWith(line(3))).toBe(true);
+    expect(scrollback.read(0, 50)).toEqual({ data: line(3) + line(4), start: 30 });
+    scrollback.close();
+  });
+
+  it('should start reads at a line boundary', () => {
+    const scrollback = new Scrollback({ file, maxSize: 1000 });
+    for (let i = 0; i < 5; i++) {
+      scrollback.append(line(i));
+    }
+
+    expect(scrollback.read(15, 40)).toEqual({ data: line(2) + line(3), start: 20 });
+    expect(scrollback.read(20, 30)).toEqual({ data: line(2), start: 20 });
+    expect(scrollback.tail(25)).toEqual({ data: line(3) + line(4), start: 30 });
+    scrollback.close();
+  });
+
+  it('should resume with the same offsets', () => {
+    const first = new Scrollback({ file, maxSize: 100 });
+    for (let i = 0; i < 13; i++) {
+      first.append(line(i));
+    }
+    first.close();
+
+    const second = new Scrollback({ file, maxSize: 100 });
+    expect(second.start).toBe(30);
+    expect(second.end).toBe(130);
+    second.append(line(13));
+    expect(second.tail(10)).toEqual({ data: line(13), start: 130 });
+
+    second.delete();
+    const third = new Scrollback({ file, maxSize: 100 });
+    expect(third.end).toBe(0);
+    third.close();
+  });
+});
@@ -0,0 +1,203 @@
+import { closeSync, fstatSync, mkdirSync, openSync, readFileSync, readSync, renameSync, rmSync, writeFileSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+const ESC = 0x1b;
+// How far back to look for an escape sequence a cut could land in (long OSC titles)
+const MAX_ESCAPE_LENGTH = 256;
+
+function codeAt(data: string | Buffer, index: number): number {
+  return typeof data === 'string' ? data.charCodeAt(index) : data[index];
+}
+
+/**
+ * End of the escape sequence starting at `index` (exclusive), or -1 if it is cut off
+ */
+function escapeSequenceEnd(data: string | Buffer, index: number): number {
+  const kind = codeAt(data, index + 1);
+  if (Number.isNaN(kind) || kind === undefined) return -1;
+
+  // CSI: parameters, then a final byte in 0x40-0x7e
+  if (kind === 0x5b) {
+    for (let i = index + 2; i < data.length; i++) {
+      const code = codeAt(data, i);
+      if (code >= 0x40 && code <= 0x7e) return i + 1;
+    }
+    return -1;
+  }
+  // OSC, DCS, APC, PM: terminated by BEL or ST (ESC \)
+  if (kind === 0x5d || kind === 0x50 || kind === 0x5f || kind === 0x5e) {
+    for (let i = index + 2; i < data.length; i++) {
+      const code = codeAt(data, i);
+      if (code === 0x07) return i + 1;
+      if (code === ESC && codeAt(data, i + 1) === 0x5c) return i + 2;
+    }
+    return -1;
+  }
+  return index + 2;
+}
+
+/**
+ * Where to cut terminal output so that at most everything from `minStart` on is kept
+ *
+ * Prefers the start of a line. Failing that (one very long line) it still
+ * avoids landing inside an escape sequence or a character.
+ * @returns the smallest safe index at or after minStart
+ */
+export function findTrimPoint(data: string | Buffer, minStart: number): number {
+  if (minStart <= 0) return 0;
+  if (minStart >= data.length) return data.length;
+
+  const newline = data.indexOf('\n', minStart - 1);
+  if (newline !== -1) return newline + 1;
+
+  let start = minStart;
+  const escape = data.lastIndexOf('\x1b', start - 1);
+  if (escape !== -1 && start - escape <= MAX_ESCAPE_LENGTH) {
+    const end = escapeSequenceEnd(data, escape);
+    if (end === -1) return data.length;
+    start = Math.max(start, end);
+  }
+  // Skip UTF-8 continuation bytes, or the low half of a surrogate pair
+  while (start < data.length) {
+    const code = codeAt(data, start);
+    const continuation = typeof data === 'string' ? code >= 0xdc00 && code <= 0xdfff : (code & 0xc0) === 0x80;
+    if (!continuation) break;
+    start++;
+  }
+  return start;
+}
+
+/**
+ * Scrollback options
+ */
+export interface ScrollbackOptions {
+  /** File holding the output; created if missing, resumed if present */
+  file: string;
+  /** Bytes of output to keep */
+  maxSize: number;
+}
+
+/**
+ * A window's output kept on disk as a ring buffer
+ *
+ * Output is appended to the file; once it grows a quarter past `maxSize`, the
+ * oldest output is dropped at a line (or escape sequence) boundary, keeping at
+ * most `maxSize` bytes. Positions are absolute byte offsets into everything the
+ * window ever printed, so they stay valid across trims and restarts.
+ */
+export class Scrollback {
+  private file: string;
+  private maxSize: number;
+  private fd: number | null;
+  private length: number;
+  // Offset of the first byte in the file
+  private base: number = 0;
+
+  constructor(options: ScrollbackOptions) {
+    this.file = options.file;
+    this.maxSize = options.maxSize;
+    mkdirSync(dirname(this.file), { recursive: true, mode: 0o700 });
+    try {
+      this.base = JSON.parse(readFileSync(this.metaFile, 'utf-8')).start ?? 0;
+    } catch {
+      // New scrollback
+    }
+    this.fd = openSync(this.file, 'a+', 0o600);
+    this.length = fstatSync(this.fd).size;
+  }
+
+  /**
+   * Offset of the oldest byte kept
+   */
+  get start(): number {
+    return this.base;
+  }
+
+  /**
+   * Offset after the newest byte
+   */
+  get end(): number {
+    return this.base + this.length;
+  }
+
+  /**
+   * Append output
+   */
+  append(data: string): void {
+    if (this.fd === null) return;
+    const bytes = Buffer.from(data);
+    writeSync(this.fd, bytes);
+    this.length += bytes.length;
+    if (this.length > this.maxSize * 1.25) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Read output between two offsets
+   * The start is moved forward to a safe boundary unless it is the oldest byte kept.
+   * @returns the output and the offset it actually starts at
+   */
+  read(from: number, to: number): { data: string; start: number } {
+    const end = Math.min(Math.max(to, this.base), this.end);
+    let start = Math.min(Math.max(from, this.base), end);
+    if (this.fd === null || start === end) {
+      return { data: '', start: end };
+    }
+
+    // One byte more, so a cut right after a newline is recognised
+    const readFrom = start > this.base ? start - 1 : start;
+    const buffer = Buffer.alloc(end - readFrom);
+    readSync(this.fd, buffer, 0, buffer.length, readFrom - this.base);
+    const skip = start > this.base ? findTrimPoint(buffer, 1) : 0;
+    start = readFrom + skip;
+    return { data: buffer.subarray(skip).toString(), start };
+  }
+
+  /**
+   * Read the newest output, at most `maxBytes` of it
+   */
+  tail(maxBytes: number): { data: string; start: number } {
+    return this.read(this.end - maxBytes, this.end);
+  }
+
+  /**
+   * Close the file, keeping it for a later session
+   */
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * Close and delete the file
+   */
+  delete(): void {
+    this.close();
+    rmSync(this.file, { force: true });
+    rmSync(this.metaFile, { force: true });
+  }
+
+  private get metaFile(): string {
+    return `${this.file}.json`;
+  }
+
+  private compact(): void {
+    const buffer = Buffer.alloc(this.length);
+    readSync(this.fd!, buffer, 0, this.length, 0);
+    const cut = findTrimPoint(buffer, this.length - this.maxSize);
+
+    // Write the kept part aside and swap it in, so a crash leaves one whole file
+    const temp = `${this.file}.tmp`;
+    writeFileSync(temp, buffer.subarray(cut), { mode: 0o600 });
+    renameSync(temp, this.file);
+    closeSync(this.fd!);
+    this.fd = openSync(this.file, 'a+', 0o600);
+
+    this.base += cut;
+    this.length -= cut;
+    writeFileSync(this.metaFile, JSON.stringify({ start: this.base }), { mode: 0o600 });
+  }
+}
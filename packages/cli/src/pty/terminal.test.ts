@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Terminal } from './terminal.js';
+
+describe('Terminal', () => {
+  let terminal: Terminal;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    terminal.kill();
+    vi.restoreAllMocks();
+  });
+
+  it('should stop reading output while paused', async () => {
+    terminal = new Terminal({ command: 'yes', cols: 80, rows: 24 });
+    let received = 0;
+    terminal.on('data', (data: string) => {
+      received += data.length;
+    });
+    terminal.start();
+    await vi.waitFor(() => expect(received).toBeGreaterThan(0));
+
+    terminal.pause();
+    // Let output already read from the PTY come through
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const whilePaused = received;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(received).toBe(whilePaused);
+
+    terminal.resume();
+    await vi.waitFor(() => expect(received).toBeGreaterThan(whilePaused));
+  });
+});
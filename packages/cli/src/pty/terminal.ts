@@ -1,5 +1,6 @@
 import * as pty from 'node-pty';
 import { EventEmitter } from 'events';
+import { execFileSync } from 'child_process';
 
 /**
  * Terminal events
@@ -120,6 +121,20 @@ export class Terminal extends EventEmitter {
     }
   }
 
+  /**
+   * Stop reading output; the process blocks once the PTY's buffer is full
+   */
+  pause(): void {
+    this.ptyProcess?.pause();
+  }
+
+  /**
+   * Read output again after pause()
+   */
+  resume(): void {
+    this.ptyProcess?.resume();
+  }
+
   /**
    * Get current dimensions
    */
@@ -136,6 +151,25 @@ export class Terminal extends EventEmitter {
     }
   }
 
+  /**
+   * Send a signal to the foreground process group, as the tty does for Ctrl+C
+   * Falls back to the PTY's own process when the group can't be looked up.
+   */
+  signal(signal: string): void {
+    if (!this.ptyProcess) return;
+
+    const group = getForegroundProcessGroup(this.ptyProcess.pid);
+    if (group) {
+      try {
+        process.kill(-group, signal);
+        return;
+      } catch {
+        // The group exited since the lookup
+      }
+    }
+    this.ptyProcess.kill(signal);
+  }
+
   /**
    * Check if the terminal is running
    */
@@ -150,3 +184,22 @@ export class Terminal extends EventEmitter {
     return this.ptyProcess?.pid || null;
   }
 }
+
+/**
+ * Process group in the foreground of a PTY, i.e. the job a keystroke would signal
+ * SECURITY: Uses execFileSync with array args, nothing goes through a shell
+ */
+function getForegroundProcessGroup(pid: number): number | null {
+  if (process.platform === 'win32') return null;
+
+  try {
+    const output = execFileSync('ps', ['-o', 'tpgid=', '-p', String(pid)], {
+      encoding: 'utf-8',
+      timeout: 1000,
+    });
+    const group = parseInt(output.trim(), 10);
+    return group > 0 ? group : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WindowManager } from './windows.js';
+
+// Fake PTY: records calls and lets tests emit data/exit
+vi.mock('./terminal.js', async () => {
+  const { EventEmitter } = await import('events');
+
+  class FakeTerminal extends EventEmitter {
+    static instances: FakeTerminal[] = [];
+    options: { command: string; cols: number; rows: number };
+    running = false;
+    paused = false;
+    written: string[] = [];
+
+    constructor(options: { command: string; cols: number; rows: number }) {
+      super();
+      this.options = options;
+      FakeTerminal.instances.push(this);
+    }
+
+    start() {
+      this.running = true;
+    }
+
+    write(data: string) {
+      this.written.push(data);
+    }
+
+    resize(cols: number, rows: number) {
+      this.options = { ...this.options, cols, rows };
+    }
+
+    getDimensions() {
+      return { cols: this.options.cols, rows: this.options.rows };
+    }
+
+    kill() {
+      this.running = false;
+      this.emit('exit', 0);
+    }
+
+    isRunning() {
+      return this.running;
+    }
+
+    pause() {
+      this.paused = true;
+    }
+
+    resume() {
+      this.paused = false;
+    }
+  }
+
+  return { Terminal: FakeTerminal };
+});
+
+import { Terminal } from './terminal.js';
+
+interface FakeTerminal extends EventEmitter {
+  options: { command: string; cols: number; rows: number };
+  written: string[];
+  paused: boolean;
+}
+
+function terminals(): FakeTerminal[] {
+  return (Terminal as unknown as { instances: FakeTerminal[] }).instances;
+}
+
+describe('WindowManager', () => {
+  let windows: WindowManager;
+
+  beforeEach(() => {
+    terminals().length = 0;
+    windows = new WindowManager({ maxWindows: 3, maxBufferSize: 10 });
+  });
+
+  function open(windowId?: string, command = 'bash') {
+    return windows.create({ windowId, command, cols: 80, rows: 24 });
+  }
+
+  describe('create', () => {
+    it('should make the first window active', () => {
+      open('main');
+      open();
+
+      expect(windows.getActiveWindowId()).toBe('main');
+      expect(windows.size).toBe(2);
+    });
+
+    it('should generate window IDs and default names from the command', () => {
+      const window = open(undefined, '/usr/bin/zsh');
+
+      expect(window.windowId).toBe('w1');
+      expect(window.name).toBe('zsh');
+      expect(window.command).toBe('/usr/bin/zsh');
+    });
+
+    it('should reject duplicate window IDs', () => {
+      open('main');
+
+      expect(() => open('main')).toThrow('Window already exists');
+    });
+
+    it('should enforce the window limit', () => {
+      open();
+      open();
+      open();
+
+      expect(() => open()).toThrow('Window limit reached');
+    });
+
+    it('should emit change', () => {
+      const onChange = vi.fn();
+      windows.on('change', onChange);
+
+      open();
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('output', () => {
+    it('should tag output with the window ID and buffer it per window', () => {
+      const onData = vi.fn();
+      windows.on('data', onData);
+      open('main');
+      open('w2');
+
+      terminals()[1].emit('data', 'hello');
+
+      expect(onData).toHaveBeenCalledWith('w2', 'hello');
+      expect(windows.getBuffer('w2')).toBe('hello');
+      expect(windows.getBuffer('main')).toBe('');
+    });
+
+    it('should keep only the tail of the buffer', () => {
+      open('main');
+
+      terminals()[0].emit('data', '0123456789');
+      terminals()[0].emit('data', 'abc');
+
+      expect(windows.getBuffer('main')).toBe('3456789abc');
+    });
+
+    it('should trim the buffer at a line boundary', () => {
+      open('main');
+
+      terminals()[0].emit('data', 'one\r\ntwo\r\n');
+      terminals()[0].emit('data', 'six');
+
+      expect(windows.getBuffer('main')).toBe('two\r\nsix');
+    });
+  });
+
+  describe('pause', () => {
+    it('should stop reading every window, including ones opened meanwhile', () => {
+      open('main');
+      windows.pause();
+      open('w2');
+
+      expect(terminals().map((terminal) => terminal.paused)).toEqual([true, true]);
+
+      windows.resume();
+      open('w3');
+
+      expect(terminals().map((terminal) => terminal.paused)).toEqual([false, false, false]);
+    });
+  });
+
+  describe('scrollback', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'always-windows-'));
+      windows = new WindowManager({ maxBufferSize: 10, scrollbackDir: dir });
+      return () => rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should resume a window from its scrollback', () => {
+      open('main');
+      terminals()[0].emit('data', 'first\r\nsecond\r\n');
+      windows.killAll();
+
+      windows = new WindowManager({ maxBufferSize: 10, scrollbackDir: dir });
+      open('main');
+
+      expect(windows.getBuffer('main')).toBe('second\r\n');
+      expect(windows.getScrollbackRange('main')).toEqual({ start: 0, from: 7, end: 15 });
+      expect(windows.readScrollback('main', 7, 1024)).toEqual({ data: 'first\r\n', start: 0 });
+    });
+
+    it('should delete the scrollback of a window closed alongside others', () => {
+      open('main');
+      open('w2');
+
+      windows.close('w2');
+      expect(existsSync(join(dir, 'w2.log'))).toBe(false);
+
+      windows.close('main');
+      expect(existsSync(join(dir, 'main.log'))).toBe(true);
+    });
+  });
+
+  describe('input and resize', () => {
+    it('should route input and resize to the target window', () => {
+      open('main');
+      open('w2');
+
+      windows.write('w2', 'ls\r');
+      windows.resize('w2', 100, 30);
+
+      expect(terminals()[1].written).toEqual(['ls\r']);
+      expect(terminals()[0].written).toEqual([]);
+      expect(windows.getDimensions('w2')).toEqual({ cols: 100, rows: 30 });
+      expect(windows.list().find((w) => w.windowId === 'w2')).toMatchObject({ cols: 100, rows: 30 });
+    });
+
+    it('should ignore unknown windows', () => {
+      expect(() => windows.write('missing', 'x')).not.toThrow();
+      expect(windows.isRunning('missing')).toBe(false);
+      expect(windows.getDimensions('missing')).toBeNull();
+    });
+  });
+
+  describe('close and exit', () => {
+    it('should remove a window when its process exits', () => {
+      const onExit = vi.fn();
+      windows.on('exit', onExit);
+      open('main');
+      open('w2');
+
+      expect(windows.close('w2')).toBe(true);
+
+      expect(onExit).toHaveBeenCalledWith('w2', 0, undefined);
+      expect(windows.has('w2')).toBe(false);
+      expect(windows.list().map((w) => w.windowId)).toEqual(['main']);
+    });
+
+    it('should activate the most recent window when the active one exits', () => {
+      open('main');
+      open('w2');
+      open('w3');
+
+      windows.close('main');
+
+      expect(windows.getActiveWindowId()).toBe('w3');
+    });
+
+    it('should return false for unknown windows', () => {
+      expect(windows.close('missing')).toBe(false);
+      expect(windows.setActive('missing')).toBe(false);
+    });
+
+    it('should kill all windows without emitting exit', () => {
+      const onExit = vi.fn();
+      windows.on('exit', onExit);
+      open('main');
+      open('w2');
+
+      windows.killAll();
+
+      expect(onExit).not.toHaveBeenCalled();
+      expect(windows.size).toBe(0);
+      expect(windows.getActiveWindowId()).toBeNull();
+    });
+  });
+
+  describe('setActive', () => {
+    it('should switch the active window and emit change once', () => {
+      open('main');
+      open('w2');
+      const onChange = vi.fn();
+      windows.on('change', onChange);
+
+      windows.setActive('w2');
+      windows.setActive('w2');
+
+      expect(windows.getActiveWindowId()).toBe('w2');
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+  });
+});
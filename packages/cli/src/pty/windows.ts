@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+import { basename, join } from 'path';
+import { PROTOCOL, type ScrollbackRange, type WindowInfo } from '@always-coder/shared';
+import { Terminal } from './terminal.js';
+import { Scrollback, findTrimPoint } from './scrollback.js';
+
+/**
+ * Window manager events
+ */
+export interface WindowManagerEvents {
+  data: (windowId: string, data: string) => void;
+  exit: (windowId: string, exitCode: number, signal?: number) => void;
+  error: (windowId: string, error: Error) => void;
+  /** Windows were added, removed or the active window changed */
+  change: () => void;
+}
+
+/**
+ * Window manager options
+ */
+export interface WindowManagerOptions {
+  maxWindows?: number;
+  /** Output kept per window for late joiners and window switches */
+  maxBufferSize?: number;
+  /**
+   * Keep each window's output on disk here as `<windowId>.log`
+   * A window reopened with the same ID starts with its old output.
+   */
+  scrollbackDir?: string;
+  /** Output kept on disk per window (default: 1MB) */
+  scrollbackSize?: number;
+}
+
+/**
+ * Options for a new window
+ */
+export interface CreateWindowOptions {
+  /** Fixed window ID (default: generated) */
+  windowId?: string;
+  name?: string;
+  command: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  cols: number;
+  rows: number;
+}
+
+interface TerminalWindow {
+  info: WindowInfo;
+  terminal: Terminal;
+  buffer: string;
+  scrollback: Scrollback | null;
+}
+
+/**
+ * Several named PTYs inside one session
+ */
+export class WindowManager extends EventEmitter {
+  private windows: Map<string, TerminalWindow> = new Map();
+  private activeWindowId: string | null = null;
+  private nextWindowNumber: number = 1;
+  private maxWindows: number;
+  private maxBufferSize: number;
+  private scrollbackDir: string | undefined;
+  private scrollbackSize: number;
+  // Output is not read while the connection to web clients is backed up
+  private paused = false;
+
+  constructor(options: WindowManagerOptions = {}) {
+    super();
+    this.maxWindows = options.maxWindows ?? PROTOCOL.MAX_WINDOWS;
+    this.maxBufferSize = options.maxBufferSize ?? 100 * 1024; // 100KB
+    this.scrollbackDir = options.scrollbackDir;
+    this.scrollbackSize = options.scrollbackSize ?? 1024 * 1024; // 1MB
+  }
+
+  /**
+   * Start a new window; the first window becomes active
+   */
+  create(options: CreateWindowOptions): WindowInfo {
+    if (this.windows.size >= this.maxWindows) {
+      throw new Error(`Window limit reached (${this.maxWindows})`);
+    }
+
+    const windowId = options.windowId || this.generateWindowId();
+    if (this.windows.has(windowId)) {
+      throw new Error(`Window already exists: ${windowId}`);
+    }
+
+    const info: WindowInfo = {
+      windowId,
+      name: options.name || basename(options.command),
+      command: options.command,
+      cols: options.cols,
+      rows: options.rows,
+      createdAt: Date.now(),
+    };
+
+    const terminal = new Terminal({
+      command: options.command,
+      args: options.args,
+      cwd: options.cwd,
+      env: options.env,
+      cols: options.cols,
+      rows: options.rows,
+    });
+    const scrollback = this.scrollbackDir
+      ? new Scrollback({ file: join(this.scrollbackDir, `${windowId}.log`), maxSize: this.scrollbackSize })
+      : null;
+    // Pick up where an earlier run of this window left off
+    const buffer = scrollback?.tail(this.maxBufferSize).data ?? '';
+    const window: TerminalWindow = { info, terminal, buffer, scrollback };
+
+    terminal.on('data', (data: string) => {
+      window.scrollback?.append(data);
+      window.buffer += data;
+      if (window.buffer.length > this.maxBufferSize) {
+        window.buffer = window.buffer.slice(findTrimPoint(window.buffer, window.buffer.length - this.maxBufferSize));
+      }
+      this.emit('data', windowId, data);
+    });
+
+    terminal.on('exit', (exitCode: number, signal?: number) => {
+      // The last window's output stays for a restarted session; others are gone for good
+      if (this.windows.size > 1) {
+        window.scrollback?.delete();
+      } else {
+        window.scrollback?.close();
+      }
+      this.remove(windowId);
+      this.emit('exit', windowId, exitCode, signal);
+      this.emit('change');
+    });
+
+    terminal.on('error', (error: Error) => {
+      this.emit('error', windowId, error);
+    });
+
+    this.windows.set(windowId, window);
+    try {
+      terminal.start();
+    } catch (error) {
+      this.windows.delete(windowId);
+      scrollback?.close();
+      throw error;
+    }
+    if (this.paused) {
+      terminal.pause();
+    }
+
+    if (!this.activeWindowId) {
+      this.activeWindowId = windowId;
+    }
+    this.emit('change');
+    return { ...info };
+  }
+
+  /**
+   * Kill a window's process; the window is removed once it exits
+   * @returns false if the window does not exist
+   */
+  close(windowId: string): boolean {
+    const window = this.windows.get(windowId);
+    if (!window) return false;
+    window.terminal.kill();
+    return true;
+  }
+
+  /**
+   * Make a window active
+   * @returns false if the window does not exist
+   */
+  setActive(windowId: string): boolean {
+    if (!this.windows.has(windowId)) return false;
+    if (this.activeWindowId !== windowId) {
+      this.activeWindowId = windowId;
+      this.emit('change');
+    }
+    return true;
+  }
+
+  /**
+   * Get the active window ID
+   */
+  getActiveWindowId(): string | null {
+    return this.activeWindowId;
+  }
+
+  /**
+   * Check if a window exists
+   */
+  has(windowId: string): boolean {
+    return this.windows.has(windowId);
+  }
+
+  /**
+   * Check if a window's process is running
+   */
+  isRunning(windowId: string): boolean {
+    return this.windows.get(windowId)?.terminal.isRunning() ?? false;
+  }
+
+  /**
+   * Write input to a window
+   */
+  write(windowId: string, data: string): void {
+    this.windows.get(windowId)?.terminal.write(data);
+  }
+
+  /**
+   * Signal the foreground process of a window
+   */
+  signal(windowId: string, signal: string): void {
+    this.windows.get(windowId)?.terminal.signal(signal);
+  }
+
+  /**
+   * Resize a window
+   */
+  resize(windowId: string, cols: number, rows: number): void {
+    const window = this.windows.get(windowId);
+    if (!window) return;
+    window.terminal.resize(cols, rows);
+    window.info.cols = cols;
+    window.info.rows = rows;
+  }
+
+  /**
+   * Stop reading output from every window, including ones opened before resume()
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    for (const window of this.windows.values()) {
+      window.terminal.pause();
+    }
+  }
+
+  /**
+   * Read output from every window again
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    for (const window of this.windows.values()) {
+      window.terminal.resume();
+    }
+  }
+
+  /**
+   * Get a window's current dimensions
+   */
+  getDimensions(windowId: string): { cols: number; rows: number } | null {
+    return this.windows.get(windowId)?.terminal.getDimensions() ?? null;
+  }
+
+  /**
+   * Get buffered output of a window
+   */
+  getBuffer(windowId: string): string {
+    return this.windows.get(windowId)?.buffer ?? '';
+  }
+
+  /**
+   * Get what a window holds beyond its buffered output
+   * @returns null unless the window keeps scrollback on disk
+   */
+  getScrollbackRange(windowId: string): ScrollbackRange | null {
+    const window = this.windows.get(windowId);
+    if (!window?.scrollback) return null;
+    const { start, end } = window.scrollback;
+    return { start, from: Math.max(start, end - Buffer.byteLength(window.buffer)), end };
+  }
+
+  /**
+   * Read older output of a window, ending at `before`
+   * @returns the output and the offset it starts at, or null without scrollback
+   */
+  readScrollback(windowId: string, before: number, maxBytes: number): { data: string; start: number } | null {
+    const scrollback = this.windows.get(windowId)?.scrollback;
+    if (!scrollback) return null;
+    return scrollback.read(before - maxBytes, before);
+  }
+
+  /**
+   * List windows in creation order
+   */
+  list(): WindowInfo[] {
+    return [...this.windows.values()].map((window) => ({ ...window.info }));
+  }
+
+  /**
+   * Number of open windows
+   */
+  get size(): number {
+    return this.windows.size;
+  }
+
+  /**
+   * Kill every window without emitting exit events
+   */
+  killAll(): void {
+    for (const window of this.windows.values()) {
+      window.terminal.removeAllListeners();
+      window.terminal.kill();
+      window.scrollback?.close();
+    }
+    this.windows.clear();
+    this.activeWindowId = null;
+  }
+
+  private remove(windowId: string): void {
+    this.windows.delete(windowId);
+    if (this.activeWindowId === windowId) {
+      // Fall back to the most recently created window
+      const remaining = [...this.windows.keys()];
+      this.activeWindowId = remaining[remaining.length - 1] ?? null;
+    }
+  }
+
+  private generateWindowId(): string {
+    let windowId: string;
+    do {
+      windowId = `w${this.nextWindowNumber++}`;
+    } while (this.windows.has(windowId));
+    return windowId;
+  }
+}
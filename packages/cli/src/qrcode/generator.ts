@@ -34,3 +34,28 @@ export function getWebUrl(data: QRCodeData): string {
   return `${baseUrl}/session?id=${data.sessionId}&key=${encodeURIComponent(data.publicKey)}`;
 }
 
+
+/**
+ * Read-only share link for a session web URL
+ */
+export function getViewerUrl(sessionWebUrl: string, viewerToken: string): string {
+  return `${sessionWebUrl}&view=${encodeURIComponent(viewerToken)}`;
+}
+
+/**
+ * Display the read-only share link as a QR code
+ */
+export function displayViewerQRCode(viewerUrl: string): void {
+  console.log('');
+  console.log('👀 Scan this QR code to watch read-only:');
+  console.log('');
+
+  qrcode.generate(viewerUrl, { small: true }, (qrString) => {
+    console.log(qrString);
+  });
+
+  console.log('');
+  console.log('Or share this URL:');
+  console.log(`${viewerUrl}`);
+  console.log('');
+}
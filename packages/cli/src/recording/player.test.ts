@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Asciicast } from '@always-coder/shared';
+import { playRecording } from './player.js';
+
+const cast: Asciicast = {
+  header: { version: 2, width: 80, height: 24 },
+  events: [
+    [0.5, 'o', 'a'],
+    [0.5, 'i', 'typed'],
+    [10.5, 'o', 'b'],
+    [11, 'r', '100x30'],
+    [11, 'm', 'marker'],
+  ],
+};
+
+describe('playRecording', () => {
+  it('should write output and resizes with the recorded delays', async () => {
+    const written: string[] = [];
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    await playRecording(cast, { write: (data) => written.push(data), sleep });
+
+    expect(written).toEqual(['\x1b[8;24;80t', 'a', 'b', '\x1b[8;30;100t']);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([500, 10000, 500]);
+  });
+
+  it('should apply speed and idle time limit', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    await playRecording(cast, { write: () => {}, sleep, speed: 2, idleTimeLimit: 2 });
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([250, 1000, 250]);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    const written: string[] = [];
+    const sleep = vi.fn(async () => controller.abort());
+
+    await playRecording(cast, { write: (data) => written.push(data), sleep, signal: controller.signal });
+
+    expect(written).toEqual(['\x1b[8;24;80t']);
+  });
+});
@@ -0,0 +1,76 @@
+import { parseResize, type Asciicast } from '@always-coder/shared';
+
+/**
+ * Playback options
+ */
+export interface PlaybackOptions {
+  /** Output sink (default: process.stdout) */
+  write?: (data: string) => void;
+  /** Playback speed multiplier (default: 1) */
+  speed?: number;
+  /** Cap on pauses between events, in seconds */
+  idleTimeLimit?: number;
+  /** Wait function, injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+  /** Stop playback early */
+  signal?: AbortSignal;
+}
+
+/**
+ * Wait for ms, or until the signal aborts
+ */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Resize escape sequence (XTWINOPS); terminals that don't support it ignore it
+ */
+function resizeSequence(cols: number, rows: number): string {
+  return `\x1b[8;${rows};${cols}t`;
+}
+
+/**
+ * Play a recording's output with its original timing
+ * Input events are not replayed; markers are skipped.
+ */
+export async function playRecording(cast: Asciicast, options: PlaybackOptions = {}): Promise<void> {
+  const write = options.write ?? ((data: string) => process.stdout.write(data));
+  const sleep = options.sleep ?? ((ms: number) => sleepUnlessAborted(ms, options.signal));
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const idleTimeLimit = options.idleTimeLimit ?? cast.header.idle_time_limit;
+
+  write(resizeSequence(cast.header.width, cast.header.height));
+
+  let previous = 0;
+  for (const [time, code, data] of cast.events) {
+    if (options.signal?.aborted) return;
+
+    let delay = Math.max(0, time - previous);
+    if (idleTimeLimit !== undefined) {
+      delay = Math.min(delay, idleTimeLimit);
+    }
+    previous = time;
+    if (delay > 0) {
+      await sleep((delay * 1000) / speed);
+      if (options.signal?.aborted) return;
+    }
+
+    if (code === 'o') {
+      write(data);
+    } else if (code === 'r') {
+      const size = parseResize(data);
+      if (size) {
+        write(resizeSequence(size.cols, size.rows));
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseAsciicast } from '@always-coder/shared';
+import { SessionRecorder } from './recorder.js';
+
+describe('SessionRecorder', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'always-recorder-'));
+    file = join(dir, 'session.cast');
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a header and timed events', () => {
+    const recorder = new SessionRecorder({ file, command: 'claude' });
+    recorder.start(80, 24);
+    recorder.output('hello');
+    vi.advanceTimersByTime(1500);
+    recorder.resize(100, 30);
+    recorder.marker('window: tests');
+    recorder.close();
+
+    const cast = parseAsciicast(readFileSync(file, 'utf-8'));
+    expect(cast.header).toMatchObject({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: 1_700_000_000,
+      command: 'claude',
+    });
+    expect(cast.events).toEqual([
+      [0, 'o', 'hello'],
+      [1.5, 'r', '100x30'],
+      [1.5, 'm', 'window: tests'],
+    ]);
+  });
+
+  it('should record input only when enabled', () => {
+    const withoutInput = new SessionRecorder({ file });
+    withoutInput.start(80, 24);
+    withoutInput.input('secret\r');
+    withoutInput.close();
+    expect(parseAsciicast(readFileSync(file, 'utf-8')).events).toEqual([]);
+
+    const withInput = new SessionRecorder({ file, recordInput: true });
+    withInput.start(80, 24);
+    withInput.input('ls\r');
+    withInput.close();
+    expect(parseAsciicast(readFileSync(file, 'utf-8')).events).toEqual([[0, 'i', 'ls\r']]);
+  });
+
+  it('should ignore events before start and after close', () => {
+    const recorder = new SessionRecorder({ file });
+    recorder.output('too early');
+    recorder.start(80, 24);
+    recorder.close();
+    recorder.output('too late');
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(parseAsciicast(readFileSync(file, 'utf-8')).events).toEqual([]);
+  });
+
+  it('should fail on construction when the file cannot be opened', () => {
+    expect(() => new SessionRecorder({ file: join(dir, 'missing', 'session.cast') })).toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { openSync, writeSync, closeSync } from 'fs';
+import {
+  formatAsciicastHeader,
+  formatAsciicastEvent,
+  formatResize,
+  type AsciicastEventCode,
+} from '@always-coder/shared';
+
+/**
+ * Session recorder options
+ */
+export interface SessionRecorderOptions {
+  /** Output file (truncated if it exists) */
+  file: string;
+  /** Also record input from local and web clients */
+  recordInput?: boolean;
+  /** Command shown in the recording header */
+  command?: string;
+  title?: string;
+}
+
+/**
+ * Records terminal output to an asciicast v2 file
+ *
+ * The file is opened on construction so a bad path fails before the session
+ * starts; the header and clock start with start(). Writes are synchronous so
+ * nothing is lost when the process exits right after close().
+ */
+export class SessionRecorder {
+  private fd: number | null;
+  private options: SessionRecorderOptions;
+  private startTime: number | null = null;
+
+  constructor(options: SessionRecorderOptions) {
+    this.options = options;
+    this.fd = openSync(options.file, 'w');
+  }
+
+  /**
+   * Write the header and start the clock
+   */
+  start(cols: number, rows: number): void {
+    if (this.startTime !== null || this.fd === null) return;
+
+    this.startTime = Date.now();
+    this.writeLine(
+      formatAsciicastHeader({
+        version: 2,
+        width: cols,
+        height: rows,
+        timestamp: Math.floor(this.startTime / 1000),
+        command: this.options.command,
+        title: this.options.title,
+        env: {
+          SHELL: process.env.SHELL || '',
+          TERM: process.env.TERM || 'xterm-256color',
+        },
+      })
+    );
+  }
+
+  /**
+   * Record terminal output
+   */
+  output(data: string): void {
+    this.event('o', data);
+  }
+
+  /**
+   * Record input (ignored unless recordInput is set)
+   */
+  input(data: string): void {
+    if (this.options.recordInput) {
+      this.event('i', data);
+    }
+  }
+
+  /**
+   * Record a terminal resize
+   */
+  resize(cols: number, rows: number): void {
+    this.event('r', formatResize(cols, rows));
+  }
+
+  /**
+   * Record a marker (e.g. a window switch)
+   */
+  marker(label: string): void {
+    this.event('m', label);
+  }
+
+  /**
+   * Check if the recording has started and is still open
+   */
+  isRecording(): boolean {
+    return this.startTime !== null && this.fd !== null;
+  }
+
+  /**
+   * Close the file; later events are ignored
+   */
+  close(): void {
+    if (this.fd === null) return;
+    closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private event(code: AsciicastEventCode, data: string): void {
+    if (!this.isRecording()) return;
+    const elapsed = (Date.now() - this.startTime!) / 1000;
+    this.writeLine(formatAsciicastEvent(elapsed, code, data));
+  }
+
+  private writeLine(line: string): void {
+    writeSync(this.fd!, line);
+  }
+}
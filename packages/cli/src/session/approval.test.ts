@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { E2ECrypto, getKeyFingerprint, getShortAuthString, formatShortAuthString } from '@always-coder/shared';
+import { JoinApprovals, getDeviceKey, type JoinRequest } from './approval.js';
+
+describe('JoinApprovals', () => {
+  const cliKey = new E2ECrypto().getPublicKey();
+  // Stands in for a browser's P-256 identity key; only its base64 form matters here
+  const identityKey = new E2ECrypto().getPublicKey();
+  let output: string;
+  let trusted: Set<string>;
+  let approvals: JoinApprovals;
+
+  function joinRequest(connectionId: string, overrides: Partial<JoinRequest> = {}): JoinRequest {
+    return { connectionId, publicKey: new E2ECrypto().getPublicKey(), ...overrides };
+  }
+
+  beforeEach(() => {
+    output = '';
+    trusted = new Set();
+    approvals = new JoinApprovals({
+      publicKey: cliKey,
+      write: (text) => {
+        output += text;
+      },
+      isTrusted: (deviceKey) => trusted.has(deviceKey),
+      onTrust: (request) => trusted.add(getDeviceKey(request)),
+    });
+  });
+
+  it('should show who is joining and resolve with the answer', async () => {
+    const request = joinRequest('web-1', { userEmail: 'dev@example.com', userAgent: 'TestBrowser/1.0' });
+    const decision = approvals.request(request);
+
+    expect(output).toContain('dev@example.com');
+    expect(output).toContain('TestBrowser/1.0');
+    expect(output).toContain(getKeyFingerprint(request.publicKey));
+    expect(output).toContain(formatShortAuthString(getShortAuthString(cliKey, request.publicKey)));
+    expect(approvals.handleInput('y')).toBe(true);
+    await expect(decision).resolves.toBe('approved');
+  });
+
+  it('should decline on n, Enter and Ctrl+C and ignore other keys', async () => {
+    for (const key of ['n', '\r', '\x03']) {
+      const decision = approvals.request(joinRequest(`web-${key}`));
+      expect(approvals.handleInput('x')).toBe(true);
+      approvals.handleInput(key);
+      await expect(decision).resolves.toBe('rejected');
+    }
+  });
+
+  it('should leave input alone when nothing is waiting', () => {
+    expect(approvals.handleInput('y')).toBe(false);
+  });
+
+  it('should let approved keys rejoin without asking', async () => {
+    const request = joinRequest('web-1');
+    const first = approvals.request(request);
+    approvals.handleInput('y');
+    await first;
+    output = '';
+
+    await expect(approvals.request({ ...request, connectionId: 'web-2' })).resolves.toBe('approved');
+    expect(output).toBe('');
+  });
+
+  it('should trust devices for later sessions on t', async () => {
+    const request = joinRequest('web-1', { deviceKey: identityKey });
+    const decision = approvals.request(request);
+
+    // The fingerprint shown is the identity key's, which stays the same across page loads
+    expect(output).toContain(getKeyFingerprint(identityKey));
+    approvals.handleInput('t');
+
+    await expect(decision).resolves.toBe('approved');
+    expect(trusted.has(identityKey)).toBe(true);
+  });
+
+  it('should let trusted devices in without asking, whatever key they connect with', async () => {
+    trusted.add(identityKey);
+
+    expect(approvals.isApproved(identityKey)).toBe(true);
+    await expect(approvals.request(joinRequest('web-1', { deviceKey: identityKey }))).resolves.toBe('approved');
+    await expect(approvals.request(joinRequest('web-2', { deviceKey: identityKey }))).resolves.toBe('approved');
+    expect(output).toBe('');
+  });
+
+  it('should prompt for queued requests one at a time', async () => {
+    const first = approvals.request(joinRequest('web-1'));
+    const second = approvals.request(joinRequest('web-2'));
+    expect(approvals.isPending('web-2')).toBe(true);
+
+    approvals.handleInput('n');
+    await expect(first).resolves.toBe('rejected');
+    approvals.handleInput('y');
+    await expect(second).resolves.toBe('approved');
+  });
+
+  it('should cancel requests whose client left', async () => {
+    const first = approvals.request(joinRequest('web-1'));
+    const second = approvals.request(joinRequest('web-2'));
+
+    approvals.cancel('web-2');
+    approvals.cancel('web-1');
+
+    await expect(first).resolves.toBe('cancelled');
+    await expect(second).resolves.toBe('cancelled');
+    expect(approvals.handleInput('y')).toBe(false);
+  });
+});
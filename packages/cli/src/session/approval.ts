@@ -0,0 +1,189 @@
+import chalk from 'chalk';
+import {
+  getKeyFingerprint,
+  getShortAuthString,
+  formatShortAuthString,
+  type JoinApprovalStatus,
+  type WebConnectionRole,
+} from '@always-coder/shared';
+
+/**
+ * A web client waiting to be let into the session
+ */
+export interface JoinRequest {
+  connectionId: string;
+  publicKey: string;
+  /** Identity key that signed publicKey; absent when the browser sent none or it didn't verify */
+  deviceKey?: string;
+  role?: WebConnectionRole;
+  userEmail?: string;
+  userAgent?: string;
+}
+
+/**
+ * Key that identifies the joining device across connections
+ * Without a verified identity key only the connection's own key is known, and
+ * that one is new on every page load.
+ */
+export function getDeviceKey(request: Pick<JoinRequest, 'publicKey' | 'deviceKey'>): string {
+  return request.deviceKey ?? request.publicKey;
+}
+
+/**
+ * Outcome of a join request; cancelled means the client left or the session closed first
+ */
+export type JoinDecision = Exclude<JoinApprovalStatus, 'pending'> | 'cancelled';
+
+/**
+ * Join approval options
+ */
+export interface JoinApprovalsOptions {
+  /** CLI public key, for the short authentication string */
+  publicKey: string;
+  write?: (text: string) => void;
+  /** Devices trusted in earlier sessions join without a prompt (called with the device key) */
+  isTrusted?: (deviceKey: string) => boolean;
+  /** Called when the user trusts a device for future sessions */
+  onTrust?: (request: JoinRequest) => void;
+}
+
+interface PendingJoin {
+  request: JoinRequest;
+  resolve: (decision: JoinDecision) => void;
+}
+
+/**
+ * Asks the local user to approve web clients before they get the session key
+ *
+ * Requests are queued and prompted one at a time; keystrokes go to the prompt
+ * while one is shown. Approved device keys are remembered for the rest of the
+ * session, so a device that rejoins is let straight in; trusted devices are
+ * let in across sessions.
+ */
+export class JoinApprovals {
+  private approvedKeys: Set<string> = new Set();
+  private queue: PendingJoin[] = [];
+  private current: PendingJoin | null = null;
+  private options: JoinApprovalsOptions;
+  private write: (text: string) => void;
+
+  constructor(options: JoinApprovalsOptions) {
+    this.options = options;
+    this.write = options.write || ((text) => process.stdout.write(text));
+  }
+
+  /**
+   * Decide whether the client may join, prompting unless its key was approved before
+   */
+  request(request: JoinRequest): Promise<JoinDecision> {
+    if (this.isApproved(getDeviceKey(request))) {
+      return Promise.resolve('approved');
+    }
+    return new Promise((resolve) => {
+      this.queue.push({ request, resolve });
+      this.promptNext();
+    });
+  }
+
+  /**
+   * Whether the device was approved earlier in this session or is trusted
+   */
+  isApproved(deviceKey: string): boolean {
+    return this.approvedKeys.has(deviceKey) || (this.options.isTrusted?.(deviceKey) ?? false);
+  }
+
+  /**
+   * Whether the connection is still waiting for a decision
+   */
+  isPending(connectionId: string): boolean {
+    return (
+      this.current?.request.connectionId === connectionId ||
+      this.queue.some((pending) => pending.request.connectionId === connectionId)
+    );
+  }
+
+  /**
+   * Feed local keystrokes to the prompt
+   * @returns true if the input was consumed by the prompt
+   */
+  handleInput(data: string): boolean {
+    if (!this.current) return false;
+
+    const key = data.toLowerCase();
+    if (key === 'y' || key === 't') {
+      this.approvedKeys.add(getDeviceKey(this.current.request));
+      if (key === 't') {
+        this.options.onTrust?.(this.current.request);
+      }
+      this.answer('approved');
+    } else if (key === 'n' || key === '\r' || key === '\x1b' || key === '\x03') {
+      // Enter takes the default (no); Esc and Ctrl+C decline too
+      this.answer('rejected');
+    }
+    return true;
+  }
+
+  /**
+   * Drop a request whose client went away before it was answered
+   */
+  cancel(connectionId: string): void {
+    const queued = this.queue.findIndex((pending) => pending.request.connectionId === connectionId);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1)[0].resolve('cancelled');
+    }
+    if (this.current?.request.connectionId === connectionId) {
+      this.answer('cancelled');
+    }
+  }
+
+  /**
+   * Cancel everything still waiting (session closing)
+   */
+  rejectAll(): void {
+    for (const pending of this.queue.splice(0)) {
+      pending.resolve('cancelled');
+    }
+    if (this.current) {
+      this.current.resolve('cancelled');
+      this.current = null;
+    }
+  }
+
+  private answer(decision: JoinDecision): void {
+    const pending = this.current!;
+    this.current = null;
+    const labels: Record<JoinDecision, string> = {
+      approved: chalk.green('approved'),
+      rejected: chalk.red('declined'),
+      cancelled: chalk.gray('client left'),
+    };
+    this.write(labels[decision] + '\r\n');
+    pending.resolve(decision);
+    this.promptNext();
+  }
+
+  private promptNext(): void {
+    if (this.current) return;
+    const next = this.queue.shift();
+    if (!next) return;
+    this.current = next;
+
+    const { request } = next;
+    // Raw-mode terminals need explicit carriage returns
+    const lines = [
+      '',
+      chalk.yellow(`🔐 ${request.role === 'viewer' ? 'Viewer' : 'Web client'} wants to join this session`),
+      `   User:        ${request.userEmail || chalk.gray('not signed in')}`,
+      `   Device key:  ${chalk.bold(getKeyFingerprint(getDeviceKey(request)))}${
+        request.deviceKey ? '' : chalk.gray(' (new on every page load)')
+      }`,
+      `   Browser:     ${request.userAgent || chalk.gray('unknown')}`,
+      `   Verify:      ${formatShortAuthString(getShortAuthString(this.options.publicKey, request.publicKey))}`,
+      chalk.gray('   The browser shows the same symbols if nobody tampered with the connection.'),
+      '',
+    ];
+    this.write(
+      lines.join('\r\n') + '\r\n' + chalk.yellow('   Allow this device? [y]es / [t]rust from now on / [N]o ')
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OutputCoalescer } from './coalescer.js';
+
+describe('OutputCoalescer', () => {
+  let sent: Array<[string, string]>;
+  let buffered: number;
+  let pause: ReturnType<typeof vi.fn>;
+  let resume: ReturnType<typeof vi.fn>;
+  let coalescer: OutputCoalescer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    buffered = 0;
+    pause = vi.fn();
+    resume = vi.fn();
+    coalescer = new OutputCoalescer({
+      send: (windowId, data) => sent.push([windowId, data]),
+      minDelay: 5,
+      maxDelay: 40,
+      maxSize: 100,
+      getBufferedAmount: () => buffered,
+      highWaterMark: 1000,
+      lowWaterMark: 200,
+      pause,
+      resume,
+    });
+  });
+
+  afterEach(() => {
+    coalescer.clear();
+    vi.useRealTimers();
+  });
+
+  it('should send chunks that arrive together as one message per window', () => {
+    coalescer.push('main', 'a');
+    coalescer.push('w1', 'x');
+    coalescer.push('main', 'b');
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(5);
+
+    expect(sent).toEqual([['main', 'ab'], ['w1', 'x']]);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should send right away once maxSize is waiting', () => {
+    coalescer.push('main', 'a'.repeat(60));
+    coalescer.push('main', 'b'.repeat(60));
+
+    expect(sent).toEqual([['main', 'a'.repeat(60) + 'b'.repeat(60)]]);
+  });
+
+  it('should wait longer while output keeps streaming and go back after a lone chunk', () => {
+    // Busy: the delay doubles after each batch of several chunks
+    for (const expected of [5, 10, 20, 40, 40]) {
+      coalescer.push('main', 'x');
+      coalescer.push('main', 'y');
+      vi.advanceTimersByTime(expected - 1);
+      expect(sent).toHaveLength(0);
+      vi.advanceTimersByTime(1);
+      expect(sent).toHaveLength(1);
+      sent = [];
+    }
+
+    // A lone chunk (a keystroke echo) resets it
+    coalescer.push('main', 'z');
+    vi.advanceTimersByTime(40);
+    coalescer.push('main', 'z');
+    vi.advanceTimersByTime(5);
+    expect(sent).toEqual([['main', 'z'], ['main', 'z']]);
+  });
+
+  it('should hold output and pause its source until the connection drains below the low water mark', () => {
+    buffered = 1500;
+    coalescer.push('main', 'a'.repeat(150));
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(coalescer.isPaused).toBe(true);
+    vi.advanceTimersByTime(200);
+    coalescer.push('main', 'b');
+    expect(sent).toEqual([]);
+
+    // Below the high water mark is not enough
+    buffered = 500;
+    vi.advanceTimersByTime(200);
+    expect(sent).toEqual([]);
+    expect(resume).not.toHaveBeenCalled();
+
+    buffered = 100;
+    vi.advanceTimersByTime(40);
+
+    expect(sent).toEqual([['main', 'a'.repeat(150) + 'b']]);
+    expect(resume).toHaveBeenCalledTimes(1);
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(coalescer.isPaused).toBe(false);
+  });
+
+  it('should pause when the connection backs up while output waits', () => {
+    coalescer.push('main', 'a');
+    buffered = 1500;
+    vi.advanceTimersByTime(5);
+
+    expect(sent).toEqual([]);
+    expect(pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume its source after a flush while paused', () => {
+    buffered = 1500;
+    coalescer.push('main', 'a');
+    coalescer.flush();
+    expect(sent).toEqual([['main', 'a']]);
+
+    buffered = 0;
+    vi.advanceTimersByTime(40);
+
+    expect(resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush on demand and drop output when cleared', () => {
+    coalescer.push('main', 'now');
+    coalescer.flush();
+    expect(sent).toEqual([['main', 'now']]);
+
+    coalescer.push('main', 'never');
+    coalescer.clear();
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should resume its source when cleared', () => {
+    buffered = 1500;
+    coalescer.push('main', 'a');
+
+    coalescer.clear();
+
+    expect(resume).toHaveBeenCalledTimes(1);
+    expect(coalescer.isPaused).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Output coalescer options
+ */
+export interface OutputCoalescerOptions {
+  /** Sends one window's batched output */
+  send: (windowId: string, data: string) => void;
+  /** Wait for more output this long (ms) after output that came alone */
+  minDelay?: number;
+  /** Longest wait (ms), reached while output keeps streaming */
+  maxDelay?: number;
+  /** Send as soon as this much output is waiting */
+  maxSize?: number;
+  /** Bytes queued on the connection and not yet sent */
+  getBufferedAmount?: () => number;
+  /** Above this many queued bytes, output waits and its source is paused */
+  highWaterMark?: number;
+  /** ...until the queue drains below this many */
+  lowWaterMark?: number;
+  /** Stop reading output at its source (the PTYs) */
+  pause?: () => void;
+  /** Read output at its source again */
+  resume?: () => void;
+}
+
+/**
+ * Batches terminal output into fewer, larger messages
+ *
+ * PTY output arrives in many small chunks, and each message sent costs a relay
+ * call (a Lambda invocation and cache write on AWS). Output waits up to a delay
+ * for more to arrive: the delay starts short so typing stays responsive, and
+ * doubles up to maxDelay while every batch takes in several chunks, as when a
+ * build is printing. Reaching maxSize sends right away.
+ *
+ * Once more than highWaterMark bytes are queued on the connection, output is
+ * held instead of queued behind them and the source is paused, so a program
+ * printing faster than the connection carries it blocks on its PTY. Both go on
+ * once the queue drains below lowWaterMark.
+ */
+export class OutputCoalescer {
+  private pending: Map<string, string> = new Map();
+  private pendingSize = 0;
+  private chunks = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private delay: number;
+  private minDelay: number;
+  private maxDelay: number;
+  private maxSize: number;
+  private highWaterMark: number;
+  private lowWaterMark: number;
+  private paused = false;
+  private send: (windowId: string, data: string) => void;
+  private getBufferedAmount: () => number;
+  private pause: () => void;
+  private resume: () => void;
+
+  constructor(options: OutputCoalescerOptions) {
+    this.send = options.send;
+    this.minDelay = options.minDelay ?? 5;
+    this.maxDelay = options.maxDelay ?? 40;
+    this.maxSize = options.maxSize ?? 32 * 1024;
+    this.highWaterMark = options.highWaterMark ?? 256 * 1024;
+    this.lowWaterMark = options.lowWaterMark ?? 64 * 1024;
+    this.getBufferedAmount = options.getBufferedAmount ?? (() => 0);
+    this.pause = options.pause ?? (() => {});
+    this.resume = options.resume ?? (() => {});
+    this.delay = this.minDelay;
+  }
+
+  /**
+   * Number of characters waiting to be sent
+   */
+  get size(): number {
+    return this.pendingSize;
+  }
+
+  /**
+   * Whether the source is paused until the connection drains
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Add a window's output
+   */
+  push(windowId: string, data: string): void {
+    if (!data) return;
+
+    this.pending.set(windowId, (this.pending.get(windowId) ?? '') + data);
+    this.pendingSize += data.length;
+    this.chunks++;
+
+    if (!this.paused && this.getBufferedAmount() > this.highWaterMark) {
+      this.throttle();
+    }
+
+    if (!this.paused && this.pendingSize >= this.maxSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.schedule(this.paused ? this.maxDelay : this.delay);
+    }
+  }
+
+  /**
+   * Send everything waiting now, congested or not
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // A paused source waits for the connection to drain, not for more output
+    if (this.paused) {
+      this.schedule(this.maxDelay);
+    }
+    if (this.pending.size === 0) return;
+
+    // Output that keeps coming in several chunks per batch is worth waiting longer for
+    this.delay = this.chunks > 1 ? Math.min(this.delay * 2, this.maxDelay) : this.minDelay;
+
+    const batches = Array.from(this.pending);
+    this.pending.clear();
+    this.pendingSize = 0;
+    this.chunks = 0;
+    for (const [windowId, data] of batches) {
+      this.send(windowId, data);
+    }
+  }
+
+  /**
+   * Drop waiting output, stop the timer and resume a paused source
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+    this.pendingSize = 0;
+    this.chunks = 0;
+    this.delay = this.minDelay;
+    if (this.paused) {
+      this.paused = false;
+      this.resume();
+    }
+  }
+
+  private throttle(): void {
+    this.paused = true;
+    this.pause();
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const buffered = this.getBufferedAmount();
+      if (this.paused && buffered < this.lowWaterMark) {
+        this.paused = false;
+        this.resume();
+      } else if (!this.paused && buffered > this.highWaterMark) {
+        this.throttle();
+      }
+
+      if (this.paused) {
+        // Check again later; little more comes in while the source is paused
+        this.schedule(this.maxDelay);
+      } else {
+        this.flush();
+      }
+    }, delay);
+  }
+}
@@ -1,5 +1,23 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  E2ECrypto,
+  InputPolicy,
+  DEFAULT_INPUT_POLICY,
+  MessageType,
+  createMessage,
+  parseAsciicast,
+  type EncryptedEnvelope,
+  type Message,
+  PROTOCOL,
+  type HistoryChunkPayload,
+  type StateSyncPayload,
+} from '@always-coder/shared';
 import { SessionManager } from './manager.js';
+import { Terminal } from '../pty/terminal.js';
+import { getInputPolicy } from '../config/index.js';
 
 // Mock dependencies
 vi.mock('../websocket/client.js', () => ({
@@ -10,6 +28,7 @@ vi.mock('../websocket/client.js', () => ({
     sendSessionReconnect: vi.fn(),
     sendSessionUpdate: vi.fn(),
     sendEncrypted: vi.fn(),
+    sendPushNotifications: vi.fn(),
     close: vi.fn(),
   })),
 }));
@@ -21,6 +40,10 @@ vi.mock('../pty/terminal.js', () => ({
     write: vi.fn(),
     resize: vi.fn(),
     kill: vi.fn(),
+    signal: vi.fn(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    removeAllListeners: vi.fn(),
     isRunning: vi.fn().mockReturnValue(true),
     getDimensions: vi.fn().mockReturnValue({ cols: 80, rows: 24 }),
   })),
@@ -30,10 +53,23 @@ vi.mock('../qrcode/generator.js', () => ({
   displayQRCode: vi.fn(),
 }));
 
-vi.mock('../config/index.js', () => ({
-  getWSEndpoint: vi.fn().mockReturnValue('wss://test.example.com'),
-  getWebUrl: vi.fn().mockReturnValue('https://test.example.com'),
-  loadConfig: vi.fn().mockReturnValue({}),
+vi.mock('../config/index.js', async () => {
+  const { tmpdir } = await import('os');
+  return {
+    getWSEndpoint: vi.fn().mockReturnValue('wss://test.example.com'),
+    getWebUrl: vi.fn().mockReturnValue('https://test.example.com'),
+    loadConfig: vi.fn().mockReturnValue({}),
+    getInputPolicy: vi.fn().mockReturnValue(undefined),
+    getSessionsDir: vi.fn().mockReturnValue(`${tmpdir()}/always-coder-test-sessions`),
+    getScrollbackSize: vi.fn().mockReturnValue(1024 * 1024),
+    getNotificationConfig: vi.fn().mockReturnValue({}),
+  };
+});
+
+vi.mock('../crypto/trust.js', () => ({
+  isTrustedDevice: vi.fn().mockReturnValue(false),
+  trustDevice: vi.fn(),
+  verifyDeviceIdentity: vi.fn().mockReturnValue(null),
 }));
 
 vi.mock('../utils/instance.js', () => ({
@@ -44,37 +80,48 @@ vi.mock('../utils/instance.js', () => ({
   }),
 }));
 
+// The input policy a manager checks web input with, for tests to inspect or replace
+const inputPolicy = {
+  get(manager: SessionManager): InputPolicy {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (manager as any).inputPolicy;
+  },
+  set(manager: SessionManager, policy: InputPolicy): void {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (manager as any).inputPolicy = policy;
+  },
+};
+
 describe('SessionManager', () => {
-  describe('input filtering', () => {
-    it('should have input filter enabled by default', () => {
-      const manager = new SessionManager({
-        command: 'bash',
-      });
+  describe('input policy', () => {
+    // Check input as the owner would type it in the main window
+    function check(manager: SessionManager, data: string, role: 'owner' | 'guest' = 'owner') {
+      return inputPolicy.get(manager).checkInput(data, { role, clientId: 'web-a', windowId: 'main' });
+    }
 
-      // Access private property for testing
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const inputFilter = (manager as any).inputFilter;
-      expect(inputFilter).toBeDefined();
+    afterEach(() => {
+      vi.mocked(getInputPolicy).mockReturnValue(undefined);
+    });
+
+    it('should apply the built-in rules by default', () => {
+      const manager = new SessionManager({ command: 'bash' });
 
-      const config = inputFilter.getConfig();
-      expect(config.blockCtrlC).toBe(true);
-      expect(config.blockCtrlD).toBe(true);
+      expect(check(manager, 'rm -rf /\r').denied).toEqual([{ rule: 'rm-rf-root', kind: 'line', action: 'deny' }]);
+      expect(check(manager, 'hello\x03world')).toMatchObject({ data: 'helloworld', blocked: true });
+      expect(check(manager, '\x04').denied).toEqual([{ rule: 'ctrl-d', kind: 'sequence', action: 'deny' }]);
+      expect(check(manager, 'hello world')).toEqual({ data: 'hello world', blocked: false, denied: [] });
     });
 
-    it('should allow disabling input filter via options', () => {
-      const manager = new SessionManager({
-        command: 'bash',
-        filterWebInput: false,
-      });
+    it('should allow everything when filtering is disabled', () => {
+      const manager = new SessionManager({ command: 'bash', filterWebInput: false });
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const inputFilter = (manager as any).inputFilter;
-      const config = inputFilter.getConfig();
-      expect(config.blockCtrlC).toBe(false);
-      expect(config.blockCtrlD).toBe(false);
+      expect(check(manager, '\x03\x04').data).toBe('\x03\x04');
+      expect(check(manager, 'rm -rf /\r').blocked).toBe(false);
+      expect(inputPolicy.get(manager).checkSignal('SIGKILL', 'owner').allowed).toBe(true);
+      expect(inputPolicy.get(manager).checkWindow('bash', 'guest').allowed).toBe(false);
     });
 
-    it('should allow custom input filter config', () => {
+    it('should turn legacy filter switches into rules', () => {
       const manager = new SessionManager({
         command: 'bash',
         inputFilterConfig: {
@@ -83,55 +130,723 @@ describe('SessionManager', () => {
         },
       });
 
+      expect(check(manager, '\x03').data).toBe('\x03');
+      expect(check(manager, '\x04').denied).toEqual([{ rule: 'blockCtrlD', kind: 'sequence', action: 'deny' }]);
+    });
+
+    it('should check configured rules before the built-in ones', () => {
+      vi.mocked(getInputPolicy).mockReturnValue({
+        rules: [
+          { id: 'owner-ctrl-c', roles: ['owner'], sequence: '\x03', action: 'allow' },
+          { id: 'no-push', roles: ['guest'], line: '^git push', action: 'deny' },
+        ],
+      });
+      const manager = new SessionManager({ command: 'bash' });
+
+      expect(check(manager, '\x03').data).toBe('\x03');
+      expect(check(manager, '\x03', 'guest').data).toBe('');
+      expect(check(manager, 'git push\r').blocked).toBe(false);
+      expect(check(manager, 'git push\r', 'guest').denied).toEqual([{ rule: 'no-push', kind: 'line', action: 'deny' }]);
+    });
+
+    it('should prefer a policy passed in options over the config file', () => {
+      vi.mocked(getInputPolicy).mockReturnValue({ rules: [{ sequence: '\x03', action: 'allow' }] });
+      const manager = new SessionManager({ command: 'bash', inputPolicy: { rules: [] } });
+
+      expect(check(manager, '\x03').data).toBe('');
+    });
+  });
+
+  describe('terminal windows', () => {
+    let manager: SessionManager;
+
+    // Feed a decrypted message through the normal web message path
+    function receive(message: Message, connectionId?: string): void {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const internal = manager as any;
+      vi.spyOn(internal.encryption, 'isReady').mockReturnValue(true);
+      vi.spyOn(internal.encryption, 'decrypt').mockReturnValue(message);
+      internal.handleEncryptedMessage({ connectionId });
+    }
+
+    function terminalInstance(index: number) {
+      return vi.mocked(Terminal).mock.results[index].value;
+    }
+
+    beforeEach(() => {
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'claude', daemon: true });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).startTerminal();
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should start the session command in the main window as given', () => {
+      expect(Terminal).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(Terminal).mock.calls[0][0]).toMatchObject({ command: 'claude' });
+      // Agent flags come from launch profiles, not from the session
+      expect(vi.mocked(Terminal).mock.calls[0][0].args ?? []).toEqual([]);
+    });
+
+    it('should give every window the session environment', () => {
+      manager.close();
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'claude', daemon: true, env: { ANTHROPIC_MODEL: 'test' } });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).startTerminal();
+      receive(createMessage(MessageType.WINDOW_CREATE, { name: 'tests', command: 'npm', args: ['test'] }, 1));
+
+      for (const [options] of vi.mocked(Terminal).mock.calls) {
+        expect(options.env).toEqual({ ANTHROPIC_MODEL: 'test' });
+      }
+    });
+
+    it('should open a new window and make it active', () => {
+      receive(createMessage(MessageType.WINDOW_CREATE, { name: 'tests', command: 'npm', args: ['test'] }, 1));
+
+      expect(vi.mocked(Terminal).mock.calls[1][0]).toMatchObject({ command: 'npm', args: ['test'] });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const windows = (manager as any).windows;
+      expect(windows.list().map((w: { name: string }) => w.name)).toEqual(['claude', 'tests']);
+      expect(windows.getActiveWindowId()).toBe('w1');
+    });
+
+    it('should route input to the window named in the message', () => {
+      receive(createMessage(MessageType.WINDOW_CREATE, {}, 1));
+
+      receive(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 2, 'w1'));
+      receive(createMessage(MessageType.TERMINAL_INPUT, 'pwd\r', 3));
+
+      expect(terminalInstance(1).write).toHaveBeenCalledWith('ls\r');
+      expect(terminalInstance(0).write).toHaveBeenCalledWith('pwd\r');
+    });
+
+    it('should route resize to the window named in the message', () => {
+      const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      receive(createMessage(MessageType.WINDOW_CREATE, {}, 1));
+
+      receive(createMessage(MessageType.TERMINAL_RESIZE, { cols: 100, rows: 30 }, 2, 'w1'));
+
+      expect(terminalInstance(1).resize).toHaveBeenCalledWith(100, 30);
+      expect(terminalInstance(0).resize).not.toHaveBeenCalled();
+      // No local terminal to resize in daemon mode
+      expect(write.mock.calls.some(([data]) => String(data).includes('\x1b[8;'))).toBe(false);
+      write.mockRestore();
+    });
+
+    it('should switch and close windows', () => {
+      receive(createMessage(MessageType.WINDOW_CREATE, {}, 1));
+
+      receive(createMessage(MessageType.WINDOW_SWITCH, { windowId: 'main' }, 2));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((manager as any).windows.getActiveWindowId()).toBe('main');
+
+      receive(createMessage(MessageType.WINDOW_CLOSE, { windowId: 'w1' }, 3));
+      expect(terminalInstance(1).kill).toHaveBeenCalled();
+    });
+
+    it('should ignore invalid window requests', () => {
+      receive(createMessage(MessageType.WINDOW_CREATE, { command: 42 }, 1));
+      receive(createMessage(MessageType.WINDOW_SWITCH, { windowId: 'missing' }, 2));
+
+      expect(Terminal).toHaveBeenCalledTimes(1);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((manager as any).windows.getActiveWindowId()).toBe('main');
+    });
+
+    it('should ignore input and resize from read-only viewers', () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const inputFilter = (manager as any).inputFilter;
-      const config = inputFilter.getConfig();
-      expect(config.blockCtrlC).toBe(false);
-      expect(config.blockCtrlD).toBe(true);
+      (manager as any).viewerConnections.add('viewer-1');
+
+      receive(createMessage(MessageType.TERMINAL_INPUT, 'rm -rf /\r', 1), 'viewer-1');
+      receive(createMessage(MessageType.TERMINAL_RESIZE, { cols: 10, rows: 5 }, 2), 'viewer-1');
+      receive(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 3), 'editor-1');
+
+      expect(terminalInstance(0).write).toHaveBeenCalledTimes(1);
+      expect(terminalInstance(0).write).toHaveBeenCalledWith('ls\r');
+      expect(terminalInstance(0).resize).not.toHaveBeenCalled();
     });
   });
 
-  describe('filterWebInput', () => {
+  describe('multiple web clients', () => {
     let manager: SessionManager;
+    let wsClient: Record<string, ReturnType<typeof vi.fn>>;
+    const browsers = { 'web-a': new E2ECrypto(), 'web-b': new E2ECrypto() };
+
+    function accept(connectionId: keyof typeof browsers, owner?: boolean): void {
+      const browser = browsers[connectionId];
+      const sentBefore = wsClient.sendEncrypted.mock.calls.length;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).acceptWebClient({ connectionId, publicKey: browser.getPublicKey(), owner });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      browser.establishSharedKey((manager as any).encryption.getPublicKey());
+      // The first envelope binds the key to the connection
+      const binding = browser.decrypt(sent()[sentBefore]);
+      expect(binding.type).toBe(MessageType.KEY_ROTATE);
+      browser.acceptRotatedKey((binding.payload as { publicKey: string }).publicKey, false);
+    }
+
+    function emitChunk(data: string): void {
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+      terminal.on.mock.calls.find(([name]: [string]) => name === 'data')[1](data);
+    }
+
+    // Output as if the batching delay passed right after it
+    function emitOutput(data: string): void {
+      emitChunk(data);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).output.flush();
+    }
+
+    function sent(): EncryptedEnvelope[] {
+      return wsClient.sendEncrypted.mock.calls.map(([envelope]) => envelope);
+    }
 
     beforeEach(() => {
-      manager = new SessionManager({
-        command: 'bash',
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'bash', daemon: true });
+      wsClient = {
+        sendEncrypted: vi.fn(),
+        isConnected: vi.fn().mockReturnValue(true),
+        getBufferedAmount: vi.fn().mockReturnValue(0),
+        sendPushNotifications: vi.fn(),
+        close: vi.fn(),
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).wsClient = wsClient;
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    it('should send history only to the client that joined', () => {
+      accept('web-a');
+      emitOutput('hello');
+      wsClient.sendEncrypted.mockClear();
+
+      accept('web-b');
+
+      expect(sent().length).toBeGreaterThan(0);
+      expect(sent().every((envelope) => envelope.recipientId === 'web-b')).toBe(true);
+      const output = sent()
+        .slice(1)
+        .map((envelope) => browsers['web-b'].decrypt(envelope));
+      expect(output.find((m) => m.type === MessageType.TERMINAL_OUTPUT)?.payload).toBe('hello');
+    });
+
+    it('should tell clients what the agent in a window is doing', () => {
+      manager.close();
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'claude', daemon: true });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).wsClient = wsClient;
+      accept('web-a');
+      wsClient.sendEncrypted.mockClear();
+
+      emitOutput('✻ Thinking… (esc to interrupt)');
+
+      const agentStates = (browser: keyof typeof browsers, envelopes: EncryptedEnvelope[]) =>
+        envelopes
+          .filter((envelope) => envelope.recipientId === browser)
+          .map((envelope) => browsers[browser].decrypt(envelope))
+          .filter((message) => message.type === MessageType.AGENT_STATE);
+      const [working] = agentStates('web-a', sent());
+      expect(working.payload).toMatchObject({ agent: 'claude', state: 'working' });
+      expect(manager.getAgentState()).toMatchObject({ state: 'working' });
+
+      // A client that joins later is told as well
+      wsClient.sendEncrypted.mockClear();
+      accept('web-b');
+      const [joined] = agentStates('web-b', sent().slice(1));
+      expect(joined.payload).toMatchObject({ agent: 'claude', state: 'working' });
+
+      // A failed send leaves the rest of the state sync going
+      wsClient.sendEncrypted.mockClear();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const encryption = (manager as any).encryption;
+      const encryptFor = encryption.encryptFor.bind(encryption);
+      vi.spyOn(encryption, 'encryptFor').mockImplementation((...args: unknown[]) => {
+        if (args[1] === MessageType.AGENT_STATE) throw new Error('No shared key');
+        return encryptFor(...args);
       });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect(() => (manager as any).sendBufferedOutput('web-a')).not.toThrow();
+      expect(sent().map((envelope) => browsers['web-a'].decrypt(envelope).type)).toContain(MessageType.STATE_SYNC);
+    });
+
+    it('should notify the owner\'s subscribed browsers when the agent needs approval', () => {
+      manager.close();
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'claude', daemon: true });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).wsClient = wsClient;
+      accept('web-a');
+      accept('web-b', false);
+      // RFC 8291 example subscription keys
+      const keys = {
+        p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      };
+      const subscribe = (connectionId: keyof typeof browsers, subscriptionId: string): void => {
+        const message = createMessage(MessageType.NOTIFY_SUBSCRIPTION, { subscriptionId, ...keys }, 1);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (manager as any).handleEncryptedMessage({ ...browsers[connectionId].encrypt(message, 'ABC234'), connectionId });
+      };
+      subscribe('web-a', 'sub-owner');
+      subscribe('web-b', 'sub-guest');
+
+      emitOutput('✻ Thinking… (esc to interrupt)');
+      expect(wsClient.sendPushNotifications).not.toHaveBeenCalled();
+      emitOutput('\x1b[2J\x1b[HDo you want to proceed?\r\n❯ 1. Yes');
+
+      expect(wsClient.sendPushNotifications).toHaveBeenCalledTimes(1);
+      const [deliveries] = wsClient.sendPushNotifications.mock.calls[0];
+      expect(deliveries.map((delivery: { subscriptionId: string }) => delivery.subscriptionId)).toEqual(['sub-owner']);
+      expect(Buffer.from(deliveries[0].payload, 'base64url').length).toBeGreaterThan(86);
+    });
+
+    it('should encrypt output separately for each client without re-keying', () => {
+      accept('web-a');
+      accept('web-b');
+      wsClient.sendEncrypted.mockClear();
+
+      emitOutput('both');
+
+      const [forA, forB] = sent();
+      expect(forA.recipientId).toBe('web-a');
+      expect(browsers['web-a'].decrypt(forA).payload).toBe('both');
+      expect(forB.recipientId).toBe('web-b');
+      expect(browsers['web-b'].decrypt(forB).payload).toBe('both');
+    });
+
+    it('should send a burst of output chunks as one message per client', () => {
+      vi.useFakeTimers();
+      try {
+        accept('web-a');
+        accept('web-b');
+        wsClient.sendEncrypted.mockClear();
+
+        for (let i = 0; i < 50; i++) {
+          emitChunk(`line ${i}\r\n`);
+        }
+        expect(sent()).toHaveLength(0);
+        vi.advanceTimersByTime(100);
+
+        expect(sent()).toHaveLength(2);
+        const payload = browsers['web-a'].decrypt(sent()[0]).payload as string;
+        expect(payload.startsWith('line 0\r\nline 1\r\n')).toBe(true);
+        expect(payload.endsWith('line 49\r\n')).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should hold output and pause the terminals while the socket is backed up', () => {
+      vi.useFakeTimers();
+      try {
+        accept('web-a');
+        const terminal = vi.mocked(Terminal).mock.results[0].value;
+        wsClient.sendEncrypted.mockClear();
+        wsClient.getBufferedAmount.mockReturnValue(1024 * 1024);
+
+        emitChunk('first ');
+        expect(terminal.pause).toHaveBeenCalledTimes(1);
+        vi.advanceTimersByTime(500);
+        emitChunk('second');
+        vi.advanceTimersByTime(500);
+        expect(sent()).toHaveLength(0);
+        expect(terminal.resume).not.toHaveBeenCalled();
+
+        wsClient.getBufferedAmount.mockReturnValue(0);
+        vi.advanceTimersByTime(100);
+
+        expect(terminal.resume).toHaveBeenCalledTimes(1);
+        expect(sent()).toHaveLength(1);
+        expect(browsers['web-a'].decrypt(sent()[0]).payload).toBe('first second');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not run replayed input twice', () => {
+      accept('web-a');
+      const envelope = browsers['web-a'].encrypt(createMessage(MessageType.TERMINAL_INPUT, 'make deploy\r', 1), 'ABC234');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const internal = manager as any;
+      internal.handleEncryptedMessage({ ...envelope, connectionId: 'web-a' });
+      internal.handleEncryptedMessage({ ...envelope, connectionId: 'web-a' });
+
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+      expect(terminal.write).toHaveBeenCalledTimes(1);
+      expect(terminal.write).toHaveBeenCalledWith('make deploy\r');
+    });
+
+    it('should deliver confirmed signals the policy allows and tell the sender either way', () => {
+      accept('web-a');
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+      const send = (type: MessageType, payload: unknown, seq: number): void => {
+        wsClient.sendEncrypted.mockClear();
+        const envelope = browsers['web-a'].encrypt(createMessage(type, payload, seq), 'ABC234');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (manager as any).handleEncryptedMessage({ ...envelope, connectionId: 'web-a' });
+      };
+
+      send(MessageType.TERMINAL_SIGNAL, { signal: 'SIGINT' }, 1);
+      expect(browsers['web-a'].decrypt(sent()[0]).payload).toEqual({ signal: 'SIGINT', delivered: true });
+      send(MessageType.TERMINAL_SIGNAL, { signal: 'SIGKILL' }, 2);
+      expect(browsers['web-a'].decrypt(sent()[0]).payload).toEqual({ signal: 'SIGKILL', delivered: false });
+      send(MessageType.TERMINAL_SIGNAL, { signal: 'SIGHUP' }, 3);
+      expect(sent()).toHaveLength(0);
+      // The keystroke is still filtered
+      send(MessageType.TERMINAL_INPUT, '\x03', 4);
+
+      expect(terminal.signal).toHaveBeenCalledTimes(1);
+      expect(terminal.signal).toHaveBeenCalledWith('SIGINT');
+      expect(terminal.write).not.toHaveBeenCalled();
+    });
+
+    it('should apply guest rules to invited users and tell the sender which rule fired', () => {
+      inputPolicy.set(
+        manager,
+        new InputPolicy({ rules: [{ id: 'no-push', roles: ['guest'], line: '^git push', action: 'deny' }, ...DEFAULT_INPUT_POLICY.rules] })
+      );
+      accept('web-a');
+      accept('web-b', false);
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+      const type = (connectionId: keyof typeof browsers, data: string, seq: number): void => {
+        wsClient.sendEncrypted.mockClear();
+        const envelope = browsers[connectionId].encrypt(createMessage(MessageType.TERMINAL_INPUT, data, seq), 'ABC234');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (manager as any).handleEncryptedMessage({ ...envelope, connectionId });
+      };
+
+      type('web-a', 'git push\r', 1);
+      expect(terminal.write).toHaveBeenLastCalledWith('git push\r');
+      expect(sent()).toHaveLength(0);
+
+      terminal.write.mockClear();
+      type('web-b', 'git push\r', 1);
+      expect(terminal.write).toHaveBeenLastCalledWith('git push');
+      expect(sent().map((envelope) => envelope.recipientId)).toEqual(['web-b']);
+      const blocked = browsers['web-b'].decrypt(sent()[0]);
+      expect(blocked.type).toBe(MessageType.INPUT_BLOCKED);
+      expect(blocked.payload).toEqual({ rule: 'no-push', kind: 'line' });
+    });
+
+    it('should refuse windows from guests unless a rule allows the command', () => {
+      accept('web-a');
+      accept('web-b', false);
+      const create = (connectionId: keyof typeof browsers, command: string, seq: number): void => {
+        wsClient.sendEncrypted.mockClear();
+        const envelope = browsers[connectionId].encrypt(createMessage(MessageType.WINDOW_CREATE, { command }, seq), 'ABC234');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (manager as any).handleEncryptedMessage({ ...envelope, connectionId });
+      };
+      vi.mocked(Terminal).mockClear();
+
+      create('web-b', 'curl', 1);
+      expect(Terminal).not.toHaveBeenCalled();
+      const blocked = browsers['web-b'].decrypt(sent().find((envelope) => envelope.recipientId === 'web-b')!);
+      expect(blocked.type).toBe(MessageType.INPUT_BLOCKED);
+      expect(blocked.payload).toEqual({ rule: 'guest-windows', kind: 'window' });
+
+      create('web-a', 'curl', 1);
+      expect(vi.mocked(Terminal).mock.calls[0][0]).toMatchObject({ command: 'curl' });
+
+      inputPolicy.set(
+        manager,
+        new InputPolicy({ rules: [{ id: 'guest-htop', roles: ['guest'], window: '^htop$', action: 'allow' }, ...DEFAULT_INPUT_POLICY.rules] })
+      );
+      create('web-b', 'htop', 2);
+      expect(vi.mocked(Terminal).mock.calls[1][0]).toMatchObject({ command: 'htop' });
+    });
+
+    it('should only let the owner close windows or switch the CLI to one', () => {
+      accept('web-a');
+      accept('web-b', false);
+      const seqs = { 'web-a': 0, 'web-b': 0 };
+      const send = (connectionId: keyof typeof browsers, type: MessageType, payload: unknown): void => {
+        const message = createMessage(type, payload, ++seqs[connectionId]);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (manager as any).handleEncryptedMessage({ ...browsers[connectionId].encrypt(message, 'ABC234'), connectionId });
+      };
+      send('web-a', MessageType.WINDOW_CREATE, {});
+      const [main, w1] = vi.mocked(Terminal).mock.results.map((result) => result.value);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const windows = (manager as any).windows;
+
+      const cases: Array<{ from: keyof typeof browsers; type: MessageType; windowId: string; applied: boolean }> = [
+        { from: 'web-b', type: MessageType.WINDOW_SWITCH, windowId: 'main', applied: false },
+        { from: 'web-b', type: MessageType.WINDOW_CLOSE, windowId: 'main', applied: false },
+        { from: 'web-a', type: MessageType.WINDOW_SWITCH, windowId: 'main', applied: true },
+        { from: 'web-a', type: MessageType.WINDOW_CLOSE, windowId: 'w1', applied: true },
+      ];
+      for (const { from, type, windowId, applied } of cases) {
+        windows.setActive('w1');
+        send(from, type, { windowId });
+
+        if (type === MessageType.WINDOW_SWITCH) {
+          expect(windows.getActiveWindowId()).toBe(applied ? windowId : 'w1');
+        } else {
+          expect((windowId === 'main' ? main : w1).kill).toHaveBeenCalledTimes(applied ? 1 : 0);
+        }
+      }
+    });
+
+    function requestHistory(before: number, seq: number): HistoryChunkPayload {
+      wsClient.sendEncrypted.mockClear();
+      const request = createMessage(MessageType.HISTORY_REQUEST, { before }, seq, 'main');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).handleEncryptedMessage({ ...browsers['web-a'].encrypt(request, 'ABC234'), connectionId: 'web-a' });
+      const [reply] = sent();
+      expect(reply.recipientId).toBe('web-a');
+      expect(JSON.stringify(reply).length).toBeLessThanOrEqual(PROTOCOL.MAX_MESSAGE_SIZE);
+      const message = browsers['web-a'].decrypt(reply);
+      expect(message).toMatchObject({ type: MessageType.HISTORY_CHUNK, windowId: 'main' });
+      return message.payload as HistoryChunkPayload;
+    }
+
+    it('should page older output from scrollback on request', () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).startTerminal();
+      const line = (i: number) => `line ${String(i).padStart(4, '0')} ${'.'.repeat(38)}\r\n`; // 50 bytes
+      for (let i = 0; i < 3000; i++) {
+        emitOutput(line(i));
+      }
+      accept('web-a');
+      const sync = sent()
+        .slice(1)
+        .map((envelope) => browsers['web-a'].decrypt(envelope))
+        .find((m) => m.type === MessageType.STATE_SYNC)!.payload as StateSyncPayload;
+      const range = sync.scrollback!.main;
+      expect(range).toMatchObject({ start: 0, end: 3000 * 50 });
+      expect(range.from).toBeGreaterThan(0);
+
+      const chunk = requestHistory(range.from, 1);
+      expect(chunk).toMatchObject({ end: range.from, oldest: 0 });
+      expect(chunk.data.length).toBe(chunk.end - chunk.start);
+      expect(chunk.data.startsWith(line(chunk.start / 50))).toBe(true);
+      expect(chunk.data.endsWith(line(range.from / 50 - 1))).toBe(true);
+
+      const first = requestHistory(50, 2);
+      expect(first).toEqual({ start: 0, end: 50, data: line(0), oldest: 0 });
+    });
+
+    it('should shrink history chunks to fit in one message', () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).startTerminal();
+      // Escape sequences grow six-fold once JSON encoded
+      const colored = '\x1b[1m\x1b[31m\x1b[0m'.repeat(100) + '\r\n';
+      for (let i = 0; i < 500; i++) {
+        emitOutput(colored);
+      }
+      accept('web-a');
+
+      const chunk = requestHistory(500 * colored.length, 1);
+      expect(chunk.data.length).toBeGreaterThan(0);
+      expect(chunk.data.length).toBeLessThan(32 * 1024);
+      expect(chunk.data.startsWith('\x1b[1m')).toBe(true);
+    });
+
+    it('should remove its scrollback when closed', () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).startTerminal();
+      emitOutput('hello');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const dir = (manager as any).ownScrollbackDir;
+      expect(existsSync(join(dir, 'main.log'))).toBe(true);
+
+      manager.close();
+      expect(existsSync(dir)).toBe(false);
+    });
+  });
+
+  describe('attached terminals', () => {
+    let manager: SessionManager;
+
+    function emitOutput(data: string): void {
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+      terminal.on.mock.calls.find(([name]: [string]) => name === 'data')[1](data);
+    }
+
+    beforeEach(() => {
+      vi.mocked(Terminal).mockClear();
+      manager = new SessionManager({ command: 'bash', daemon: true });
     });
 
     afterEach(() => {
       manager.close();
     });
 
-    it('should filter Ctrl+C from web input', () => {
+    it('should show the active window and take input like a local terminal', () => {
+      let output = '';
+      const attachment = manager.attachTerminal({ write: (data) => (output += data), end: vi.fn() }, { cols: 100, rows: 30 });
+      const terminal = vi.mocked(Terminal).mock.results[0].value;
+
+      expect(manager.isSessionReady()).toBe(true);
+      expect(terminal.resize).toHaveBeenCalledWith(100, 30);
+      emitOutput('hello');
+      expect(output).toContain('hello');
+
+      // Local input isn't filtered like web input
+      attachment.input('\x03');
+      expect(terminal.write).toHaveBeenCalledWith('\x03');
+
+      attachment.detach();
+      emitOutput('later');
+      expect(output).not.toContain('later');
+    });
+
+    it('should tell attached terminals when the session closes', () => {
+      const end = vi.fn();
+      manager.attachTerminal({ write: vi.fn(), end }, { cols: 80, rows: 24 });
+
+      manager.close();
+
+      expect(end).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('join approval', () => {
+    let manager: SessionManager;
+    let wsClient: Record<string, ReturnType<typeof vi.fn>>;
+
+    function webConnected(connectionId: string, publicKey = new E2ECrypto().getPublicKey()) {
+      const data = { connectionId, publicKey, userAgent: 'TestBrowser/1.0' };
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = (manager as any).filterWebInput('\x03');
-      expect(result.blocked).toBe(true);
-      expect(result.data).toBe('');
-      expect(result.blockedSignals).toContain('SIGINT');
+      (manager as any).requestApproval(data);
+      return data;
+    }
+
+    function answer(key: string): Promise<void> {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).approvals.handleInput(key);
+      // Let the decision settle
+      return new Promise((resolve) => setImmediate(resolve));
+    }
+
+    beforeEach(() => {
+      vi.mocked(Terminal).mockClear();
+      vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      manager = new SessionManager({ command: 'bash', daemon: true, requireApproval: true });
+      wsClient = {
+        sendJoinApproval: vi.fn(),
+        sendEncrypted: vi.fn(),
+        isConnected: vi.fn().mockReturnValue(true),
+        getBufferedAmount: vi.fn().mockReturnValue(0),
+        close: vi.fn(),
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (manager as any).wsClient = wsClient;
+    });
+
+    afterEach(() => {
+      manager.close();
+      vi.mocked(process.stdout.write).mockRestore();
     });
 
-    it('should filter Ctrl+D from web input', () => {
+    it('should hold the key exchange until the join is approved', async () => {
+      webConnected('web-1');
+      expect(wsClient.sendJoinApproval).toHaveBeenCalledWith('web-1', 'pending');
+      expect(Terminal).not.toHaveBeenCalled();
+
+      await answer('y');
+
+      expect(wsClient.sendJoinApproval).toHaveBeenLastCalledWith('web-1', 'approved');
+      expect(Terminal).toHaveBeenCalledTimes(1);
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = (manager as any).filterWebInput('\x04');
-      expect(result.blocked).toBe(true);
-      expect(result.data).toBe('');
-      expect(result.blockedSignals).toContain('EOF');
+      expect((manager as any).encryption.isReady()).toBe(true);
     });
 
-    it('should pass through normal text', () => {
+    it('should tell declined clients and keep them out', async () => {
+      webConnected('web-1');
+      await answer('n');
+
+      expect(wsClient.sendJoinApproval).toHaveBeenLastCalledWith('web-1', 'rejected');
+      expect(Terminal).not.toHaveBeenCalled();
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = (manager as any).filterWebInput('hello world');
-      expect(result.blocked).toBe(false);
-      expect(result.data).toBe('hello world');
+      expect((manager as any).encryption.isReady()).toBe(false);
+    });
+
+    it('should let an approved device back in without asking', async () => {
+      const { publicKey } = webConnected('web-1');
+      await answer('y');
+      wsClient.sendJoinApproval.mockClear();
+
+      webConnected('web-2', publicKey);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(wsClient.sendJoinApproval).toHaveBeenCalledTimes(1);
+      expect(wsClient.sendJoinApproval).toHaveBeenCalledWith('web-2', 'approved');
     });
+  });
+
+  describe('recording', () => {
+    let dir: string;
+    let file: string;
+    let manager: SessionManager;
+
+    function emitTerminal(index: number, event: string, ...args: unknown[]): void {
+      const terminal = vi.mocked(Terminal).mock.results[index].value;
+      const handler = terminal.on.mock.calls.find(([name]: [string]) => name === event)[1];
+      handler(...args);
+    }
+
+    function receive(message: Message): void {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const internal = manager as any;
+      vi.spyOn(internal.encryption, 'isReady').mockReturnValue(true);
+      vi.spyOn(internal.encryption, 'decrypt').mockReturnValue(message);
+      internal.handleEncryptedMessage({});
+    }
 
-    it('should preserve text while removing signals', () => {
+    beforeEach(() => {
+      vi.mocked(Terminal).mockClear();
+      dir = mkdtempSync(join(tmpdir(), 'always-session-'));
+      file = join(dir, 'session.cast');
+      manager = new SessionManager({ command: 'bash', daemon: true, recordFile: file, recordInput: true });
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = (manager as any).filterWebInput('hello\x03world');
-      expect(result.blocked).toBe(true);
-      expect(result.data).toBe('helloworld');
+      (manager as any).startTerminal();
+    });
+
+    afterEach(() => {
+      manager.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record output, input and resizes of the active window', () => {
+      emitTerminal(0, 'data', 'hello');
+      receive(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1));
+      receive(createMessage(MessageType.TERMINAL_RESIZE, { cols: 100, rows: 30 }, 2));
+      manager.close();
+
+      const cast = parseAsciicast(readFileSync(file, 'utf-8'));
+      expect(cast.header).toMatchObject({ width: 120, height: 40, command: 'bash' });
+      expect(cast.events.map(([, code, data]) => [code, data])).toEqual([
+        ['o', 'hello'],
+        ['i', 'ls\r'],
+        ['r', '100x30'],
+      ]);
+    });
+
+    it('should follow window switches', () => {
+      receive(createMessage(MessageType.WINDOW_CREATE, { name: 'tests' }, 1));
+      emitTerminal(0, 'data', 'background');
+      emitTerminal(1, 'data', 'visible');
+      manager.close();
+
+      const events = parseAsciicast(readFileSync(file, 'utf-8')).events;
+      expect(events.map(([, code, data]) => [code, data])).toEqual([
+        ['m', 'window: tests'],
+        ['r', '120x40'],
+        ['o', '\x1b[2J\x1b[H'],
+        ['o', 'visible'],
+      ]);
     });
   });
 });
@@ -1,22 +1,80 @@
 import { EventEmitter } from 'events';
-import { createWriteStream, appendFileSync, type WriteStream } from 'fs';
+import { createWriteStream, rmSync, type WriteStream } from 'fs';
+import { join } from 'path';
 import {
   MessageType,
   type EncryptedEnvelope,
-  InputFilter,
+  type Message,
+  type WindowCreatePayload,
+  type WindowListPayload,
+  type ScrollbackRange,
+  type HistoryChunkPayload,
+  type HistoryRequestPayload,
+  type TerminalSignal,
+  type TerminalSignalPayload,
+  type AgentStatePayload,
+  type InputBlockedPayload,
+  type NotifySubscriptionPayload,
+  type PushNotification,
+  type PushDelivery,
+  isTerminalSignal,
   type InputFilterConfig,
   DEFAULT_INPUT_FILTER_CONFIG,
+  InputPolicy,
+  type InputPolicyConfig,
+  type InputRole,
+  DEFAULT_INPUT_POLICY,
+  inputPolicyFromFilterConfig,
+  DEFAULT_WINDOW_ID,
+  getMessageWindowId,
+  getEnvelopeSize,
+  createMessage,
+  PROTOCOL,
+  generateRandomId,
+  getShortAuthString,
+  ReplayDetectedError,
+  formatShortAuthString,
+  negotiateCompression,
+  getCapabilities,
+  checkCompatibility,
+  ErrorCodes,
+  type ErrorPayload,
+  type WebConnectedPayload,
 } from '@always-coder/shared';
 import { WebSocketClient } from '../websocket/client.js';
 import { EncryptionManager } from '../crypto/encryption.js';
-import { Terminal, type TerminalOptions } from '../pty/terminal.js';
-import { displayQRCode } from '../qrcode/generator.js';
-import { getWSEndpoint, getWebUrl, loadConfig } from '../config/index.js';
+import { WindowManager } from '../pty/windows.js';
+import { AgentStateTracker } from '../agent/tracker.js';
+import { getAgentAdapter } from '../agent/adapters.js';
+import { WindowNotifier, type NotificationConfig, type NotificationEvent } from '../notify/notifier.js';
+import { encryptPushPayload } from '../notify/webpush.js';
+import { displayQRCode, getViewerUrl } from '../qrcode/generator.js';
+import {
+  getInputPolicy,
+  getNotificationConfig,
+  getScrollbackSize,
+  getSessionsDir,
+  getWSEndpoint,
+  getWebUrl,
+  loadConfig,
+} from '../config/index.js';
 import { ensureValidToken } from '../auth/cognito.js';
-import { saveDaemonSession, deleteDaemonSession, type DaemonSession } from '../daemon/index.js';
+import type { DaemonSession } from '../daemon/protocol.js';
 import { getInstanceInfo, type InstanceInfo } from '../utils/instance.js';
+import { SessionRecorder } from '../recording/recorder.js';
+import { JoinApprovals, getDeviceKey, type JoinRequest } from './approval.js';
+import { OutputCoalescer } from './coalescer.js';
+import { isTrustedDevice, trustDevice, verifyDeviceIdentity } from '../crypto/trust.js';
 import chalk from 'chalk';
 
+// Older output sent per HISTORY_REQUEST, less if it doesn't fit in one message
+const HISTORY_CHUNK_SIZE = 32 * 1024;
+
+// Output waits and the PTYs pause while more than this is queued on the WebSocket...
+const OUTPUT_HIGH_WATER_MARK = 256 * 1024;
+// ...until it drains below this
+const OUTPUT_LOW_WATER_MARK = 64 * 1024;
+
 /**
  * Session manager events
  */
@@ -25,23 +83,64 @@ export interface SessionManagerEvents {
   'web:connected': (connectionId: string) => void;
   'web:disconnected': (connectionId: string) => void;
   'terminal:exit': (exitCode: number) => void;
+  'agent:state': (windowId: string, state: AgentStatePayload) => void;
   error: (error: Error) => void;
   closed: () => void;
 }
 
+/**
+ * Local terminal attached to a daemon session (`always attach`)
+ */
+export interface AttachedTerminal {
+  /** Output of the active window */
+  write(data: string): void;
+  /** The session closed */
+  end(): void;
+}
+
+/**
+ * An attached terminal's handle on the session
+ */
+export interface TerminalAttachment {
+  input(data: string): void;
+  resize(cols: number, rows: number): void;
+  detach(): void;
+}
+
 /**
  * Session manager options
  */
 export interface SessionManagerOptions {
   command: string;
   args?: string[];
+  /** Working directory of the terminal windows (default: process.cwd()) */
+  cwd?: string;
+  /** Added to the environment of the terminal windows */
+  env?: Record<string, string>;
   serverUrl?: string;
   daemon?: boolean;
   logFile?: string;
   /** Enable/disable web input filtering (default: true) */
   filterWebInput?: boolean;
-  /** Custom input filter configuration */
+  /** Legacy input filter switches, checked after inputPolicy and before the built-in rules */
   inputFilterConfig?: Partial<InputFilterConfig>;
+  /** Rules for web client input (default: config inputPolicy) */
+  inputPolicy?: InputPolicyConfig;
+  /** Maximum terminal windows web clients can open (default: PROTOCOL.MAX_WINDOWS) */
+  maxWindows?: number;
+  /** Record the active window to this asciicast v2 file */
+  recordFile?: string;
+  /** Include input in the recording */
+  recordInput?: boolean;
+  /** Ask the local user before each new web client gets the session key */
+  requireApproval?: boolean;
+  /**
+   * Keep window output on disk here, and leave it there on close
+   * (default: a directory for this session, removed on close)
+   */
+  scrollbackDir?: string;
+  /** Output kept on disk per window in bytes (default: config scrollbackSize) */
+  scrollbackSize?: number;
 }
 
 /**
@@ -50,44 +149,120 @@ export interface SessionManagerOptions {
 export class SessionManager extends EventEmitter {
   private wsClient: WebSocketClient | null = null;
   private encryption: EncryptionManager;
-  private terminal: Terminal | null = null;
+  private windows: WindowManager;
   private options: SessionManagerOptions;
   private connectedWebClients: Set<string> = new Set();
+  // Read-only connections joined through the share link
+  private viewerConnections: Set<string> = new Set();
+  // Invited users other than the session owner, who get the policy's guest rules
+  private guestConnections: Set<string> = new Set();
+  // Secret carried by the share link; the server checks it before admitting viewers
+  private viewerToken: string = generateRandomId(24);
   private isReady: boolean = false;
-  private terminalBuffer: string = '';
-  private maxBufferSize: number = 100 * 1024; // 100KB buffer for late joiners
   private isDaemon: boolean = false;
   private logStream: WriteStream | null = null;
   private pendingSessionMetadata: {
     instanceInfo: InstanceInfo;
     sessionWebUrl: string;
   } | null = null;
-  private inputFilter: InputFilter;
+  private inputPolicy: InputPolicy;
+  private recorder: SessionRecorder | null = null;
+  private approvals: JoinApprovals | null = null;
+  private localInputReady: boolean = false;
+  private daemonSession: DaemonSession | null = null;
+  private attachedTerminals: Set<AttachedTerminal> = new Set();
+  // Scrollback directory to remove on close, when it is this session's own
+  private ownScrollbackDir: string | null = null;
+  // What the coding agent in each window is doing, for windows running one
+  private agents: Map<string, AgentStateTracker> = new Map();
+  // When to notify subscribed browsers, and what to watch in each window for it
+  private notificationConfig: NotificationConfig;
+  private notifiers: Map<string, WindowNotifier> = new Map();
+  // Push subscription keys the owner's browsers sent, by subscription ID
+  private pushSubscriptions: Map<string, NotifySubscriptionPayload> = new Map();
+  // Batches PTY output for web clients, pausing the PTYs while the socket is backed up
+  private output: OutputCoalescer = new OutputCoalescer({
+    send: (windowId, data) => this.sendTerminalOutput(data, windowId),
+    getBufferedAmount: () => this.wsClient?.getBufferedAmount() ?? 0,
+    highWaterMark: OUTPUT_HIGH_WATER_MARK,
+    lowWaterMark: OUTPUT_LOW_WATER_MARK,
+    pause: () => this.windows.pause(),
+    resume: () => this.windows.resume(),
+  });
 
   constructor(options: SessionManagerOptions) {
     super();
     this.options = options;
     this.encryption = new EncryptionManager();
     this.isDaemon = options.daemon || false;
+    if (!options.scrollbackDir) {
+      this.ownScrollbackDir = join(getSessionsDir(), this.encryption.getSessionId());
+    }
+    this.windows = new WindowManager({
+      maxWindows: options.maxWindows,
+      scrollbackDir: options.scrollbackDir || this.ownScrollbackDir!,
+      scrollbackSize: options.scrollbackSize ?? getScrollbackSize(),
+    });
 
-    // Set up input filter for web client signals
-    // By default, block dangerous signals (Ctrl+C, Ctrl+D, etc.) from web clients
-    // to prevent accidental session termination
-    const filterEnabled = options.filterWebInput !== false;
-    const filterConfig: InputFilterConfig = filterEnabled
-      ? { ...DEFAULT_INPUT_FILTER_CONFIG, ...options.inputFilterConfig }
-      : {
-          blockCtrlC: false,
-          blockCtrlD: false,
-          blockCtrlZ: false,
-          blockCtrlBackslash: false,
-        };
-    this.inputFilter = new InputFilter(filterConfig);
+    // Set up the input policy for web clients
+    // Configured rules come first, then legacy filter switches, then the built-in
+    // rules that block dangerous signals (Ctrl+C, Ctrl+D, etc.) to prevent
+    // accidental session termination
+    if (options.filterWebInput === false) {
+      const unfiltered = inputPolicyFromFilterConfig({
+        blockCtrlC: false,
+        blockCtrlD: false,
+        blockCtrlZ: false,
+        blockCtrlBackslash: false,
+        allowSigint: true,
+        allowSigtstp: true,
+        allowSigterm: true,
+        allowSigkill: true,
+      });
+      // Who may open windows is still checked
+      this.inputPolicy = new InputPolicy({
+        rules: [...unfiltered.rules, ...DEFAULT_INPUT_POLICY.rules.filter((rule) => rule.window !== undefined)],
+      });
+    } else {
+      const configured = options.inputPolicy ?? getInputPolicy();
+      const legacy = options.inputFilterConfig
+        ? inputPolicyFromFilterConfig({ ...DEFAULT_INPUT_FILTER_CONFIG, ...options.inputFilterConfig })
+        : undefined;
+      this.inputPolicy = new InputPolicy({
+        rules: [...(configured?.rules ?? []), ...(legacy?.rules ?? []), ...DEFAULT_INPUT_POLICY.rules],
+      });
+    }
+
+    this.notificationConfig = getNotificationConfig();
 
     // Set up logging for daemon mode
     if (this.isDaemon && options.logFile) {
       this.logStream = createWriteStream(options.logFile, { flags: 'a' });
     }
+
+    // Open the recording file up front so a bad path fails before the session starts
+    if (options.recordFile) {
+      this.recorder = new SessionRecorder({
+        file: options.recordFile,
+        recordInput: options.recordInput,
+        command: [options.command, ...(options.args || [])].join(' '),
+      });
+    }
+
+    if (options.requireApproval) {
+      this.approvals = new JoinApprovals({
+        publicKey: this.encryption.getPublicKey(),
+        isTrusted: isTrustedDevice,
+        onTrust: (request) => {
+          // A connection key alone is gone with the next page load
+          if (!request.deviceKey) {
+            this.log(chalk.yellow('⚠ This browser sent no device identity, so it is approved for this session only'));
+            return;
+          }
+          trustDevice(request.deviceKey, request.userEmail || request.userAgent);
+        },
+      });
+    }
   }
 
   /**
@@ -155,30 +330,32 @@ export class SessionManager extends EventEmitter {
       const webUrl = getWebUrl();
       const instanceInfo = await getInstanceInfo();
       const sessionWebUrl = `${webUrl}/join?id=${this.encryption.getSessionId()}&key=${encodeURIComponent(this.encryption.getPublicKey())}`;
+      const viewerUrl = getViewerUrl(sessionWebUrl, this.viewerToken);
 
       // Store metadata for sending after session is created on server
       // (we need to wait for SESSION_CREATED before sending SESSION_UPDATE
       // so the server has registered our connection)
       this.pendingSessionMetadata = { instanceInfo, sessionWebUrl };
 
-      // Save daemon session info (for first connect)
+      // Session info for the daemon supervisor
       if (this.isDaemon) {
-        const daemonSession: DaemonSession = {
+        this.daemonSession = {
           sessionId: this.encryption.getSessionId(),
           pid: process.pid,
           command: this.options.command,
           args: this.options.args || [],
           startedAt: Date.now(),
           webUrl: sessionWebUrl,
+          viewerUrl,
           logFile: this.options.logFile || '',
           instanceId: instanceInfo.instanceId,
           hostname: instanceInfo.hostname,
           instanceLabel: instanceInfo.label,
         };
-        saveDaemonSession(daemonSession);
-        this.log(`Session saved: ${daemonSession.sessionId}`);
+        this.log(`Session: ${this.daemonSession.sessionId}`);
         this.log(`Instance: ${instanceInfo.label || instanceInfo.instanceId}`);
-        this.log(`Web URL: ${daemonSession.webUrl}`);
+        this.log(`Web URL: ${this.daemonSession.webUrl}`);
+        this.log(`Viewer URL: ${viewerUrl}`);
       } else {
         // Display QR code for web connection (only in interactive mode)
         displayQRCode({
@@ -186,6 +363,9 @@ export class SessionManager extends EventEmitter {
           publicKey: this.encryption.getPublicKey(),
           wsEndpoint,
         });
+        this.log(chalk.gray('Read-only link for teammates:'));
+        this.log(chalk.gray(viewerUrl));
+        this.log('');
       }
 
       this.log(chalk.yellow('⏳ Waiting for web client to connect...'));
@@ -207,13 +387,15 @@ export class SessionManager extends EventEmitter {
         this.log(chalk.yellow('🔄 WebSocket reconnected, re-registering session...'));
         this.wsClient?.sendSessionReconnect(
           this.encryption.getSessionId(),
-          this.encryption.getPublicKey()
+          this.encryption.getPublicKey(),
+          this.viewerToken
         );
       } else {
         // First connect - create session
         this.wsClient?.sendSessionCreate(
           this.encryption.getSessionId(),
-          this.encryption.getPublicKey()
+          this.encryption.getPublicKey(),
+          this.viewerToken
         );
       }
     });
@@ -230,50 +412,51 @@ export class SessionManager extends EventEmitter {
       this.sendPendingSessionMetadata();
     });
 
-    this.wsClient.on('web:connected', (data: { publicKey: string; connectionId: string }) => {
-      try {
-        // Skip duplicate web:connected events for the same connection
-        // This can happen when events queue up during WebSocket reconnection
-        if (this.connectedWebClients.has(data.connectionId)) {
-          this.log(chalk.gray(`   Skipping duplicate web:connected for: ${data.connectionId}`));
-          return;
-        }
+    this.wsClient.on('web:connected', (data: WebConnectedPayload) => {
+      // Skip duplicate web:connected events for the same connection
+      // This can happen when events queue up during WebSocket reconnection
+      if (this.connectedWebClients.has(data.connectionId) || this.approvals?.isPending(data.connectionId)) {
+        this.log(chalk.gray(`   Skipping duplicate web:connected for: ${data.connectionId}`));
+        return;
+      }
 
-        this.log(chalk.green(`✓ Web client connected: ${data.connectionId}`));
-        this.log(chalk.gray(`   Public key: ${data.publicKey.substring(0, 20)}...`));
-        this.connectedWebClients.add(data.connectionId);
-
-        // Establish shared encryption key
-        if (!this.encryption.isReady()) {
-          this.encryption.establishSharedKey(data.publicKey);
-          this.log(chalk.green('✓ Encryption established'));
-
-          // Start the terminal now that we have a client
-          this.startTerminal();
-        } else if (this.encryption.isWebKeyChanged(data.publicKey)) {
-          // Web client reconnected with a new keypair (page refresh)
-          // Re-establish shared key with the new public key
-          this.log(chalk.yellow('🔄 Web client has new keypair, re-establishing encryption...'));
-          this.encryption.reestablishSharedKey(data.publicKey);
-          this.log(chalk.green('✓ Encryption re-established'));
-
-          // Send buffered output to reconnecting client
-          this.sendBufferedOutput();
-        } else {
-          // Same web public key - send buffered output to late-joining client
-          this.sendBufferedOutput();
-        }
+      // Relays from before the capabilities exchange don't check versions themselves
+      const problem = checkCompatibility(data.capabilities, getCapabilities());
+      if (problem) {
+        this.log(
+          chalk.yellow(
+            problem.upgrade === 'remote'
+              ? `⚠ Refused a browser with an outdated web app (protocol ${problem.remoteVersion}); reloading the page updates it`
+              : `⚠ Refused a browser that needs a newer CLI (protocol ${problem.remoteVersion}); upgrade always-coder`
+          )
+        );
+        this.wsClient?.sendJoinApproval(data.connectionId, 'rejected');
+        return;
+      }
 
-        this.emit('web:connected', data.connectionId);
-      } catch (error) {
-        this.logError('Error handling web connection:', error);
-        // Don't crash - just log the error
+      const deviceKey = verifyDeviceIdentity(data.publicKey, data.device) ?? undefined;
+      if (data.device && !deviceKey) {
+        this.log(chalk.yellow(`⚠ Device signature did not verify, treating ${data.connectionId} as an unknown device`));
+      }
+      const request: WebConnectedPayload & JoinRequest = { ...data, deviceKey };
+
+      if (this.approvals) {
+        this.requestApproval(request);
+      } else {
+        this.acceptWebClient(request);
       }
     });
 
     this.wsClient.on('web:disconnected', (data: { connectionId: string }) => {
+      this.approvals?.cancel(data.connectionId);
+      if (!this.connectedWebClients.has(data.connectionId)) return;
+
       this.log(chalk.yellow(`⚠ Web client disconnected: ${data.connectionId}`));
       this.connectedWebClients.delete(data.connectionId);
+      this.viewerConnections.delete(data.connectionId);
+      this.guestConnections.delete(data.connectionId);
+      this.inputPolicy.forget(data.connectionId);
+      this.encryption.removeClient(data.connectionId);
       this.emit('web:disconnected', data.connectionId);
 
       if (this.connectedWebClients.size === 0) {
@@ -285,6 +468,21 @@ export class SessionManager extends EventEmitter {
       this.handleEncryptedMessage(envelope);
     });
 
+    this.wsClient.on('push:sent', (data: { expired: string[] }) => {
+      for (const subscriptionId of data.expired) {
+        if (this.pushSubscriptions.delete(subscriptionId)) {
+          this.log(chalk.gray(`   Browser unsubscribed from notifications: ${subscriptionId}`));
+        }
+      }
+    });
+
+    this.wsClient.on('server:error', (data: ErrorPayload) => {
+      if (data.code === ErrorCodes.UPGRADE_REQUIRED) {
+        this.logError(data.message);
+        this.emit('error', new Error(data.message));
+      }
+    });
+
     this.wsClient.on('error', (error: Error) => {
       this.logError('WebSocket error:', error.message);
       this.emit('error', error);
@@ -295,6 +493,76 @@ export class SessionManager extends EventEmitter {
     });
   }
 
+  /**
+   * Ask the local user whether a web client may join
+   * The client waits on the web side until the answer arrives.
+   */
+  private requestApproval(data: WebConnectedPayload & JoinRequest): void {
+    const approvals = this.approvals!;
+    if (!approvals.isApproved(getDeviceKey(data))) {
+      this.wsClient?.sendJoinApproval(data.connectionId, 'pending');
+      // The prompt reads from stdin even before the terminal starts
+      this.setupLocalInput();
+    }
+
+    approvals.request(data).then((decision) => {
+      // Client left or session closed before the answer
+      if (decision === 'cancelled' || !this.wsClient) return;
+
+      this.wsClient.sendJoinApproval(data.connectionId, decision);
+      if (decision === 'approved') {
+        this.acceptWebClient(data);
+      } else {
+        this.log(chalk.yellow(`⚠ Declined web client: ${data.connectionId}`));
+      }
+    });
+  }
+
+  /**
+   * Establish encryption with a web client and bring it up to date
+   */
+  private acceptWebClient(data: WebConnectedPayload & Partial<JoinRequest>): void {
+    try {
+      const isViewer = data.role === 'viewer';
+      this.log(chalk.green(`✓ ${isViewer ? 'Viewer' : 'Web client'} connected: ${data.connectionId}`));
+      this.log(chalk.gray(`   Public key: ${data.publicKey.substring(0, 20)}...`));
+      // Compare with the browser's toolbar to rule out a key swapped in transit
+      const sas = formatShortAuthString(getShortAuthString(this.encryption.getPublicKey(), data.publicKey));
+      const trusted = data.deviceKey && isTrustedDevice(data.deviceKey) ? chalk.green(' (trusted device)') : '';
+      this.log(chalk.gray(`   Verify: ${sas}`) + trusted);
+      this.connectedWebClients.add(data.connectionId);
+      if (isViewer) {
+        this.viewerConnections.add(data.connectionId);
+      } else if (data.owner === false) {
+        this.log(chalk.gray(`   Guest of the session owner${data.userEmail ? `: ${data.userEmail}` : ''}`));
+        this.guestConnections.add(data.connectionId);
+      }
+
+      // Output still waiting is in the buffer the new client gets, so it goes to the others only
+      this.output.flush();
+
+      // Each client gets its own shared key, so other clients keep theirs
+      const compression = negotiateCompression(data.compression);
+      this.wsClient?.sendEncrypted(
+        this.encryption.addClient(data.connectionId, data.publicKey, compression, data.capabilities)
+      );
+      this.log(chalk.green('✓ Encryption established'));
+
+      if (!this.isReady) {
+        // Start the terminal now that we have a client
+        this.startTerminal();
+      } else {
+        // Bring the late-joining or reconnecting client up to date
+        this.sendBufferedOutput(data.connectionId);
+      }
+
+      this.emit('web:connected', data.connectionId);
+    } catch (error) {
+      this.logError('Error handling web connection:', error);
+      // Don't crash - just log the error
+    }
+  }
+
   /**
    * Handle encrypted messages from web clients
    */
@@ -304,8 +572,21 @@ export class SessionManager extends EventEmitter {
       return;
     }
 
+    // The relay already refuses viewer input; drop anything that slips through
+    if (envelope.connectionId && this.viewerConnections.has(envelope.connectionId)) {
+      this.log(chalk.yellow(`⚠ Ignored message from read-only viewer: ${envelope.connectionId}`));
+      return;
+    }
+
+    // Clients still waiting for approval have no business sending anything
+    if (envelope.connectionId && this.approvals?.isPending(envelope.connectionId)) {
+      this.log(chalk.yellow(`⚠ Ignored message from unapproved web client: ${envelope.connectionId}`));
+      return;
+    }
+
     try {
       const message = this.encryption.decrypt(envelope);
+      const windowId = getMessageWindowId(message);
 
       switch (message.type) {
         case MessageType.TERMINAL_INPUT:
@@ -314,7 +595,7 @@ export class SessionManager extends EventEmitter {
             this.logError(`Invalid TERMINAL_INPUT payload type: ${typeof message.payload}`);
             return;
           }
-          this.handleTerminalInput(message.payload);
+          this.handleTerminalInput(windowId, message.payload, envelope.connectionId);
           break;
 
         case MessageType.TERMINAL_RESIZE:
@@ -329,119 +610,417 @@ export class SessionManager extends EventEmitter {
             this.logError(`Invalid TERMINAL_RESIZE payload: ${JSON.stringify(resizePayload)}`);
             return;
           }
-          this.handleTerminalResize({ cols: resizePayload.cols, rows: resizePayload.rows });
+          this.handleTerminalResize(windowId, { cols: resizePayload.cols, rows: resizePayload.rows });
           break;
 
+        case MessageType.TERMINAL_SIGNAL: {
+          const { signal } = (message.payload ?? {}) as Partial<TerminalSignalPayload>;
+          if (!isTerminalSignal(signal)) {
+            this.logError(`Invalid TERMINAL_SIGNAL payload: ${JSON.stringify(message.payload)}`);
+            return;
+          }
+          this.handleTerminalSignal(windowId, signal, envelope.connectionId);
+          break;
+        }
+
         case MessageType.STATE_REQUEST:
-          this.sendBufferedOutput();
+          this.sendBufferedOutput(envelope.connectionId);
           break;
 
+        case MessageType.HISTORY_REQUEST: {
+          const { before } = (message.payload ?? {}) as Partial<HistoryRequestPayload>;
+          if (!Number.isInteger(before) || before! < 0) {
+            this.logError(`Invalid HISTORY_REQUEST payload: ${JSON.stringify(message.payload)}`);
+            return;
+          }
+          this.sendHistoryChunk(windowId, before!, envelope.connectionId);
+          break;
+        }
+
+        case MessageType.WINDOW_CREATE:
+        case MessageType.WINDOW_CLOSE:
+        case MessageType.WINDOW_SWITCH:
+        case MessageType.WINDOW_LIST:
+          this.handleWindowMessage(message, envelope.connectionId);
+          break;
+
+        case MessageType.NOTIFY_SUBSCRIPTION: {
+          const subscription = (message.payload ?? {}) as Partial<NotifySubscriptionPayload>;
+          if (
+            typeof subscription.subscriptionId !== 'string' ||
+            typeof subscription.p256dh !== 'string' ||
+            typeof subscription.auth !== 'string'
+          ) {
+            this.logError(`Invalid NOTIFY_SUBSCRIPTION payload: ${JSON.stringify(message.payload)}`);
+            return;
+          }
+          this.handleNotifySubscription(subscription as NotifySubscriptionPayload, envelope.connectionId);
+          break;
+        }
+
         default:
           this.logError(`Unknown message type: ${message.type}`);
       }
     } catch (error) {
+      if (error instanceof ReplayDetectedError) {
+        // The relay resent or held back a message; never act on it twice
+        this.log(chalk.yellow(`⚠ ${error.code}: dropped message seq ${error.seq} from ${envelope.connectionId}`));
+        return;
+      }
       this.logError('Failed to decrypt message from web client', error);
     }
   }
 
   /**
-   * Filter web client input for dangerous control signals
-   * @returns FilterResult with filtered data and blocked signal info
+   * Role the input policy applies to a web client
    */
-  private filterWebInput(data: string) {
-    return this.inputFilter.filter(data);
+  private getInputRole(connectionId?: string): InputRole {
+    return connectionId && this.guestConnections.has(connectionId) ? 'guest' : 'owner';
   }
 
   /**
    * Handle terminal input from web client
+   * Input goes through the input policy first; the sender is told which rules
+   * dropped any of it.
    */
-  private handleTerminalInput(data: string): void {
-    if (this.terminal && this.terminal.isRunning()) {
-      // Filter dangerous control signals from web input
-      const result = this.filterWebInput(data);
+  private handleTerminalInput(windowId: string, data: string, connectionId?: string): void {
+    if (this.windows.isRunning(windowId)) {
+      const result = this.inputPolicy.checkInput(data, {
+        role: this.getInputRole(connectionId),
+        clientId: connectionId ?? '',
+        windowId,
+      });
 
       if (result.blocked) {
-        this.log(
-          chalk.yellow(`⚠ Blocked control signals from web: ${result.blockedSignals.join(', ')}`)
-        );
+        const rules = result.denied.map((match) => `${match.rule} (${match.kind})`);
+        this.log(chalk.yellow(`⚠ Blocked web input by input policy: ${rules.join(', ')}`));
+        if (this.wsClient?.isConnected() && connectionId && this.encryption.hasClient(connectionId)) {
+          for (const match of result.denied) {
+            const kind = match.kind as InputBlockedPayload['kind'];
+            const payload: InputBlockedPayload = { rule: match.rule, kind };
+            this.sendToWeb(MessageType.INPUT_BLOCKED, payload, windowId, connectionId);
+          }
+        }
       }
 
       // Only write filtered data to terminal
       if (result.data.length > 0) {
-        this.terminal.write(result.data);
+        this.windows.write(windowId, result.data);
+        if (windowId === this.windows.getActiveWindowId()) {
+          this.recorder?.input(result.data);
+        }
       }
     }
   }
 
   /**
-   * Handle terminal resize from web client
+   * Handle an explicit signal from a web client
+   * Unlike control characters in TERMINAL_INPUT, these were confirmed in the
+   * web UI, so they go by the policy's signal rules. The sender is told
+   * whether the signal was delivered.
    */
-  private handleTerminalResize(size: { cols: number; rows: number }): void {
-    if (this.terminal && this.terminal.isRunning()) {
-      this.terminal.resize(size.cols, size.rows);
-      // Also resize local terminal
-      process.stdout.write(`\x1b[8;${size.rows};${size.cols}t`);
+  private handleTerminalSignal(windowId: string, signal: TerminalSignal, connectionId?: string): void {
+    if (!this.windows.isRunning(windowId)) return;
+
+    const decision = this.inputPolicy.checkSignal(signal, this.getInputRole(connectionId));
+    const delivered = decision.allowed;
+    if (delivered) {
+      this.log(chalk.cyan(`Web client sent ${signal} to window ${windowId}`));
+      this.windows.signal(windowId, signal);
+    } else {
+      const reason = decision.match ? `denied by rule ${decision.match.rule}` : 'no rule allows it';
+      this.log(chalk.yellow(`⚠ Blocked ${signal} from web: ${reason}`));
     }
+
+    if (!this.wsClient?.isConnected() || !connectionId || !this.encryption.hasClient(connectionId)) return;
+    const payload: TerminalSignalPayload = { signal, delivered };
+    this.sendToWeb(MessageType.TERMINAL_SIGNAL, payload, windowId, connectionId);
   }
 
   /**
-   * Start the PTY terminal
+   * Handle terminal resize from web client
    */
-  private startTerminal(): void {
-    if (this.terminal) return;
+  private handleTerminalResize(windowId: string, size: { cols: number; rows: number }): void {
+    if (this.windows.isRunning(windowId)) {
+      this.windows.resize(windowId, size.cols, size.rows);
+      if (windowId === this.windows.getActiveWindowId()) {
+        // Also resize the local terminal, when one is attached
+        if (!this.isDaemon && process.stdout.isTTY) {
+          process.stdout.write(`\x1b[8;${size.rows};${size.cols}t`);
+        }
+        this.recorder?.resize(size.cols, size.rows);
+      }
+    }
+  }
 
-    // Auto-add --dangerously-skip-permissions for claude/codex
-    let args = this.options.args || [];
-    if (this.options.command === 'claude' || this.options.command === 'codex') {
-      if (!args.includes('--dangerously-skip-permissions')) {
-        args = ['--dangerously-skip-permissions', ...args];
+  /**
+   * Handle window create/close/switch/list requests from web client
+   * New windows go by the input policy's window rules, as the sender's role.
+   */
+  private handleWindowMessage(message: Message, connectionId?: string): void {
+    // Windows are only available once the main terminal is running
+    if (!this.isReady) return;
+
+    const payload = (message.payload ?? {}) as Record<string, unknown>;
+
+    switch (message.type) {
+      case MessageType.WINDOW_CREATE: {
+        const request = payload as WindowCreatePayload;
+        if (
+          (request.name !== undefined && typeof request.name !== 'string') ||
+          (request.command !== undefined && typeof request.command !== 'string') ||
+          (request.args !== undefined &&
+            (!Array.isArray(request.args) || !request.args.every((a) => typeof a === 'string')))
+        ) {
+          this.logError(`Invalid WINDOW_CREATE payload: ${JSON.stringify(payload)}`);
+          return;
+        }
+        const command = request.command || process.env.SHELL || 'bash';
+        const commandLine = [command, ...(request.args ?? [])].join(' ');
+        const decision = this.inputPolicy.checkWindow(commandLine, this.getInputRole(connectionId));
+        if (!decision.allowed) {
+          const reason = decision.match ? `denied by rule ${decision.match.rule}` : 'no rule allows it';
+          this.log(chalk.yellow(`⚠ Refused window from web (${commandLine}): ${reason}`));
+          if (decision.match && this.wsClient?.isConnected() && connectionId && this.encryption.hasClient(connectionId)) {
+            const blocked: InputBlockedPayload = { rule: decision.match.rule, kind: 'window' };
+            this.sendToWeb(MessageType.INPUT_BLOCKED, blocked, undefined, connectionId);
+          }
+          return;
+        }
+        try {
+          const window = this.openWindow({
+            name: request.name,
+            command,
+            args: request.args,
+          });
+          this.windows.setActive(window.windowId);
+          this.log(chalk.green(`✓ Window opened: ${window.name} (${window.windowId})`));
+        } catch (error) {
+          this.logError('Failed to open window', error);
+        }
+        break;
       }
+
+      case MessageType.WINDOW_CLOSE:
+        if (!this.mayChangeWindows(message.type, connectionId)) return;
+        if (typeof payload.windowId !== 'string' || !this.windows.close(payload.windowId)) {
+          this.logError(`Invalid WINDOW_CLOSE payload: ${JSON.stringify(payload)}`);
+        }
+        break;
+
+      case MessageType.WINDOW_SWITCH:
+        if (!this.mayChangeWindows(message.type, connectionId)) return;
+        if (typeof payload.windowId !== 'string' || !this.windows.setActive(payload.windowId)) {
+          this.logError(`Invalid WINDOW_SWITCH payload: ${JSON.stringify(payload)}`);
+        }
+        break;
+
+      case MessageType.WINDOW_LIST:
+        this.sendWindowList();
+        break;
     }
+  }
 
-    const terminalOptions: TerminalOptions = {
-      command: this.options.command,
-      args,
-      cwd: process.cwd(),
+  /**
+   * Whether a web client may close windows or pick the CLI's active one
+   * Windows are shared, so only the owner may; a guest's tabs still switch in its own page.
+   */
+  private mayChangeWindows(type: MessageType, connectionId?: string): boolean {
+    if (this.getInputRole(connectionId) === 'owner') return true;
+    this.log(chalk.yellow(`⚠ Refused ${type} from guest ${connectionId}`));
+    return false;
+  }
+
+  /**
+   * Open a terminal window
+   */
+  private openWindow(options: {
+    windowId?: string;
+    name?: string;
+    command: string;
+    args?: string[];
+  }) {
+    // Commands run with the arguments they were given; launch profiles supply agent flags
+    const window = this.windows.create({
+      ...options,
+      cwd: this.options.cwd || process.cwd(),
+      env: this.options.env,
       cols: this.isDaemon ? 120 : (process.stdout.columns || 80),
       rows: this.isDaemon ? 40 : (process.stdout.rows || 24),
+    });
+
+    if (this.notificationConfig.enabled !== false) {
+      const windowId = window.windowId;
+      this.notifiers.set(
+        windowId,
+        new WindowNotifier({
+          config: this.notificationConfig,
+          onNotify: (event) => this.sendNotification(windowId, event),
+        })
+      );
+    }
+
+    const adapter = getAgentAdapter(options.command);
+    if (adapter) {
+      const windowId = window.windowId;
+      this.agents.set(
+        windowId,
+        new AgentStateTracker({ adapter, onChange: (state) => this.handleAgentState(windowId, state) })
+      );
+    }
+    return window;
+  }
+
+  /**
+   * Pass on a change in what a window's agent is doing
+   */
+  private handleAgentState(windowId: string, state: AgentStatePayload): void {
+    const detail = state.detail ? chalk.gray(`: ${state.detail}`) : '';
+    this.log(chalk.cyan(`Agent in window ${windowId} is ${state.state}`) + detail);
+    this.emit('agent:state', windowId, state);
+    this.notifiers.get(windowId)?.agentState(state);
+
+    if (!this.wsClient?.isConnected() || !this.encryption.isReady()) return;
+    try {
+      this.sendToWeb(MessageType.AGENT_STATE, state, windowId);
+    } catch (error) {
+      this.logError('Failed to send agent state', error);
+    }
+  }
+
+  /**
+   * Remember a browser's push subscription keys
+   * The relay delivers notifications to the session owner's subscriptions only,
+   * so guests' are of no use.
+   */
+  private handleNotifySubscription(subscription: NotifySubscriptionPayload, connectionId?: string): void {
+    if (connectionId && this.guestConnections.has(connectionId)) {
+      this.log(chalk.gray(`   Ignored notification subscription from a guest: ${connectionId}`));
+      return;
+    }
+    if (!this.pushSubscriptions.has(subscription.subscriptionId)) {
+      this.log(chalk.gray(`   Browser subscribed to notifications: ${subscription.subscriptionId}`));
+    }
+    this.pushSubscriptions.set(subscription.subscriptionId, subscription);
+  }
+
+  /**
+   * Notify the subscribed browsers about something in a window
+   * Each notification is encrypted for one browser's subscription keys, so
+   * neither the relay nor the push service can read it.
+   */
+  private sendNotification(windowId: string, event: NotificationEvent): void {
+    if (this.pushSubscriptions.size === 0 || !this.wsClient?.isConnected()) return;
+
+    const sessionId = this.encryption.getSessionId();
+    const notification: PushNotification = {
+      title: event.title,
+      body: event.body,
+      sessionId,
+      windowId,
+      tag: `${sessionId}:${windowId}`,
+      url: this.pendingSessionMetadata?.sessionWebUrl,
     };
+    const plaintext = JSON.stringify(notification);
 
-    this.terminal = new Terminal(terminalOptions);
+    const deliveries: PushDelivery[] = [];
+    for (const subscription of this.pushSubscriptions.values()) {
+      try {
+        deliveries.push({
+          subscriptionId: subscription.subscriptionId,
+          payload: encryptPushPayload(plaintext, subscription).toString('base64url'),
+        });
+      } catch (error) {
+        this.logError(`Dropped unusable notification subscription ${subscription.subscriptionId}`, error);
+        this.pushSubscriptions.delete(subscription.subscriptionId);
+      }
+    }
+    if (deliveries.length === 0) return;
+
+    try {
+      this.wsClient.sendPushNotifications(deliveries.slice(0, PROTOCOL.MAX_PUSH_NOTIFICATIONS));
+      this.log(chalk.gray(`   Notification sent: ${event.title}`));
+    } catch (error) {
+      this.logError('Failed to send notification', error);
+    }
+  }
 
-    this.terminal.on('data', (data: string) => {
-      // In daemon mode, log terminal output for debugging
-      if (this.isDaemon && this.options.logFile) {
-        appendFileSync(this.options.logFile, `[${new Date().toISOString()}] TERMINAL DATA: ${JSON.stringify(data)}\n`);
+  /**
+   * Start the main terminal window and window event handling
+   */
+  private startTerminal(): void {
+    if (this.isReady) return;
+
+    this.windows.on('data', (windowId: string, data: string) => {
+      // The recording follows the active window, like the local terminal
+      if (windowId === this.windows.getActiveWindowId()) {
+        this.recorder?.output(data);
       }
 
-      // Write to local stdout (only in interactive mode)
+      // Write the active window to local stdout (only in interactive mode)
       if (!this.isDaemon) {
-        process.stdout.write(data);
+        if (windowId === this.windows.getActiveWindowId()) {
+          process.stdout.write(data);
+        }
       } else {
-        this.logStream?.write(`[TERMINAL] ${data}`);
+        this.logStream?.write(`[TERMINAL ${windowId}] ${data}`);
       }
 
-      // Buffer for late joiners
-      this.terminalBuffer += data;
-      if (this.terminalBuffer.length > this.maxBufferSize) {
-        this.terminalBuffer = this.terminalBuffer.slice(-this.maxBufferSize);
+      // Attached local terminals show the active window too
+      if (windowId === this.windows.getActiveWindowId()) {
+        for (const terminal of this.attachedTerminals) {
+          terminal.write(data);
+        }
       }
 
-      // Send to web clients
-      this.sendTerminalOutput(data);
+      // Send to web clients, batched with the output around it
+      if (this.encryption.isReady()) {
+        this.output.push(windowId, data);
+      }
+
+      this.agents.get(windowId)?.push(data);
+      this.notifiers.get(windowId)?.push(data);
     });
 
-    this.terminal.on('exit', (exitCode: number, signal?: number) => {
-      this.log(chalk.blue(`\n✓ Process exited with code ${exitCode}, signal ${signal}`));
-      this.emit('terminal:exit', exitCode);
-      this.close();
+    this.windows.on('exit', (windowId: string, exitCode: number, signal?: number) => {
+      // Output printed on the way out goes before the window list without the window
+      this.output.flush();
+      this.log(chalk.blue(`\n✓ Process in window ${windowId} exited with code ${exitCode}, signal ${signal}`));
+      this.agents.get(windowId)?.close();
+      this.agents.delete(windowId);
+      this.notifiers.get(windowId)?.close();
+      this.notifiers.delete(windowId);
+
+      // The session ends with its last window
+      if (this.windows.size === 0) {
+        this.emit('terminal:exit', exitCode);
+        this.close();
+      }
     });
 
-    this.terminal.on('error', (error: Error) => {
-      this.logError('Terminal error:', error);
+    this.windows.on('error', (windowId: string, error: Error) => {
+      this.logError(`Terminal error in window ${windowId}:`, error);
       this.emit('error', error);
     });
 
+    let lastActiveWindowId = DEFAULT_WINDOW_ID;
+    this.windows.on('change', () => {
+      const activeWindowId = this.windows.getActiveWindowId();
+      if (activeWindowId && activeWindowId !== lastActiveWindowId) {
+        lastActiveWindowId = activeWindowId;
+        const redraw = '\x1b[2J\x1b[H' + this.windows.getBuffer(activeWindowId);
+        // Redraw the local terminal with the newly active window
+        if (!this.isDaemon) {
+          process.stdout.write(redraw);
+        }
+        for (const terminal of this.attachedTerminals) {
+          terminal.write(redraw);
+        }
+        this.recordWindowSwitch(activeWindowId, redraw);
+      }
+      this.sendWindowList();
+    });
+
     // Handle local stdin (only in interactive mode)
     if (!this.isDaemon) {
       this.setupLocalInput();
@@ -449,94 +1028,250 @@ export class SessionManager extends EventEmitter {
       // Handle terminal resize
       process.stdout.on('resize', () => {
         const { columns, rows } = process.stdout;
-        if (this.terminal && columns && rows) {
-          this.terminal.resize(columns, rows);
+        if (columns && rows) {
+          this.resizeLocal(columns, rows);
         }
       });
     }
 
-    // Start the terminal
-    this.terminal.start();
+    // Start the main window
+    const mainWindow = this.openWindow({
+      windowId: DEFAULT_WINDOW_ID,
+      command: this.options.command,
+      args: this.options.args,
+    });
+    if (this.recorder) {
+      this.recorder.start(mainWindow.cols, mainWindow.rows);
+      this.log(chalk.gray(`   Recording to ${this.options.recordFile}`));
+    }
     this.isReady = true;
     this.emit('ready');
 
     this.log(chalk.green('\n✓ Terminal started. You can now use it locally and remotely.\n'));
-
-    // Note: Auto-accept trust dialog is not needed when using --dangerously-skip-permissions
-    // The flag is automatically added for claude/codex commands
   }
 
   /**
    * Set up local stdin handling
    */
   private setupLocalInput(): void {
+    if (this.isDaemon || this.localInputReady) return;
+    this.localInputReady = true;
+
     if (process.stdin.isTTY) {
       process.stdin.setRawMode(true);
     }
     process.stdin.resume();
 
     process.stdin.on('data', (data: Buffer) => {
-      if (this.terminal && this.terminal.isRunning()) {
-        this.terminal.write(data.toString());
+      // An open join prompt takes the keystrokes
+      if (this.approvals?.handleInput(data.toString())) return;
+
+      // Raw mode swallows Ctrl+C; keep it working while no terminal runs yet
+      if (!this.isReady && data.toString() === '\x03') {
+        process.kill(process.pid, 'SIGINT');
+        return;
       }
+
+      this.writeLocalInput(data.toString());
     });
   }
 
   /**
-   * Send terminal output to web clients
+   * Local keystrokes go to the active window unfiltered, unlike web input
    */
-  private sendTerminalOutput(data: string): void {
+  private writeLocalInput(data: string): void {
+    const activeWindowId = this.windows.getActiveWindowId();
+    if (activeWindowId && this.windows.isRunning(activeWindowId)) {
+      this.windows.write(activeWindowId, data);
+      this.recorder?.input(data);
+    }
+  }
+
+  /**
+   * Fit the active window to the local terminal
+   */
+  private resizeLocal(cols: number, rows: number): void {
+    const activeWindowId = this.windows.getActiveWindowId();
+    if (activeWindowId) {
+      this.windows.resize(activeWindowId, cols, rows);
+      this.recorder?.resize(cols, rows);
+    }
+  }
+
+  /**
+   * Attach a local terminal to a daemon session
+   * It gets a redraw of the active window, then its output; its input and
+   * size are handled like the local terminal of a foreground session.
+   */
+  attachTerminal(terminal: AttachedTerminal, size: { cols: number; rows: number }): TerminalAttachment {
+    // Someone wants to use the terminal now; don't wait for a web client
+    this.startTerminal();
+    this.attachedTerminals.add(terminal);
+    this.log(chalk.gray('Local terminal attached'));
+
+    const attachment: TerminalAttachment = {
+      input: (data) => this.writeLocalInput(data),
+      resize: (cols, rows) => this.resizeLocal(cols, rows),
+      detach: () => {
+        if (this.attachedTerminals.delete(terminal)) {
+          this.log(chalk.gray('Local terminal detached'));
+        }
+      },
+    };
+    attachment.resize(size.cols, size.rows);
+
+    const activeWindowId = this.windows.getActiveWindowId();
+    if (activeWindowId) {
+      terminal.write('\x1b[2J\x1b[H' + this.windows.getBuffer(activeWindowId));
+    }
+    return attachment;
+  }
+
+  /**
+   * Record a switch to another window: a marker, its size and a redraw
+   */
+  private recordWindowSwitch(windowId: string, redraw: string): void {
+    if (!this.recorder) return;
+
+    const window = this.windows.list().find((w) => w.windowId === windowId);
+    if (!window) return;
+
+    this.recorder.marker(`window: ${window.name}`);
+    this.recorder.resize(window.cols, window.rows);
+    this.recorder.output(redraw);
+  }
+
+  /**
+   * Encrypt a message for one web client, or for each of them, and send it
+   */
+  private sendToWeb<T>(type: MessageType, payload: T, windowId?: string, connectionId?: string): void {
+    // Older web apps are spared message types they don't know
+    if (connectionId && !this.encryption.supports(connectionId, type)) return;
+
+    // Rotate keys that are due first; the client switches when it reads KEY_ROTATE
+    for (const dueId of this.encryption.getClientsDueForRotation()) {
+      this.wsClient!.sendEncrypted(this.encryption.rotateKey(dueId));
+    }
+
+    const envelopes = connectionId
+      ? [this.encryption.encryptFor(connectionId, type, payload, windowId)]
+      : this.encryption.encryptForAll(type, payload, windowId);
+    for (const envelope of envelopes) {
+      this.wsClient!.sendEncrypted(envelope);
+    }
+  }
+
+  /**
+   * Send terminal output to web clients (all of them unless one is given)
+   */
+  private sendTerminalOutput(data: string, windowId: string, connectionId?: string): void {
     // Check if WebSocket is actually connected (not just exists)
     if (!this.wsClient || !this.wsClient.isConnected() || !this.encryption.isReady()) return;
 
-    const logFile = this.options.logFile;
-
     try {
-      if (this.isDaemon && logFile) {
-        appendFileSync(logFile, `[${new Date().toISOString()}] sendTerminalOutput START: ${data.length} bytes\n`);
-      }
-      const envelope = this.encryption.encrypt(MessageType.TERMINAL_OUTPUT, data);
-      if (this.isDaemon && logFile) {
-        appendFileSync(logFile, `[${new Date().toISOString()}] Encrypted, sending...\n`);
-      }
-      this.wsClient.sendEncrypted(envelope);
-      if (this.isDaemon && logFile) {
-        appendFileSync(logFile, `[${new Date().toISOString()}] Sent terminal output: ${data.length} bytes\n`);
-      }
+      this.sendToWeb(MessageType.TERMINAL_OUTPUT, data, windowId, connectionId);
     } catch (error) {
       this.logError('Failed to send terminal output', error);
     }
   }
 
   /**
-   * Send buffered output to late-joining clients
+   * Send buffered output to a late-joining client (or to all clients)
    */
-  private sendBufferedOutput(): void {
+  private sendBufferedOutput(connectionId?: string): void {
     // Check if WebSocket is actually connected before sending
     if (!this.wsClient || !this.wsClient.isConnected() || !this.encryption.isReady()) {
       return;
     }
+    if (connectionId && !this.encryption.hasClient(connectionId)) return;
 
-    if (this.terminalBuffer.length > 0) {
-      this.sendTerminalOutput(this.terminalBuffer);
+    // Window list first so the web client has a tab for every window's output
+    this.sendWindowList(connectionId);
+    for (const [windowId, agent] of this.agents) {
+      try {
+        this.sendToWeb(MessageType.AGENT_STATE, agent.getState(), windowId, connectionId);
+      } catch (error) {
+        this.logError('Failed to send agent state', error);
+      }
     }
 
-    // Also send current terminal size
-    if (this.terminal) {
-      const { cols, rows } = this.terminal.getDimensions();
+    let hasHistory = false;
+    const scrollback: Record<string, ScrollbackRange> = {};
+    for (const { windowId } of this.windows.list()) {
+      const buffer = this.windows.getBuffer(windowId);
+      if (buffer.length > 0) {
+        hasHistory = true;
+        this.sendTerminalOutput(buffer, windowId, connectionId);
+      }
+      const range = this.windows.getScrollbackRange(windowId);
+      if (range) {
+        scrollback[windowId] = range;
+      }
+    }
+
+    // Also send current terminal size of the active window
+    const activeWindowId = this.windows.getActiveWindowId();
+    const dimensions = activeWindowId ? this.windows.getDimensions(activeWindowId) : null;
+    if (dimensions) {
       try {
-        const envelope = this.encryption.encrypt(MessageType.STATE_SYNC, {
-          cols,
-          rows,
-          hasHistory: this.terminalBuffer.length > 0,
-        });
-        this.wsClient.sendEncrypted(envelope);
+        this.sendToWeb(
+          MessageType.STATE_SYNC,
+          { cols: dimensions.cols, rows: dimensions.rows, hasHistory, scrollback },
+          undefined,
+          connectionId
+        );
       } catch (error) {
         this.logError('Failed to send state sync', error);
       }
     }
   }
 
+  /**
+   * Send a window's output just before `before` to the client that asked
+   * The chunk shrinks until its envelope fits in PROTOCOL.MAX_MESSAGE_SIZE.
+   */
+  private sendHistoryChunk(windowId: string, before: number, connectionId?: string): void {
+    if (!this.wsClient || !this.wsClient.isConnected() || !this.encryption.isReady()) return;
+    if (connectionId && !this.encryption.hasClient(connectionId)) return;
+
+    const range = this.windows.getScrollbackRange(windowId);
+    if (!range) return;
+
+    const end = Math.min(Math.max(before, range.start), range.end);
+    let payload: HistoryChunkPayload;
+    let size = HISTORY_CHUNK_SIZE;
+    for (;;) {
+      const { data, start } = this.windows.readScrollback(windowId, end, size)!;
+      payload = { start, end, data, oldest: range.start };
+      const fits = getEnvelopeSize(createMessage(MessageType.HISTORY_CHUNK, payload, 0, windowId)) <= PROTOCOL.MAX_MESSAGE_SIZE;
+      if (fits || size <= 1024) break;
+      size = Math.floor(size / 2);
+    }
+
+    try {
+      this.sendToWeb(MessageType.HISTORY_CHUNK, payload, windowId, connectionId);
+    } catch (error) {
+      this.logError('Failed to send history chunk', error);
+    }
+  }
+
+  /**
+   * Send the window list to web clients (all of them unless one is given)
+   */
+  private sendWindowList(connectionId?: string): void {
+    if (!this.wsClient || !this.wsClient.isConnected() || !this.encryption.isReady()) return;
+
+    const activeWindowId = this.windows.getActiveWindowId();
+    if (!activeWindowId) return;
+
+    try {
+      const payload: WindowListPayload = { windows: this.windows.list(), activeWindowId };
+      this.sendToWeb(MessageType.WINDOW_LIST, payload, undefined, connectionId);
+    } catch (error) {
+      this.logError('Failed to send window list', error);
+    }
+  }
+
   /**
    * Get session ID
    */
@@ -544,6 +1279,20 @@ export class SessionManager extends EventEmitter {
     return this.encryption.getSessionId();
   }
 
+  /**
+   * Get the session info reported by the daemon supervisor (daemon mode, once started)
+   */
+  getDaemonSession(): DaemonSession | null {
+    return this.daemonSession;
+  }
+
+  /**
+   * Get what the agent in the main window is doing, when it runs one
+   */
+  getAgentState(): AgentStatePayload | null {
+    return this.agents.get(DEFAULT_WINDOW_ID)?.getState() ?? null;
+  }
+
   /**
    * Get connected web client count
    */
@@ -590,11 +1339,6 @@ export class SessionManager extends EventEmitter {
     }
     this.log(chalk.blue('\n🔌 Closing session...'));
 
-    // Delete daemon session info
-    if (this.isDaemon) {
-      deleteDaemonSession(this.encryption.getSessionId());
-    }
-
     // Restore stdin (only in interactive mode)
     if (!this.isDaemon && process.stdin.isTTY) {
       process.stdin.setRawMode(false);
@@ -603,10 +1347,20 @@ export class SessionManager extends EventEmitter {
       process.stdin.pause();
     }
 
-    // Kill terminal
-    if (this.terminal) {
-      this.terminal.kill();
-      this.terminal = null;
+    // Kill all terminal windows
+    this.output.clear();
+    for (const agent of this.agents.values()) {
+      agent.close();
+    }
+    this.agents.clear();
+    for (const notifier of this.notifiers.values()) {
+      notifier.close();
+    }
+    this.notifiers.clear();
+    this.windows.killAll();
+    this.windows.removeAllListeners();
+    if (this.ownScrollbackDir) {
+      rmSync(this.ownScrollbackDir, { recursive: true, force: true });
     }
 
     // Close WebSocket
@@ -615,6 +1369,21 @@ export class SessionManager extends EventEmitter {
       this.wsClient = null;
     }
 
+    // Nobody is left to answer join prompts
+    this.approvals?.rejectAll();
+
+    // Tell attached terminals the session is gone
+    for (const terminal of this.attachedTerminals) {
+      terminal.end();
+    }
+    this.attachedTerminals.clear();
+
+    // Finish the recording
+    if (this.recorder) {
+      this.recorder.close();
+      this.recorder = null;
+    }
+
     // Close log stream
     if (this.logStream) {
       this.logStream.end();
@@ -154,3 +154,85 @@ export async function fetchRemoteSessionInfo(
     };
   });
 }
+
+/**
+ * Invite users to a remote session, or uninvite them
+ *
+ * Only the session owner (the user logged in when it started) can do this.
+ *
+ * @param sessionId - Session to share
+ * @param add - Emails to invite
+ * @param remove - Emails to uninvite
+ * @returns Everyone invited after the change
+ */
+export async function updateSessionInvites(
+  sessionId: string,
+  add: string[],
+  remove: string[]
+): Promise<string[]> {
+  // Ensure we have a valid token (refresh if expired)
+  const authToken = await ensureValidToken();
+
+  if (!authToken) {
+    throw new Error('Not logged in. Run "always login" to authenticate.');
+  }
+
+  const wsEndpoint = getWSEndpoint();
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      ws.close();
+      reject(new Error('Request timed out'));
+    }, QUERY_TIMEOUT);
+
+    // Connect with auth token
+    const url = `${wsEndpoint}?token=${encodeURIComponent(authToken)}`;
+    const ws = new WebSocket(url);
+
+    ws.onopen = () => {
+      // Send session invite
+      ws.send(
+        JSON.stringify({
+          type: MessageType.SESSION_INVITE,
+          sessionId,
+          add,
+          remove,
+        })
+      );
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data.toString());
+
+        if (message.type === MessageType.SESSION_INVITE_RESPONSE) {
+          clearTimeout(timeout);
+          ws.close();
+          if (message.success) {
+            resolve(message.invitedUsers || []);
+          } else {
+            reject(new Error(message.message || 'Failed to update invites'));
+          }
+        } else if (message.type === MessageType.ERROR) {
+          clearTimeout(timeout);
+          ws.close();
+          reject(new Error(message.message || 'Server error'));
+        }
+      } catch (error) {
+        // Ignore parse errors
+      }
+    };
+
+    ws.onerror = (error) => {
+      clearTimeout(timeout);
+      reject(new Error('WebSocket error: ' + error.message));
+    };
+
+    ws.onclose = (event) => {
+      clearTimeout(timeout);
+      if (event.code !== 1000) {
+        reject(new Error(`Connection closed: ${event.reason || 'Unknown reason'}`));
+      }
+    };
+  });
+}
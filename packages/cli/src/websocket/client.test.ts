@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import {
+  E2ECrypto,
+  MessageType,
+  PROTOCOL,
+  createMessage,
+  fragmentEnvelope,
+  FragmentAssembler,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  type EncryptedEnvelope,
+} from '@always-coder/shared';
+import { WebSocketClient } from './client.js';
+
+describe('WebSocketClient', () => {
+  let server: WebSocketServer;
+  let client: WebSocketClient;
+  let socket: WebSocket;
+  let cli: E2ECrypto;
+  let web: E2ECrypto;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+
+    const connected = once(server, 'connection');
+    client = new WebSocketClient(`ws://127.0.0.1:${port}`);
+    await client.connect();
+    [socket] = (await connected) as [WebSocket];
+
+    cli = new E2ECrypto();
+    web = new E2ECrypto();
+    cli.establishSharedKey(web.getPublicKey());
+    web.establishSharedKey(cli.getPublicKey());
+  });
+
+  afterEach(() => {
+    client.close();
+    server.close();
+  });
+
+  it('should send envelopes larger than MAX_MESSAGE_SIZE in fragments', async () => {
+    const data = 'x'.repeat(2 * 1024 * 1024);
+    const assembler = new FragmentAssembler();
+    const received = new Promise<EncryptedEnvelope>((resolve) => {
+      socket.on('message', (raw) => {
+        const text = raw.toString();
+        expect(text.length).toBeLessThanOrEqual(PROTOCOL.MAX_MESSAGE_SIZE);
+        const envelope = assembler.add(JSON.parse(text));
+        if (envelope) resolve(envelope);
+      });
+    });
+
+    client.sendEncrypted(cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, { data }, 1), 'session'));
+
+    expect((web.decrypt(await received).payload as { data: string }).data).toBe(data);
+  });
+
+  it('should emit fragmented envelopes once reassembled', async () => {
+    const data = 'y'.repeat(2 * 1024 * 1024);
+    const envelope = web.encrypt(createMessage(MessageType.TERMINAL_INPUT, { data }, 1), 'session');
+    const emitted: EncryptedEnvelope[] = [];
+    const done = new Promise<void>((resolve) => {
+      client.on('encrypted', (e: EncryptedEnvelope) => {
+        emitted.push(e);
+        if (emitted.length === 2) resolve();
+      });
+    });
+
+    const fragments = fragmentEnvelope({ ...envelope, connectionId: 'conn-1' });
+    for (const fragment of fragments) {
+      socket.send(JSON.stringify(fragment));
+    }
+    // Unfragmented envelopes still pass straight through
+    socket.send(JSON.stringify({ ...envelope, connectionId: 'conn-1' }));
+    await done;
+
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(emitted[0].fragment).toBeUndefined();
+    expect(emitted[0].connectionId).toBe('conn-1');
+    expect((cli.decrypt(emitted[0]).payload as { data: string }).data).toBe(data);
+    expect(emitted[1].ciphertext).toBe(envelope.ciphertext);
+  });
+
+  it('should switch to binary frames once the relay agrees to version 2', async () => {
+    const create = new Promise<Record<string, unknown>>((resolve) => {
+      socket.once('message', (raw) => resolve(JSON.parse(raw.toString())));
+    });
+    client.sendSessionCreate('session', cli.getPublicKey());
+    expect((await create).envelopeVersions).toEqual([1, 2]);
+
+    const created = once(client, 'session:created');
+    socket.send(JSON.stringify({ type: MessageType.SESSION_CREATED, sessionId: 'session', envelopeVersion: 2 }));
+    await created;
+
+    const frame = new Promise<[Buffer, boolean]>((resolve) => {
+      socket.once('message', (raw, isBinary) => resolve([raw as Buffer, isBinary]));
+    });
+    client.sendEncrypted(cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'out', 1), 'session'));
+    const [bytes, isBinary] = await frame;
+    expect(isBinary).toBe(true);
+    expect(web.decrypt(decodeBinaryEnvelope(bytes)).payload).toBe('out');
+
+    const emitted = once(client, 'encrypted');
+    const input = web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'in', 1), 'session');
+    socket.send(encodeBinaryEnvelope({ ...input, connectionId: 'conn-1' }));
+    const [envelope] = (await emitted) as [EncryptedEnvelope];
+    expect(envelope.connectionId).toBe('conn-1');
+    expect(cli.decrypt(envelope).payload).toBe('in');
+  });
+});
@@ -3,8 +3,22 @@ import WebSocket, { type RawData } from 'ws';
 import {
   MessageType,
   isEncryptedEnvelope,
+  isBinaryEnvelope,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  fragmentEnvelope,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  getCapabilities,
+  FragmentAssembler,
   PROTOCOL,
   type EncryptedEnvelope,
+  type EnvelopeVersion,
+  type ErrorPayload,
+  type JoinApprovalStatus,
+  type PushDelivery,
+  type PushSendResponsePayload,
+  type SessionCreatedPayload,
+  type WebConnectedPayload,
 } from '@always-coder/shared';
 
 /**
@@ -15,11 +29,13 @@ export interface WebSocketClientEvents {
   close: (code: number, reason: string) => void;
   error: (error: Error) => void;
   message: (data: unknown) => void;
-  'session:created': (data: { sessionId: string; wsEndpoint: string }) => void;
-  'session:reconnected': (data: { sessionId: string; wsEndpoint: string }) => void;
-  'web:connected': (data: { publicKey: string; connectionId: string }) => void;
+  'session:created': (data: SessionCreatedPayload) => void;
+  'session:reconnected': (data: SessionCreatedPayload) => void;
+  'web:connected': (data: WebConnectedPayload) => void;
   'web:disconnected': (data: { connectionId: string }) => void;
   encrypted: (envelope: EncryptedEnvelope) => void;
+  'server:error': (data: ErrorPayload) => void;
+  'push:sent': (data: PushSendResponsePayload) => void;
   pong: () => void;
 }
 
@@ -43,6 +59,10 @@ export class WebSocketClient extends EventEmitter {
   private pingInterval: NodeJS.Timeout | null = null;
   private isClosing: boolean = false;
   private hasConnectedBefore: boolean = false;
+  // Envelopes too large for one WebSocket message arrive in fragments
+  private fragments: FragmentAssembler = new FragmentAssembler();
+  // Envelope format the relay agreed to for this connection
+  private envelopeVersion: EnvelopeVersion = 1;
 
   constructor(options: WebSocketClientOptions | string) {
     super();
@@ -88,6 +108,8 @@ export class WebSocketClient extends EventEmitter {
         this.ws.onclose = (event) => {
           console.log('WebSocket closed:', event.code, event.reason);
           this.stopPingInterval();
+          this.fragments.clear();
+          this.envelopeVersion = 1;
           this.emit('close', event.code, event.reason);
 
           if (!this.isClosing && this.reconnectAttempts < this.maxReconnectAttempts) {
@@ -102,8 +124,12 @@ export class WebSocketClient extends EventEmitter {
           reject(error);
         };
 
-        this.ws.on('message', (data: RawData) => {
-          this.handleMessage(data);
+        this.ws.on('message', (data: RawData, isBinary: boolean) => {
+          if (isBinary) {
+            this.handleBinaryMessage(data);
+          } else {
+            this.handleMessage(data);
+          }
         });
       } catch (error) {
         reject(error);
@@ -121,8 +147,10 @@ export class WebSocketClient extends EventEmitter {
 
       // Route based on message type
       if (message.type === MessageType.SESSION_CREATED) {
+        this.envelopeVersion = message.envelopeVersion === 2 ? 2 : 1;
         this.emit('session:created', message);
       } else if (message.type === MessageType.SESSION_RECONNECTED) {
+        this.envelopeVersion = message.envelopeVersion === 2 ? 2 : 1;
         this.emit('session:reconnected', message);
       } else if (message.type === 'web:connected') {
         this.emit('web:connected', message);
@@ -130,14 +158,41 @@ export class WebSocketClient extends EventEmitter {
         this.emit('web:disconnected', message);
       } else if (message.type === MessageType.PONG) {
         this.emit('pong');
+      } else if (message.type === MessageType.ERROR) {
+        this.emit('server:error', message);
+      } else if (message.type === MessageType.PUSH_SEND_RESPONSE) {
+        this.emit('push:sent', message);
       } else if (isEncryptedEnvelope(message)) {
-        this.emit('encrypted', message);
+        this.handleEnvelope(message);
       }
     } catch (error) {
       console.error('Failed to parse message:', error);
     }
   }
 
+  /**
+   * Handle a binary frame (a version 2 envelope)
+   */
+  private handleBinaryMessage(data: RawData): void {
+    try {
+      const bytes = Array.isArray(data) ? Buffer.concat(data) : new Uint8Array(data);
+      if (!isBinaryEnvelope(bytes)) {
+        console.error('Ignoring unknown binary frame');
+        return;
+      }
+      this.handleEnvelope(decodeBinaryEnvelope(bytes));
+    } catch (error) {
+      console.error('Failed to decode binary envelope:', error);
+    }
+  }
+
+  private handleEnvelope(received: EncryptedEnvelope): void {
+    const envelope = this.fragments.add(received);
+    if (envelope) {
+      this.emit('encrypted', envelope);
+    }
+  }
+
   /**
    * Send a message
    */
@@ -151,30 +206,71 @@ export class WebSocketClient extends EventEmitter {
   /**
    * Send session create request
    */
-  sendSessionCreate(sessionId: string, publicKey: string): void {
+  sendSessionCreate(sessionId: string, publicKey: string, viewerToken?: string): void {
     this.send({
       type: MessageType.SESSION_CREATE,
       sessionId,
       publicKey,
+      viewerToken,
+      envelopeVersions: [...SUPPORTED_ENVELOPE_VERSIONS],
+      capabilities: getCapabilities(),
     });
   }
 
   /**
    * Send session reconnect request
    */
-  sendSessionReconnect(sessionId: string, publicKey: string): void {
+  sendSessionReconnect(sessionId: string, publicKey: string, viewerToken?: string): void {
     this.send({
       type: MessageType.SESSION_RECONNECT,
       sessionId,
       publicKey,
+      viewerToken,
+      envelopeVersions: [...SUPPORTED_ENVELOPE_VERSIONS],
+      capabilities: getCapabilities(),
+    });
+  }
+
+  /**
+   * Tell a web client where its join stands (require-approval mode)
+   */
+  sendJoinApproval(connectionId: string, status: JoinApprovalStatus): void {
+    this.send({
+      type: MessageType.JOIN_APPROVAL,
+      connectionId,
+      status,
     });
   }
 
   /**
-   * Send an encrypted envelope
+   * Send notifications encrypted for the session owner's browsers
+   */
+  sendPushNotifications(notifications: PushDelivery[]): void {
+    this.send({
+      type: MessageType.PUSH_SEND,
+      notifications,
+    });
+  }
+
+  /**
+   * Send an encrypted envelope, split into fragments if it exceeds PROTOCOL.MAX_MESSAGE_SIZE
+   * Goes out as a binary frame once the relay has agreed to version 2.
    */
   sendEncrypted(envelope: EncryptedEnvelope): void {
-    this.send(envelope);
+    for (const fragment of fragmentEnvelope(envelope)) {
+      if (this.envelopeVersion === 2) {
+        this.sendBinary(encodeBinaryEnvelope(fragment));
+      } else {
+        this.send(fragment);
+      }
+    }
+  }
+
+  private sendBinary(data: Uint8Array): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not connected');
+    }
+    this.ws.send(data);
   }
 
   /**
@@ -210,6 +306,7 @@ export class WebSocketClient extends EventEmitter {
     this.stopPingInterval();
     this.pingInterval = setInterval(() => {
       this.sendPing();
+      this.fragments.prune();
     }, PROTOCOL.HEARTBEAT_INTERVAL);
   }
 
@@ -256,6 +353,13 @@ export class WebSocketClient extends EventEmitter {
     }
   }
 
+  /**
+   * Bytes queued on the socket but not yet sent, a sign the connection can't keep up
+   */
+  getBufferedAmount(): number {
+    return this.ws?.bufferedAmount ?? 0;
+  }
+
   /**
    * Check if connected
    */
@@ -5,6 +5,7 @@ import {
   initializeApiClient,
   notifyWebDisconnected,
   notifyCliDisconnected,
+  releaseConnection,
 } from '../services/relay.js';
 
 /**
@@ -20,20 +21,36 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
   const endpoint = `https://${domainName}/${stage}`;
   initializeApiClient(endpoint);
 
+  await processDisconnect(connectionId!);
+
+  return {
+    statusCode: 200,
+    body: 'Disconnected',
+  };
+};
+
+/**
+ * Clean up after a closed connection and notify the other side of its session
+ *
+ * Transport-agnostic core of the $disconnect handler, shared by the Lambda
+ * handler and the standalone server. Never throws.
+ */
+export async function processDisconnect(connectionId: string): Promise<void> {
+  releaseConnection(connectionId);
   try {
     // Get the connection info
-    const connection = await findConnection(connectionId!);
+    const connection = await findConnection(connectionId);
     if (!connection) {
       console.log('Connection not found, may not have been associated with a session');
-      return { statusCode: 200, body: 'OK' };
+      return;
     }
 
     // Get the session
     const session = await getSession(connection.sessionId);
     if (!session) {
       console.log('Session not found for connection');
-      await unregisterConnection(connectionId!);
-      return { statusCode: 200, body: 'OK' };
+      await unregisterConnection(connectionId);
+      return;
     }
 
     // Handle based on role
@@ -45,24 +62,19 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     } else {
       // Web client disconnected - notify CLI and remove from session
       console.log(`Web client disconnected from session ${session.sessionId}`);
-      await notifyWebDisconnected(session, connectionId!);
-      await leaveSession(session.sessionId, connectionId!);
+      await notifyWebDisconnected(session, connectionId);
+      await leaveSession(session.sessionId, connectionId);
     }
 
     // Remove the connection record
-    await unregisterConnection(connectionId!);
+    await unregisterConnection(connectionId);
   } catch (error) {
     console.error('Error handling disconnect:', error);
     // Still try to clean up the connection
     try {
-      await unregisterConnection(connectionId!);
+      await unregisterConnection(connectionId);
     } catch {
       // Ignore cleanup errors
     }
   }
-
-  return {
-    statusCode: 200,
-    body: 'Disconnected',
-  };
-};
+}
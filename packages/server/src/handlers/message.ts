@@ -9,19 +9,40 @@ import {
   isSessionInfoRequest,
   isSessionUpdateRequest,
   isSessionDeleteRequest,
+  isSessionInviteRequest,
+  isJoinApprovalRequest,
+  isPushKeyRequest,
+  isPushSubscriptionId,
+  isPushSendRequest,
+  PROTOCOL,
   isEncryptedEnvelope,
+  isBinaryEnvelope,
+  getCapabilities,
+  checkCompatibility,
+  decodeBinaryEnvelope,
   ErrorCodes,
+  type Capabilities,
+  type EncryptedEnvelope,
+  type JoinApprovalRequest,
+  type PushDelivery,
+  type WebConnectionRole,
 } from '@always-coder/shared';
-import { registerConnection, findConnection } from '../services/connection.js';
+import { registerConnection, findConnection, unregisterConnection } from '../services/connection.js';
 import {
   createSession,
   getSession,
   joinSession,
+  leaveSession,
   isSessionActive,
   reconnectSession,
   getUserSessions,
   updateSessionMetadata,
   deleteSession,
+  isValidViewerToken,
+  canJoinSession,
+  isSessionOwner,
+  normalizeInviteEmail,
+  updateInvitedUsers,
 } from '../services/session.js';
 import {
   initializeApiClient,
@@ -30,8 +51,11 @@ import {
   relayToCli,
   notifyWebConnected,
   notifyCliReconnected,
+  negotiateConnectionEnvelope,
+  type WebClientInfo,
 } from '../services/relay.js';
-import { cacheMessage, getRecentMessages } from '../utils/dynamodb.js';
+import { getVapidPublicKey, subscribePush, unsubscribePush, sendPushNotifications } from '../services/push.js';
+import { getStorage } from '../storage/index.js';
 
 /**
  * Authorizer context from Lambda authorizer
@@ -60,9 +84,62 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
   const endpoint = `https://${domainName}/${stage}`;
   initializeApiClient(endpoint);
 
+  return processMessage(connectionId, event.body, {
+    userId,
+    userEmail: authorizer?.email || undefined,
+    userAgent: event.requestContext.identity?.userAgent || undefined,
+    wsEndpoint: endpoint,
+  });
+};
+
+/**
+ * Caller context for a routed message
+ */
+export interface MessageContext {
+  userId: string;
+  /** Shown to the CLI user when a web client asks to join */
+  userEmail?: string;
+  userAgent?: string;
+  /** Endpoint reported back to the CLI in SESSION_CREATED */
+  wsEndpoint: string;
+}
+
+/**
+ * Route a raw WebSocket message body
+ *
+ * Transport-agnostic core of the $default handler, shared by the Lambda
+ * handler and the standalone server. The relay transport must already be
+ * initialized. Binary frames (Uint8Array) can only hold version 2 envelopes.
+ */
+export async function processMessage(
+  connectionId: string,
+  rawBody: string | Uint8Array | null | undefined,
+  context: MessageContext
+): Promise<APIGatewayProxyResult> {
+  const { userId, wsEndpoint: endpoint } = context;
+
+  if (rawBody instanceof Uint8Array) {
+    if (!isBinaryEnvelope(rawBody)) {
+      return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Invalid binary frame');
+    }
+    let envelope: EncryptedEnvelope;
+    try {
+      envelope = decodeBinaryEnvelope(rawBody);
+    } catch (error) {
+      console.error('Invalid binary envelope:', error);
+      return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Invalid binary frame');
+    }
+    try {
+      return await handleEncryptedMessage(connectionId, envelope);
+    } catch (error) {
+      console.error('Error handling message:', error);
+      return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Internal error');
+    }
+  }
+
   let body: unknown;
   try {
-    body = JSON.parse(event.body || '{}');
+    body = JSON.parse(rawBody || '{}');
   } catch {
     console.error('Invalid JSON in message body');
     return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Invalid JSON');
@@ -73,17 +150,28 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
   try {
     // Handle session creation (from CLI)
     if (isSessionCreateRequest(body)) {
-      return await handleSessionCreate(connectionId, body.sessionId, body.publicKey, endpoint, userId);
+      return await handleSessionCreate(connectionId, body, endpoint, userId);
     }
 
     // Handle session reconnect (from CLI)
     if (isSessionReconnectRequest(body)) {
-      return await handleSessionReconnect(connectionId, body.sessionId, body.publicKey, endpoint, userId);
+      return await handleSessionReconnect(connectionId, body, endpoint, userId);
     }
 
     // Handle session join (from Web)
     if (isSessionJoinRequest(body)) {
-      return await handleSessionJoin(connectionId, body.sessionId, body.publicKey, userId);
+      return await handleSessionJoin(connectionId, body, userId, context.userEmail, {
+        userEmail: context.userEmail,
+        userAgent: context.userAgent,
+        compression: body.compression,
+        capabilities: body.capabilities,
+        device: body.device,
+      });
+    }
+
+    // Handle join approval decisions (from CLI)
+    if (isJoinApprovalRequest(body)) {
+      return await handleJoinApproval(connectionId, body);
     }
 
     // Handle encrypted messages (relay without decryption)
@@ -122,26 +210,80 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       return await handleSessionDelete(connectionId, body.sessionId, userId);
     }
 
+    // Handle session invite (owner sharing the session)
+    if (isSessionInviteRequest(body)) {
+      return await handleSessionInvite(connectionId, body, userId);
+    }
+
+    // Handle Web Push setup (from Web)
+    if (isPushKeyRequest(body)) {
+      return await handlePushKeyRequest(connectionId, userId);
+    }
+
+    // Checked by the handler, so a malformed request gets told what is wrong
+    const { type } = body as Record<string, unknown>;
+    if (type === MessageType.PUSH_SUBSCRIBE || type === MessageType.PUSH_UNSUBSCRIBE) {
+      return await handlePushSubscription(connectionId, body as Record<string, unknown>, userId);
+    }
+
+    // Handle notifications to deliver (from CLI)
+    if (isPushSendRequest(body)) {
+      return await handlePushSend(connectionId, body.notifications);
+    }
+
     console.warn('Unknown message type:', (body as Record<string, unknown>).type);
     return { statusCode: 200, body: 'OK' };
   } catch (error) {
     console.error('Error handling message:', error);
     return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Internal error');
   }
-};
+}
+
+/**
+ * SESSION_CREATE, SESSION_RECONNECT or SESSION_JOIN fields the handlers use
+ */
+interface SessionHandshake {
+  sessionId: string;
+  publicKey: string;
+  viewerToken?: string;
+  envelopeVersions?: number[];
+  capabilities?: Capabilities;
+}
+
+/**
+ * Refuse a client older than the relay supports
+ * Newer clients are let through: the relay only routes their envelopes.
+ * @returns the error response, or null when the client may go on
+ */
+async function checkClientVersion(
+  connectionId: string,
+  capabilities: Capabilities | undefined
+): Promise<APIGatewayProxyResult | null> {
+  const problem = checkCompatibility(capabilities, getCapabilities());
+  if (problem?.upgrade !== 'remote') return null;
+
+  return sendError(
+    connectionId,
+    ErrorCodes.UPGRADE_REQUIRED,
+    `This client speaks protocol version ${problem.remoteVersion}, which the relay no longer supports. Please upgrade it.`
+  );
+}
 
 /**
  * Handle SESSION_CREATE from CLI
  */
 async function handleSessionCreate(
   connectionId: string,
-  sessionId: string,
-  publicKey: string,
+  request: SessionHandshake,
   wsEndpoint: string,
   userId: string
 ): Promise<APIGatewayProxyResult> {
+  const { sessionId, publicKey, viewerToken, capabilities } = request;
   console.log('Creating session:', { sessionId, connectionId, userId });
 
+  const refused = await checkClientVersion(connectionId, capabilities);
+  if (refused) return refused;
+
   // Check if session already exists
   const existing = await getSession(sessionId);
   if (existing) {
@@ -149,16 +291,17 @@ async function handleSessionCreate(
   }
 
   // Create the session with userId
-  await createSession(sessionId, connectionId, publicKey, userId);
+  await createSession(sessionId, connectionId, publicKey, userId, viewerToken, capabilities);
 
   // Register the CLI connection with userId
-  await registerConnection(connectionId, sessionId, 'cli', publicKey, userId);
+  await registerConnection(connectionId, sessionId, 'cli', publicKey, userId, capabilities);
 
   // Send confirmation to CLI
   await sendToConnection(connectionId, {
     type: MessageType.SESSION_CREATED,
     sessionId,
     wsEndpoint,
+    envelopeVersion: negotiateConnectionEnvelope(connectionId, request.envelopeVersions),
   });
 
   return { statusCode: 200, body: 'Session created' };
@@ -169,30 +312,40 @@ async function handleSessionCreate(
  */
 async function handleSessionReconnect(
   connectionId: string,
-  sessionId: string,
-  publicKey: string,
+  request: SessionHandshake,
   wsEndpoint: string,
   userId: string
 ): Promise<APIGatewayProxyResult> {
+  const { sessionId, publicKey, viewerToken, capabilities } = request;
   console.log('Reconnecting to session:', { sessionId, connectionId, userId });
 
+  const refused = await checkClientVersion(connectionId, capabilities);
+  if (refused) return refused;
+
   // Check if session exists
   const existing = await getSession(sessionId);
   if (!existing) {
     return sendError(connectionId, ErrorCodes.SESSION_NOT_FOUND, 'Session not found');
   }
 
+  // Only the user who created the session may take over its CLI side
+  if (!isSessionOwner(existing, userId)) {
+    console.log('Reconnect refused, not owner:', { sessionId, connectionId, userId });
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Not authorized to reconnect to this session');
+  }
+
   // Update the session with new CLI connectionId
-  const updatedSession = await reconnectSession(sessionId, connectionId);
+  const updatedSession = await reconnectSession(sessionId, connectionId, viewerToken, capabilities);
 
   // Register the CLI connection with userId
-  await registerConnection(connectionId, sessionId, 'cli', publicKey, userId);
+  await registerConnection(connectionId, sessionId, 'cli', publicKey, userId, capabilities);
 
   // Send confirmation to CLI
   await sendToConnection(connectionId, {
     type: MessageType.SESSION_RECONNECTED,
     sessionId,
     wsEndpoint,
+    envelopeVersion: negotiateConnectionEnvelope(connectionId, request.envelopeVersions),
   });
 
   // Notify any waiting web clients that CLI has reconnected
@@ -212,14 +365,23 @@ async function handleSessionReconnect(
 
 /**
  * Handle SESSION_JOIN from Web
+ * Only the session owner and invited users may join, unless the session was
+ * created without logging in. Joining with a viewer token registers a
+ * read-only viewer connection; the share link is the viewer's authorization.
  */
 async function handleSessionJoin(
   connectionId: string,
-  sessionId: string,
-  publicKey: string,
-  userId: string
+  request: SessionHandshake,
+  userId: string,
+  userEmail: string | undefined,
+  client: WebClientInfo = {}
 ): Promise<APIGatewayProxyResult> {
-  console.log('Joining session:', { sessionId, connectionId, userId });
+  const { sessionId, publicKey, viewerToken, capabilities } = request;
+  const role: WebConnectionRole = viewerToken !== undefined ? 'viewer' : 'web';
+  console.log('Joining session:', { sessionId, connectionId, userId, role });
+
+  const refused = await checkClientVersion(connectionId, capabilities);
+  if (refused) return refused;
 
   // Get the session first
   const session = await getSession(sessionId);
@@ -227,6 +389,31 @@ async function handleSessionJoin(
     return sendError(connectionId, ErrorCodes.SESSION_NOT_FOUND, 'Session not found or expired');
   }
 
+  if (viewerToken !== undefined && !isValidViewerToken(session, viewerToken)) {
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Invalid share link');
+  }
+
+  if (viewerToken === undefined && !canJoinSession(session, userId, userEmail)) {
+    console.log('Join refused, not owner or invited:', { sessionId, connectionId, userId });
+    return sendError(
+      connectionId,
+      ErrorCodes.UNAUTHORIZED,
+      userId === 'anonymous'
+        ? 'Log in to join this session.'
+        : 'You are not allowed to join this session. Ask its owner to invite you.'
+    );
+  }
+
+  // Browser and CLI talk end to end, so each has to accept the other's version
+  const problem = checkCompatibility(session.cliCapabilities, capabilities);
+  if (problem) {
+    const message =
+      problem.upgrade === 'remote'
+        ? `The CLI running this session is too old for this web app (protocol ${problem.remoteVersion}). Upgrade always-coder on that machine and start the session again.`
+        : `This web app is too old for the CLI running this session (protocol ${problem.remoteVersion}). Reload the page to update it.`;
+    return sendError(connectionId, ErrorCodes.UPGRADE_REQUIRED, message);
+  }
+
   // Check if session is active (PENDING, ACTIVE, or PAUSED)
   const isActive = await isSessionActive(sessionId);
 
@@ -236,7 +423,8 @@ async function handleSessionJoin(
   const isCliTemporarilyDisconnected = !isActive && session.status === SessionStatus.CLOSED;
 
   // Register the web connection with userId
-  await registerConnection(connectionId, sessionId, 'web', publicKey, userId);
+  await registerConnection(connectionId, sessionId, role, publicKey, userId, capabilities);
+  const envelopeVersion = negotiateConnectionEnvelope(connectionId, request.envelopeVersions);
 
   // Add web connection to session
   await joinSession(sessionId, connectionId);
@@ -253,6 +441,9 @@ async function handleSessionJoin(
       sessionId,
       cliPublicKey: session.cliPublicKey,
       cliDisconnected: true, // Signal that CLI is currently disconnected
+      role,
+      envelopeVersion,
+      cliCapabilities: session.cliCapabilities,
     });
 
     // Also send a cli:disconnected notification so web shows waiting state
@@ -262,7 +453,11 @@ async function handleSessionJoin(
   }
 
   // Notify CLI about new web connection (with web's public key)
-  const cliNotified = await notifyWebConnected(session, publicKey, connectionId);
+  // The CLI applies its input policy's guest rules to anyone but the owner
+  const cliNotified = await notifyWebConnected(session, publicKey, connectionId, role, {
+    ...client,
+    owner: isSessionOwner(session, userId),
+  });
 
   if (!cliNotified) {
     // CLI connection is stale - treat like temporarily disconnected
@@ -275,6 +470,9 @@ async function handleSessionJoin(
       sessionId,
       cliPublicKey: session.cliPublicKey,
       cliDisconnected: true, // Signal that CLI is currently disconnected
+      role,
+      envelopeVersion,
+      cliCapabilities: session.cliCapabilities,
     });
 
     // Also send a cli:disconnected notification so web shows waiting state
@@ -288,17 +486,50 @@ async function handleSessionJoin(
     type: MessageType.SESSION_JOINED,
     sessionId,
     cliPublicKey: session.cliPublicKey,
+    role,
+    envelopeVersion,
+    cliCapabilities: session.cliCapabilities,
   });
 
   return { statusCode: 200, body: 'Session joined' };
 }
 
+/**
+ * Handle JOIN_APPROVAL from CLI (require-approval mode)
+ * Forwards the decision to the web client; a rejected client is dropped from
+ * the session so nothing more is relayed to or from it.
+ */
+async function handleJoinApproval(
+  connectionId: string,
+  request: JoinApprovalRequest
+): Promise<APIGatewayProxyResult> {
+  const connection = await findConnection(connectionId);
+  if (!connection || connection.role !== 'cli') {
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Only the CLI can approve joins');
+  }
+
+  const target = await findConnection(request.connectionId);
+  if (!target || target.sessionId !== connection.sessionId || target.role === 'cli') {
+    return sendError(connectionId, ErrorCodes.CONNECTION_FAILED, 'Web connection not found');
+  }
+
+  await sendToConnection(target.connectionId, { type: MessageType.JOIN_APPROVAL, status: request.status });
+
+  if (request.status === 'rejected') {
+    console.log('Join rejected by CLI:', { sessionId: target.sessionId, connectionId: target.connectionId });
+    await leaveSession(target.sessionId, target.connectionId);
+    await unregisterConnection(target.connectionId);
+  }
+
+  return { statusCode: 200, body: 'OK' };
+}
+
 /**
  * Handle encrypted messages (relay without decryption)
  */
 async function handleEncryptedMessage(
   connectionId: string,
-  envelope: { version: 1; sessionId: string; nonce: string; ciphertext: string; timestamp: number }
+  envelope: EncryptedEnvelope
 ): Promise<APIGatewayProxyResult> {
   // Get connection info
   const connection = await findConnection(connectionId);
@@ -323,13 +554,23 @@ async function handleEncryptedMessage(
 
   // Relay message based on sender's role
   if (connection.role === 'cli') {
+    if (envelope.recipientId) {
+      // CLI -> one Web client: encrypted with that client's key, useless to anyone else
+      if (session.webConnectionIds.includes(envelope.recipientId)) {
+        await sendToConnection(envelope.recipientId, envelope);
+      }
+      // Not cached either: a late joiner gets its own copy of the history from the CLI
+      return { statusCode: 200, body: 'OK' };
+    }
+
     // CLI -> Web: relay to all web connections
+    // Only CLIs from before per-client keys send these; current ones address every envelope
     await relayToWeb(session, envelope);
 
-    // Cache the message for late-joining web clients (only terminal output)
-    // We can't inspect the content, so we cache all CLI->Web messages
+    // Cache the message for late-joining web clients of such a CLI, which ask with STATE_REQUEST
+    // We can't inspect the content, so we cache all unaddressed CLI->Web messages
     try {
-      await cacheMessage({
+      await getStorage().messages.append({
         sessionId: session.sessionId,
         seq: envelope.timestamp, // Use timestamp as sequence for simplicity
         encryptedData: JSON.stringify(envelope),
@@ -339,9 +580,12 @@ async function handleEncryptedMessage(
       console.warn('Failed to cache message:', error);
       // Don't fail the relay if caching fails
     }
+  } else if (connection.role === 'viewer') {
+    // Viewers only receive output; input, resize and window control are not theirs to send
+    return sendError(connectionId, ErrorCodes.READ_ONLY, 'Read-only viewers cannot send to the terminal');
   } else {
-    // Web -> CLI: relay to CLI connection
-    const sent = await relayToCli(session, envelope);
+    // Web -> CLI: relay to CLI connection, tagged with the sender so the CLI can check its role
+    const sent = await relayToCli(session, { ...envelope, connectionId });
     if (!sent) {
       return sendError(connectionId, ErrorCodes.CONNECTION_FAILED, 'CLI not connected');
     }
@@ -352,6 +596,8 @@ async function handleEncryptedMessage(
 
 /**
  * Handle STATE_REQUEST from new web connections
+ * Replays the cache of unaddressed envelopes, which only legacy CLIs without
+ * per-client keys send. Current web clients ask the CLI itself, encrypted.
  */
 async function handleStateRequest(
   connectionId: string,
@@ -363,7 +609,7 @@ async function handleStateRequest(
   }
 
   // Get cached messages
-  const messages = await getRecentMessages(connection.sessionId);
+  const messages = await getStorage().messages.getRecent(connection.sessionId);
 
   // Send cached messages to the requesting connection
   for (const msg of messages) {
@@ -464,7 +710,6 @@ async function handleSessionInfoRequest(
 async function handleSessionUpdate(
   connectionId: string,
   update: {
-    type?: string; // Excluded from update
     instanceId?: string;
     instanceLabel?: string;
     hostname?: string;
@@ -487,8 +732,9 @@ async function handleSessionUpdate(
     return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Only CLI can update session');
   }
 
-  // Extract only the metadata fields (exclude message type)
-  const { type: _, ...metadata } = update;
+  // Extract only the metadata fields; ownership and invites can't be changed here
+  const { instanceId, instanceLabel, hostname, command, commandArgs, webUrl } = update;
+  const metadata = { instanceId, instanceLabel, hostname, command, commandArgs, webUrl };
 
   try {
     await updateSessionMetadata(connection.sessionId, metadata);
@@ -560,6 +806,155 @@ async function handleSessionDelete(
   }
 }
 
+/**
+ * Handle SESSION_INVITE - add or remove users who may join a session
+ * Sent by the session's CLI or by its owner from another connection.
+ */
+async function handleSessionInvite(
+  connectionId: string,
+  request: { sessionId: string; add?: string[]; remove?: string[] },
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  const { sessionId } = request;
+  console.log('Session invite:', { connectionId, sessionId, userId });
+
+  const respond = async (
+    result: { success: true; invitedUsers: string[] } | { success: false; message: string }
+  ): Promise<APIGatewayProxyResult> => {
+    await sendToConnection(connectionId, { type: MessageType.SESSION_INVITE_RESPONSE, sessionId, ...result });
+    return { statusCode: 200, body: 'OK' };
+  };
+
+  try {
+    const session = await getSession(sessionId);
+    if (!session) {
+      return await respond({ success: false, message: 'Session not found' });
+    }
+
+    const connection = await findConnection(connectionId);
+    const isSessionCli = connection?.role === 'cli' && connection.sessionId === sessionId;
+    const isOwner = userId !== 'anonymous' && session.userId === userId;
+    if (!isSessionCli && !isOwner) {
+      return await respond({ success: false, message: 'Unauthorized' });
+    }
+
+    // Without an owner there is nothing to enforce: anyone with the ID can join
+    if (!session.userId || session.userId === 'anonymous') {
+      return await respond({
+        success: false,
+        message: 'This session was started without logging in, so anyone with its ID can join. Log in and start a new session to invite users.',
+      });
+    }
+
+    const invalid = [...(request.add ?? []), ...(request.remove ?? [])].find(
+      (email) => normalizeInviteEmail(email) === null
+    );
+    if (invalid !== undefined) {
+      return await respond({ success: false, message: `Invalid email: ${invalid}` });
+    }
+
+    // Every email is valid past this point
+    const add = (request.add ?? []).map(normalizeInviteEmail) as string[];
+    const remove = new Set((request.remove ?? []).map(normalizeInviteEmail));
+    const invitedUsers = [...new Set([...(session.invitedUsers ?? []), ...add])].filter(
+      (email) => !remove.has(email)
+    );
+    if (invitedUsers.length > PROTOCOL.MAX_INVITED_USERS) {
+      return await respond({
+        success: false,
+        message: `A session can have at most ${PROTOCOL.MAX_INVITED_USERS} invited users`,
+      });
+    }
+
+    await updateInvitedUsers(sessionId, invitedUsers);
+    return await respond({ success: true, invitedUsers });
+  } catch (error) {
+    console.error('Failed to update invites:', error);
+    return sendError(connectionId, ErrorCodes.INVALID_MESSAGE, 'Failed to update invites');
+  }
+}
+
+/**
+ * Handle PUSH_KEY_REQUEST - the VAPID public key browsers subscribe with
+ * Keys are per user, so notifications go to logged-in users only.
+ */
+async function handlePushKeyRequest(connectionId: string, userId: string): Promise<APIGatewayProxyResult> {
+  if (userId === 'anonymous') {
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Log in to get notifications.');
+  }
+
+  const publicKey = await getVapidPublicKey(userId);
+  await sendToConnection(connectionId, { type: MessageType.PUSH_KEY_RESPONSE, publicKey });
+  return { statusCode: 200, body: 'OK' };
+}
+
+/**
+ * Handle PUSH_SUBSCRIBE and PUSH_UNSUBSCRIBE - where to deliver a user's notifications
+ */
+async function handlePushSubscription(
+  connectionId: string,
+  request: Record<string, unknown>,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  const { subscriptionId, endpoint } = request;
+  if (!isPushSubscriptionId(subscriptionId)) {
+    return sendError(
+      connectionId,
+      ErrorCodes.INVALID_MESSAGE,
+      `Push subscription id must be a string of 1 to ${PROTOCOL.MAX_PUSH_SUBSCRIPTION_ID} characters`
+    );
+  }
+
+  const respond = async (message?: string): Promise<APIGatewayProxyResult> => {
+    await sendToConnection(connectionId, {
+      type: MessageType.PUSH_SUBSCRIBE_RESPONSE,
+      subscriptionId,
+      success: message === undefined,
+      message,
+    });
+    return { statusCode: 200, body: 'OK' };
+  };
+
+  if (userId === 'anonymous') {
+    return respond('Log in to get notifications.');
+  }
+
+  if (request.type === MessageType.PUSH_UNSUBSCRIBE) {
+    await unsubscribePush(userId, subscriptionId);
+    return respond();
+  }
+
+  if (typeof endpoint !== 'string') {
+    return respond('Push subscription has no endpoint');
+  }
+
+  const refused = await subscribePush(userId, subscriptionId, endpoint);
+  return respond(refused ?? undefined);
+}
+
+/**
+ * Handle PUSH_SEND from CLI
+ * Notifications go to the session owner's browsers; the relay can't read them.
+ */
+async function handlePushSend(connectionId: string, notifications: PushDelivery[]): Promise<APIGatewayProxyResult> {
+  const connection = await findConnection(connectionId);
+  if (!connection || connection.role !== 'cli') {
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Only the CLI can send notifications');
+  }
+
+  const session = await getSession(connection.sessionId);
+  if (!session?.userId || session.userId === 'anonymous') {
+    return sendError(connectionId, ErrorCodes.UNAUTHORIZED, 'Notifications need a session started while logged in');
+  }
+
+  const expired = await sendPushNotifications(
+    session.userId,
+    notifications.slice(0, PROTOCOL.MAX_PUSH_NOTIFICATIONS)
+  );
+  await sendToConnection(connectionId, { type: MessageType.PUSH_SEND_RESPONSE, expired });
+  return { statusCode: 200, body: 'OK' };
+}
+
 /**
  * Send an error response to a connection
  */
@@ -1,20 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { Connection } from '@always-coder/shared';
-
-// Mock the DynamoDB utilities
-vi.mock('../utils/dynamodb.js', () => ({
-  createConnection: vi.fn(),
-  getConnection: vi.fn(),
-  deleteConnection: vi.fn(),
-  getConnectionsBySession: vi.fn(),
-}));
-
-import {
-  createConnection,
-  getConnection,
-  deleteConnection,
-  getConnectionsBySession,
-} from '../utils/dynamodb.js';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ConnectionRole } from '@always-coder/shared';
 import {
   registerConnection,
   findConnection,
@@ -23,19 +8,29 @@ import {
   findCliConnection,
   findWebConnections,
 } from './connection.js';
+import { initializeStorage, createMemoryStorage, type StorageBackend } from '../storage/index.js';
 
 describe('Connection Service', () => {
+  let storage: StorageBackend;
+
   beforeEach(() => {
-    vi.clearAllMocks();
+    storage = createMemoryStorage();
+    initializeStorage(storage);
   });
 
+  async function seedConnection(
+    connectionId: string,
+    role: ConnectionRole,
+    sessionId = 'session-abc'
+  ): Promise<void> {
+    await storage.connections.create({ connectionId, sessionId, role, connectedAt: Date.now() });
+  }
+
   describe('registerConnection', () => {
     it('should create a new CLI connection', async () => {
-      vi.mocked(createConnection).mockResolvedValue(undefined);
-
       const result = await registerConnection('conn-123', 'session-abc', 'cli', 'pubkey123', 'user-1');
 
-      expect(createConnection).toHaveBeenCalledWith(
+      expect(await storage.connections.get('conn-123')).toEqual(
         expect.objectContaining({
           connectionId: 'conn-123',
           sessionId: 'session-abc',
@@ -50,24 +45,22 @@ describe('Connection Service', () => {
     });
 
     it('should create a web connection without userId', async () => {
-      vi.mocked(createConnection).mockResolvedValue(undefined);
-
       const result = await registerConnection('conn-456', 'session-abc', 'web', 'pubkey456');
 
-      expect(createConnection).toHaveBeenCalledWith(
+      const stored = await storage.connections.get('conn-456');
+      expect(stored).toEqual(
         expect.objectContaining({
           connectionId: 'conn-456',
           sessionId: 'session-abc',
           role: 'web',
           publicKey: 'pubkey456',
-          userId: undefined,
         })
       );
+      expect(stored?.userId).toBeUndefined();
       expect(result.role).toBe('web');
     });
 
     it('should include connectedAt timestamp', async () => {
-      vi.mocked(createConnection).mockResolvedValue(undefined);
       const before = Date.now();
 
       const result = await registerConnection('conn-789', 'session-xyz', 'cli');
@@ -79,24 +72,16 @@ describe('Connection Service', () => {
 
   describe('findConnection', () => {
     it('should return connection when found', async () => {
-      const mockConnection: Connection = {
-        connectionId: 'conn-123',
-        sessionId: 'session-abc',
-        role: 'cli',
-        connectedAt: Date.now(),
-        ttl: 12345,
-      };
-      vi.mocked(getConnection).mockResolvedValue(mockConnection);
+      await seedConnection('conn-123', 'cli');
 
       const result = await findConnection('conn-123');
 
-      expect(getConnection).toHaveBeenCalledWith('conn-123');
-      expect(result).toEqual(mockConnection);
+      expect(result?.connectionId).toBe('conn-123');
+      expect(result?.sessionId).toBe('session-abc');
+      expect(result?.role).toBe('cli');
     });
 
     it('should return null when connection not found', async () => {
-      vi.mocked(getConnection).mockResolvedValue(null);
-
       const result = await findConnection('nonexistent');
 
       expect(result).toBeNull();
@@ -105,31 +90,26 @@ describe('Connection Service', () => {
 
   describe('unregisterConnection', () => {
     it('should delete the connection', async () => {
-      vi.mocked(deleteConnection).mockResolvedValue(undefined);
+      await seedConnection('conn-123', 'cli');
 
       await unregisterConnection('conn-123');
 
-      expect(deleteConnection).toHaveBeenCalledWith('conn-123');
+      expect(await storage.connections.get('conn-123')).toBeNull();
     });
   });
 
   describe('findConnectionsForSession', () => {
     it('should return all connections for a session', async () => {
-      const mockConnections: Connection[] = [
-        { connectionId: 'conn-1', sessionId: 'session-abc', role: 'cli', connectedAt: Date.now(), ttl: 0 },
-        { connectionId: 'conn-2', sessionId: 'session-abc', role: 'web', connectedAt: Date.now(), ttl: 0 },
-      ];
-      vi.mocked(getConnectionsBySession).mockResolvedValue(mockConnections);
+      await seedConnection('conn-1', 'cli');
+      await seedConnection('conn-2', 'web');
+      await seedConnection('conn-3', 'web', 'session-other');
 
       const result = await findConnectionsForSession('session-abc');
 
-      expect(getConnectionsBySession).toHaveBeenCalledWith('session-abc');
-      expect(result).toHaveLength(2);
+      expect(result.map((c) => c.connectionId).sort()).toEqual(['conn-1', 'conn-2']);
     });
 
     it('should return empty array when no connections found', async () => {
-      vi.mocked(getConnectionsBySession).mockResolvedValue([]);
-
       const result = await findConnectionsForSession('no-connections');
 
       expect(result).toEqual([]);
@@ -138,36 +118,16 @@ describe('Connection Service', () => {
 
   describe('findCliConnection', () => {
     it('should return CLI connection when present', async () => {
-      const cliConnection: Connection = {
-        connectionId: 'conn-cli',
-        sessionId: 'session-abc',
-        role: 'cli',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      const webConnection: Connection = {
-        connectionId: 'conn-web',
-        sessionId: 'session-abc',
-        role: 'web',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      vi.mocked(getConnectionsBySession).mockResolvedValue([cliConnection, webConnection]);
+      await seedConnection('conn-cli', 'cli');
+      await seedConnection('conn-web', 'web');
 
       const result = await findCliConnection('session-abc');
 
-      expect(result).toEqual(cliConnection);
+      expect(result?.connectionId).toBe('conn-cli');
     });
 
     it('should return null when no CLI connection', async () => {
-      const webConnection: Connection = {
-        connectionId: 'conn-web',
-        sessionId: 'session-abc',
-        role: 'web',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      vi.mocked(getConnectionsBySession).mockResolvedValue([webConnection]);
+      await seedConnection('conn-web', 'web');
 
       const result = await findCliConnection('session-abc');
 
@@ -177,28 +137,9 @@ describe('Connection Service', () => {
 
   describe('findWebConnections', () => {
     it('should return only web connections', async () => {
-      const cliConnection: Connection = {
-        connectionId: 'conn-cli',
-        sessionId: 'session-abc',
-        role: 'cli',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      const webConnection1: Connection = {
-        connectionId: 'conn-web-1',
-        sessionId: 'session-abc',
-        role: 'web',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      const webConnection2: Connection = {
-        connectionId: 'conn-web-2',
-        sessionId: 'session-abc',
-        role: 'web',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      vi.mocked(getConnectionsBySession).mockResolvedValue([cliConnection, webConnection1, webConnection2]);
+      await seedConnection('conn-cli', 'cli');
+      await seedConnection('conn-web-1', 'web');
+      await seedConnection('conn-web-2', 'web');
 
       const result = await findWebConnections('session-abc');
 
@@ -207,14 +148,7 @@ describe('Connection Service', () => {
     });
 
     it('should return empty array when no web connections', async () => {
-      const cliConnection: Connection = {
-        connectionId: 'conn-cli',
-        sessionId: 'session-abc',
-        role: 'cli',
-        connectedAt: Date.now(),
-        ttl: 0,
-      };
-      vi.mocked(getConnectionsBySession).mockResolvedValue([cliConnection]);
+      await seedConnection('conn-cli', 'cli');
 
       const result = await findWebConnections('session-abc');
 
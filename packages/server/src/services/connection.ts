@@ -1,10 +1,5 @@
-import type { Connection, ConnectionRole } from '@always-coder/shared';
-import {
-  createConnection,
-  getConnection,
-  deleteConnection,
-  getConnectionsBySession,
-} from '../utils/dynamodb.js';
+import type { Capabilities, Connection, ConnectionRole } from '@always-coder/shared';
+import { getStorage } from '../storage/index.js';
 
 /**
  * Register a new WebSocket connection
@@ -14,7 +9,8 @@ export async function registerConnection(
   sessionId: string,
   role: ConnectionRole,
   publicKey?: string,
-  userId?: string
+  userId?: string,
+  capabilities?: Capabilities
 ): Promise<Connection> {
   const connection: Omit<Connection, 'ttl'> = {
     connectionId,
@@ -23,38 +19,39 @@ export async function registerConnection(
     publicKey,
     connectedAt: Date.now(),
     userId,
+    capabilities,
   };
 
-  await createConnection(connection);
-  return { ...connection, ttl: 0 }; // ttl is set by dynamodb
+  await getStorage().connections.create(connection);
+  return { ...connection, ttl: 0 }; // ttl is set by the store
 }
 
 /**
  * Get a connection by ID
  */
 export async function findConnection(connectionId: string): Promise<Connection | null> {
-  return getConnection(connectionId);
+  return getStorage().connections.get(connectionId);
 }
 
 /**
  * Remove a connection
  */
 export async function unregisterConnection(connectionId: string): Promise<void> {
-  await deleteConnection(connectionId);
+  await getStorage().connections.delete(connectionId);
 }
 
 /**
  * Find all connections for a session
  */
 export async function findConnectionsForSession(sessionId: string): Promise<Connection[]> {
-  return getConnectionsBySession(sessionId);
+  return getStorage().connections.listBySession(sessionId);
 }
 
 /**
  * Find CLI connection for a session
  */
 export async function findCliConnection(sessionId: string): Promise<Connection | null> {
-  const connections = await getConnectionsBySession(sessionId);
+  const connections = await getStorage().connections.listBySession(sessionId);
   return connections.find((c) => c.role === 'cli') || null;
 }
 
@@ -62,6 +59,6 @@ export async function findCliConnection(sessionId: string): Promise<Connection |
  * Find all Web connections for a session
  */
 export async function findWebConnections(sessionId: string): Promise<Connection[]> {
-  const connections = await getConnectionsBySession(sessionId);
+  const connections = await getStorage().connections.listBySession(sessionId);
   return connections.filter((c) => c.role === 'web');
 }
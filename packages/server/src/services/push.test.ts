@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPublicKey, verify } from 'crypto';
+import {
+  createVapidAuthorization,
+  generateVapidKeys,
+  getVapidPublicKey,
+  isAllowedPushEndpoint,
+  sendPushNotifications,
+  subscribePush,
+  unsubscribePush,
+} from './push.js';
+import { initializeStorage, createMemoryStorage, type StorageBackend } from '../storage/index.js';
+
+const ENDPOINT = 'https://fcm.googleapis.com/fcm/send/abc';
+
+describe('Push Service', () => {
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    initializeStorage(storage);
+  });
+
+  describe('getVapidPublicKey', () => {
+    it('should create a key pair once per user', async () => {
+      const key = await getVapidPublicKey('user-1');
+
+      expect(Buffer.from(key, 'base64url')).toHaveLength(65);
+      expect(await getVapidPublicKey('user-1')).toBe(key);
+      expect(await getVapidPublicKey('user-2')).not.toBe(key);
+    });
+  });
+
+  describe('createVapidAuthorization', () => {
+    it('should sign a token for the endpoint origin with the user key', () => {
+      const keys = generateVapidKeys('user-1');
+      const header = createVapidAuthorization(ENDPOINT, keys, 'mailto:ops@example.com', 1_000_000);
+
+      const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+), k=([\w-]+)$/.exec(header);
+      expect(match).not.toBeNull();
+      const [, encodedHeader, encodedClaims, signature, publicKey] = match!;
+      expect(publicKey).toBe(keys.publicKey);
+      expect(JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())).toEqual({
+        aud: 'https://fcm.googleapis.com',
+        exp: 1_000_000 + 12 * 60 * 60,
+        sub: 'mailto:ops@example.com',
+      });
+
+      const point = Buffer.from(publicKey, 'base64url');
+      const key = createPublicKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: point.subarray(1, 33).toString('base64url'),
+          y: point.subarray(33).toString('base64url'),
+        },
+        format: 'jwk',
+      });
+      expect(
+        verify('sha256', Buffer.from(`${encodedHeader}.${encodedClaims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+      ).toBe(true);
+    });
+  });
+
+  describe('isAllowedPushEndpoint', () => {
+    it('should only allow https endpoints of known push services', () => {
+      expect(isAllowedPushEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true);
+      expect(isAllowedPushEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+      expect(isAllowedPushEndpoint('https://wns2-par02p.notify.windows.com/w/?token=abc')).toBe(true);
+      expect(isAllowedPushEndpoint('https://web.push.apple.com/abc')).toBe(true);
+      expect(isAllowedPushEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://fcm.googleapis.com:8443/fcm/send/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://user@fcm.googleapis.com/fcm/send/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://push.example.com/send/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://fcm.googleapis.com.example.com/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://evilpush.services.mozilla.com/abc')).toBe(false);
+      expect(isAllowedPushEndpoint('https://169.254.169.254/latest')).toBe(false);
+      expect(isAllowedPushEndpoint('https://[::1]/push')).toBe(false);
+      expect(isAllowedPushEndpoint('https://localhost/push')).toBe(false);
+      expect(isAllowedPushEndpoint('https://intranet/push')).toBe(false);
+      expect(isAllowedPushEndpoint('not a url')).toBe(false);
+    });
+  });
+
+  describe('subscribePush', () => {
+    it('should store allowed endpoints per user', async () => {
+      expect(await subscribePush('user-1', 'sub-1', ENDPOINT)).toBeNull();
+      expect(await storage.push.getSubscription('user-1', 'sub-1')).toMatchObject({ endpoint: ENDPOINT });
+
+      await unsubscribePush('user-1', 'sub-1');
+      expect(await storage.push.getSubscription('user-1', 'sub-1')).toBeNull();
+    });
+
+    it('should refuse other endpoints', async () => {
+      expect(await subscribePush('user-1', 'sub-1', 'http://10.0.0.1/')).toMatch(/https/);
+      expect(await storage.push.getSubscription('user-1', 'sub-1')).toBeNull();
+    });
+  });
+
+  describe('sendPushNotifications', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(async () => {
+      vi.stubGlobal('fetch', fetchMock);
+      fetchMock.mockReset();
+      await getVapidPublicKey('user-1');
+      await subscribePush('user-1', 'sub-1', ENDPOINT);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should post the encrypted payload as it is', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+      const payload = Buffer.from('ciphertext').toString('base64url');
+
+      expect(await sendPushNotifications('user-1', [{ subscriptionId: 'sub-1', payload }])).toEqual([]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(ENDPOINT);
+      expect(init.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', TTL: '86400' });
+      expect(init.headers.Authorization).toMatch(/^vapid t=/);
+      expect(Buffer.from(init.body).toString()).toBe('ciphertext');
+    });
+
+    it('should report and forget subscriptions the push service says are gone', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 410 }));
+      const payload = Buffer.from('ciphertext').toString('base64url');
+
+      const expired = await sendPushNotifications('user-1', [
+        { subscriptionId: 'sub-1', payload },
+        { subscriptionId: 'unknown', payload },
+      ]);
+
+      expect(expired.sort()).toEqual(['sub-1', 'unknown']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(await storage.push.getSubscription('user-1', 'sub-1')).toBeNull();
+    });
+
+    it('should not send to other users subscriptions', async () => {
+      const payload = Buffer.from('ciphertext').toString('base64url');
+
+      expect(await sendPushNotifications('user-2', [{ subscriptionId: 'sub-1', payload }])).toEqual(['sub-1']);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should skip payloads push services would refuse', async () => {
+      const payload = Buffer.alloc(5000).toString('base64url');
+
+      expect(await sendPushNotifications('user-1', [{ subscriptionId: 'sub-1', payload }])).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when a delivery fails', async () => {
+      fetchMock.mockRejectedValue(new Error('network down'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const payload = Buffer.from('ciphertext').toString('base64url');
+
+      expect(await sendPushNotifications('user-1', [{ subscriptionId: 'sub-1', payload }])).toEqual([]);
+      expect(await storage.push.getSubscription('user-1', 'sub-1')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { createPrivateKey, generateKeyPairSync, sign } from 'crypto';
+import { PROTOCOL, type PushDelivery } from '@always-coder/shared';
+import { getStorage } from '../storage/index.js';
+import type { VapidKeys } from '../storage/index.js';
+
+// How long a push service keeps trying to deliver (seconds)
+const PUSH_TTL = 24 * 60 * 60;
+// VAPID tokens are good for at most 24 hours; 12 leaves room for clock skew
+const VAPID_TOKEN_LIFETIME = 12 * 60 * 60;
+// Contact for push services, the `sub` claim of the VAPID token
+const DEFAULT_VAPID_SUBJECT = 'https://github.com/tyyzqmf/always-coder';
+
+// Push services browsers subscribe with: Chrome/Edge (FCM), Firefox, Windows and Safari
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'web.push.apple.com'];
+const PUSH_SERVICE_DOMAINS = ['.push.services.mozilla.com', '.notify.windows.com'];
+
+/**
+ * Generate a VAPID key pair for a user
+ */
+export function generateVapidKeys(userId: string): VapidKeys {
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const point = Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(jwk.x!, 'base64url'),
+    Buffer.from(jwk.y!, 'base64url'),
+  ]);
+
+  return {
+    userId,
+    publicKey: point.toString('base64url'),
+    privateKey: jwk.d!,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Get a user's VAPID public key, creating their key pair on first use
+ */
+export async function getVapidPublicKey(userId: string): Promise<string> {
+  const store = getStorage().push;
+  const keys = (await store.getVapidKeys(userId)) ?? (await store.createVapidKeys(generateVapidKeys(userId)));
+  return keys.publicKey;
+}
+
+/**
+ * Authorization header value for a push request (RFC 8292)
+ * @param now - Seconds since epoch
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  subject: string = process.env.VAPID_SUBJECT || DEFAULT_VAPID_SUBJECT,
+  now: number = Math.floor(Date.now() / 1000)
+): string {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(
+    JSON.stringify({ aud: new URL(endpoint).origin, exp: now + VAPID_TOKEN_LIFETIME, sub: subject })
+  ).toString('base64url');
+
+  const point = Buffer.from(keys.publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${header}.${claims}.${signature.toString('base64url')}, k=${keys.publicKey}`;
+}
+
+/**
+ * Whether the relay may send requests to a subscription endpoint
+ * Only the known push services are allowed; any other host could point the
+ * relay at its own network.
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  const { hostname } = url;
+  return (
+    url.protocol === 'https:' &&
+    !url.username &&
+    !url.password &&
+    !url.port &&
+    (PUSH_SERVICE_HOSTS.includes(hostname) || PUSH_SERVICE_DOMAINS.some((domain) => hostname.endsWith(domain)))
+  );
+}
+
+/**
+ * Register a browser to receive a user's notifications
+ * @returns why it was refused, or null when it was saved
+ */
+export async function subscribePush(userId: string, subscriptionId: string, endpoint: string): Promise<string | null> {
+  if (!isAllowedPushEndpoint(endpoint)) return 'Push endpoint must be an https URL of a known push service';
+
+  await getStorage().push.putSubscription({ userId, subscriptionId, endpoint, createdAt: Date.now() });
+  return null;
+}
+
+/**
+ * Stop sending a user's notifications to a browser
+ */
+export async function unsubscribePush(userId: string, subscriptionId: string): Promise<void> {
+  await getStorage().push.deleteSubscription(userId, subscriptionId);
+}
+
+/**
+ * Deliver notifications the CLI encrypted to a user's browsers
+ *
+ * The payloads are opaque to the relay: each was encrypted for one
+ * subscription's keys, which only the browser and the CLI hold.
+ * @returns subscriptions that are gone, either unknown here or refused by their push service
+ */
+export async function sendPushNotifications(userId: string, deliveries: PushDelivery[]): Promise<string[]> {
+  const store = getStorage().push;
+  const keys = await store.getVapidKeys(userId);
+  const expired: string[] = [];
+
+  await Promise.all(
+    deliveries.map(async ({ subscriptionId, payload }) => {
+      const subscription = keys ? await store.getSubscription(userId, subscriptionId) : null;
+      if (!subscription || !keys) {
+        expired.push(subscriptionId);
+        return;
+      }
+
+      const body = Buffer.from(payload, 'base64url');
+      if (body.length === 0 || body.length > PROTOCOL.MAX_PUSH_PAYLOAD) {
+        console.warn('Push payload size out of range:', { subscriptionId, size: body.length });
+        return;
+      }
+
+      try {
+        const response = await fetch(subscription.endpoint, {
+          method: 'POST',
+          headers: {
+            Authorization: createVapidAuthorization(subscription.endpoint, keys),
+            'Content-Encoding': 'aes128gcm',
+            'Content-Type': 'application/octet-stream',
+            TTL: String(PUSH_TTL),
+            Urgency: 'high',
+          },
+          body,
+        });
+
+        if (response.status === 404 || response.status === 410) {
+          await store.deleteSubscription(userId, subscriptionId);
+          expired.push(subscriptionId);
+        } else if (!response.ok) {
+          console.warn('Push service refused notification:', { subscriptionId, status: response.status });
+        }
+      } catch (error) {
+        console.warn('Failed to deliver notification:', { subscriptionId, error });
+      }
+    })
+  );
+
+  return expired;
+}
@@ -3,54 +3,141 @@ import {
   PostToConnectionCommand,
   GoneException,
 } from '@aws-sdk/client-apigatewaymanagementapi';
-import type { Session } from '@always-coder/shared';
-import { deleteConnection } from '../utils/dynamodb.js';
+import {
+  isEncryptedEnvelope,
+  encodeBinaryEnvelope,
+  negotiateEnvelopeVersion,
+  type EnvelopeVersion,
+  type Session,
+  type WebConnectedPayload,
+  type WebConnectionRole,
+} from '@always-coder/shared';
+import { getStorage } from '../storage/index.js';
 
-// API Gateway endpoint will be set from event context
-let apiClient: ApiGatewayManagementApiClient | null = null;
+/**
+ * What the relay tells the CLI about a joining browser besides its key
+ */
+export type WebClientInfo = Pick<
+  WebConnectedPayload,
+  'userEmail' | 'userAgent' | 'compression' | 'capabilities' | 'owner' | 'device'
+>;
+
+/**
+ * Delivers serialized messages to a WebSocket connection
+ */
+export interface RelayTransport {
+  /**
+   * Post data to a connection
+   * @returns false if the connection no longer exists
+   */
+  post(connectionId: string, data: string): Promise<boolean>;
+  /**
+   * Post a binary frame
+   * API Gateway only relays text frames, so the Lambda transport leaves this out.
+   * @returns false if the connection no longer exists
+   */
+  postBinary?(connectionId: string, data: Uint8Array): Promise<boolean>;
+}
+
+// Transport is set per deployment: API Gateway (Lambda) or ws (standalone)
+let transport: RelayTransport | null = null;
+
+// Connections that read envelopes as binary frames; only ever filled by a
+// transport with postBinary, which runs in a single process
+const binaryConnections = new Set<string>();
 
 /**
  * Initialize the API Gateway Management client
  */
 export function initializeApiClient(endpoint: string): void {
-  apiClient = new ApiGatewayManagementApiClient({
+  const apiClient = new ApiGatewayManagementApiClient({
     endpoint,
   });
+
+  transport = {
+    async post(connectionId, data) {
+      try {
+        await apiClient.send(
+          new PostToConnectionCommand({
+            ConnectionId: connectionId,
+            Data: Buffer.from(data),
+          })
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof GoneException) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Use a custom transport (e.g. the standalone ws server)
+ */
+export function initializeTransport(customTransport: RelayTransport): void {
+  transport = customTransport;
+  binaryConnections.clear();
 }
 
 /**
- * Get the API client (throws if not initialized)
+ * Get the transport (throws if not initialized)
  */
-function getApiClient(): ApiGatewayManagementApiClient {
-  if (!apiClient) {
-    throw new Error('API Gateway client not initialized. Call initializeApiClient() first.');
+function getTransport(): RelayTransport {
+  if (!transport) {
+    throw new Error(
+      'Relay transport not initialized. Call initializeApiClient() or initializeTransport() first.'
+    );
   }
-  return apiClient;
+  return transport;
+}
+
+/**
+ * Pick the envelope format for a connection from its handshake
+ * Envelopes sent to it afterwards are encoded in that format, whatever
+ * format the sender used.
+ */
+export function negotiateConnectionEnvelope(connectionId: string, offered: unknown): EnvelopeVersion {
+  const transport = getTransport();
+  const version = negotiateEnvelopeVersion(offered, Boolean(transport.postBinary));
+  if (version === 2) {
+    binaryConnections.add(connectionId);
+  } else {
+    binaryConnections.delete(connectionId);
+  }
+  return version;
+}
+
+/**
+ * Forget per-connection relay state once a connection is closed
+ */
+export function releaseConnection(connectionId: string): void {
+  binaryConnections.delete(connectionId);
 }
 
 /**
  * Send a message to a specific connection
  */
 export async function sendToConnection(connectionId: string, data: unknown): Promise<boolean> {
-  const client = getApiClient();
-
-  try {
-    await client.send(
-      new PostToConnectionCommand({
-        ConnectionId: connectionId,
-        Data: Buffer.from(JSON.stringify(data)),
-      })
-    );
-    return true;
-  } catch (error) {
-    if (error instanceof GoneException) {
-      // Connection is gone, clean up
-      console.log(`Connection ${connectionId} is gone, cleaning up`);
-      await deleteConnection(connectionId);
-      return false;
-    }
-    throw error;
+  const transport = getTransport();
+  let sent: boolean;
+  if (isEncryptedEnvelope(data) && transport.postBinary && binaryConnections.has(connectionId)) {
+    sent = await transport.postBinary(connectionId, encodeBinaryEnvelope(data));
+  } else if (isEncryptedEnvelope(data) && data.version !== 1) {
+    // Arrived as a binary frame; this connection reads JSON envelopes
+    sent = await transport.post(connectionId, JSON.stringify({ ...data, version: 1 }));
+  } else {
+    sent = await transport.post(connectionId, JSON.stringify(data));
+  }
+  if (!sent) {
+    // Connection is gone, clean up
+    console.log(`Connection ${connectionId} is gone, cleaning up`);
+    releaseConnection(connectionId);
+    await getStorage().connections.delete(connectionId);
   }
+  return sent;
 }
 
 /**
@@ -107,12 +194,16 @@ export async function broadcastToSession(
 export async function notifyWebConnected(
   session: Session,
   webPublicKey: string,
-  webConnectionId: string
+  webConnectionId: string,
+  role: WebConnectionRole = 'web',
+  client: WebClientInfo = {}
 ): Promise<boolean> {
   const data = {
     type: 'web:connected',
     publicKey: webPublicKey,
     connectionId: webConnectionId,
+    role,
+    ...client,
   };
 
   return sendToConnection(session.cliConnectionId, data);
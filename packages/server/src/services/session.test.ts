@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { SessionStatus, type Session } from '@always-coder/shared';
 import {
   createSession,
@@ -10,32 +10,37 @@ import {
   updateSessionStatus,
   deleteSession,
   isSessionActive,
+  getUserSessions,
+  updateSessionMetadata,
+  isValidViewerToken,
+  canJoinSession,
+  isSessionOwner,
+  normalizeInviteEmail,
+  updateInvitedUsers,
 } from './session.js';
-
-// Mock the DynamoDB utilities
-vi.mock('../utils/dynamodb.js', () => ({
-  createSession: vi.fn(),
-  getSession: vi.fn(),
-  updateSession: vi.fn(),
-  addWebConnection: vi.fn(),
-  removeWebConnection: vi.fn(),
-  deleteSession: vi.fn(),
-}));
-
-import {
-  createSession as dbCreateSession,
-  getSession as dbGetSession,
-  updateSession as dbUpdateSession,
-  addWebConnection as dbAddWebConnection,
-  removeWebConnection as dbRemoveWebConnection,
-  deleteSession as dbDeleteSession,
-} from '../utils/dynamodb.js';
+import { initializeStorage, createMemoryStorage, type StorageBackend } from '../storage/index.js';
 
 describe('Session Service', () => {
+  let storage: StorageBackend;
+
   beforeEach(() => {
-    vi.clearAllMocks();
+    storage = createMemoryStorage();
+    initializeStorage(storage);
   });
 
+  async function seedSession(overrides: Partial<Session> = {}): Promise<void> {
+    await storage.sessions.create({
+      sessionId: 'ABC123',
+      cliConnectionId: 'conn-cli-001',
+      cliPublicKey: 'pubkey',
+      webConnectionIds: [],
+      status: SessionStatus.PENDING,
+      createdAt: Date.now(),
+      lastActiveAt: Date.now(),
+      ...overrides,
+    });
+  }
+
   describe('createSession', () => {
     it('should create a new session with correct initial values', async () => {
       const sessionId = 'ABC123';
@@ -43,60 +48,41 @@ describe('Session Service', () => {
       const cliPublicKey = 'publickey123';
       const userId = 'user-001';
 
-      vi.mocked(dbCreateSession).mockResolvedValue(undefined);
-
       const session = await createSession(sessionId, cliConnectionId, cliPublicKey, userId);
 
-      expect(dbCreateSession).toHaveBeenCalledTimes(1);
-      const callArg = vi.mocked(dbCreateSession).mock.calls[0][0];
-
-      expect(callArg.sessionId).toBe(sessionId);
-      expect(callArg.cliConnectionId).toBe(cliConnectionId);
-      expect(callArg.cliPublicKey).toBe(cliPublicKey);
-      expect(callArg.userId).toBe(userId);
-      expect(callArg.webConnectionIds).toEqual([]);
-      expect(callArg.status).toBe(SessionStatus.PENDING);
-      expect(callArg.createdAt).toBeDefined();
-      expect(callArg.lastActiveAt).toBeDefined();
+      const stored = await storage.sessions.get(sessionId);
+      expect(stored?.sessionId).toBe(sessionId);
+      expect(stored?.cliConnectionId).toBe(cliConnectionId);
+      expect(stored?.cliPublicKey).toBe(cliPublicKey);
+      expect(stored?.userId).toBe(userId);
+      expect(stored?.webConnectionIds).toEqual([]);
+      expect(stored?.status).toBe(SessionStatus.PENDING);
+      expect(stored?.createdAt).toBeDefined();
+      expect(stored?.lastActiveAt).toBeDefined();
 
       expect(session.sessionId).toBe(sessionId);
       expect(session.status).toBe(SessionStatus.PENDING);
     });
 
     it('should create session without userId', async () => {
-      vi.mocked(dbCreateSession).mockResolvedValue(undefined);
-
       await createSession('ABC123', 'conn-001', 'pubkey');
 
-      const callArg = vi.mocked(dbCreateSession).mock.calls[0][0];
-      expect(callArg.userId).toBeUndefined();
+      const stored = await storage.sessions.get('ABC123');
+      expect(stored?.userId).toBeUndefined();
     });
   });
 
   describe('getSession', () => {
     it('should return session when found', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.ACTIVE,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbGetSession).mockResolvedValue(mockSession);
+      await seedSession({ status: SessionStatus.ACTIVE });
 
       const result = await getSession('ABC123');
 
-      expect(dbGetSession).toHaveBeenCalledWith('ABC123');
-      expect(result).toEqual(mockSession);
+      expect(result?.sessionId).toBe('ABC123');
+      expect(result?.status).toBe(SessionStatus.ACTIVE);
     });
 
     it('should return null when session not found', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue(null);
-
       const result = await getSession('NOTFOUND');
 
       expect(result).toBeNull();
@@ -105,257 +91,243 @@ describe('Session Service', () => {
 
   describe('joinSession', () => {
     it('should add web connection and activate session', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-cli-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: ['conn-web-001'],
-        status: SessionStatus.PENDING,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbAddWebConnection).mockResolvedValue(mockSession);
-      vi.mocked(dbUpdateSession).mockResolvedValue({ ...mockSession, status: SessionStatus.ACTIVE });
+      await seedSession();
 
       const result = await joinSession('ABC123', 'conn-web-001');
 
-      expect(dbAddWebConnection).toHaveBeenCalledWith('ABC123', 'conn-web-001');
-      expect(dbUpdateSession).toHaveBeenCalledWith('ABC123', { status: SessionStatus.ACTIVE });
+      expect(result?.webConnectionIds).toEqual(['conn-web-001']);
       expect(result?.status).toBe(SessionStatus.ACTIVE);
+      expect((await storage.sessions.get('ABC123'))?.status).toBe(SessionStatus.ACTIVE);
     });
 
     it('should not activate if CLI is not connected', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: '', // CLI disconnected
-        cliPublicKey: 'pubkey',
-        webConnectionIds: ['conn-web-001'],
-        status: SessionStatus.PENDING,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbAddWebConnection).mockResolvedValue(mockSession);
+      await seedSession({ cliConnectionId: '' }); // CLI disconnected
 
       const result = await joinSession('ABC123', 'conn-web-001');
 
-      expect(dbUpdateSession).not.toHaveBeenCalled();
-      expect(result).toEqual(mockSession);
+      expect(result?.webConnectionIds).toEqual(['conn-web-001']);
+      expect(result?.status).toBe(SessionStatus.PENDING);
+      expect((await storage.sessions.get('ABC123'))?.status).toBe(SessionStatus.PENDING);
     });
 
     it('should return null when session not found', async () => {
-      vi.mocked(dbAddWebConnection).mockResolvedValue(null);
-
       const result = await joinSession('NOTFOUND', 'conn-001');
 
       expect(result).toBeNull();
+      expect(await storage.sessions.get('NOTFOUND')).toBeNull();
     });
   });
 
   describe('leaveSession', () => {
     it('should remove web connection and pause session when no more connections', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-cli-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [], // Empty after removal
-        status: SessionStatus.ACTIVE,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbRemoveWebConnection).mockResolvedValue(mockSession);
-      vi.mocked(dbUpdateSession).mockResolvedValue({ ...mockSession, status: SessionStatus.PAUSED });
+      await seedSession({ webConnectionIds: ['conn-web-001'], status: SessionStatus.ACTIVE });
 
       const result = await leaveSession('ABC123', 'conn-web-001');
 
-      expect(dbRemoveWebConnection).toHaveBeenCalledWith('ABC123', 'conn-web-001');
-      expect(dbUpdateSession).toHaveBeenCalledWith('ABC123', { status: SessionStatus.PAUSED });
+      expect(result?.webConnectionIds).toEqual([]);
       expect(result?.status).toBe(SessionStatus.PAUSED);
+      expect((await storage.sessions.get('ABC123'))?.status).toBe(SessionStatus.PAUSED);
     });
 
     it('should not pause session when other connections remain', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-cli-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: ['conn-web-002'], // Still has a connection
+      await seedSession({
+        webConnectionIds: ['conn-web-001', 'conn-web-002'],
         status: SessionStatus.ACTIVE,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbRemoveWebConnection).mockResolvedValue(mockSession);
+      });
 
       const result = await leaveSession('ABC123', 'conn-web-001');
 
-      expect(dbUpdateSession).not.toHaveBeenCalled();
-      expect(result).toEqual(mockSession);
+      expect(result?.webConnectionIds).toEqual(['conn-web-002']);
+      expect(result?.status).toBe(SessionStatus.ACTIVE);
+    });
+
+    it('should return null when session not found', async () => {
+      expect(await leaveSession('NOTFOUND', 'conn-web-001')).toBeNull();
     });
   });
 
   describe('handleCliDisconnect', () => {
     it('should close session and clear CLI connection', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: '',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.CLOSED,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbUpdateSession).mockResolvedValue(mockSession);
+      await seedSession({ status: SessionStatus.ACTIVE });
 
       const result = await handleCliDisconnect('ABC123');
 
-      expect(dbUpdateSession).toHaveBeenCalledWith('ABC123', {
-        status: SessionStatus.CLOSED,
-        cliConnectionId: '',
-      });
       expect(result?.status).toBe(SessionStatus.CLOSED);
+      expect(result?.cliConnectionId).toBe('');
     });
   });
 
   describe('reconnectSession', () => {
     it('should update CLI connection and reset to pending', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'new-conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.PENDING,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbUpdateSession).mockResolvedValue(mockSession);
+      await seedSession({ cliConnectionId: '', status: SessionStatus.CLOSED, lastActiveAt: 1000 });
 
       const result = await reconnectSession('ABC123', 'new-conn-001');
 
-      expect(dbUpdateSession).toHaveBeenCalledWith('ABC123', {
-        cliConnectionId: 'new-conn-001',
-        status: SessionStatus.PENDING,
-        lastActiveAt: expect.any(Number),
-      });
       expect(result?.cliConnectionId).toBe('new-conn-001');
+      expect(result?.status).toBe(SessionStatus.PENDING);
+      expect(result?.lastActiveAt).toBeGreaterThan(1000);
+    });
+
+    it('should return null when session not found', async () => {
+      expect(await reconnectSession('NOTFOUND', 'new-conn-001')).toBeNull();
+    });
+
+    it('should keep the viewer token unless a new one is sent', async () => {
+      await seedSession({ viewerToken: 'old-secret' });
+
+      expect((await reconnectSession('ABC123', 'conn-2'))?.viewerToken).toBe('old-secret');
+      expect((await reconnectSession('ABC123', 'conn-3', 'new-secret'))?.viewerToken).toBe('new-secret');
+    });
+  });
+
+  describe('isValidViewerToken', () => {
+    it('should accept only the stored token', async () => {
+      await createSession('ABC123', 'conn-001', 'pubkey', undefined, 'share-secret');
+      const session = (await getSession('ABC123'))!;
+
+      expect(isValidViewerToken(session, 'share-secret')).toBe(true);
+      expect(isValidViewerToken(session, 'share-secreT')).toBe(false);
+      expect(isValidViewerToken(session, '')).toBe(false);
+    });
+
+    it('should reject every token when the session has none', async () => {
+      await seedSession();
+
+      expect(isValidViewerToken((await getSession('ABC123'))!, '')).toBe(false);
+    });
+  });
+
+  describe('canJoinSession', () => {
+    it('should let anyone join a session created without logging in', async () => {
+      await seedSession({ userId: 'anonymous' });
+      const session = (await getSession('ABC123'))!;
+
+      expect(canJoinSession(session, 'anonymous')).toBe(true);
+      expect(canJoinSession(session, 'user-2')).toBe(true);
+    });
+
+    it('should let only the owner and invited users join an owned session', async () => {
+      await seedSession({ userId: 'user-1', invitedUsers: ['alex@example.com'] });
+      const session = (await getSession('ABC123'))!;
+
+      expect(canJoinSession(session, 'user-1')).toBe(true);
+      expect(canJoinSession(session, 'user-2', 'Alex@Example.com')).toBe(true);
+      expect(canJoinSession(session, 'alex@example.com')).toBe(true);
+      expect(canJoinSession(session, 'user-2', 'sam@example.com')).toBe(false);
+      expect(canJoinSession(session, 'anonymous')).toBe(false);
+    });
+
+    it('should tell invited users apart from the owner', async () => {
+      await seedSession({ userId: 'user-1', invitedUsers: ['alex@example.com'] });
+      const session = (await getSession('ABC123'))!;
+
+      expect(isSessionOwner(session, 'user-1')).toBe(true);
+      expect(isSessionOwner(session, 'alex@example.com')).toBe(false);
+      expect(isSessionOwner({ ...session, userId: 'anonymous' }, 'user-2')).toBe(true);
+    });
+  });
+
+  describe('normalizeInviteEmail', () => {
+    it('should trim and lowercase emails and reject anything else', () => {
+      expect(normalizeInviteEmail('  Alex@Example.COM ')).toBe('alex@example.com');
+      expect(normalizeInviteEmail('alex')).toBeNull();
+      expect(normalizeInviteEmail('alex@example')).toBeNull();
+      expect(normalizeInviteEmail('a lex@example.com')).toBeNull();
+    });
+  });
+
+  describe('updateInvitedUsers', () => {
+    it('should replace the invite list', async () => {
+      await seedSession({ userId: 'user-1', invitedUsers: ['alex@example.com'] });
+
+      await updateInvitedUsers('ABC123', ['sam@example.com']);
+
+      expect((await getSession('ABC123'))?.invitedUsers).toEqual(['sam@example.com']);
     });
   });
 
   describe('updateSessionStatus', () => {
     it('should update session status', async () => {
-      const mockSession: Session = {
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.ACTIVE,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      };
-
-      vi.mocked(dbUpdateSession).mockResolvedValue(mockSession);
+      await seedSession();
 
       await updateSessionStatus('ABC123', SessionStatus.ACTIVE);
 
-      expect(dbUpdateSession).toHaveBeenCalledWith('ABC123', { status: SessionStatus.ACTIVE });
+      expect((await storage.sessions.get('ABC123'))?.status).toBe(SessionStatus.ACTIVE);
     });
   });
 
   describe('deleteSession', () => {
     it('should delete session', async () => {
-      vi.mocked(dbDeleteSession).mockResolvedValue(undefined);
+      await seedSession();
 
       await deleteSession('ABC123');
 
-      expect(dbDeleteSession).toHaveBeenCalledWith('ABC123');
+      expect(await storage.sessions.get('ABC123')).toBeNull();
     });
   });
 
   describe('isSessionActive', () => {
     it('should return true for PENDING session', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue({
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.PENDING,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      });
-
-      const result = await isSessionActive('ABC123');
+      await seedSession({ status: SessionStatus.PENDING });
 
-      expect(result).toBe(true);
+      expect(await isSessionActive('ABC123')).toBe(true);
     });
 
     it('should return true for ACTIVE session', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue({
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: ['web-001'],
-        status: SessionStatus.ACTIVE,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      });
-
-      const result = await isSessionActive('ABC123');
+      await seedSession({ status: SessionStatus.ACTIVE, webConnectionIds: ['web-001'] });
 
-      expect(result).toBe(true);
+      expect(await isSessionActive('ABC123')).toBe(true);
     });
 
     it('should return true for PAUSED session', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue({
-        sessionId: 'ABC123',
-        cliConnectionId: 'conn-001',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.PAUSED,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      });
-
-      const result = await isSessionActive('ABC123');
+      await seedSession({ status: SessionStatus.PAUSED });
 
-      expect(result).toBe(true);
+      expect(await isSessionActive('ABC123')).toBe(true);
     });
 
     it('should return false for CLOSED session', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue({
-        sessionId: 'ABC123',
-        cliConnectionId: '',
-        cliPublicKey: 'pubkey',
-        webConnectionIds: [],
-        status: SessionStatus.CLOSED,
-        createdAt: Date.now(),
-        lastActiveAt: Date.now(),
-        ttl: 0,
-      });
-
-      const result = await isSessionActive('ABC123');
+      await seedSession({ status: SessionStatus.CLOSED, cliConnectionId: '' });
 
-      expect(result).toBe(false);
+      expect(await isSessionActive('ABC123')).toBe(false);
     });
 
     it('should return false when session not found', async () => {
-      vi.mocked(dbGetSession).mockResolvedValue(null);
+      expect(await isSessionActive('NOTFOUND')).toBe(false);
+    });
+  });
+
+  describe('getUserSessions', () => {
+    it('should return session info for the user without keys or connection ids', async () => {
+      await seedSession({ userId: 'user-001', hostname: 'laptop', command: 'claude' });
+      await seedSession({ sessionId: 'OTHER1', userId: 'user-002' });
 
-      const result = await isSessionActive('NOTFOUND');
+      const sessions = await getUserSessions('user-001');
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ sessionId: 'ABC123', hostname: 'laptop', command: 'claude' });
+      expect(sessions[0]).not.toHaveProperty('cliPublicKey');
+      expect(sessions[0]).not.toHaveProperty('cliConnectionId');
+    });
+
+    it('should include closed sessions only when requested', async () => {
+      await seedSession({ userId: 'user-001', status: SessionStatus.CLOSED });
+
+      expect(await getUserSessions('user-001')).toEqual([]);
+      expect(await getUserSessions('user-001', true)).toHaveLength(1);
+    });
+  });
+
+  describe('updateSessionMetadata', () => {
+    it('should store instance and command metadata', async () => {
+      await seedSession();
+
+      const result = await updateSessionMetadata('ABC123', {
+        instanceLabel: 'workstation',
+        commandArgs: ['--resume'],
+      });
 
-      expect(result).toBe(false);
+      expect(result?.instanceLabel).toBe('workstation');
+      expect(result?.commandArgs).toEqual(['--resume']);
     });
   });
 });
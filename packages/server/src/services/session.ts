@@ -1,13 +1,6 @@
-import { SessionStatus, type Session, type RemoteSessionInfo } from '@always-coder/shared';
-import {
-  createSession as dbCreateSession,
-  getSession as dbGetSession,
-  updateSession as dbUpdateSession,
-  addWebConnection as dbAddWebConnection,
-  removeWebConnection as dbRemoveWebConnection,
-  deleteSession as dbDeleteSession,
-  getSessionsByUser as dbGetSessionsByUser,
-} from '../utils/dynamodb.js';
+import { timingSafeEqual } from 'crypto';
+import { SessionStatus, type Capabilities, type Session, type RemoteSessionInfo } from '@always-coder/shared';
+import { getStorage } from '../storage/index.js';
 
 /**
  * Create a new session (called by CLI)
@@ -16,7 +9,9 @@ export async function createSession(
   sessionId: string,
   cliConnectionId: string,
   cliPublicKey: string,
-  userId?: string
+  userId?: string,
+  viewerToken?: string,
+  cliCapabilities?: Capabilities
 ): Promise<Session> {
   const session: Omit<Session, 'ttl'> = {
     sessionId,
@@ -27,9 +22,11 @@ export async function createSession(
     createdAt: Date.now(),
     lastActiveAt: Date.now(),
     userId,
+    viewerToken,
+    cliCapabilities,
   };
 
-  await dbCreateSession(session);
+  await getStorage().sessions.create(session);
   return { ...session, ttl: 0 };
 }
 
@@ -37,7 +34,7 @@ export async function createSession(
  * Get a session by ID
  */
 export async function getSession(sessionId: string): Promise<Session | null> {
-  return dbGetSession(sessionId);
+  return getStorage().sessions.get(sessionId);
 }
 
 /**
@@ -47,11 +44,11 @@ export async function joinSession(
   sessionId: string,
   webConnectionId: string
 ): Promise<Session | null> {
-  const session = await dbAddWebConnection(sessionId, webConnectionId);
+  const session = await getStorage().sessions.addWebConnection(sessionId, webConnectionId);
   if (session) {
     // Update status to active if CLI is still connected
     if (session.cliConnectionId) {
-      await dbUpdateSession(sessionId, { status: SessionStatus.ACTIVE });
+      await getStorage().sessions.update(sessionId, { status: SessionStatus.ACTIVE });
       return { ...session, status: SessionStatus.ACTIVE };
     }
   }
@@ -65,10 +62,10 @@ export async function leaveSession(
   sessionId: string,
   webConnectionId: string
 ): Promise<Session | null> {
-  const session = await dbRemoveWebConnection(sessionId, webConnectionId);
+  const session = await getStorage().sessions.removeWebConnection(sessionId, webConnectionId);
   if (session && session.webConnectionIds.length === 0) {
     // Update status to paused if no more web connections
-    await dbUpdateSession(sessionId, { status: SessionStatus.PAUSED });
+    await getStorage().sessions.update(sessionId, { status: SessionStatus.PAUSED });
     return { ...session, status: SessionStatus.PAUSED };
   }
   return session;
@@ -78,7 +75,7 @@ export async function leaveSession(
  * Handle CLI disconnection
  */
 export async function handleCliDisconnect(sessionId: string): Promise<Session | null> {
-  return dbUpdateSession(sessionId, {
+  return getStorage().sessions.update(sessionId, {
     status: SessionStatus.CLOSED,
     cliConnectionId: '',
   });
@@ -86,18 +83,74 @@ export async function handleCliDisconnect(sessionId: string): Promise<Session |
 
 /**
  * Handle CLI reconnection (update cliConnectionId)
+ * @param viewerToken - Share link secret; the stored one is kept when omitted
  */
 export async function reconnectSession(
   sessionId: string,
-  newCliConnectionId: string
+  newCliConnectionId: string,
+  viewerToken?: string,
+  cliCapabilities?: Capabilities
 ): Promise<Session | null> {
-  return dbUpdateSession(sessionId, {
+  return getStorage().sessions.update(sessionId, {
     cliConnectionId: newCliConnectionId,
     status: SessionStatus.PENDING, // Reset to pending until web reconnects
     lastActiveAt: Date.now(),
+    ...(viewerToken !== undefined && { viewerToken }),
+    ...(cliCapabilities !== undefined && { cliCapabilities }),
   });
 }
 
+/**
+ * Check a read-only share link secret against the session
+ */
+export function isValidViewerToken(session: Session, viewerToken: string): boolean {
+  const expected = session.viewerToken;
+  if (!expected || expected.length !== viewerToken.length) return false;
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(viewerToken));
+}
+
+/**
+ * Check whether a user owns a session
+ * Nobody else can be told apart in sessions created without logging in, so
+ * everyone counts as their owner.
+ */
+export function isSessionOwner(session: Session, userId: string): boolean {
+  return !session.userId || session.userId === 'anonymous' || userId === session.userId;
+}
+
+/**
+ * Check whether a user may join a session as a full web client
+ * Sessions created without logging in stay open to anyone who has the ID.
+ * Invites are matched against the joiner's email, or their user ID when the
+ * relay authenticates users by email.
+ */
+export function canJoinSession(session: Session, userId: string, userEmail?: string): boolean {
+  if (isSessionOwner(session, userId)) return true;
+  if (userId === 'anonymous') return false;
+
+  const invited = session.invitedUsers ?? [];
+  return [userEmail, userId].some((id) => !!id && invited.includes(id.toLowerCase()));
+}
+
+/**
+ * Normalize an email for the invite list
+ * @returns the trimmed, lowercased email, or null if it doesn't look like one
+ */
+export function normalizeInviteEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Replace the users invited to a session
+ */
+export async function updateInvitedUsers(
+  sessionId: string,
+  invitedUsers: string[]
+): Promise<Session | null> {
+  return getStorage().sessions.update(sessionId, { invitedUsers });
+}
+
 /**
  * Update session status
  */
@@ -105,14 +158,14 @@ export async function updateSessionStatus(
   sessionId: string,
   status: SessionStatus
 ): Promise<Session | null> {
-  return dbUpdateSession(sessionId, { status });
+  return getStorage().sessions.update(sessionId, { status });
 }
 
 /**
  * Delete a session
  */
 export async function deleteSession(sessionId: string): Promise<void> {
-  await dbDeleteSession(sessionId);
+  await getStorage().sessions.delete(sessionId);
 }
 
 /**
@@ -138,7 +191,7 @@ export async function getUserSessions(
   userId: string,
   includeInactive: boolean = false
 ): Promise<RemoteSessionInfo[]> {
-  const sessions = await dbGetSessionsByUser(userId, includeInactive);
+  const sessions = await getStorage().sessions.listByUser(userId, includeInactive);
 
   return sessions.map((session) => ({
     sessionId: session.sessionId,
@@ -168,5 +221,5 @@ export async function updateSessionMetadata(
     webUrl?: string;
   }
 ): Promise<Session | null> {
-  return dbUpdateSession(sessionId, metadata);
+  return getStorage().sessions.update(sessionId, metadata);
 }
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+/**
+ * always-coder-server - self-hosted relay without AWS
+ *
+ * Usage:
+ *   always-coder-server [--port 8080] [--host 0.0.0.0]
+ *                       [--storage memory|sqlite] [--db ./always-coder.db]
+ *                       [--public-url wss://relay.example.com] [--tokens tokens.json]
+ */
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { startStandaloneServer } from './server.js';
+import { createMemoryStorage, type StorageBackend } from '../storage/index.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+const USAGE = `Usage: always-coder-server [options]
+
+Options:
+  -p, --port <port>        Port to listen on (default: $PORT or 8080)
+      --host <host>        Interface to bind (default: 0.0.0.0)
+      --storage <type>     memory | sqlite (default: memory)
+      --db <path>          SQLite database file (default: ./always-coder.db)
+      --public-url <url>   WebSocket URL reported to clients
+      --tokens <file>      JSON file mapping access tokens to user IDs;
+                           connections without a token stay anonymous
+  -h, --help               Show this help
+`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p' },
+      host: { type: 'string' },
+      storage: { type: 'string' },
+      db: { type: 'string' },
+      'public-url': { type: 'string' },
+      tokens: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = Number(values.port || process.env.PORT || 8080);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  const storageType = values.storage || process.env.ALWAYS_CODER_STORAGE || 'memory';
+  let storage: StorageBackend;
+  if (storageType === 'memory') {
+    storage = createMemoryStorage();
+  } else if (storageType === 'sqlite') {
+    storage = await createSqliteStorage(values.db || process.env.ALWAYS_CODER_DB || 'always-coder.db');
+  } else {
+    throw new Error(`Unknown storage type: ${storageType} (expected memory or sqlite)`);
+  }
+
+  // Static token map for air-gapped setups without Cognito
+  let authenticate: ((token: string | null) => Promise<string | null>) | undefined;
+  if (values.tokens) {
+    const tokens = JSON.parse(readFileSync(values.tokens, 'utf-8')) as Record<string, string>;
+    authenticate = async (token) => {
+      if (!token) return 'anonymous';
+      return tokens[token] || null;
+    };
+  }
+
+  const server = await startStandaloneServer({
+    port,
+    host: values.host,
+    storage,
+    publicUrl: values['public-url'],
+    authenticate,
+  });
+
+  console.log(`always-coder-server listening on ${server.url} (storage: ${storageType})`);
+
+  const shutdown = () => {
+    console.log('Shutting down...');
+    server
+      .close()
+      .then(() => storage.close?.())
+      .finally(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,623 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import WebSocket from 'ws';
+import {
+  E2ECrypto,
+  MessageType,
+  createMessage,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  getCapabilities,
+  type EncryptedEnvelope,
+} from '@always-coder/shared';
+import { startStandaloneServer, type StandaloneServer } from './server.js';
+import { createMemoryStorage, type StorageBackend } from '../storage/index.js';
+
+/**
+ * Minimal test client that records every message it receives, decoding
+ * binary frames into envelopes
+ */
+class TestClient {
+  private received: Record<string, unknown>[] = [];
+  private waiters: { match: (m: Record<string, unknown>) => boolean; resolve: (m: Record<string, unknown>) => void }[] = [];
+
+  constructor(private ws: WebSocket) {
+    ws.on('message', (data, isBinary) => {
+      const message = (
+        isBinary ? decodeBinaryEnvelope(data as Buffer) : JSON.parse(data.toString())
+      ) as Record<string, unknown>;
+      const waiter = this.waiters.find((w) => w.match(message));
+      if (waiter) {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        waiter.resolve(message);
+      } else {
+        this.received.push(message);
+      }
+    });
+  }
+
+  static async connect(url: string, headers?: Record<string, string>): Promise<TestClient> {
+    const ws = new WebSocket(url, { headers });
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+    return new TestClient(ws);
+  }
+
+  send(data: unknown): void {
+    this.ws.send(JSON.stringify(data));
+  }
+
+  sendBinary(data: Uint8Array): void {
+    this.ws.send(data);
+  }
+
+  next(match: (m: Record<string, unknown>) => boolean): Promise<Record<string, unknown>> {
+    const index = this.received.findIndex(match);
+    if (index !== -1) {
+      return Promise.resolve(this.received.splice(index, 1)[0]);
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for message')), 2000);
+      this.waiters.push({
+        match,
+        resolve: (m) => {
+          clearTimeout(timer);
+          resolve(m);
+        },
+      });
+    });
+  }
+
+  nextOfType(type: string): Promise<Record<string, unknown>> {
+    return this.next((m) => m.type === type);
+  }
+
+  async nextEnvelope(): Promise<EncryptedEnvelope> {
+    const message = await this.next((m) => typeof m.version === 'number' && typeof m.ciphertext === 'string');
+    return message as unknown as EncryptedEnvelope;
+  }
+
+  async close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) return;
+    await new Promise<void>((resolve) => {
+      this.ws.once('close', () => resolve());
+      this.ws.close();
+    });
+  }
+}
+
+describe('Standalone server', () => {
+  let server: StandaloneServer;
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = createMemoryStorage();
+    server = await startStandaloneServer({ port: 0, host: '127.0.0.1', storage });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  async function createSession(sessionId: string, cliCrypto: E2ECrypto): Promise<TestClient> {
+    const cli = await TestClient.connect(server.url);
+    cli.send({ type: MessageType.SESSION_CREATE, sessionId, publicKey: cliCrypto.getPublicKey() });
+    const created = await cli.nextOfType(MessageType.SESSION_CREATED);
+    expect(created.sessionId).toBe(sessionId);
+    expect(created.wsEndpoint).toBe(server.url);
+    return cli;
+  }
+
+  it('should answer health checks over HTTP', async () => {
+    const response = await fetch(`http://127.0.0.1:${server.port}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('OK');
+  });
+
+  it('should respond to ping with pong', async () => {
+    const client = await TestClient.connect(server.url);
+    client.send({ type: MessageType.PING, timestamp: Date.now() });
+
+    const pong = await client.nextOfType(MessageType.PONG);
+    expect(pong.timestamp).toEqual(expect.any(Number));
+    await client.close();
+  });
+
+  it('should run the full create/join/relay flow end to end', async () => {
+    const cliCrypto = new E2ECrypto();
+    const webCrypto = new E2ECrypto();
+    const cli = await createSession('ABC234', cliCrypto);
+
+    // Web joins and receives the CLI public key; CLI receives the web key
+    const web = await TestClient.connect(server.url);
+    web.send({ type: MessageType.SESSION_JOIN, sessionId: 'ABC234', publicKey: webCrypto.getPublicKey() });
+
+    const joined = await web.nextOfType(MessageType.SESSION_JOINED);
+    expect(joined.cliPublicKey).toBe(cliCrypto.getPublicKey());
+    const webConnected = await cli.nextOfType(MessageType.WEB_CONNECTED);
+    expect(webConnected.publicKey).toBe(webCrypto.getPublicKey());
+    expect(webConnected.role).toBe('web');
+
+    cliCrypto.establishSharedKey(webConnected.publicKey as string);
+    webCrypto.establishSharedKey(joined.cliPublicKey as string);
+
+    // CLI -> Web
+    cli.send(cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'hello web', 1), 'ABC234'));
+    const output = webCrypto.decrypt(await web.nextEnvelope());
+    expect(output.type).toBe(MessageType.TERMINAL_OUTPUT);
+    expect(output.payload).toBe('hello web');
+
+    // Web -> CLI
+    web.send(webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1), 'ABC234'));
+    const inputEnvelope = await cli.nextEnvelope();
+    expect(inputEnvelope.connectionId).toBe(webConnected.connectionId);
+    const input = cliCrypto.decrypt(inputEnvelope);
+    expect(input.payload).toBe('ls\r');
+
+    // CLI output is cached for late joiners
+    expect(await storage.messages.getRecent('ABC234')).toHaveLength(1);
+
+    await web.close();
+    await cli.close();
+  });
+
+  it('should relay between binary and JSON envelopes per connection', async () => {
+    const cliCrypto = new E2ECrypto();
+    const webCrypto = new E2ECrypto();
+    const cli = await TestClient.connect(server.url);
+    cli.send({
+      type: MessageType.SESSION_CREATE,
+      sessionId: 'BIN234',
+      publicKey: cliCrypto.getPublicKey(),
+      envelopeVersions: [1, 2],
+    });
+    expect((await cli.nextOfType(MessageType.SESSION_CREATED)).envelopeVersion).toBe(2);
+
+    // An older browser that doesn't offer binary frames
+    const web = await TestClient.connect(server.url);
+    web.send({ type: MessageType.SESSION_JOIN, sessionId: 'BIN234', publicKey: webCrypto.getPublicKey() });
+    expect((await web.nextOfType(MessageType.SESSION_JOINED)).envelopeVersion).toBe(1);
+    const webConnected = await cli.nextOfType(MessageType.WEB_CONNECTED);
+    cliCrypto.establishSharedKey(webConnected.publicKey as string);
+    webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+
+    // CLI -> Web: binary in, JSON out
+    const envelope = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'hello web', 1), 'BIN234');
+    cli.sendBinary(encodeBinaryEnvelope(envelope));
+    const output = await web.nextEnvelope();
+    expect(output.version).toBe(1);
+    expect(webCrypto.decrypt(output).payload).toBe('hello web');
+
+    // Web -> CLI: JSON in, binary out, still tagged with the sender
+    web.send(webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1), 'BIN234'));
+    const input = await cli.nextEnvelope();
+    expect(input.version).toBe(2);
+    expect(input.connectionId).toBe(webConnected.connectionId);
+    expect(cliCrypto.decrypt(input).payload).toBe('ls\r');
+
+    await web.close();
+    await cli.close();
+  });
+
+  it('should reject binary frames that are not envelopes', async () => {
+    const cli = await createSession('BAD234', new E2ECrypto());
+    cli.sendBinary(new Uint8Array([1, 2, 3]));
+
+    const error = await cli.nextOfType(MessageType.ERROR);
+    expect(error.code).toBe('INVALID_MESSAGE');
+    await cli.close();
+  });
+
+  it('should deliver envelopes addressed to one web client only to that client', async () => {
+    const cliCrypto = new E2ECrypto();
+    const cli = await createSession('TWO234', cliCrypto);
+
+    // Two browsers join, each with its own key pair
+    const clients = [];
+    for (const crypto of [new E2ECrypto(), new E2ECrypto()]) {
+      const web = await TestClient.connect(server.url);
+      web.send({ type: MessageType.SESSION_JOIN, sessionId: 'TWO234', publicKey: crypto.getPublicKey() });
+      await web.nextOfType(MessageType.SESSION_JOINED);
+      const { connectionId } = await cli.nextOfType(MessageType.WEB_CONNECTED);
+      crypto.establishSharedKey(cliCrypto.getPublicKey());
+      clients.push({ web, crypto, connectionId: connectionId as string });
+    }
+
+    for (const { crypto, connectionId } of clients) {
+      const shared = new E2ECrypto(cliCrypto.getSecretKey());
+      shared.establishSharedKey(crypto.getPublicKey());
+      const message = createMessage(MessageType.TERMINAL_OUTPUT, `hello ${connectionId}`, 1);
+      cli.send({ ...shared.encrypt(message, 'TWO234'), recipientId: connectionId });
+    }
+
+    // Each browser receives exactly its own envelope, which it can decrypt
+    for (const { web, crypto, connectionId } of clients) {
+      const envelope = await web.nextEnvelope();
+      expect(envelope.recipientId).toBe(connectionId);
+      expect(crypto.decrypt(envelope).payload).toBe(`hello ${connectionId}`);
+    }
+
+    // Addressed envelopes are not cached for late joiners
+    expect(await storage.messages.getRecent('TWO234')).toHaveLength(0);
+
+    for (const { web } of clients) {
+      await web.close();
+    }
+    await cli.close();
+  });
+
+  it('should join viewers with the share link secret and refuse their input', async () => {
+    const cli = await TestClient.connect(server.url);
+    cli.send({
+      type: MessageType.SESSION_CREATE,
+      sessionId: 'VWR234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      viewerToken: 'share-secret',
+    });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+
+    const viewer = await TestClient.connect(server.url);
+    viewer.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'VWR234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      viewerToken: 'share-secret',
+    });
+    expect((await viewer.nextOfType(MessageType.SESSION_JOINED)).role).toBe('viewer');
+    expect((await cli.nextOfType(MessageType.WEB_CONNECTED)).role).toBe('viewer');
+
+    viewer.send({ version: 1, sessionId: 'VWR234', nonce: 'n', ciphertext: 'c', timestamp: Date.now() });
+    expect((await viewer.nextOfType(MessageType.ERROR)).code).toBe('READ_ONLY');
+
+    await viewer.close();
+    await cli.close();
+  });
+
+  it('should refuse viewers with a wrong share link secret', async () => {
+    const cli = await TestClient.connect(server.url);
+    cli.send({
+      type: MessageType.SESSION_CREATE,
+      sessionId: 'VWR345',
+      publicKey: new E2ECrypto().getPublicKey(),
+      viewerToken: 'share-secret',
+    });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+
+    const viewer = await TestClient.connect(server.url);
+    viewer.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'VWR345',
+      publicKey: new E2ECrypto().getPublicKey(),
+      viewerToken: 'guessed',
+    });
+    expect((await viewer.nextOfType(MessageType.ERROR)).code).toBe('UNAUTHORIZED');
+    expect((await storage.sessions.get('VWR345'))?.webConnectionIds).toEqual([]);
+
+    await viewer.close();
+    await cli.close();
+  });
+
+  it('should record capabilities and pass each side the other\'s', async () => {
+    const cliCapabilities = getCapabilities();
+    const cli = await TestClient.connect(server.url);
+    cli.send({
+      type: MessageType.SESSION_CREATE,
+      sessionId: 'CAP234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      capabilities: cliCapabilities,
+    });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+    expect((await storage.sessions.get('CAP234'))?.cliCapabilities).toEqual(cliCapabilities);
+
+    const webCapabilities = { ...getCapabilities(), messageTypes: [MessageType.TERMINAL_INPUT] };
+    const web = await TestClient.connect(server.url);
+    web.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'CAP234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      capabilities: webCapabilities,
+    });
+
+    expect((await web.nextOfType(MessageType.SESSION_JOINED)).cliCapabilities).toEqual(cliCapabilities);
+    const webConnected = await cli.nextOfType(MessageType.WEB_CONNECTED);
+    expect(webConnected.capabilities).toEqual(webCapabilities);
+    expect((await storage.connections.get(webConnected.connectionId as string))?.capabilities).toEqual(
+      webCapabilities
+    );
+
+    await web.close();
+    await cli.close();
+  });
+
+  it('should refuse a browser whose protocol version the CLI can\'t talk to', async () => {
+    const cli = await TestClient.connect(server.url);
+    cli.send({
+      type: MessageType.SESSION_CREATE,
+      sessionId: 'OLD234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      capabilities: { ...getCapabilities(), protocolVersion: 1, minProtocolVersion: 1 },
+    });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+
+    const web = await TestClient.connect(server.url);
+    web.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'OLD234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      capabilities: { ...getCapabilities(), protocolVersion: 2, minProtocolVersion: 1 },
+    });
+    await web.nextOfType(MessageType.SESSION_JOINED);
+
+    // A newer web app that has dropped support for the CLI's version
+    const newer = await TestClient.connect(server.url);
+    newer.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'OLD234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      capabilities: { ...getCapabilities(), protocolVersion: 2, minProtocolVersion: 2 },
+    });
+    const error = await newer.nextOfType(MessageType.ERROR);
+    expect(error.code).toBe('UPGRADE_REQUIRED');
+    expect(error.message).toContain('CLI running this session is too old');
+    expect((await storage.sessions.get('OLD234'))?.webConnectionIds).toHaveLength(1);
+
+    await newer.close();
+    await web.close();
+    await cli.close();
+  });
+
+  it('should forward join approval decisions and drop rejected clients', async () => {
+    const cli = await createSession('APR234', new E2ECrypto());
+
+    const web = await TestClient.connect(server.url, { 'User-Agent': 'TestBrowser/1.0' });
+    web.send({
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'APR234',
+      publicKey: new E2ECrypto().getPublicKey(),
+      compression: ['deflate'],
+      device: { publicKey: 'identity-key', signature: 'signature' },
+    });
+    const webConnected = await cli.nextOfType(MessageType.WEB_CONNECTED);
+    expect(webConnected.userAgent).toBe('TestBrowser/1.0');
+    expect(webConnected.compression).toEqual(['deflate']);
+    // The CLI checks the device signature; the relay only passes it on
+    expect(webConnected.device).toEqual({ publicKey: 'identity-key', signature: 'signature' });
+    await web.nextOfType(MessageType.SESSION_JOINED);
+
+    cli.send({ type: MessageType.JOIN_APPROVAL, connectionId: webConnected.connectionId, status: 'pending' });
+    expect((await web.nextOfType(MessageType.JOIN_APPROVAL)).status).toBe('pending');
+
+    cli.send({ type: MessageType.JOIN_APPROVAL, connectionId: webConnected.connectionId, status: 'rejected' });
+    expect((await web.nextOfType(MessageType.JOIN_APPROVAL)).status).toBe('rejected');
+    expect((await storage.sessions.get('APR234'))?.webConnectionIds).toEqual([]);
+
+    web.send({ version: 1, sessionId: 'APR234', nonce: 'n', ciphertext: 'c', timestamp: Date.now() });
+    expect((await web.nextOfType(MessageType.ERROR)).code).toBe('CONNECTION_FAILED');
+
+    await web.close();
+    await cli.close();
+  });
+
+  it('should only accept join approvals from the CLI', async () => {
+    const cli = await createSession('APR345', new E2ECrypto());
+
+    const web = await TestClient.connect(server.url);
+    web.send({ type: MessageType.SESSION_JOIN, sessionId: 'APR345', publicKey: new E2ECrypto().getPublicKey() });
+    const { connectionId } = await cli.nextOfType(MessageType.WEB_CONNECTED);
+
+    web.send({ type: MessageType.JOIN_APPROVAL, connectionId, status: 'approved' });
+    expect((await web.nextOfType(MessageType.ERROR)).code).toBe('UNAUTHORIZED');
+
+    await web.close();
+    await cli.close();
+  });
+
+  it('should reject envelopes for a different session', async () => {
+    const cliCrypto = new E2ECrypto();
+    const cli = await createSession('DEF345', cliCrypto);
+
+    cli.send({ version: 1, sessionId: 'OTHER1', nonce: 'n', ciphertext: 'c', timestamp: Date.now() });
+
+    const error = await cli.nextOfType(MessageType.ERROR);
+    expect(error.code).toBe('INVALID_MESSAGE');
+    await cli.close();
+  });
+
+  it('should notify web clients when the CLI disconnects and reconnects', async () => {
+    const cliCrypto = new E2ECrypto();
+    const cli = await createSession('GHJ456', cliCrypto);
+
+    const web = await TestClient.connect(server.url);
+    web.send({ type: MessageType.SESSION_JOIN, sessionId: 'GHJ456', publicKey: new E2ECrypto().getPublicKey() });
+    await web.nextOfType(MessageType.SESSION_JOINED);
+
+    await cli.close();
+    await web.nextOfType(MessageType.CLI_DISCONNECTED);
+
+    const cli2 = await TestClient.connect(server.url);
+    cli2.send({ type: MessageType.SESSION_RECONNECT, sessionId: 'GHJ456', publicKey: cliCrypto.getPublicKey() });
+    await cli2.nextOfType(MessageType.SESSION_RECONNECTED);
+    const reconnected = await web.nextOfType('cli:reconnected');
+    expect(reconnected.cliPublicKey).toBe(cliCrypto.getPublicKey());
+
+    await web.close();
+    await cli2.close();
+  });
+
+  it('should notify the CLI when a web client disconnects', async () => {
+    const cli = await createSession('JKL567', new E2ECrypto());
+
+    const web = await TestClient.connect(server.url);
+    web.send({ type: MessageType.SESSION_JOIN, sessionId: 'JKL567', publicKey: new E2ECrypto().getPublicKey() });
+    const connected = await cli.nextOfType(MessageType.WEB_CONNECTED);
+
+    await web.close();
+    const disconnected = await cli.nextOfType(MessageType.WEB_DISCONNECTED);
+    expect(disconnected.connectionId).toBe(connected.connectionId);
+
+    const session = await storage.sessions.get('JKL567');
+    expect(session?.webConnectionIds).toEqual([]);
+    await cli.close();
+  });
+
+  it('should only let the owner and invited users join a logged-in session', async () => {
+    await server.close();
+    server = await startStandaloneServer({
+      port: 0,
+      host: '127.0.0.1',
+      storage,
+      // Tokens double as user IDs; the relay matches invites against them too
+      authenticate: async (token) => token,
+    });
+    const join = async (token: string): Promise<Record<string, unknown>> => {
+      const web = await TestClient.connect(`${server.url}?token=${token}`);
+      web.send({ type: MessageType.SESSION_JOIN, sessionId: 'INV234', publicKey: new E2ECrypto().getPublicKey() });
+      const reply = await web.next((m) => m.type === MessageType.SESSION_JOINED || m.type === MessageType.ERROR);
+      await web.close();
+      return reply;
+    };
+
+    const cli = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    cli.send({ type: MessageType.SESSION_CREATE, sessionId: 'INV234', publicKey: new E2ECrypto().getPublicKey() });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+
+    expect((await join('owner@example.com')).type).toBe(MessageType.SESSION_JOINED);
+    const refused = await join('alex@example.com');
+    expect(refused).toMatchObject({ type: MessageType.ERROR, code: 'UNAUTHORIZED' });
+    expect(refused.message).toContain('invite');
+
+    // A stranger can't change the list; the CLI can
+    const stranger = await TestClient.connect(`${server.url}?token=alex@example.com`);
+    stranger.send({ type: MessageType.SESSION_INVITE, sessionId: 'INV234', add: ['alex@example.com'] });
+    expect(await stranger.nextOfType(MessageType.SESSION_INVITE_RESPONSE)).toMatchObject({ success: false });
+    await stranger.close();
+
+    cli.send({ type: MessageType.SESSION_INVITE, sessionId: 'INV234', add: [' Alex@Example.com', 'not-an-email'] });
+    expect(await cli.nextOfType(MessageType.SESSION_INVITE_RESPONSE)).toMatchObject({
+      success: false,
+      message: 'Invalid email: not-an-email',
+    });
+    cli.send({ type: MessageType.SESSION_INVITE, sessionId: 'INV234', add: [' Alex@Example.com'] });
+    expect(await cli.nextOfType(MessageType.SESSION_INVITE_RESPONSE)).toMatchObject({
+      success: true,
+      invitedUsers: ['alex@example.com'],
+    });
+    expect((await join('alex@example.com')).type).toBe(MessageType.SESSION_JOINED);
+
+    // The owner can uninvite from another connection
+    const owner = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    owner.send({ type: MessageType.SESSION_INVITE, sessionId: 'INV234', remove: ['alex@example.com'] });
+    expect(await owner.nextOfType(MessageType.SESSION_INVITE_RESPONSE)).toMatchObject({ success: true, invitedUsers: [] });
+    expect((await join('alex@example.com')).type).toBe(MessageType.ERROR);
+    await owner.close();
+    await cli.close();
+  });
+
+  it('should only let the owner reconnect as the CLI of a logged-in session', async () => {
+    await server.close();
+    server = await startStandaloneServer({ port: 0, host: '127.0.0.1', storage, authenticate: async (token) => token });
+    const cliCrypto = new E2ECrypto();
+    const cli = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    cli.send({ type: MessageType.SESSION_CREATE, sessionId: 'REC234', publicKey: cliCrypto.getPublicKey() });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+    await cli.close();
+    const { cliConnectionId } = (await storage.sessions.get('REC234'))!;
+
+    const stranger = await TestClient.connect(`${server.url}?token=alex@example.com`);
+    stranger.send({ type: MessageType.SESSION_RECONNECT, sessionId: 'REC234', publicKey: new E2ECrypto().getPublicKey() });
+    expect(await stranger.nextOfType(MessageType.ERROR)).toMatchObject({ code: 'UNAUTHORIZED' });
+    await stranger.close();
+    expect((await storage.sessions.get('REC234'))?.cliConnectionId).toBe(cliConnectionId);
+
+    const owner = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    owner.send({ type: MessageType.SESSION_RECONNECT, sessionId: 'REC234', publicKey: cliCrypto.getPublicKey() });
+    await owner.nextOfType(MessageType.SESSION_RECONNECTED);
+    await owner.close();
+  });
+
+  it('should refuse invites for sessions started without logging in', async () => {
+    const cli = await createSession('OPN234', new E2ECrypto());
+    cli.send({ type: MessageType.SESSION_INVITE, sessionId: 'OPN234', add: ['alex@example.com'] });
+
+    const response = await cli.nextOfType(MessageType.SESSION_INVITE_RESPONSE);
+    expect(response.success).toBe(false);
+    expect(response.message).toContain('without logging in');
+    await cli.close();
+  });
+
+  it('should deliver CLI notifications to the session owner\'s subscriptions', async () => {
+    await server.close();
+    server = await startStandaloneServer({ port: 0, host: '127.0.0.1', storage, authenticate: async (token) => token });
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const web = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    web.send({ type: MessageType.PUSH_KEY_REQUEST });
+    const key = await web.nextOfType(MessageType.PUSH_KEY_RESPONSE);
+    expect(typeof key.publicKey).toBe('string');
+    web.send({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'sub-1', endpoint: 'https://fcm.googleapis.com/fcm/send/abc' });
+    expect(await web.nextOfType(MessageType.PUSH_SUBSCRIBE_RESPONSE)).toMatchObject({ success: true });
+
+    const cli = await TestClient.connect(`${server.url}?token=owner@example.com`);
+    cli.send({ type: MessageType.SESSION_CREATE, sessionId: 'PSH234', publicKey: new E2ECrypto().getPublicKey() });
+    await cli.nextOfType(MessageType.SESSION_CREATED);
+    cli.send({
+      type: MessageType.PUSH_SEND,
+      notifications: [
+        { subscriptionId: 'sub-1', payload: 'AAAA' },
+        { subscriptionId: 'sub-2', payload: 'AAAA' },
+      ],
+    });
+
+    expect(await cli.nextOfType(MessageType.PUSH_SEND_RESPONSE)).toEqual({
+      type: MessageType.PUSH_SEND_RESPONSE,
+      expired: ['sub-2'],
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://fcm.googleapis.com/fcm/send/abc', expect.objectContaining({ method: 'POST' }));
+
+    // Browsers can't send notifications, and anonymous users can't subscribe
+    web.send({ type: MessageType.PUSH_SEND, notifications: [] });
+    expect(await web.nextOfType(MessageType.ERROR)).toMatchObject({ code: 'UNAUTHORIZED' });
+    const anonymous = await TestClient.connect(`${server.url}?token=anonymous`);
+    anonymous.send({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'sub-3', endpoint: 'https://fcm.googleapis.com/fcm/send/def' });
+    expect(await anonymous.nextOfType(MessageType.PUSH_SUBSCRIBE_RESPONSE)).toMatchObject({ success: false });
+
+    // Malformed requests are told what is wrong
+    web.send({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'sub-4' });
+    expect(await web.nextOfType(MessageType.PUSH_SUBSCRIBE_RESPONSE)).toMatchObject({
+      subscriptionId: 'sub-4',
+      success: false,
+      message: 'Push subscription has no endpoint',
+    });
+    web.send({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'x'.repeat(65), endpoint: 'https://fcm.googleapis.com/fcm/send/ghi' });
+    expect(await web.nextOfType(MessageType.ERROR)).toMatchObject({ code: 'INVALID_MESSAGE' });
+    web.send({ type: MessageType.PUSH_UNSUBSCRIBE, subscriptionId: 42 });
+    expect(await web.nextOfType(MessageType.ERROR)).toMatchObject({ code: 'INVALID_MESSAGE' });
+
+    vi.unstubAllGlobals();
+    await anonymous.close();
+    await web.close();
+    await cli.close();
+  });
+
+  it('should reject connections the authenticate hook refuses', async () => {
+    await server.close();
+    server = await startStandaloneServer({
+      port: 0,
+      host: '127.0.0.1',
+      storage,
+      authenticate: async (token) => (token === 'secret' ? 'user-1' : null),
+    });
+
+    await expect(TestClient.connect(server.url)).rejects.toThrow();
+
+    const client = await TestClient.connect(`${server.url}?token=secret`);
+    client.send({ type: MessageType.SESSION_LIST_REQUEST });
+    const response = await client.nextOfType(MessageType.SESSION_LIST_RESPONSE);
+    expect(response.sessions).toEqual([]);
+    await client.close();
+  });
+});
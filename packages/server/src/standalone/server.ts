@@ -0,0 +1,184 @@
+import { createServer, type IncomingMessage } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { processMessage } from '../handlers/message.js';
+import { processDisconnect } from '../handlers/disconnect.js';
+import { initializeTransport } from '../services/relay.js';
+import { initializeStorage, createMemoryStorage, type StorageBackend } from '../storage/index.js';
+
+/**
+ * Standalone server options
+ */
+export interface StandaloneServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  host?: string;
+  /** Storage backend (default: in-memory) */
+  storage?: StorageBackend;
+  /** Public WebSocket URL reported to clients (default: ws://host:port) */
+  publicUrl?: string;
+  /** Maximum incoming frame size in bytes */
+  maxPayload?: number;
+  /**
+   * Resolve the ?token= query parameter to a user ID.
+   * Return null to reject the connection. Default: everyone is 'anonymous'.
+   */
+  authenticate?: (token: string | null) => Promise<string | null>;
+}
+
+/**
+ * Running standalone server
+ */
+export interface StandaloneServer {
+  port: number;
+  url: string;
+  close(): Promise<void>;
+}
+
+const DEFAULT_MAX_PAYLOAD = 1024 * 1024; // 1MB
+
+/**
+ * Start a self-hosted relay server
+ *
+ * Runs the same message routing as the Lambda handlers over a plain ws
+ * server, replacing API Gateway (transport) and DynamoDB (storage).
+ * Only one server per process is supported since the relay transport and
+ * storage are module-level.
+ */
+export async function startStandaloneServer(
+  options: StandaloneServerOptions = {}
+): Promise<StandaloneServer> {
+  const host = options.host || '0.0.0.0';
+  const ownsStorage = !options.storage;
+  const storage = options.storage || createMemoryStorage();
+  const authenticate = options.authenticate || (async () => 'anonymous');
+
+  const sockets = new Map<string, WebSocket>();
+  const pending = new Set<Promise<void>>();
+  const userIds = new WeakMap<IncomingMessage, string>();
+
+  initializeStorage(storage);
+  initializeTransport({
+    post(connectionId, data) {
+      const socket = sockets.get(connectionId);
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        return Promise.resolve(false);
+      }
+      return new Promise((resolve) => {
+        socket.send(data, (error) => resolve(!error));
+      });
+    },
+    postBinary(connectionId, data) {
+      const socket = sockets.get(connectionId);
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        return Promise.resolve(false);
+      }
+      return new Promise((resolve) => {
+        socket.send(data, { binary: true }, (error) => resolve(!error));
+      });
+    },
+  });
+
+  const httpServer = createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('OK');
+      return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket connections only');
+  });
+
+  const wss = new WebSocketServer({
+    server: httpServer,
+    maxPayload: options.maxPayload || DEFAULT_MAX_PAYLOAD,
+    verifyClient: (info, callback) => {
+      const token = new URL(info.req.url || '/', 'http://localhost').searchParams.get('token');
+      authenticate(token)
+        .then((userId) => {
+          if (!userId) {
+            callback(false, 401, 'Unauthorized');
+            return;
+          }
+          userIds.set(info.req, userId);
+          callback(true);
+        })
+        .catch((error) => {
+          console.error('Authentication failed:', error);
+          callback(false, 401, 'Unauthorized');
+        });
+    },
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 8080, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port ?? 8080;
+  const url = options.publicUrl || `ws://${host === '0.0.0.0' ? 'localhost' : host}:${port}`;
+
+  wss.on('connection', (socket, req) => {
+    const connectionId = randomUUID();
+    const userId = userIds.get(req) || 'anonymous';
+    const userAgent = req.headers['user-agent'];
+    sockets.set(connectionId, socket);
+
+    console.log('WebSocket connected:', { connectionId, userId });
+
+    // Process each connection's messages in order, like a single Lambda stream
+    let queue: Promise<void> = Promise.resolve();
+    const enqueue = (task: () => Promise<unknown>) => {
+      queue = queue
+        .then(task)
+        .then(
+          () => undefined,
+          (error) => console.error('Error processing message:', error)
+        );
+      const tracked = queue;
+      pending.add(tracked);
+      tracked.finally(() => pending.delete(tracked));
+    };
+
+    socket.on('message', (data, isBinary) => {
+      // Binary frames carry version 2 envelopes, decoded by processMessage
+      const body = isBinary ? toBytes(data) : data.toString();
+      enqueue(() => processMessage(connectionId, body, { userId, userAgent, wsEndpoint: url }));
+    });
+
+    socket.on('close', () => {
+      sockets.delete(connectionId);
+      console.log('WebSocket disconnected:', { connectionId });
+      enqueue(() => processDisconnect(connectionId));
+    });
+
+    socket.on('error', (error) => {
+      console.error('WebSocket error:', { connectionId, error: error.message });
+    });
+  });
+
+  return {
+    port,
+    url,
+    async close() {
+      for (const socket of sockets.values()) {
+        socket.terminate();
+      }
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await Promise.all(pending);
+      if (ownsStorage) {
+        await storage.close?.();
+      }
+    },
+  };
+}
+
+function toBytes(data: Buffer | ArrayBuffer | Buffer[]): Uint8Array {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
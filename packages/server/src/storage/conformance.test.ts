@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { randomUUID } from 'crypto';
+import {
+  DynamoDBClient,
+  CreateTableCommand,
+  DeleteTableCommand,
+  waitUntilTableExists,
+} from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SessionStatus, type Session } from '@always-coder/shared';
+import { createMemoryStorage } from './memory.js';
+import { createSqliteStorage } from './sqlite.js';
+import { createDynamoDBStorage, type DynamoDBTables } from './dynamodb.js';
+import type { StorageBackend } from './types.js';
+
+/**
+ * Behaviour every storage backend must share.
+ *
+ * Keys are randomized per test so backends that cannot be reset cheaply
+ * (DynamoDB Local) can reuse one set of tables.
+ */
+function describeStorageConformance(
+  name: string,
+  createStorage: () => Promise<StorageBackend>
+) {
+  describe(`${name} storage conformance`, () => {
+    let storage: StorageBackend;
+    let sessionId: string;
+    let userId: string;
+
+    const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+    function newSession(overrides: Partial<Session> = {}): Omit<Session, 'ttl'> {
+      return {
+        sessionId,
+        cliConnectionId: 'conn-cli',
+        cliPublicKey: 'cli-public-key',
+        webConnectionIds: [],
+        status: SessionStatus.PENDING,
+        createdAt: Date.now(),
+        lastActiveAt: Date.now(),
+        userId,
+        ...overrides,
+      };
+    }
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      sessionId = `S-${randomUUID()}`;
+      userId = `U-${randomUUID()}`;
+    });
+
+    afterEach(async () => {
+      await storage.close?.();
+    });
+
+    describe('connections', () => {
+      it('should store a connection with a future ttl', async () => {
+        await storage.connections.create({
+          connectionId: `${sessionId}-cli`,
+          sessionId,
+          role: 'cli',
+          publicKey: 'pubkey',
+          connectedAt: 1000,
+          userId,
+        });
+
+        const connection = await storage.connections.get(`${sessionId}-cli`);
+        expect(connection).toMatchObject({
+          connectionId: `${sessionId}-cli`,
+          sessionId,
+          role: 'cli',
+          publicKey: 'pubkey',
+          connectedAt: 1000,
+          userId,
+        });
+        expect(connection!.ttl).toBeGreaterThan(nowSeconds());
+      });
+
+      it('should return null for unknown connections', async () => {
+        expect(await storage.connections.get(`${sessionId}-missing`)).toBeNull();
+      });
+
+      it('should delete connections', async () => {
+        await storage.connections.create({
+          connectionId: `${sessionId}-web`,
+          sessionId,
+          role: 'web',
+          connectedAt: 1000,
+        });
+
+        await storage.connections.delete(`${sessionId}-web`);
+        await storage.connections.delete(`${sessionId}-never-existed`);
+
+        expect(await storage.connections.get(`${sessionId}-web`)).toBeNull();
+      });
+
+      it('should list only the connections of a session', async () => {
+        const otherSessionId = `${sessionId}-other`;
+        await storage.connections.create({ connectionId: `${sessionId}-a`, sessionId, role: 'cli', connectedAt: 1 });
+        await storage.connections.create({ connectionId: `${sessionId}-b`, sessionId, role: 'web', connectedAt: 2 });
+        await storage.connections.create({
+          connectionId: `${sessionId}-c`,
+          sessionId: otherSessionId,
+          role: 'web',
+          connectedAt: 3,
+        });
+
+        const connections = await storage.connections.listBySession(sessionId);
+        expect(connections.map((c) => c.connectionId).sort()).toEqual([`${sessionId}-a`, `${sessionId}-b`]);
+        expect(await storage.connections.listBySession(`${sessionId}-empty`)).toEqual([]);
+      });
+    });
+
+    describe('sessions', () => {
+      it('should store a session with a future ttl', async () => {
+        await storage.sessions.create(newSession({ instanceLabel: 'laptop', commandArgs: ['--verbose'] }));
+
+        const session = await storage.sessions.get(sessionId);
+        expect(session).toMatchObject({
+          sessionId,
+          cliConnectionId: 'conn-cli',
+          webConnectionIds: [],
+          status: SessionStatus.PENDING,
+          instanceLabel: 'laptop',
+          commandArgs: ['--verbose'],
+        });
+        expect(session!.ttl).toBeGreaterThan(nowSeconds());
+      });
+
+      it('should return null for unknown sessions', async () => {
+        expect(await storage.sessions.get(sessionId)).toBeNull();
+      });
+
+      it('should merge defined fields on update and refresh lastActiveAt', async () => {
+        await storage.sessions.create(newSession({ lastActiveAt: 1000, hostname: 'box' }));
+
+        const updated = await storage.sessions.update(sessionId, {
+          status: SessionStatus.ACTIVE,
+          hostname: undefined,
+        });
+
+        expect(updated?.status).toBe(SessionStatus.ACTIVE);
+        expect(updated?.hostname).toBe('box');
+        expect(updated?.lastActiveAt).toBeGreaterThan(1000);
+        expect(await storage.sessions.get(sessionId)).toEqual(updated);
+      });
+
+      it('should keep an explicit lastActiveAt on update', async () => {
+        await storage.sessions.create(newSession());
+
+        const updated = await storage.sessions.update(sessionId, { lastActiveAt: 42 });
+        expect(updated?.lastActiveAt).toBe(42);
+      });
+
+      it('should not create sessions on update', async () => {
+        expect(await storage.sessions.update(sessionId, { status: SessionStatus.ACTIVE })).toBeNull();
+        expect(await storage.sessions.addWebConnection(sessionId, 'web-1')).toBeNull();
+        expect(await storage.sessions.removeWebConnection(sessionId, 'web-1')).toBeNull();
+        expect(await storage.sessions.get(sessionId)).toBeNull();
+      });
+
+      it('should add and remove web connections in order', async () => {
+        await storage.sessions.create(newSession());
+
+        await storage.sessions.addWebConnection(sessionId, 'web-1');
+        await storage.sessions.addWebConnection(sessionId, 'web-2');
+        const added = await storage.sessions.addWebConnection(sessionId, 'web-3');
+        expect(added?.webConnectionIds).toEqual(['web-1', 'web-2', 'web-3']);
+
+        const removed = await storage.sessions.removeWebConnection(sessionId, 'web-2');
+        expect(removed?.webConnectionIds).toEqual(['web-1', 'web-3']);
+        expect((await storage.sessions.get(sessionId))?.webConnectionIds).toEqual(['web-1', 'web-3']);
+      });
+
+      it('should return the session unchanged when removing an unknown web connection', async () => {
+        await storage.sessions.create(newSession({ webConnectionIds: ['web-1'] }));
+
+        const session = await storage.sessions.removeWebConnection(sessionId, 'web-9');
+        expect(session?.webConnectionIds).toEqual(['web-1']);
+      });
+
+      it('should delete sessions', async () => {
+        await storage.sessions.create(newSession());
+
+        await storage.sessions.delete(sessionId);
+
+        expect(await storage.sessions.get(sessionId)).toBeNull();
+      });
+
+      it('should list user sessions most recent first, hiding closed ones by default', async () => {
+        await storage.sessions.create(newSession({ sessionId: `${sessionId}-old`, createdAt: 1000 }));
+        await storage.sessions.create(newSession({ sessionId: `${sessionId}-new`, createdAt: 3000 }));
+        await storage.sessions.create(
+          newSession({ sessionId: `${sessionId}-closed`, createdAt: 2000, status: SessionStatus.CLOSED })
+        );
+        await storage.sessions.create(
+          newSession({ sessionId: `${sessionId}-stranger`, userId: `${userId}-other` })
+        );
+
+        const active = await storage.sessions.listByUser(userId);
+        expect(active.map((s) => s.sessionId)).toEqual([`${sessionId}-new`, `${sessionId}-old`]);
+
+        const all = await storage.sessions.listByUser(userId, true);
+        expect(all.map((s) => s.sessionId)).toEqual([
+          `${sessionId}-new`,
+          `${sessionId}-closed`,
+          `${sessionId}-old`,
+        ]);
+      });
+    });
+
+    describe('message cache', () => {
+      it('should return cached messages in ascending seq order', async () => {
+        for (const seq of [30, 10, 20]) {
+          await storage.messages.append({ sessionId, seq, encryptedData: `data-${seq}`, timestamp: seq });
+        }
+        await storage.messages.append({
+          sessionId: `${sessionId}-other`,
+          seq: 5,
+          encryptedData: 'other',
+          timestamp: 5,
+        });
+
+        const messages = await storage.messages.getRecent(sessionId);
+        expect(messages.map((m) => m.encryptedData)).toEqual(['data-10', 'data-20', 'data-30']);
+        expect(messages[0].ttl).toBeGreaterThan(nowSeconds());
+      });
+
+      it('should honour the limit', async () => {
+        for (const seq of [1, 2, 3]) {
+          await storage.messages.append({ sessionId, seq, encryptedData: `data-${seq}`, timestamp: seq });
+        }
+
+        expect(await storage.messages.getRecent(sessionId, 2)).toHaveLength(2);
+      });
+
+      it('should replace a message with the same seq', async () => {
+        await storage.messages.append({ sessionId, seq: 1, encryptedData: 'first', timestamp: 1 });
+        await storage.messages.append({ sessionId, seq: 1, encryptedData: 'second', timestamp: 1 });
+
+        const messages = await storage.messages.getRecent(sessionId);
+        expect(messages.map((m) => m.encryptedData)).toEqual(['second']);
+      });
+
+      it('should return an empty list for sessions without messages', async () => {
+        expect(await storage.messages.getRecent(sessionId)).toEqual([]);
+      });
+    });
+
+    describe('push', () => {
+      const keys = (publicKey: string) => ({ userId, publicKey, privateKey: `${publicKey}-private`, createdAt: 1000 });
+
+      it('should keep the first VAPID keys created for a user', async () => {
+        expect(await storage.push.getVapidKeys(userId)).toBeNull();
+
+        expect(await storage.push.createVapidKeys(keys('first'))).toEqual(keys('first'));
+        expect(await storage.push.createVapidKeys(keys('second'))).toEqual(keys('first'));
+        expect(await storage.push.getVapidKeys(userId)).toEqual(keys('first'));
+      });
+
+      it('should store, replace and delete subscriptions per user', async () => {
+        const subscription = { userId, subscriptionId: 'sub-1', endpoint: 'https://push.example.com/a', createdAt: 1000 };
+        await storage.push.putSubscription(subscription);
+        await storage.push.putSubscription({ ...subscription, endpoint: 'https://push.example.com/b' });
+
+        expect(await storage.push.getSubscription(userId, 'sub-1')).toEqual({
+          ...subscription,
+          endpoint: 'https://push.example.com/b',
+        });
+        expect(await storage.push.getSubscription(`${userId}-other`, 'sub-1')).toBeNull();
+
+        await storage.push.deleteSubscription(userId, 'sub-1');
+        expect(await storage.push.getSubscription(userId, 'sub-1')).toBeNull();
+      });
+    });
+  });
+}
+
+describeStorageConformance('memory', async () => createMemoryStorage());
+
+describeStorageConformance('sqlite', () => createSqliteStorage(':memory:'));
+
+// Runs against DynamoDB Local, e.g.:
+//   docker run -p 8000:8000 amazon/dynamodb-local
+//   DYNAMODB_ENDPOINT=http://localhost:8000 pnpm --filter @always-coder/server test
+const dynamoEndpoint = process.env.DYNAMODB_ENDPOINT;
+const dynamoTables: DynamoDBTables = {
+  connections: `conformance-connections-${randomUUID()}`,
+  sessions: `conformance-sessions-${randomUUID()}`,
+  messages: `conformance-messages-${randomUUID()}`,
+  pushKeys: `conformance-push-keys-${randomUUID()}`,
+  pushSubscriptions: `conformance-push-subscriptions-${randomUUID()}`,
+};
+let dynamoClient: DynamoDBClient | undefined;
+
+describe.skipIf(!dynamoEndpoint)('DynamoDB Local tables', () => {
+  beforeAll(async () => {
+    dynamoClient = new DynamoDBClient({
+      endpoint: dynamoEndpoint,
+      region: 'local',
+      credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+    });
+
+    // Same key schema as infra/lib/database-stack.ts
+    const definitions = [
+      new CreateTableCommand({
+        TableName: dynamoTables.connections,
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [{ AttributeName: 'connectionId', KeyType: 'HASH' }],
+        AttributeDefinitions: [
+          { AttributeName: 'connectionId', AttributeType: 'S' },
+          { AttributeName: 'sessionId', AttributeType: 'S' },
+        ],
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: 'sessionId-index',
+            KeySchema: [{ AttributeName: 'sessionId', KeyType: 'HASH' }],
+            Projection: { ProjectionType: 'ALL' },
+          },
+        ],
+      }),
+      new CreateTableCommand({
+        TableName: dynamoTables.sessions,
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [{ AttributeName: 'sessionId', KeyType: 'HASH' }],
+        AttributeDefinitions: [
+          { AttributeName: 'sessionId', AttributeType: 'S' },
+          { AttributeName: 'userId', AttributeType: 'S' },
+          { AttributeName: 'createdAt', AttributeType: 'N' },
+        ],
+        GlobalSecondaryIndexes: [
+          {
+            IndexName: 'userId-index',
+            KeySchema: [
+              { AttributeName: 'userId', KeyType: 'HASH' },
+              { AttributeName: 'createdAt', KeyType: 'RANGE' },
+            ],
+            Projection: { ProjectionType: 'ALL' },
+          },
+        ],
+      }),
+      new CreateTableCommand({
+        TableName: dynamoTables.messages,
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          { AttributeName: 'sessionId', KeyType: 'HASH' },
+          { AttributeName: 'seq', KeyType: 'RANGE' },
+        ],
+        AttributeDefinitions: [
+          { AttributeName: 'sessionId', AttributeType: 'S' },
+          { AttributeName: 'seq', AttributeType: 'N' },
+        ],
+      }),
+      new CreateTableCommand({
+        TableName: dynamoTables.pushKeys,
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [{ AttributeName: 'userId', KeyType: 'HASH' }],
+        AttributeDefinitions: [{ AttributeName: 'userId', AttributeType: 'S' }],
+      }),
+      new CreateTableCommand({
+        TableName: dynamoTables.pushSubscriptions,
+        BillingMode: 'PAY_PER_REQUEST',
+        KeySchema: [
+          { AttributeName: 'userId', KeyType: 'HASH' },
+          { AttributeName: 'subscriptionId', KeyType: 'RANGE' },
+        ],
+        AttributeDefinitions: [
+          { AttributeName: 'userId', AttributeType: 'S' },
+          { AttributeName: 'subscriptionId', AttributeType: 'S' },
+        ],
+      }),
+    ];
+
+    for (const command of definitions) {
+      await dynamoClient.send(command);
+      await waitUntilTableExists(
+        { client: dynamoClient, maxWaitTime: 30 },
+        { TableName: command.input.TableName! }
+      );
+    }
+  });
+
+  afterAll(async () => {
+    for (const table of Object.values(dynamoTables)) {
+      await dynamoClient?.send(new DeleteTableCommand({ TableName: table }));
+    }
+    dynamoClient?.destroy();
+  });
+
+  describeStorageConformance('DynamoDB', async () =>
+    createDynamoDBStorage({
+      client: DynamoDBDocumentClient.from(dynamoClient!, {
+        marshallOptions: { removeUndefinedValues: true },
+      }),
+      tables: dynamoTables,
+    })
+  );
+});
@@ -0,0 +1,392 @@
+import { DynamoDBClient, ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  UpdateCommand,
+  QueryCommand,
+  type GetCommandInput,
+  type PutCommandInput,
+  type DeleteCommandInput,
+  type UpdateCommandInput,
+  type QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import type { Connection, Session, CachedMessage } from '@always-coder/shared';
+import { PROTOCOL } from '@always-coder/shared';
+import { getTTL } from '../utils/ttl.js';
+import type {
+  ConnectionStore,
+  SessionStore,
+  MessageCache,
+  PushStore,
+  VapidKeys,
+  PushSubscriptionRecord,
+  StorageBackend,
+} from './types.js';
+
+/**
+ * DynamoDB table names
+ */
+export interface DynamoDBTables {
+  connections: string;
+  sessions: string;
+  messages: string;
+  pushKeys: string;
+  pushSubscriptions: string;
+}
+
+/**
+ * DynamoDB storage options
+ */
+export interface DynamoDBStorageOptions {
+  /** Document client (default: one built from the Lambda environment) */
+  client?: DynamoDBDocumentClient;
+  /**
+   * Table names (default: CONNECTIONS_TABLE, SESSIONS_TABLE, MESSAGES_TABLE,
+   * PUSH_KEYS_TABLE, PUSH_SUBSCRIPTIONS_TABLE env)
+   */
+  tables?: Partial<DynamoDBTables>;
+}
+
+// Attempts for conditional list updates that race with other writers
+const MAX_UPDATE_ATTEMPTS = 3;
+
+function createDocumentClient(): DynamoDBDocumentClient {
+  return DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+    marshallOptions: {
+      removeUndefinedValues: true,
+    },
+  });
+}
+
+/**
+ * Run an update that is conditional on the item state; null if the condition failed
+ */
+async function sendConditionalUpdate(
+  docClient: DynamoDBDocumentClient,
+  input: UpdateCommandInput
+): Promise<Session | null> {
+  try {
+    const result = await docClient.send(new UpdateCommand(input));
+    return (result.Attributes as Session) || null;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// ==================== Connection Operations ====================
+
+function createConnectionStore(docClient: DynamoDBDocumentClient, table: string): ConnectionStore {
+  return {
+    async create(connection) {
+      const input: PutCommandInput = {
+        TableName: table,
+        Item: {
+          ...connection,
+          ttl: getTTL(),
+        },
+      };
+      await docClient.send(new PutCommand(input));
+    },
+
+    async get(connectionId) {
+      const input: GetCommandInput = {
+        TableName: table,
+        Key: { connectionId },
+      };
+      const result = await docClient.send(new GetCommand(input));
+      return (result.Item as Connection) || null;
+    },
+
+    async delete(connectionId) {
+      const input: DeleteCommandInput = {
+        TableName: table,
+        Key: { connectionId },
+      };
+      await docClient.send(new DeleteCommand(input));
+    },
+
+    async listBySession(sessionId) {
+      const input: QueryCommandInput = {
+        TableName: table,
+        IndexName: 'sessionId-index',
+        KeyConditionExpression: 'sessionId = :sid',
+        ExpressionAttributeValues: { ':sid': sessionId },
+      };
+      const result = await docClient.send(new QueryCommand(input));
+      return (result.Items as Connection[]) || [];
+    },
+  };
+}
+
+// ==================== Session Operations ====================
+
+function createSessionStore(docClient: DynamoDBDocumentClient, table: string): SessionStore {
+  async function getSession(sessionId: string): Promise<Session | null> {
+    const input: GetCommandInput = {
+      TableName: table,
+      Key: { sessionId },
+    };
+    const result = await docClient.send(new GetCommand(input));
+    return (result.Item as Session) || null;
+  }
+
+  return {
+    async create(session) {
+      const input: PutCommandInput = {
+        TableName: table,
+        Item: {
+          ...session,
+          ttl: getTTL(),
+        },
+      };
+      await docClient.send(new PutCommand(input));
+    },
+
+    get: getSession,
+
+    async update(sessionId, updates) {
+      const updateExpressions: string[] = [];
+      const expressionAttributeNames: Record<string, string> = {};
+      const expressionAttributeValues: Record<string, unknown> = {};
+
+      // Track which fields are being updated to avoid duplicates
+      const updatedFields = new Set<string>();
+
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined && key !== 'sessionId') {
+          const attrName = `#${key}`;
+          const attrValue = `:${key}`;
+          updateExpressions.push(`${attrName} = ${attrValue}`);
+          expressionAttributeNames[attrName] = key;
+          expressionAttributeValues[attrValue] = value;
+          updatedFields.add(key);
+        }
+      });
+
+      // Always update lastActiveAt and ttl (unless already provided in updates)
+      if (!updatedFields.has('lastActiveAt')) {
+        updateExpressions.push('#lastActiveAt = :lastActiveAt');
+        expressionAttributeNames['#lastActiveAt'] = 'lastActiveAt';
+        expressionAttributeValues[':lastActiveAt'] = Date.now();
+      }
+
+      if (!updatedFields.has('ttl')) {
+        updateExpressions.push('#ttl = :ttl');
+        expressionAttributeNames['#ttl'] = 'ttl';
+        expressionAttributeValues[':ttl'] = getTTL();
+      }
+
+      // UpdateItem upserts by default; never create a partial session
+      return sendConditionalUpdate(docClient, {
+        TableName: table,
+        Key: { sessionId },
+        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+        ConditionExpression: 'attribute_exists(sessionId)',
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ReturnValues: 'ALL_NEW',
+      });
+    },
+
+    async addWebConnection(sessionId, webConnectionId) {
+      return sendConditionalUpdate(docClient, {
+        TableName: table,
+        Key: { sessionId },
+        UpdateExpression:
+          'SET webConnectionIds = list_append(if_not_exists(webConnectionIds, :empty), :newConn), lastActiveAt = :now, #ttl = :ttl',
+        ConditionExpression: 'attribute_exists(sessionId)',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':newConn': [webConnectionId],
+          ':empty': [],
+          ':now': Date.now(),
+          ':ttl': getTTL(),
+        },
+        ReturnValues: 'ALL_NEW',
+      });
+    },
+
+    async removeWebConnection(sessionId, webConnectionId) {
+      // Lists can only be edited by index, so re-read if another writer moved it
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const session = await getSession(sessionId);
+        if (!session) return null;
+
+        const index = session.webConnectionIds.indexOf(webConnectionId);
+        if (index === -1) return session;
+
+        const updated = await sendConditionalUpdate(docClient, {
+          TableName: table,
+          Key: { sessionId },
+          UpdateExpression: `REMOVE webConnectionIds[${index}] SET lastActiveAt = :now, #ttl = :ttl`,
+          ConditionExpression: `webConnectionIds[${index}] = :conn`,
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: {
+            ':conn': webConnectionId,
+            ':now': Date.now(),
+            ':ttl': getTTL(),
+          },
+          ReturnValues: 'ALL_NEW',
+        });
+        if (updated) return updated;
+      }
+
+      throw new Error(`Failed to remove web connection ${webConnectionId} from ${sessionId}`);
+    },
+
+    async delete(sessionId) {
+      const input: DeleteCommandInput = {
+        TableName: table,
+        Key: { sessionId },
+      };
+      await docClient.send(new DeleteCommand(input));
+    },
+
+    /**
+     * Requires a GSI on userId
+     */
+    async listByUser(userId, includeInactive = false) {
+      const input: QueryCommandInput = {
+        TableName: table,
+        IndexName: 'userId-index',
+        KeyConditionExpression: 'userId = :uid',
+        ExpressionAttributeValues: { ':uid': userId },
+        ScanIndexForward: false, // Most recent first
+      };
+
+      // Filter out closed sessions unless includeInactive is true
+      if (!includeInactive) {
+        input.FilterExpression = '#status <> :closed';
+        input.ExpressionAttributeNames = { '#status': 'status' };
+        input.ExpressionAttributeValues![':closed'] = 'closed';
+      }
+
+      const result = await docClient.send(new QueryCommand(input));
+      return (result.Items as Session[]) || [];
+    },
+  };
+}
+
+// ==================== Message Cache Operations ====================
+
+function createMessageCache(docClient: DynamoDBDocumentClient, table: string): MessageCache {
+  return {
+    async append(message) {
+      const input: PutCommandInput = {
+        TableName: table,
+        Item: {
+          ...message,
+          ttl: getTTL(PROTOCOL.MESSAGE_CACHE_TTL),
+        },
+      };
+      await docClient.send(new PutCommand(input));
+    },
+
+    async getRecent(sessionId, limit = PROTOCOL.MAX_CACHED_MESSAGES) {
+      const input: QueryCommandInput = {
+        TableName: table,
+        KeyConditionExpression: 'sessionId = :sid',
+        ExpressionAttributeValues: { ':sid': sessionId },
+        ScanIndexForward: true, // Ascending order by seq
+        Limit: limit,
+      };
+
+      const result = await docClient.send(new QueryCommand(input));
+      return (result.Items as CachedMessage[]) || [];
+    },
+  };
+}
+
+// ==================== Push Operations ====================
+
+function createPushStore(
+  docClient: DynamoDBDocumentClient,
+  keysTable: string,
+  subscriptionsTable: string
+): PushStore {
+  async function getVapidKeys(userId: string): Promise<VapidKeys | null> {
+    const input: GetCommandInput = {
+      TableName: keysTable,
+      Key: { userId },
+    };
+    const result = await docClient.send(new GetCommand(input));
+    return (result.Item as VapidKeys) || null;
+  }
+
+  return {
+    getVapidKeys,
+
+    async createVapidKeys(keys) {
+      const input: PutCommandInput = {
+        TableName: keysTable,
+        Item: keys,
+        ConditionExpression: 'attribute_not_exists(userId)',
+      };
+      try {
+        await docClient.send(new PutCommand(input));
+        return keys;
+      } catch (error) {
+        // Another request created the user's keys first
+        if (error instanceof ConditionalCheckFailedException) {
+          return (await getVapidKeys(keys.userId))!;
+        }
+        throw error;
+      }
+    },
+
+    async putSubscription(subscription) {
+      const input: PutCommandInput = {
+        TableName: subscriptionsTable,
+        Item: subscription,
+      };
+      await docClient.send(new PutCommand(input));
+    },
+
+    async getSubscription(userId, subscriptionId) {
+      const input: GetCommandInput = {
+        TableName: subscriptionsTable,
+        Key: { userId, subscriptionId },
+      };
+      const result = await docClient.send(new GetCommand(input));
+      return (result.Item as PushSubscriptionRecord) || null;
+    },
+
+    async deleteSubscription(userId, subscriptionId) {
+      const input: DeleteCommandInput = {
+        TableName: subscriptionsTable,
+        Key: { userId, subscriptionId },
+      };
+      await docClient.send(new DeleteCommand(input));
+    },
+  };
+}
+
+/**
+ * DynamoDB storage backend (Lambda deployment)
+ */
+export function createDynamoDBStorage(options: DynamoDBStorageOptions = {}): StorageBackend {
+  const docClient = options.client || createDocumentClient();
+  const tables: DynamoDBTables = {
+    connections:
+      options.tables?.connections || process.env.CONNECTIONS_TABLE || 'always-coder-connections',
+    sessions: options.tables?.sessions || process.env.SESSIONS_TABLE || 'always-coder-sessions',
+    messages: options.tables?.messages || process.env.MESSAGES_TABLE || 'always-coder-messages',
+    pushKeys: options.tables?.pushKeys || process.env.PUSH_KEYS_TABLE || 'always-coder-push-keys',
+    pushSubscriptions:
+      options.tables?.pushSubscriptions ||
+      process.env.PUSH_SUBSCRIPTIONS_TABLE ||
+      'always-coder-push-subscriptions',
+  };
+
+  return {
+    connections: createConnectionStore(docClient, tables.connections),
+    sessions: createSessionStore(docClient, tables.sessions),
+    messages: createMessageCache(docClient, tables.messages),
+    push: createPushStore(docClient, tables.pushKeys, tables.pushSubscriptions),
+  };
+}
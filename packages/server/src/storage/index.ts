@@ -0,0 +1,37 @@
+import { createDynamoDBStorage } from './dynamodb.js';
+import type { StorageBackend } from './types.js';
+
+// DynamoDB is the default so the Lambda handlers need no setup; created lazily
+// so other backends never construct an AWS client
+let storage: StorageBackend | null = null;
+
+/**
+ * Replace the active storage backend
+ */
+export function initializeStorage(backend: StorageBackend): void {
+  storage = backend;
+}
+
+/**
+ * Get the active storage backend
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = createDynamoDBStorage();
+  }
+  return storage;
+}
+
+export type {
+  ConnectionStore,
+  SessionStore,
+  MessageCache,
+  PushStore,
+  VapidKeys,
+  PushSubscriptionRecord,
+  StorageBackend,
+} from './types.js';
+export { createDynamoDBStorage, type DynamoDBStorageOptions, type DynamoDBTables } from './dynamodb.js';
+export { createMemoryStorage } from './memory.js';
+// sqlite.js is imported directly by the standalone server so the Lambda
+// bundles never reference the native better-sqlite3 module
@@ -0,0 +1,198 @@
+import { PROTOCOL, SessionStatus, type Connection, type Session, type CachedMessage } from '@always-coder/shared';
+import { getTTL, isExpired } from '../utils/ttl.js';
+import type { StorageBackend, VapidKeys, PushSubscriptionRecord } from './types.js';
+
+function copySession(session: Session): Session {
+  return { ...session, webConnectionIds: [...session.webConnectionIds] };
+}
+
+/**
+ * In-memory storage backend
+ *
+ * Mirrors the DynamoDB table layout (including TTL expiry) so the standalone
+ * server behaves like the Lambda deployment. State is lost on restart.
+ */
+export function createMemoryStorage(): StorageBackend {
+  const connections = new Map<string, Connection>();
+  const sessions = new Map<string, Session>();
+  // sessionId -> (seq -> message), matching the messages table key schema
+  const messages = new Map<string, Map<number, CachedMessage>>();
+  const vapidKeys = new Map<string, VapidKeys>();
+  // userId -> (subscriptionId -> subscription)
+  const subscriptions = new Map<string, Map<string, PushSubscriptionRecord>>();
+
+  function liveConnection(connectionId: string): Connection | null {
+    const connection = connections.get(connectionId);
+    if (!connection) return null;
+    if (isExpired(connection.ttl)) {
+      connections.delete(connectionId);
+      return null;
+    }
+    return connection;
+  }
+
+  function liveSession(sessionId: string): Session | null {
+    const session = sessions.get(sessionId);
+    if (!session) return null;
+    if (isExpired(session.ttl)) {
+      sessions.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  function touch(session: Session, updates: Partial<Session>): Session {
+    const updated: Session = {
+      ...session,
+      lastActiveAt: Date.now(),
+      ttl: getTTL(),
+      ...updates,
+      sessionId: session.sessionId,
+    };
+    sessions.set(session.sessionId, updated);
+    return copySession(updated);
+  }
+
+  return {
+    connections: {
+      async create(connection) {
+        connections.set(connection.connectionId, { ...connection, ttl: getTTL() });
+      },
+
+      async get(connectionId) {
+        const connection = liveConnection(connectionId);
+        return connection ? { ...connection } : null;
+      },
+
+      async delete(connectionId) {
+        connections.delete(connectionId);
+      },
+
+      async listBySession(sessionId) {
+        return [...connections.keys()]
+          .map((id) => liveConnection(id))
+          .filter((c): c is Connection => c !== null && c.sessionId === sessionId)
+          .map((c) => ({ ...c }));
+      },
+    },
+
+    sessions: {
+      async create(session) {
+        sessions.set(session.sessionId, {
+          ...session,
+          webConnectionIds: [...session.webConnectionIds],
+          ttl: getTTL(),
+        });
+      },
+
+      async get(sessionId) {
+        const session = liveSession(sessionId);
+        return session ? copySession(session) : null;
+      },
+
+      async update(sessionId, updates) {
+        const session = liveSession(sessionId);
+        if (!session) return null;
+
+        const defined = Object.fromEntries(
+          Object.entries(updates).filter(([, value]) => value !== undefined)
+        ) as Partial<Session>;
+        return touch(session, defined);
+      },
+
+      async addWebConnection(sessionId, webConnectionId) {
+        const session = liveSession(sessionId);
+        if (!session) return null;
+        return touch(session, { webConnectionIds: [...session.webConnectionIds, webConnectionId] });
+      },
+
+      async removeWebConnection(sessionId, webConnectionId) {
+        const session = liveSession(sessionId);
+        if (!session) return null;
+
+        const index = session.webConnectionIds.indexOf(webConnectionId);
+        if (index === -1) return copySession(session);
+
+        const webConnectionIds = [...session.webConnectionIds];
+        webConnectionIds.splice(index, 1);
+        return touch(session, { webConnectionIds });
+      },
+
+      async delete(sessionId) {
+        sessions.delete(sessionId);
+      },
+
+      async listByUser(userId, includeInactive = false) {
+        return [...sessions.keys()]
+          .map((id) => liveSession(id))
+          .filter((s): s is Session => s !== null && s.userId === userId)
+          .filter((s) => includeInactive || s.status !== SessionStatus.CLOSED)
+          .sort((a, b) => b.createdAt - a.createdAt) // Most recent first
+          .map(copySession);
+      },
+    },
+
+    messages: {
+      async append(message) {
+        let sessionMessages = messages.get(message.sessionId);
+        if (!sessionMessages) {
+          sessionMessages = new Map();
+          messages.set(message.sessionId, sessionMessages);
+        }
+        sessionMessages.set(message.seq, { ...message, ttl: getTTL(PROTOCOL.MESSAGE_CACHE_TTL) });
+      },
+
+      async getRecent(sessionId, limit = PROTOCOL.MAX_CACHED_MESSAGES) {
+        const sessionMessages = messages.get(sessionId);
+        if (!sessionMessages) return [];
+
+        for (const [seq, message] of sessionMessages) {
+          if (isExpired(message.ttl)) sessionMessages.delete(seq);
+        }
+
+        return [...sessionMessages.values()]
+          .sort((a, b) => a.seq - b.seq) // Ascending order by seq
+          .slice(0, limit)
+          .map((m) => ({ ...m }));
+      },
+    },
+
+    push: {
+      async getVapidKeys(userId) {
+        const keys = vapidKeys.get(userId);
+        return keys ? { ...keys } : null;
+      },
+
+      async createVapidKeys(keys) {
+        if (!vapidKeys.has(keys.userId)) vapidKeys.set(keys.userId, { ...keys });
+        return { ...vapidKeys.get(keys.userId)! };
+      },
+
+      async putSubscription(subscription) {
+        let userSubscriptions = subscriptions.get(subscription.userId);
+        if (!userSubscriptions) {
+          userSubscriptions = new Map();
+          subscriptions.set(subscription.userId, userSubscriptions);
+        }
+        userSubscriptions.set(subscription.subscriptionId, { ...subscription });
+      },
+
+      async getSubscription(userId, subscriptionId) {
+        const subscription = subscriptions.get(userId)?.get(subscriptionId);
+        return subscription ? { ...subscription } : null;
+      },
+
+      async deleteSubscription(userId, subscriptionId) {
+        subscriptions.get(userId)?.delete(subscriptionId);
+      },
+    },
+
+    async close() {
+      connections.clear();
+      sessions.clear();
+      messages.clear();
+      vapidKeys.clear();
+      subscriptions.clear();
+    },
+  };
+}
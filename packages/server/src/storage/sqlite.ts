@@ -0,0 +1,280 @@
+import { PROTOCOL, SessionStatus, type Connection, type Session, type CachedMessage } from '@always-coder/shared';
+import { getTTL } from '../utils/ttl.js';
+import type { StorageBackend, VapidKeys, PushSubscriptionRecord } from './types.js';
+
+// How often expired rows are purged (DynamoDB TTL equivalent)
+const PURGE_INTERVAL = 5 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS connections (
+    connectionId TEXT PRIMARY KEY,
+    sessionId TEXT NOT NULL,
+    ttl INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS connections_session ON connections (sessionId);
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    sessionId TEXT PRIMARY KEY,
+    userId TEXT,
+    status TEXT NOT NULL,
+    createdAt INTEGER NOT NULL,
+    ttl INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_user ON sessions (userId, createdAt);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    sessionId TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    ttl INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (sessionId, seq)
+  );
+
+  CREATE TABLE IF NOT EXISTS push_keys (
+    userId TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS push_subscriptions (
+    userId TEXT NOT NULL,
+    subscriptionId TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (userId, subscriptionId)
+  );
+`;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * SQLite storage backend (single file, survives restarts)
+ *
+ * Uses the optional better-sqlite3 dependency, loaded on demand so the
+ * Lambda bundle never needs the native module.
+ *
+ * @param filename - Database file path, or ':memory:'
+ */
+export async function createSqliteStorage(filename: string): Promise<StorageBackend> {
+  let Database: typeof import('better-sqlite3');
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch {
+    throw new Error(
+      'SQLite storage requires the "better-sqlite3" package. Install it with: npm install better-sqlite3'
+    );
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const statements = {
+    putConnection: db.prepare(
+      'INSERT OR REPLACE INTO connections (connectionId, sessionId, ttl, data) VALUES (?, ?, ?, ?)'
+    ),
+    getConnection: db.prepare('SELECT data FROM connections WHERE connectionId = ? AND ttl >= ?'),
+    deleteConnection: db.prepare('DELETE FROM connections WHERE connectionId = ?'),
+    getConnectionsBySession: db.prepare(
+      'SELECT data FROM connections WHERE sessionId = ? AND ttl >= ?'
+    ),
+    putSession: db.prepare(
+      'INSERT OR REPLACE INTO sessions (sessionId, userId, status, createdAt, ttl, data) VALUES (?, ?, ?, ?, ?, ?)'
+    ),
+    getSession: db.prepare('SELECT data FROM sessions WHERE sessionId = ? AND ttl >= ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE sessionId = ?'),
+    getSessionsByUser: db.prepare(
+      'SELECT data FROM sessions WHERE userId = ? AND ttl >= ? ORDER BY createdAt DESC'
+    ),
+    putMessage: db.prepare(
+      'INSERT OR REPLACE INTO messages (sessionId, seq, ttl, data) VALUES (?, ?, ?, ?)'
+    ),
+    getMessages: db.prepare(
+      'SELECT data FROM messages WHERE sessionId = ? AND ttl >= ? ORDER BY seq ASC LIMIT ?'
+    ),
+    getVapidKeys: db.prepare('SELECT data FROM push_keys WHERE userId = ?'),
+    insertVapidKeys: db.prepare('INSERT OR IGNORE INTO push_keys (userId, data) VALUES (?, ?)'),
+    putSubscription: db.prepare(
+      'INSERT OR REPLACE INTO push_subscriptions (userId, subscriptionId, data) VALUES (?, ?, ?)'
+    ),
+    getSubscription: db.prepare(
+      'SELECT data FROM push_subscriptions WHERE userId = ? AND subscriptionId = ?'
+    ),
+    deleteSubscription: db.prepare(
+      'DELETE FROM push_subscriptions WHERE userId = ? AND subscriptionId = ?'
+    ),
+    purgeConnections: db.prepare('DELETE FROM connections WHERE ttl < ?'),
+    purgeSessions: db.prepare('DELETE FROM sessions WHERE ttl < ?'),
+    purgeMessages: db.prepare('DELETE FROM messages WHERE ttl < ?'),
+  };
+
+  function readSession(sessionId: string): Session | null {
+    const row = statements.getSession.get(sessionId, nowSeconds()) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Session) : null;
+  }
+
+  function writeSession(session: Session): void {
+    statements.putSession.run(
+      session.sessionId,
+      session.userId ?? null,
+      session.status,
+      session.createdAt,
+      session.ttl,
+      JSON.stringify(session)
+    );
+  }
+
+  // Read-modify-write in a transaction so concurrent relays cannot interleave
+  const modifySession = db.transaction(
+    (sessionId: string, modify: (session: Session) => Partial<Session>): Session | null => {
+      const session = readSession(sessionId);
+      if (!session) return null;
+
+      const updated: Session = {
+        ...session,
+        lastActiveAt: Date.now(),
+        ttl: getTTL(),
+        ...modify(session),
+        sessionId,
+      };
+      writeSession(updated);
+      return updated;
+    }
+  );
+
+  const purge = db.transaction(() => {
+    const now = nowSeconds();
+    statements.purgeConnections.run(now);
+    statements.purgeSessions.run(now);
+    statements.purgeMessages.run(now);
+  });
+
+  const purgeTimer = setInterval(() => purge(), PURGE_INTERVAL);
+  purgeTimer.unref();
+
+  return {
+    connections: {
+      async create(connection) {
+        const item: Connection = { ...connection, ttl: getTTL() };
+        statements.putConnection.run(item.connectionId, item.sessionId, item.ttl, JSON.stringify(item));
+      },
+
+      async get(connectionId) {
+        const row = statements.getConnection.get(connectionId, nowSeconds()) as
+          | { data: string }
+          | undefined;
+        return row ? (JSON.parse(row.data) as Connection) : null;
+      },
+
+      async delete(connectionId) {
+        statements.deleteConnection.run(connectionId);
+      },
+
+      async listBySession(sessionId) {
+        const rows = statements.getConnectionsBySession.all(sessionId, nowSeconds()) as {
+          data: string;
+        }[];
+        return rows.map((row) => JSON.parse(row.data) as Connection);
+      },
+    },
+
+    sessions: {
+      async create(session) {
+        writeSession({ ...session, ttl: getTTL() });
+      },
+
+      async get(sessionId) {
+        return readSession(sessionId);
+      },
+
+      async update(sessionId, updates) {
+        const defined = Object.fromEntries(
+          Object.entries(updates).filter(([, value]) => value !== undefined)
+        ) as Partial<Session>;
+        return modifySession(sessionId, () => defined);
+      },
+
+      async addWebConnection(sessionId, webConnectionId) {
+        return modifySession(sessionId, (session) => ({
+          webConnectionIds: [...session.webConnectionIds, webConnectionId],
+        }));
+      },
+
+      async removeWebConnection(sessionId, webConnectionId) {
+        const session = readSession(sessionId);
+        if (!session || !session.webConnectionIds.includes(webConnectionId)) return session;
+
+        return modifySession(sessionId, (current) => {
+          const webConnectionIds = [...current.webConnectionIds];
+          const index = webConnectionIds.indexOf(webConnectionId);
+          if (index !== -1) webConnectionIds.splice(index, 1);
+          return { webConnectionIds };
+        });
+      },
+
+      async delete(sessionId) {
+        statements.deleteSession.run(sessionId);
+      },
+
+      async listByUser(userId, includeInactive = false) {
+        const rows = statements.getSessionsByUser.all(userId, nowSeconds()) as { data: string }[];
+        return rows
+          .map((row) => JSON.parse(row.data) as Session)
+          .filter((session) => includeInactive || session.status !== SessionStatus.CLOSED);
+      },
+    },
+
+    messages: {
+      async append(message) {
+        const item: CachedMessage = { ...message, ttl: getTTL(PROTOCOL.MESSAGE_CACHE_TTL) };
+        statements.putMessage.run(item.sessionId, item.seq, item.ttl, JSON.stringify(item));
+      },
+
+      async getRecent(sessionId, limit = PROTOCOL.MAX_CACHED_MESSAGES) {
+        const rows = statements.getMessages.all(sessionId, nowSeconds(), limit) as {
+          data: string;
+        }[];
+        return rows.map((row) => JSON.parse(row.data) as CachedMessage);
+      },
+    },
+
+    push: {
+      async getVapidKeys(userId) {
+        const row = statements.getVapidKeys.get(userId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as VapidKeys) : null;
+      },
+
+      async createVapidKeys(keys) {
+        statements.insertVapidKeys.run(keys.userId, JSON.stringify(keys));
+        const row = statements.getVapidKeys.get(keys.userId) as { data: string };
+        return JSON.parse(row.data) as VapidKeys;
+      },
+
+      async putSubscription(subscription) {
+        statements.putSubscription.run(
+          subscription.userId,
+          subscription.subscriptionId,
+          JSON.stringify(subscription)
+        );
+      },
+
+      async getSubscription(userId, subscriptionId) {
+        const row = statements.getSubscription.get(userId, subscriptionId) as
+          | { data: string }
+          | undefined;
+        return row ? (JSON.parse(row.data) as PushSubscriptionRecord) : null;
+      },
+
+      async deleteSubscription(userId, subscriptionId) {
+        statements.deleteSubscription.run(userId, subscriptionId);
+      },
+    },
+
+    async close() {
+      clearInterval(purgeTimer);
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { Connection, Session, CachedMessage } from '@always-coder/shared';
+
+/**
+ * WebSocket connection records (connections table)
+ */
+export interface ConnectionStore {
+  /** Store a connection; the store assigns the ttl */
+  create(connection: Omit<Connection, 'ttl'>): Promise<void>;
+  get(connectionId: string): Promise<Connection | null>;
+  delete(connectionId: string): Promise<void>;
+  listBySession(sessionId: string): Promise<Connection[]>;
+}
+
+/**
+ * Session records (sessions table)
+ *
+ * Every mutation refreshes lastActiveAt and ttl unless the caller sets them.
+ * Mutations of a session that does not exist return null and create nothing.
+ */
+export interface SessionStore {
+  /** Store a session; the store assigns the ttl */
+  create(session: Omit<Session, 'ttl'>): Promise<void>;
+  get(sessionId: string): Promise<Session | null>;
+  /** Apply the defined fields of `updates` and return the updated session */
+  update(sessionId: string, updates: Partial<Session>): Promise<Session | null>;
+  addWebConnection(sessionId: string, webConnectionId: string): Promise<Session | null>;
+  /** Remove a web connection; returns the session unchanged if it was not listed */
+  removeWebConnection(sessionId: string, webConnectionId: string): Promise<Session | null>;
+  delete(sessionId: string): Promise<void>;
+  /** Sessions owned by a user, most recent first, closed ones only if requested */
+  listByUser(userId: string, includeInactive?: boolean): Promise<Session[]>;
+}
+
+/**
+ * Encrypted CLI -> Web messages kept for late-joining web clients (messages table)
+ * Only envelopes without a recipientId are kept, which legacy CLIs send.
+ */
+export interface MessageCache {
+  /** Store a message; the cache assigns the ttl */
+  append(message: Omit<CachedMessage, 'ttl'>): Promise<void>;
+  /** Cached messages for a session in ascending seq order */
+  getRecent(sessionId: string, limit?: number): Promise<CachedMessage[]>;
+}
+
+/**
+ * A user's VAPID key pair, which signs their push requests
+ * Base64url: the public key is the uncompressed P-256 point, the private key the scalar.
+ */
+export interface VapidKeys {
+  userId: string;
+  publicKey: string;
+  privateKey: string;
+  createdAt: number;
+}
+
+/**
+ * Where to deliver a user's notifications (one browser)
+ * The subscription's encryption keys stay between the browser and the CLI.
+ */
+export interface PushSubscriptionRecord {
+  userId: string;
+  subscriptionId: string;
+  endpoint: string;
+  createdAt: number;
+}
+
+/**
+ * Web Push keys and subscriptions, per user (push keys and push subscriptions tables)
+ * Neither expires: subscriptions are removed when the push service reports them gone.
+ */
+export interface PushStore {
+  getVapidKeys(userId: string): Promise<VapidKeys | null>;
+  /** Store a user's keys unless they already have some; returns the keys in use */
+  createVapidKeys(keys: VapidKeys): Promise<VapidKeys>;
+  /** Store or replace a subscription */
+  putSubscription(subscription: PushSubscriptionRecord): Promise<void>;
+  getSubscription(userId: string, subscriptionId: string): Promise<PushSubscriptionRecord | null>;
+  deleteSubscription(userId: string, subscriptionId: string): Promise<void>;
+}
+
+/**
+ * Persistence used by the relay services.
+ *
+ * The Lambda deployment uses DynamoDB; the standalone server can use the
+ * in-memory or SQLite backends. All backends must pass conformance.test.ts.
+ */
+export interface StorageBackend {
+  connections: ConnectionStore;
+  sessions: SessionStore;
+  messages: MessageCache;
+  push: PushStore;
+  /** Release resources (database handles, timers) */
+  close?(): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { PROTOCOL } from '@always-coder/shared';
+
+/**
+ * Calculate TTL timestamp (epoch seconds, DynamoDB TTL format)
+ */
+export function getTTL(seconds: number = PROTOCOL.SESSION_TTL): number {
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+/**
+ * Check whether a TTL timestamp has passed
+ *
+ * DynamoDB deletes expired items lazily, but the non-DynamoDB backends
+ * treat them as gone immediately.
+ */
+export function isExpired(ttl: number): boolean {
+  return ttl > 0 && ttl < Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'fflate';
+import {
+  SUPPORTED_COMPRESSION,
+  negotiateCompression,
+  compressPayload,
+  decompressPayload,
+} from './compression.js';
+import { createPair } from './test-utils.js';
+import { MessageType } from '../types/message.js';
+import { createMessage } from '../protocol/messages.js';
+
+const encoder = new TextEncoder();
+
+describe('negotiateCompression', () => {
+  it('should pick a codec both sides support', () => {
+    expect(negotiateCompression(['zstd', 'deflate'])).toBe('deflate');
+    expect(negotiateCompression([...SUPPORTED_COMPRESSION])).toBe('deflate');
+  });
+
+  it('should fall back to no compression', () => {
+    expect(negotiateCompression(undefined)).toBeUndefined();
+    expect(negotiateCompression([])).toBeUndefined();
+    expect(negotiateCompression(['zstd'])).toBeUndefined();
+    expect(negotiateCompression('deflate')).toBeUndefined();
+  });
+});
+
+describe('compressPayload', () => {
+  it('should compress repetitive output and restore it', () => {
+    const data = encoder.encode('\x1b[32mPASS\x1b[0m src/session/manager.test.ts\r\n'.repeat(500));
+
+    const compressed = compressPayload(data, 'deflate');
+
+    expect(compressed.length).toBeLessThan(data.length / 10);
+    expect(decompressPayload(compressed)).toEqual(data);
+  });
+
+  it('should leave small, incompressible or unnegotiated data alone', () => {
+    const small = encoder.encode('{"type":"terminal:input","payload":"l"}');
+    const random = crypto.getRandomValues(new Uint8Array(4096));
+    const text = encoder.encode('x'.repeat(4096));
+
+    expect(compressPayload(small, 'deflate')).toBe(small);
+    expect(compressPayload(random, 'deflate')).toBe(random);
+    expect(compressPayload(text)).toBe(text);
+    expect(decompressPayload(text)).toBe(text);
+  });
+
+  it('should refuse data that inflates past the largest message', () => {
+    const bomb = deflateSync(new Uint8Array(80 * 1024 * 1024));
+    const data = new Uint8Array(bomb.length + 1);
+    data[0] = 0x01;
+    data.set(bomb, 1);
+
+    expect(() => decompressPayload(data)).toThrow('too large');
+  });
+});
+
+describe('E2ECrypto with compression', () => {
+  it('should shrink large output and decrypt it unchanged', () => {
+    const { cli, web } = createPair();
+    const message = createMessage(MessageType.TERMINAL_OUTPUT, 'npm WARN deprecated package@1.0.0\r\n'.repeat(2000), 1);
+
+    const plain = cli.encrypt(message, 'session');
+    const compressed = cli.encrypt(message, 'session', 'deflate');
+
+    expect(compressed.ciphertext.length).toBeLessThan(plain.ciphertext.length / 10);
+    expect(web.decrypt(compressed)).toEqual(message);
+    expect(web.decrypt(plain)).toEqual(message);
+  });
+
+  it('should still send small messages as plain JSON', () => {
+    const { cli, web } = createPair();
+    const message = createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 1);
+
+    const envelope = cli.encrypt(message, 'session', 'deflate');
+
+    expect(envelope.ciphertext.length).toBe(cli.encrypt(message, 'session').ciphertext.length);
+    expect(web.decrypt(envelope)).toEqual(message);
+  });
+});
@@ -0,0 +1,83 @@
+import { deflateSync, Inflate } from 'fflate';
+import { PROTOCOL } from '../protocol/messages.js';
+
+/**
+ * Compression applied to a message before it is encrypted
+ */
+export type CompressionCodec = 'deflate';
+
+/**
+ * Codecs this build can decompress, advertised during the key exchange
+ */
+export const SUPPORTED_COMPRESSION: readonly CompressionCodec[] = ['deflate'];
+
+// First plaintext byte of a deflated message; a JSON message never starts with it
+const DEFLATE_MARKER = 0x01;
+// Keystrokes and small control messages gain nothing from compression
+const MIN_COMPRESS_SIZE = 256;
+// Largest message that could be sent uncompressed; inflating past it is refused
+const MAX_INFLATED_SIZE = PROTOCOL.MAX_FRAGMENTS * PROTOCOL.MAX_MESSAGE_SIZE;
+// Input fed to the inflater at a time, so an oversized message is caught early
+const INFLATE_CHUNK_SIZE = 16 * 1024;
+
+/**
+ * Pick the codec to send with from the ones the other side advertised
+ * @returns undefined when there is none in common (or nothing was advertised)
+ */
+export function negotiateCompression(offered: unknown): CompressionCodec | undefined {
+  if (!Array.isArray(offered)) return undefined;
+  return SUPPORTED_COMPRESSION.find((codec) => offered.includes(codec));
+}
+
+/**
+ * Compress a serialized message, if that pays off
+ * @returns the compressed plaintext, or the input itself when it is small or
+ *   doesn't shrink (or no codec was negotiated)
+ */
+export function compressPayload(data: Uint8Array, codec?: CompressionCodec): Uint8Array {
+  if (codec !== 'deflate' || data.length < MIN_COMPRESS_SIZE) {
+    return data;
+  }
+
+  const deflated = deflateSync(data, { level: 6 });
+  if (deflated.length + 1 >= data.length) {
+    return data;
+  }
+
+  const result = new Uint8Array(deflated.length + 1);
+  result[0] = DEFLATE_MARKER;
+  result.set(deflated, 1);
+  return result;
+}
+
+/**
+ * Undo compressPayload on decrypted plaintext; uncompressed plaintext passes through
+ * @throws Error if the data is corrupt or inflates past the largest message size
+ */
+export function decompressPayload(data: Uint8Array): Uint8Array {
+  if (data[0] !== DEFLATE_MARKER) {
+    return data;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const inflater = new Inflate((chunk) => {
+    size += chunk.length;
+    if (size > MAX_INFLATED_SIZE) {
+      throw new Error('Decompressed message too large');
+    }
+    chunks.push(chunk);
+  });
+  for (let offset = 1; offset < data.length; offset += INFLATE_CHUNK_SIZE) {
+    const end = Math.min(offset + INFLATE_CHUNK_SIZE, data.length);
+    inflater.push(data.subarray(offset, end), end === data.length);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
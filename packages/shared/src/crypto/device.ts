@@ -0,0 +1,14 @@
+import util from 'tweetnacl-util';
+
+const { decodeUTF8 } = util;
+
+// Keeps a device signature from meaning anything outside this protocol
+const DEVICE_KEY_PROOF_CONTEXT = 'always-coder device key v1:';
+
+/**
+ * What a browser's identity key signs to vouch for the key of one connection
+ * @param publicKey - Base64 X25519 public key the browser joins with
+ */
+export function getDeviceKeyProofData(publicKey: string): Uint8Array {
+  return decodeUTF8(DEVICE_KEY_PROOF_CONTEXT + publicKey);
+}
@@ -1 +1,16 @@
-export { E2ECrypto, generateSessionId, generateRandomId } from './nacl.js';
+export {
+  E2ECrypto,
+  deriveRotatedKey,
+  generateSessionId,
+  generateRandomId,
+  getKeyFingerprint,
+} from './nacl.js';
+export { getShortAuthString, formatShortAuthString, type SasSymbol } from './sas.js';
+export { getDeviceKeyProofData } from './device.js';
+export {
+  SUPPORTED_COMPRESSION,
+  negotiateCompression,
+  compressPayload,
+  decompressPayload,
+  type CompressionCodec,
+} from './compression.js';
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { E2ECrypto, generateSessionId, generateRandomId } from './nacl.js';
+import { E2ECrypto, generateSessionId, generateRandomId, getKeyFingerprint } from './nacl.js';
 import { MessageType, type Message } from '../types/message.js';
+import { createMessage } from '../protocol/messages.js';
+import { createPair } from './test-utils.js';
 
 describe('E2ECrypto', () => {
   describe('key generation', () => {
@@ -116,6 +118,53 @@ describe('E2ECrypto', () => {
     });
   });
 
+  describe('key rotation', () => {
+    it('should move both sides to a new key', () => {
+      const { cli, web } = createPair();
+      const before = cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'old', 1));
+
+      const ephemeral = new E2ECrypto();
+      cli.rotateSharedKey(ephemeral.getSecretKey());
+      web.acceptRotatedKey(ephemeral.getPublicKey());
+
+      const after = cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'new', 2));
+      expect(web.decrypt(after).payload).toBe('new');
+      // The previous key still opens messages sent before the switch
+      expect(web.decrypt(before).payload).toBe('old');
+    });
+
+    it('should not be decryptable with the long-term keys alone', () => {
+      const { cli, web } = createPair();
+      const ephemeral = new E2ECrypto();
+      cli.rotateSharedKey(ephemeral.getSecretKey());
+      web.acceptRotatedKey(ephemeral.getPublicKey());
+
+      const envelope = cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'secret', 1));
+
+      // An attacker holding the CLI's secret key re-derives only the original key
+      const attacker = new E2ECrypto(cli.getSecretKey());
+      attacker.establishSharedKey(web.getPublicKey());
+      expect(() => attacker.decrypt(envelope)).toThrow('Decryption failed');
+    });
+
+    it('should drop keys older than one rotation', () => {
+      const { cli, web } = createPair();
+      const oldest = web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'a', 1));
+
+      for (let i = 0; i < 2; i++) {
+        const ephemeral = new E2ECrypto();
+        cli.rotateSharedKey(ephemeral.getSecretKey());
+        web.acceptRotatedKey(ephemeral.getPublicKey());
+      }
+
+      expect(() => cli.decrypt(oldest)).toThrow('Decryption failed');
+    });
+
+    it('should refuse to rotate before a key exchange', () => {
+      expect(() => new E2ECrypto().rotateSharedKey(new E2ECrypto().getSecretKey())).toThrow('not established');
+    });
+  });
+
   describe('key persistence', () => {
     it('should restore crypto from secret key', () => {
       const original = new E2ECrypto();
@@ -165,3 +214,14 @@ describe('generateRandomId', () => {
     expect(id32.length).toBe(32);
   });
 });
+
+describe('getKeyFingerprint', () => {
+  it('should give the same short fingerprint for the same key', () => {
+    const crypto = new E2ECrypto();
+    const fingerprint = getKeyFingerprint(crypto.getPublicKey());
+
+    expect(fingerprint).toMatch(/^[0-9A-F]{4}( [0-9A-F]{4}){3}$/);
+    expect(getKeyFingerprint(crypto.getPublicKey())).toBe(fingerprint);
+    expect(getKeyFingerprint(new E2ECrypto().getPublicKey())).not.toBe(fingerprint);
+  });
+});
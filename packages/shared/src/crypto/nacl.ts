@@ -3,6 +3,7 @@ import util from 'tweetnacl-util';
 
 const { encodeBase64, decodeBase64, encodeUTF8, decodeUTF8 } = util;
 import type { EncryptedEnvelope, Message } from '../types/message.js';
+import { compressPayload, decompressPayload, type CompressionCodec } from './compression.js';
 
 /**
  * End-to-end encryption using TweetNaCl (X25519 + XSalsa20-Poly1305)
@@ -10,6 +11,9 @@ import type { EncryptedEnvelope, Message } from '../types/message.js';
 export class E2ECrypto {
   private keyPair: nacl.BoxKeyPair;
   private sharedKey: Uint8Array | null = null;
+  // Key before the last rotation, for messages the other side sent before it switched
+  private previousSharedKey: Uint8Array | null = null;
+  private theirPublicKey: Uint8Array | null = null;
 
   constructor(existingSecretKey?: Uint8Array) {
     if (existingSecretKey) {
@@ -50,6 +54,49 @@ export class E2ECrypto {
     }
     // Compute shared secret using X25519 Diffie-Hellman
     this.sharedKey = nacl.box.before(theirPublicKey, this.keyPair.secretKey);
+    this.previousSharedKey = null;
+    this.theirPublicKey = theirPublicKey;
+  }
+
+  /**
+   * Rotate to the next shared key (side starting the rotation)
+   * Send the ephemeral public key to the other side, encrypted with the current key,
+   * before calling this. The ephemeral secret key is wiped.
+   * @param keepPrevious - Keep decrypting with the old key until the next rotation
+   *   (off when nothing can have been sent with it yet)
+   */
+  rotateSharedKey(ephemeralSecretKey: Uint8Array, keepPrevious = true): void {
+    if (!this.theirPublicKey) {
+      throw new Error('Shared key not established. Call establishSharedKey() first.');
+    }
+    this.ratchet(nacl.box.before(this.theirPublicKey, ephemeralSecretKey), keepPrevious);
+    ephemeralSecretKey.fill(0);
+  }
+
+  /**
+   * Follow a rotation started by the other side
+   */
+  acceptRotatedKey(theirEphemeralPublicKeyBase64: string, keepPrevious = true): void {
+    const theirEphemeralPublicKey = decodeBase64(theirEphemeralPublicKeyBase64);
+    if (theirEphemeralPublicKey.length !== nacl.box.publicKeyLength) {
+      throw new Error(`Invalid public key length: ${theirEphemeralPublicKey.length}`);
+    }
+    this.ratchet(nacl.box.before(theirEphemeralPublicKey, this.keyPair.secretKey), keepPrevious);
+  }
+
+  private ratchet(ephemeralSecret: Uint8Array, keepPrevious: boolean): void {
+    if (!this.sharedKey) {
+      throw new Error('Shared key not established. Call establishSharedKey() first.');
+    }
+    const nextKey = deriveRotatedKey(this.sharedKey, ephemeralSecret);
+    // Keys older than one rotation are wiped
+    this.previousSharedKey?.fill(0);
+    this.previousSharedKey = keepPrevious ? this.sharedKey : null;
+    if (!keepPrevious) {
+      this.sharedKey.fill(0);
+    }
+    this.sharedKey = nextKey;
+    ephemeralSecret.fill(0);
   }
 
   /**
@@ -61,8 +108,9 @@ export class E2ECrypto {
 
   /**
    * Encrypt a message using the shared key
+   * @param compression - Codec the other side advertised; used when the message shrinks
    */
-  encrypt(message: Message, sessionId: string = ''): EncryptedEnvelope {
+  encrypt(message: Message, sessionId: string = '', compression?: CompressionCodec): EncryptedEnvelope {
     if (!this.sharedKey) {
       throw new Error('Shared key not established. Call establishSharedKey() first.');
     }
@@ -71,7 +119,7 @@ export class E2ECrypto {
     const nonce = nacl.randomBytes(nacl.box.nonceLength);
 
     // Convert message to bytes
-    const messageBytes = decodeUTF8(JSON.stringify(message));
+    const messageBytes = compressPayload(decodeUTF8(JSON.stringify(message)), compression);
 
     // Encrypt using XSalsa20-Poly1305 with precomputed shared key
     const ciphertext = nacl.box.after(messageBytes, nonce, this.sharedKey);
@@ -97,13 +145,15 @@ export class E2ECrypto {
     const ciphertext = decodeBase64(envelope.ciphertext);
 
     // Decrypt using XSalsa20-Poly1305 with precomputed shared key
-    const decrypted = nacl.box.open.after(ciphertext, nonce, this.sharedKey);
+    const decrypted =
+      nacl.box.open.after(ciphertext, nonce, this.sharedKey) ||
+      (this.previousSharedKey && nacl.box.open.after(ciphertext, nonce, this.previousSharedKey));
 
     if (!decrypted) {
       throw new Error('Decryption failed. Message may have been tampered with.');
     }
 
-    return JSON.parse(encodeUTF8(decrypted)) as Message;
+    return JSON.parse(encodeUTF8(decompressPayload(decrypted))) as Message;
   }
 
   /**
@@ -115,6 +165,20 @@ export class E2ECrypto {
   }
 }
 
+/**
+ * Next shared key in a rotation: SHA-512 over the current key and the X25519
+ * output of a fresh ephemeral key, truncated to a box key.
+ * Knowing the long-term secret keys alone doesn't give it, so traffic under a
+ * rotated key stays private if one of them leaks later; the hash can't be
+ * undone, so a leaked shared key doesn't give the keys before it either.
+ */
+export function deriveRotatedKey(currentKey: Uint8Array, ephemeralSecret: Uint8Array): Uint8Array {
+  const input = new Uint8Array(currentKey.length + ephemeralSecret.length);
+  input.set(currentKey, 0);
+  input.set(ephemeralSecret, currentKey.length);
+  return nacl.hash(input).slice(0, nacl.box.sharedKeyLength);
+}
+
 /**
  * Generate a short session ID (6 characters, alphanumeric)
  */
@@ -135,3 +199,15 @@ export function generateRandomId(length: number = 16): string {
   const bytes = nacl.randomBytes(length);
   return encodeBase64(bytes).slice(0, length);
 }
+
+/**
+ * Short fingerprint of a base64 public key, for people to compare by eye
+ * (first 8 bytes of its SHA-512 hash as four groups of hex)
+ */
+export function getKeyFingerprint(publicKey: string): string {
+  const hash = nacl.hash(decodeBase64(publicKey));
+  const hex = Array.from(hash.slice(0, 8), (byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { E2ECrypto } from './nacl.js';
+import { getShortAuthString, formatShortAuthString } from './sas.js';
+
+describe('getShortAuthString', () => {
+  const cli = new E2ECrypto().getPublicKey();
+  const web = new E2ECrypto().getPublicKey();
+
+  it('should give both ends the same seven symbols', () => {
+    const sas = getShortAuthString(cli, web);
+
+    expect(sas).toHaveLength(7);
+    expect(getShortAuthString(web, cli)).toEqual(sas);
+  });
+
+  it('should change when either key is swapped', () => {
+    const sas = getShortAuthString(cli, web);
+    const attacker = new E2ECrypto().getPublicKey();
+
+    expect(getShortAuthString(cli, attacker)).not.toEqual(sas);
+    expect(getShortAuthString(attacker, web)).not.toEqual(sas);
+  });
+});
+
+describe('formatShortAuthString', () => {
+  it('should format with or without names', () => {
+    const symbols = [
+      { emoji: '🐶', name: 'Dog' },
+      { emoji: '🔑', name: 'Key' },
+    ];
+
+    expect(formatShortAuthString(symbols)).toBe('🐶 Dog  🔑 Key');
+    expect(formatShortAuthString(symbols, false)).toBe('🐶 🔑');
+  });
+});
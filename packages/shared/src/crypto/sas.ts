@@ -0,0 +1,125 @@
+import nacl from 'tweetnacl';
+import util from 'tweetnacl-util';
+
+const { decodeBase64, decodeUTF8 } = util;
+
+/**
+ * One symbol of a short authentication string
+ */
+export interface SasSymbol {
+  emoji: string;
+  name: string;
+}
+
+/**
+ * 64 symbols, so each one carries 6 bits
+ * (the emoji set used by Matrix key verification, picked to be easy to tell apart)
+ */
+const SAS_SYMBOLS: SasSymbol[] = [
+  { emoji: '🐶', name: 'Dog' },
+  { emoji: '🐱', name: 'Cat' },
+  { emoji: '🦁', name: 'Lion' },
+  { emoji: '🐎', name: 'Horse' },
+  { emoji: '🦄', name: 'Unicorn' },
+  { emoji: '🐷', name: 'Pig' },
+  { emoji: '🐘', name: 'Elephant' },
+  { emoji: '🐰', name: 'Rabbit' },
+  { emoji: '🐼', name: 'Panda' },
+  { emoji: '🐓', name: 'Rooster' },
+  { emoji: '🐧', name: 'Penguin' },
+  { emoji: '🐢', name: 'Turtle' },
+  { emoji: '🐟', name: 'Fish' },
+  { emoji: '🐙', name: 'Octopus' },
+  { emoji: '🦋', name: 'Butterfly' },
+  { emoji: '🌷', name: 'Flower' },
+  { emoji: '🌳', name: 'Tree' },
+  { emoji: '🌵', name: 'Cactus' },
+  { emoji: '🍄', name: 'Mushroom' },
+  { emoji: '🌏', name: 'Globe' },
+  { emoji: '🌙', name: 'Moon' },
+  { emoji: '☁️', name: 'Cloud' },
+  { emoji: '🔥', name: 'Fire' },
+  { emoji: '🍌', name: 'Banana' },
+  { emoji: '🍎', name: 'Apple' },
+  { emoji: '🍓', name: 'Strawberry' },
+  { emoji: '🌽', name: 'Corn' },
+  { emoji: '🍕', name: 'Pizza' },
+  { emoji: '🎂', name: 'Cake' },
+  { emoji: '❤️', name: 'Heart' },
+  { emoji: '😀', name: 'Smiley' },
+  { emoji: '🤖', name: 'Robot' },
+  { emoji: '🎩', name: 'Hat' },
+  { emoji: '👓', name: 'Glasses' },
+  { emoji: '🔧', name: 'Spanner' },
+  { emoji: '🎅', name: 'Santa' },
+  { emoji: '👍', name: 'Thumbs Up' },
+  { emoji: '☂️', name: 'Umbrella' },
+  { emoji: '⌛', name: 'Hourglass' },
+  { emoji: '⏰', name: 'Clock' },
+  { emoji: '🎁', name: 'Gift' },
+  { emoji: '💡', name: 'Light Bulb' },
+  { emoji: '📕', name: 'Book' },
+  { emoji: '✏️', name: 'Pencil' },
+  { emoji: '📎', name: 'Paperclip' },
+  { emoji: '✂️', name: 'Scissors' },
+  { emoji: '🔒', name: 'Lock' },
+  { emoji: '🔑', name: 'Key' },
+  { emoji: '🔨', name: 'Hammer' },
+  { emoji: '☎️', name: 'Telephone' },
+  { emoji: '🏁', name: 'Flag' },
+  { emoji: '🚂', name: 'Train' },
+  { emoji: '🚲', name: 'Bicycle' },
+  { emoji: '✈️', name: 'Aeroplane' },
+  { emoji: '🚀', name: 'Rocket' },
+  { emoji: '🏆', name: 'Trophy' },
+  { emoji: '⚽', name: 'Ball' },
+  { emoji: '🎸', name: 'Guitar' },
+  { emoji: '🎺', name: 'Trumpet' },
+  { emoji: '🔔', name: 'Bell' },
+  { emoji: '⚓', name: 'Anchor' },
+  { emoji: '🎧', name: 'Headphones' },
+  { emoji: '📁', name: 'Folder' },
+  { emoji: '📌', name: 'Pin' },
+];
+
+// 7 symbols = 42 bits, taken from the first 6 bytes of the hash
+const SAS_LENGTH = 7;
+const SAS_CONTEXT = 'always-coder-sas-v1';
+
+/**
+ * Short authentication string for a key exchange between two public keys
+ *
+ * Both ends compute it from the keys they actually used; if a relay swapped
+ * either key the two strings differ. Argument order doesn't matter.
+ */
+export function getShortAuthString(publicKeyA: string, publicKeyB: string): SasSymbol[] {
+  const [first, second] = [publicKeyA, publicKeyB].sort();
+  const context = decodeUTF8(SAS_CONTEXT);
+  const keyA = decodeBase64(first);
+  const keyB = decodeBase64(second);
+
+  const input = new Uint8Array(context.length + keyA.length + keyB.length);
+  input.set(context, 0);
+  input.set(keyA, context.length);
+  input.set(keyB, context.length + keyA.length);
+  const hash = nacl.hash(input);
+
+  const symbols: SasSymbol[] = [];
+  for (let i = 0; i < SAS_LENGTH; i++) {
+    // Read 6 bits starting at bit i * 6
+    const bit = i * 6;
+    const byte = bit >> 3;
+    const value = ((hash[byte] << 8) | hash[byte + 1]) >> (10 - (bit & 7));
+    symbols.push(SAS_SYMBOLS[value & 0x3f]);
+  }
+  return symbols;
+}
+
+/**
+ * Format a short authentication string for display, e.g. "🐶 Dog  🔑 Key  ..."
+ */
+export function formatShortAuthString(symbols: SasSymbol[], withNames = true): string {
+  return symbols
+    .map((symbol) => (withNames ? `${symbol.emoji} ${symbol.name}` : symbol.emoji))
+    .join(withNames ? '  ' : ' ');
+}
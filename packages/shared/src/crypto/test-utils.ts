@@ -0,0 +1,12 @@
+import { E2ECrypto } from './nacl.js';
+
+/**
+ * A CLI and a web client that share a key, as after a join
+ */
+export function createPair(): { cli: E2ECrypto; web: E2ECrypto } {
+  const cli = new E2ECrypto();
+  const web = new E2ECrypto();
+  cli.establishSharedKey(web.getPublicKey());
+  web.establishSharedKey(cli.getPublicKey());
+  return { cli, web };
+}
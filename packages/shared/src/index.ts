@@ -9,3 +9,6 @@ export * from './protocol/index.js';
 
 // Re-export input filter
 export * from './input/index.js';
+
+// Re-export session recording format
+export * from './recording/index.js';
@@ -3,6 +3,7 @@ import {
   InputFilter,
   type InputFilterConfig,
   DEFAULT_INPUT_FILTER_CONFIG,
+  isTerminalSignal,
 } from './filter.js';
 
 describe('InputFilter', () => {
@@ -24,6 +25,10 @@ describe('InputFilter', () => {
         blockCtrlD: false,
         blockCtrlZ: false,
         blockCtrlBackslash: false,
+        allowSigint: false,
+        allowSigtstp: true,
+        allowSigterm: true,
+        allowSigkill: true,
       };
       const filter = new InputFilter(customConfig);
       expect(filter.getConfig()).toEqual(customConfig);
@@ -229,6 +234,31 @@ describe('InputFilter', () => {
     });
   });
 
+  describe('isSignalAllowed', () => {
+    it('should allow only SIGINT by default', () => {
+      const filter = new InputFilter();
+      expect(filter.isSignalAllowed('SIGINT')).toBe(true);
+      expect(filter.isSignalAllowed('SIGTSTP')).toBe(false);
+      expect(filter.isSignalAllowed('SIGTERM')).toBe(false);
+      expect(filter.isSignalAllowed('SIGKILL')).toBe(false);
+    });
+
+    it('should follow its own switches, not the keystroke ones', () => {
+      const filter = new InputFilter({ blockCtrlC: false, allowSigint: false, allowSigkill: true });
+      expect(filter.isSignalAllowed('SIGINT')).toBe(false);
+      expect(filter.isSignalAllowed('SIGKILL')).toBe(true);
+      expect(filter.filter('\x03').blocked).toBe(false);
+    });
+
+    it('should refuse signals TERMINAL_SIGNAL cannot carry', () => {
+      const filter = new InputFilter({ allowSigint: true });
+      expect(filter.isSignalAllowed('SIGQUIT' as 'SIGINT')).toBe(false);
+      expect(isTerminalSignal('SIGHUP')).toBe(false);
+      expect(isTerminalSignal(2)).toBe(false);
+      expect(isTerminalSignal('SIGTERM')).toBe(true);
+    });
+  });
+
   describe('updateConfig', () => {
     it('should update config and affect filtering', () => {
       const filter = new InputFilter();
@@ -1,6 +1,10 @@
+import type { TerminalSignal } from '../types/message.js';
+
 /**
  * Input filter configuration
- * Controls which control signals should be blocked from web client input
+ * Controls which control signals should be blocked from web client input,
+ * and which signals web clients may send explicitly with TERMINAL_SIGNAL
+ * @deprecated Kept for existing configs; see InputPolicyConfig, which these convert into
  */
 export interface InputFilterConfig {
   /** Block Ctrl+C (SIGINT - 0x03) */
@@ -11,6 +15,14 @@ export interface InputFilterConfig {
   blockCtrlZ: boolean;
   /** Block Ctrl+\ (SIGQUIT - 0x1C) */
   blockCtrlBackslash: boolean;
+  /** Allow TERMINAL_SIGNAL to send SIGINT */
+  allowSigint: boolean;
+  /** Allow TERMINAL_SIGNAL to send SIGTSTP */
+  allowSigtstp: boolean;
+  /** Allow TERMINAL_SIGNAL to send SIGTERM */
+  allowSigterm: boolean;
+  /** Allow TERMINAL_SIGNAL to send SIGKILL */
+  allowSigkill: boolean;
 }
 
 /**
@@ -36,15 +48,40 @@ interface SignalDef {
 
 /**
  * Default configuration - block all dangerous signals by default
- * This ensures session persistence when web clients send control signals
+ * This ensures session persistence when web clients send control signals.
+ * A deliberate SIGINT (confirmed in the web UI) is allowed; signals that end
+ * the process, or stop it with nothing on the web side to resume it, are not.
  */
 export const DEFAULT_INPUT_FILTER_CONFIG: InputFilterConfig = {
   blockCtrlC: true,
   blockCtrlD: true,
   blockCtrlZ: true,
   blockCtrlBackslash: true,
+  allowSigint: true,
+  allowSigtstp: false,
+  allowSigterm: false,
+  allowSigkill: false,
+};
+
+/**
+ * Signals TERMINAL_SIGNAL can carry
+ */
+export const TERMINAL_SIGNALS: readonly TerminalSignal[] = ['SIGINT', 'SIGTSTP', 'SIGTERM', 'SIGKILL'];
+
+const SIGNAL_CONFIG_KEYS: Record<TerminalSignal, keyof InputFilterConfig> = {
+  SIGINT: 'allowSigint',
+  SIGTSTP: 'allowSigtstp',
+  SIGTERM: 'allowSigterm',
+  SIGKILL: 'allowSigkill',
 };
 
+/**
+ * Type guard for a signal TERMINAL_SIGNAL can carry
+ */
+export function isTerminalSignal(value: unknown): value is TerminalSignal {
+  return typeof value === 'string' && (TERMINAL_SIGNALS as readonly string[]).includes(value);
+}
+
 /**
  * Control signal definitions
  */
@@ -122,6 +159,18 @@ export class InputFilter {
     };
   }
 
+  /**
+   * Check whether a TERMINAL_SIGNAL may deliver a signal
+   * Explicit signals have their own switches: blocking Ctrl+C keystrokes
+   * doesn't stop a confirmed SIGINT, and the other way round.
+   *
+   * @param signal - Signal from a TERMINAL_SIGNAL payload
+   * @returns true if the signal should be delivered
+   */
+  isSignalAllowed(signal: TerminalSignal): boolean {
+    return isTerminalSignal(signal) && this.config[SIGNAL_CONFIG_KEYS[signal]];
+  }
+
   /**
    * Quick check if input contains any blocked signals
    *
@@ -3,4 +3,22 @@ export {
   type InputFilterConfig,
   type FilterResult,
   DEFAULT_INPUT_FILTER_CONFIG,
+  TERMINAL_SIGNALS,
+  isTerminalSignal,
 } from './filter.js';
+export {
+  InputPolicy,
+  InputPolicyError,
+  DEFAULT_INPUT_POLICY,
+  parseInputPolicy,
+  inputPolicyFromFilterConfig,
+  type InputRole,
+  type InputPolicyAction,
+  type InputRuleKind,
+  type InputPolicyRule,
+  type InputPolicyConfig,
+  type InputRuleMatch,
+  type InputDecision,
+  type SignalDecision,
+  type InputSource,
+} from './policy.js';
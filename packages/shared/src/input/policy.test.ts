@@ -0,0 +1,370 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InputPolicy,
+  InputPolicyError,
+  DEFAULT_INPUT_POLICY,
+  parseInputPolicy,
+  inputPolicyFromFilterConfig,
+  type InputPolicyConfig,
+  type InputRole,
+} from './policy.js';
+import { DEFAULT_INPUT_FILTER_CONFIG } from './filter.js';
+import type { TerminalSignal } from '../types/message.js';
+
+const owner = { role: 'owner' as const, clientId: 'web-1', windowId: 'main' };
+const guest = { role: 'guest' as const, clientId: 'web-2', windowId: 'main' };
+
+// Configured rules come first, as in the CLI
+function withDefaults(config: InputPolicyConfig): InputPolicy {
+  return new InputPolicy({ rules: [...config.rules, ...DEFAULT_INPUT_POLICY.rules] });
+}
+
+describe('InputPolicy', () => {
+  describe('default rules', () => {
+    const cases: { name: string; input: string; data: string; denied: string[] }[] = [
+      { name: 'plain text', input: 'hello world', data: 'hello world', denied: [] },
+      { name: 'a command and Enter', input: 'ls -la\r', data: 'ls -la\r', denied: [] },
+      { name: 'Ctrl+C', input: '\x03', data: '', denied: ['ctrl-c'] },
+      { name: 'Ctrl+D', input: '\x04', data: '', denied: ['ctrl-d'] },
+      { name: 'Ctrl+Z', input: '\x1A', data: '', denied: ['ctrl-z'] },
+      { name: 'Ctrl+\\', input: '\x1C', data: '', denied: ['ctrl-backslash'] },
+      { name: 'Ctrl+C inside text', input: 'npm run build\x03', data: 'npm run build', denied: ['ctrl-c'] },
+      { name: 'several control keys', input: 'a\x03b\x04c\x1Ad', data: 'abcd', denied: ['ctrl-c', 'ctrl-d', 'ctrl-z'] },
+      { name: 'Tab, Escape and Backspace', input: '\t\x1b[A\x7f\x08', data: '\t\x1b[A\x7f\x08', denied: [] },
+      { name: 'rm -rf /', input: 'rm -rf /\r', data: 'rm -rf /', denied: ['rm-rf-root'] },
+      { name: 'sudo rm -rf /*', input: 'sudo rm -rf /*\r', data: 'sudo rm -rf /*', denied: ['rm-rf-root'] },
+      { name: 'rm -fr ~', input: 'rm -fr ~\r', data: 'rm -fr ~', denied: ['rm-rf-root'] },
+      { name: 'rm -r -f / after another command', input: 'cd /; rm -r -f /\r', data: 'cd /; rm -r -f /', denied: ['rm-rf-root'] },
+      {
+        name: 'rm -rf --no-preserve-root /',
+        input: 'rm -rf --no-preserve-root /\r',
+        data: 'rm -rf --no-preserve-root /',
+        denied: ['rm-rf-root'],
+      },
+      { name: 'rm -rf of a subdirectory', input: 'rm -rf /tmp/build\r', data: 'rm -rf /tmp/build\r', denied: [] },
+      { name: 'rm -rf of a relative path', input: 'rm -rf ./dist\r', data: 'rm -rf ./dist\r', denied: [] },
+      { name: 'rm -rf / only mentioned', input: 'echo "rm -rf /"\r', data: 'echo "rm -rf /"\r', denied: [] },
+      { name: 'a denied line in a paste', input: 'ls\rrm -rf /\rpwd\r', data: 'ls\rrm -rf /', denied: ['rm-rf-root'] },
+    ];
+
+    for (const { name, input, data, denied } of cases) {
+      it(`should handle ${name}`, () => {
+        const decision = new InputPolicy().checkInput(input, owner);
+
+        expect(decision.data).toBe(data);
+        expect(decision.blocked).toBe(denied.length > 0);
+        expect(decision.denied.map((match) => match.rule)).toEqual(denied);
+      });
+    }
+
+    const signals: { signal: TerminalSignal; allowed: boolean }[] = [
+      { signal: 'SIGINT', allowed: true },
+      { signal: 'SIGTSTP', allowed: false },
+      { signal: 'SIGTERM', allowed: false },
+      { signal: 'SIGKILL', allowed: false },
+    ];
+
+    for (const { signal, allowed } of signals) {
+      it(`should ${allowed ? 'allow' : 'refuse'} ${signal}`, () => {
+        expect(new InputPolicy().checkSignal(signal, 'guest').allowed).toBe(allowed);
+      });
+    }
+  });
+
+  describe('line tracking', () => {
+    const policy = (): InputPolicy => new InputPolicy({ rules: [{ id: 'no-push', line: '^git push', action: 'deny' }] });
+
+    // Each case is typed in chunks, as keystrokes arrive; data is what the last chunk passes on
+    const cases: { name: string; chunks: string[]; data: string; denied: boolean }[] = [
+      { name: 'a line typed key by key', chunks: ['g', 'i', 't', ' push', '\r'], data: '', denied: true },
+      { name: 'backspace fixing the line', chunks: ['git pusx', '\x7f', 'h -n\r'], data: 'h -n', denied: true },
+      { name: 'backspace breaking the match', chunks: ['git push', '\x7f\x7f\x7f\x7f', 'log\r'], data: 'log\r', denied: false },
+      { name: 'Ctrl+U clearing the line', chunks: ['git push', '\x15', 'git log\r'], data: 'git log\r', denied: false },
+      { name: 'a bracketed paste', chunks: ['\x1b[200~git push origin\x1b[201~', '\r'], data: '', denied: true },
+      { name: 'cursor keys in between', chunks: ['git \x1b[D\x1b[C', 'push\r'], data: 'push', denied: true },
+      { name: 'surrounding whitespace', chunks: ['  git push  \r'], data: '  git push  ', denied: true },
+      { name: 'a line that submitted before', chunks: ['git status\r', 'git push\n'], data: 'git push', denied: true },
+      { name: 'newline instead of Enter', chunks: ['git push\n'], data: 'git push', denied: true },
+    ];
+
+    for (const { name, chunks, data, denied } of cases) {
+      it(`should follow ${name}`, () => {
+        const engine = policy();
+        const decisions = chunks.map((chunk) => engine.checkInput(chunk, owner));
+        const last = decisions[decisions.length - 1];
+
+        expect(last.data).toBe(data);
+        expect(last.blocked).toBe(denied);
+        if (denied) {
+          expect(last.denied).toEqual([{ rule: 'no-push', kind: 'line', action: 'deny' }]);
+        }
+      });
+    }
+
+    it('should keep the denied line so the user can edit it', () => {
+      const engine = policy();
+      engine.checkInput('git push\r', owner);
+
+      expect(engine.checkInput('\r', owner).blocked).toBe(true);
+      engine.checkInput('\x15', owner);
+      expect(engine.checkInput('git log\r', owner).blocked).toBe(false);
+    });
+
+    it('should track each client and window on its own', () => {
+      const engine = policy();
+      engine.checkInput('git ', owner);
+      engine.checkInput('push', { ...owner, windowId: 'w1' });
+      engine.checkInput('push', guest);
+
+      expect(engine.checkInput('push\r', owner).blocked).toBe(true);
+      expect(engine.checkInput('\r', { ...owner, windowId: 'w1' }).blocked).toBe(false);
+      expect(engine.checkInput('\r', guest).blocked).toBe(false);
+    });
+
+    it('should forget what a client typed when it leaves', () => {
+      const engine = policy();
+      engine.checkInput('git push', owner);
+      engine.forget(owner.clientId);
+
+      expect(engine.checkInput('\r', owner).blocked).toBe(false);
+    });
+
+    it('should match case-insensitively when asked', () => {
+      const engine = new InputPolicy({ rules: [{ id: 'drop', line: 'drop table', ignoreCase: true, action: 'deny' }] });
+
+      expect(engine.checkInput('DROP TABLE users;\r', owner).blocked).toBe(true);
+    });
+  });
+
+  describe('rule order and roles', () => {
+    const cases: {
+      name: string;
+      rules: InputPolicyConfig['rules'];
+      role: InputRole;
+      input: string;
+      data: string;
+      denied?: string;
+    }[] = [
+      {
+        name: 'an allow rule before a default deny',
+        rules: [{ id: 'owner-ctrl-c', roles: ['owner'], sequence: '\x03', action: 'allow' }],
+        role: 'owner',
+        input: '\x03',
+        data: '\x03',
+      },
+      {
+        name: 'a rule for another role',
+        rules: [{ id: 'owner-ctrl-c', roles: ['owner'], sequence: '\x03', action: 'allow' }],
+        role: 'guest',
+        input: '\x03',
+        data: '',
+        denied: 'ctrl-c',
+      },
+      {
+        name: 'a deny rule for guests only',
+        rules: [{ id: 'guest-no-push', roles: ['guest'], line: '^git push', action: 'deny' }],
+        role: 'guest',
+        input: 'git push\r',
+        data: 'git push',
+        denied: 'guest-no-push',
+      },
+      {
+        name: 'the same rule for the owner',
+        rules: [{ id: 'guest-no-push', roles: ['guest'], line: '^git push', action: 'deny' }],
+        role: 'owner',
+        input: 'git push\r',
+        data: 'git push\r',
+      },
+      {
+        name: 'an allowed line before a denied one',
+        rules: [
+          { id: 'scratch', line: '^rm -rf ~/scratch$', action: 'allow' },
+          { id: 'no-rm-home', line: '^rm -rf ~', action: 'deny' },
+        ],
+        role: 'owner',
+        input: 'rm -rf ~/scratch\r',
+        data: 'rm -rf ~/scratch\r',
+      },
+      {
+        name: 'a new byte sequence',
+        rules: [{ id: 'no-escape', sequence: '\x1b', action: 'deny' }],
+        role: 'guest',
+        input: 'vim\x1b:q!\r',
+        data: 'vim:q!\r',
+        denied: 'no-escape',
+      },
+      {
+        name: 'a rule without an ID',
+        rules: [{ sequence: 'x', action: 'deny' }],
+        role: 'owner',
+        input: 'xyz',
+        data: 'yz',
+        denied: 'rule 0',
+      },
+    ];
+
+    for (const { name, rules, role, input, data, denied } of cases) {
+      it(`should apply ${name}`, () => {
+        const decision = withDefaults({ rules }).checkInput(input, { ...owner, role });
+
+        expect(decision.data).toBe(data);
+        expect(decision.denied.map((match) => match.rule)).toEqual(denied ? [denied] : []);
+      });
+    }
+
+    it('should let signal rules differ per role', () => {
+      const engine = withDefaults({
+        rules: [
+          { id: 'owner-kill', roles: ['owner'], signal: 'SIGKILL', action: 'allow' },
+          { id: 'guest-int', roles: ['guest'], signal: 'SIGINT', action: 'deny' },
+        ],
+      });
+
+      expect(engine.checkSignal('SIGKILL', 'owner')).toEqual({
+        allowed: true,
+        match: { rule: 'owner-kill', kind: 'signal', action: 'allow' },
+      });
+      expect(engine.checkSignal('SIGKILL', 'guest')).toEqual({ allowed: false });
+      expect(engine.checkSignal('SIGINT', 'guest').allowed).toBe(false);
+      expect(engine.checkSignal('SIGINT', 'owner').match?.rule).toBe('signal-sigint');
+      expect(engine.checkSignal('SIGHUP' as TerminalSignal, 'owner').allowed).toBe(false);
+    });
+
+    it('should let only the owner open windows unless a rule allows guests a command', () => {
+      expect(withDefaults({ rules: [] }).checkWindow('bash', 'owner').allowed).toBe(true);
+      expect(withDefaults({ rules: [] }).checkWindow('bash', 'guest')).toEqual({
+        allowed: false,
+        match: { rule: 'guest-windows', kind: 'window', action: 'deny' },
+      });
+
+      const engine = withDefaults({
+        rules: [
+          { id: 'guest-logs', roles: ['guest'], window: '^tail -f \\S+\\.log$', action: 'allow' },
+          { id: 'no-root', window: '^sudo ', action: 'deny' },
+        ],
+      });
+      expect(engine.checkWindow('tail -f app.log', 'guest').match?.rule).toBe('guest-logs');
+      expect(engine.checkWindow('tail -f app.log; rm -rf ~', 'guest').allowed).toBe(false);
+      expect(engine.checkWindow('sudo -i', 'owner').match?.rule).toBe('no-root');
+      expect(new InputPolicy({ rules: [] }).checkWindow('bash', 'owner')).toEqual({ allowed: false });
+    });
+  });
+
+  describe('rate limits', () => {
+    const limited = (): InputPolicy =>
+      new InputPolicy({
+        rules: [{ id: 'paste-burst', roles: ['guest'], rate: { bytes: 10, windowMs: 1000 }, action: 'deny' }],
+      });
+
+    const cases: { name: string; sends: { data: string; at: number }[]; blocked: boolean[] }[] = [
+      { name: 'typing under the limit', sends: [{ data: 'abc', at: 0 }, { data: 'def', at: 100 }], blocked: [false, false] },
+      { name: 'one paste over the limit', sends: [{ data: 'x'.repeat(11), at: 0 }], blocked: [true] },
+      {
+        name: 'a burst that adds up past the limit',
+        sends: [{ data: 'x'.repeat(6), at: 0 }, { data: 'x'.repeat(6), at: 500 }],
+        blocked: [false, true],
+      },
+      {
+        name: 'input after the window passed',
+        sends: [{ data: 'x'.repeat(6), at: 0 }, { data: 'x'.repeat(6), at: 1000 }],
+        blocked: [false, false],
+      },
+      {
+        name: 'dropped input not counting against the limit',
+        sends: [{ data: 'x'.repeat(6), at: 0 }, { data: 'x'.repeat(20), at: 100 }, { data: 'x'.repeat(4), at: 200 }],
+        blocked: [false, true, false],
+      },
+    ];
+
+    for (const { name, sends, blocked } of cases) {
+      it(`should handle ${name}`, () => {
+        const engine = limited();
+        const results = sends.map(({ data, at }) => engine.checkInput(data, guest, at));
+
+        expect(results.map((decision) => decision.blocked)).toEqual(blocked);
+        for (const decision of results.filter((result) => result.blocked)) {
+          expect(decision).toEqual({ data: '', blocked: true, denied: [{ rule: 'paste-burst', kind: 'rate', action: 'deny' }] });
+        }
+      });
+    }
+
+    it('should count each client separately and skip roles the rule is not for', () => {
+      const engine = limited();
+      engine.checkInput('x'.repeat(10), guest, 0);
+
+      expect(engine.checkInput('x', { ...guest, clientId: 'web-3' }, 0).blocked).toBe(false);
+      expect(engine.checkInput('x'.repeat(100), owner, 0).blocked).toBe(false);
+      expect(engine.checkInput('x', guest, 0).blocked).toBe(true);
+    });
+  });
+
+  it('should handle null input gracefully', () => {
+    expect(new InputPolicy().checkInput(null as unknown as string, owner)).toEqual({ data: '', blocked: false, denied: [] });
+  });
+});
+
+describe('parseInputPolicy', () => {
+  it('should accept every kind of rule', () => {
+    const raw = {
+      rules: [
+        { id: 'a', sequence: '\u0003', action: 'allow', roles: ['owner'] },
+        { id: 'b', line: '^git push', ignoreCase: true, action: 'deny' },
+        { id: 'c', rate: { bytes: 4096, windowMs: 1000 }, action: 'deny', roles: ['guest'] },
+        { id: 'd', signal: 'SIGTERM', action: 'allow' },
+        { id: 'e', window: '^htop$', action: 'allow', roles: ['guest'] },
+      ],
+    };
+
+    expect(parseInputPolicy(raw)).toEqual(raw);
+  });
+
+  const invalid: { name: string; raw: unknown; message: string }[] = [
+    { name: 'a missing rules array', raw: {}, message: 'rules array' },
+    { name: 'a rule that is not an object', raw: { rules: ['deny'] }, message: 'rule 0: must be an object' },
+    { name: 'an unknown action', raw: { rules: [{ sequence: 'x', action: 'block' }] }, message: 'action' },
+    { name: 'an unknown role', raw: { rules: [{ sequence: 'x', action: 'deny', roles: ['viewer'] }] }, message: 'roles' },
+    { name: 'no match field', raw: { rules: [{ action: 'deny' }] }, message: 'exactly one' },
+    { name: 'two match fields', raw: { rules: [{ sequence: 'x', line: 'y', action: 'deny' }] }, message: 'exactly one' },
+    { name: 'an empty sequence', raw: { rules: [{ sequence: '', action: 'deny' }] }, message: 'sequence' },
+    { name: 'a broken regular expression', raw: { rules: [{ line: '(', action: 'deny' }] }, message: 'not a valid regular expression' },
+    { name: 'a window that is not a pattern', raw: { rules: [{ window: 7, action: 'allow' }] }, message: 'window must be' },
+    { name: 'a rate without a window', raw: { rules: [{ rate: { bytes: 10 }, action: 'deny' }] }, message: 'windowMs' },
+    { name: 'a rate that allows', raw: { rules: [{ rate: { bytes: 10, windowMs: 10 }, action: 'allow' }] }, message: 'only deny' },
+    { name: 'an unknown signal', raw: { rules: [{ signal: 'SIGHUP', action: 'allow' }] }, message: 'signal' },
+    {
+      name: 'the second rule being wrong',
+      raw: { rules: [{ sequence: 'x', action: 'deny' }, { id: 7, sequence: 'y', action: 'deny' }] },
+      message: 'rule 1: id',
+    },
+  ];
+
+  for (const { name, raw, message } of invalid) {
+    it(`should reject ${name}`, () => {
+      expect(() => parseInputPolicy(raw)).toThrow(InputPolicyError);
+      expect(() => parseInputPolicy(raw)).toThrow(message);
+    });
+  }
+});
+
+describe('inputPolicyFromFilterConfig', () => {
+  it('should behave like the defaults for the default filter config', () => {
+    const engine = withDefaults(inputPolicyFromFilterConfig(DEFAULT_INPUT_FILTER_CONFIG));
+
+    expect(engine.checkInput('a\x03\x04\x1A\x1Cb', owner).data).toBe('ab');
+    expect(engine.checkSignal('SIGINT', 'owner').allowed).toBe(true);
+    expect(engine.checkSignal('SIGKILL', 'owner').allowed).toBe(false);
+  });
+
+  it('should turn each switch into a rule that overrides the defaults', () => {
+    const engine = withDefaults(
+      inputPolicyFromFilterConfig({ ...DEFAULT_INPUT_FILTER_CONFIG, blockCtrlC: false, allowSigint: false, allowSigkill: true })
+    );
+
+    const decision = engine.checkInput('\x03\x04', owner);
+    expect(decision.data).toBe('\x03');
+    expect(decision.denied.map((match) => match.rule)).toEqual(['blockCtrlD']);
+    expect(engine.checkSignal('SIGINT', 'owner').match?.rule).toBe('allowSigint');
+    expect(engine.checkSignal('SIGINT', 'owner').allowed).toBe(false);
+    expect(engine.checkSignal('SIGKILL', 'owner').allowed).toBe(true);
+  });
+});
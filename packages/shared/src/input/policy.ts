@@ -0,0 +1,421 @@
+import type { TerminalSignal } from '../types/message.js';
+import { isTerminalSignal, type InputFilterConfig } from './filter.js';
+
+/**
+ * Who sent the input: the session owner, or a user the owner invited
+ * Read-only viewers never get this far; their input is refused outright.
+ */
+export type InputRole = 'owner' | 'guest';
+
+/**
+ * What a rule does when it matches
+ */
+export type InputPolicyAction = 'allow' | 'deny';
+
+/**
+ * What a rule matches on
+ */
+export type InputRuleKind = 'sequence' | 'line' | 'rate' | 'signal' | 'window';
+
+/**
+ * One rule of an input policy; exactly one of the match fields is set
+ */
+export interface InputPolicyRule {
+  /** Reported when the rule fires (default: `rule <index>`) */
+  id?: string;
+  action: InputPolicyAction;
+  /** Roles the rule applies to (default: all) */
+  roles?: InputRole[];
+  /** Byte sequence anywhere in the input; deny strips every occurrence */
+  sequence?: string;
+  /** Regular expression tested against a typed line when Enter submits it; deny holds the Enter back */
+  line?: string;
+  /** Match `line` or `window` case-insensitively */
+  ignoreCase?: boolean;
+  /** Most input bytes a client may send in `windowMs`; input past the limit is dropped (deny only) */
+  rate?: { bytes: number; windowMs: number };
+  /** Signal a TERMINAL_SIGNAL message carries */
+  signal?: TerminalSignal;
+  /** Regular expression tested against the command line a WINDOW_CREATE would run */
+  window?: string;
+}
+
+/**
+ * Declarative input policy, as written in config.json under `inputPolicy`
+ *
+ * Rules are checked in order and the first one that matches decides: an
+ * allow rule placed before a deny rule is an exception to it. Input nothing
+ * matches is let through; signals and windows nothing matches are not.
+ */
+export interface InputPolicyConfig {
+  rules: InputPolicyRule[];
+}
+
+/**
+ * A rule that decided something
+ */
+export interface InputRuleMatch {
+  rule: string;
+  kind: InputRuleKind;
+  action: InputPolicyAction;
+}
+
+/**
+ * Outcome of checking one TERMINAL_INPUT message
+ */
+export interface InputDecision {
+  /** Input to write to the terminal; may be shorter than what was sent */
+  data: string;
+  /** Whether a deny rule removed anything */
+  blocked: boolean;
+  /** Deny rules that fired, in the order they did */
+  denied: InputRuleMatch[];
+}
+
+/**
+ * Outcome of checking one TERMINAL_SIGNAL message
+ */
+export interface SignalDecision {
+  allowed: boolean;
+  /** The rule that decided, or undefined when none matched */
+  match?: InputRuleMatch;
+}
+
+/**
+ * Outcome of checking one WINDOW_CREATE message
+ */
+export interface WindowDecision {
+  allowed: boolean;
+  /** The rule that decided, or undefined when none matched */
+  match?: InputRuleMatch;
+}
+
+/**
+ * Sender of a message, for per-client rate and line tracking
+ */
+export interface InputSource {
+  role: InputRole;
+  /** Web connection ID */
+  clientId: string;
+  windowId: string;
+}
+
+/**
+ * A policy in config.json that can't be used
+ */
+export class InputPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputPolicyError';
+  }
+}
+
+/**
+ * Built-in rules, checked after the configured ones
+ * Control keystrokes that would end or stop the session command are stripped,
+ * a confirmed SIGINT gets through, and deleting the root or home directory
+ * can't be submitted from the web. The owner may open windows running any
+ * command; guests only those a configured rule allows.
+ */
+export const DEFAULT_INPUT_POLICY: InputPolicyConfig = {
+  rules: [
+    { id: 'ctrl-c', sequence: '\x03', action: 'deny' },
+    { id: 'ctrl-d', sequence: '\x04', action: 'deny' },
+    { id: 'ctrl-z', sequence: '\x1A', action: 'deny' },
+    { id: 'ctrl-backslash', sequence: '\x1C', action: 'deny' },
+    { id: 'signal-sigint', signal: 'SIGINT', action: 'allow' },
+    { id: 'rm-rf-root', line: '(^|[;&|]\\s*)(sudo\\s+)?rm\\s+(-\\S+\\s+)*(/|/\\*|~/?)(\\s|[;&|]|$)', action: 'deny' },
+    { id: 'owner-windows', roles: ['owner'], window: '', action: 'allow' },
+    { id: 'guest-windows', roles: ['guest'], window: '', action: 'deny' },
+  ],
+};
+
+const ROLES: readonly InputRole[] = ['owner', 'guest'];
+const MATCH_FIELDS = ['sequence', 'line', 'rate', 'signal', 'window'] as const;
+// Typed text kept per client and window for line rules
+const MAX_LINE_LENGTH = 4096;
+
+/**
+ * Validate a policy read from config.json
+ * @throws InputPolicyError naming the first rule that is wrong
+ */
+export function parseInputPolicy(raw: unknown): InputPolicyConfig {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as Record<string, unknown>).rules)) {
+    throw new InputPolicyError('inputPolicy must be an object with a rules array');
+  }
+
+  const rules = ((raw as Record<string, unknown>).rules as unknown[]).map((value, index) => {
+    const fail = (message: string): never => {
+      throw new InputPolicyError(`inputPolicy rule ${index}: ${message}`);
+    };
+    if (typeof value !== 'object' || value === null) fail('must be an object');
+    const rule = value as Record<string, unknown>;
+
+    if (rule.id !== undefined && typeof rule.id !== 'string') fail('id must be a string');
+    if (rule.action !== 'allow' && rule.action !== 'deny') fail('action must be "allow" or "deny"');
+    if (
+      rule.roles !== undefined &&
+      !(Array.isArray(rule.roles) && rule.roles.every((role) => ROLES.includes(role as InputRole)))
+    ) {
+      fail(`roles must be a list of ${ROLES.join(', ')}`);
+    }
+
+    const fields = MATCH_FIELDS.filter((field) => rule[field] !== undefined);
+    if (fields.length !== 1) fail(`needs exactly one of ${MATCH_FIELDS.join(', ')}`);
+
+    if (rule.sequence !== undefined && (typeof rule.sequence !== 'string' || rule.sequence === '')) {
+      fail('sequence must be a non-empty string');
+    }
+    for (const field of ['line', 'window'] as const) {
+      if (rule[field] === undefined) continue;
+      if (typeof rule[field] !== 'string') fail(`${field} must be a regular expression string`);
+      try {
+        new RegExp(rule[field] as string);
+      } catch (error) {
+        fail(`${field} is not a valid regular expression (${(error as Error).message})`);
+      }
+    }
+    if (rule.ignoreCase !== undefined && typeof rule.ignoreCase !== 'boolean') fail('ignoreCase must be a boolean');
+    if (rule.rate !== undefined) {
+      const rate = rule.rate as Record<string, unknown> | null;
+      if (!isPositiveInteger(rate?.bytes) || !isPositiveInteger(rate?.windowMs)) {
+        fail('rate needs positive integer bytes and windowMs');
+      }
+      if (rule.action !== 'deny') fail('rate rules can only deny');
+    }
+    if (rule.signal !== undefined && !isTerminalSignal(rule.signal)) fail('signal must be SIGINT, SIGTSTP, SIGTERM or SIGKILL');
+
+    return rule as unknown as InputPolicyRule;
+  });
+
+  return { rules };
+}
+
+/**
+ * Rules equivalent to a legacy InputFilterConfig
+ * Every control keystroke and signal gets a rule, so these take precedence
+ * over the defaults for them.
+ */
+export function inputPolicyFromFilterConfig(config: InputFilterConfig): InputPolicyConfig {
+  const action = (deny: boolean): InputPolicyAction => (deny ? 'deny' : 'allow');
+  return {
+    rules: [
+      { id: 'blockCtrlC', sequence: '\x03', action: action(config.blockCtrlC) },
+      { id: 'blockCtrlD', sequence: '\x04', action: action(config.blockCtrlD) },
+      { id: 'blockCtrlZ', sequence: '\x1A', action: action(config.blockCtrlZ) },
+      { id: 'blockCtrlBackslash', sequence: '\x1C', action: action(config.blockCtrlBackslash) },
+      { id: 'allowSigint', signal: 'SIGINT', action: action(!config.allowSigint) },
+      { id: 'allowSigtstp', signal: 'SIGTSTP', action: action(!config.allowSigtstp) },
+      { id: 'allowSigterm', signal: 'SIGTERM', action: action(!config.allowSigterm) },
+      { id: 'allowSigkill', signal: 'SIGKILL', action: action(!config.allowSigkill) },
+    ],
+  };
+}
+
+interface CompiledRule extends InputPolicyRule {
+  id: string;
+  pattern?: RegExp;
+  windowPattern?: RegExp;
+}
+
+/**
+ * Input policy engine for web client terminal input
+ *
+ * Keeps per-client state for rate limits and the line being typed in each
+ * window; call forget() when a client leaves. Line tracking follows typing,
+ * backspace and paste, so it is a guard against accidents rather than a
+ * security boundary: a line recalled from shell history isn't seen.
+ *
+ * @example
+ * ```typescript
+ * const policy = new InputPolicy(parseInputPolicy(config.inputPolicy));
+ * const decision = policy.checkInput(data, { role: 'guest', clientId, windowId });
+ * terminal.write(decision.data);
+ * ```
+ */
+export class InputPolicy {
+  private rules: CompiledRule[];
+  // Input each client sent recently, for rate rules
+  private sent: Map<string, { at: number; bytes: number }[]> = new Map();
+  // Line being typed, per client and window
+  private lines: Map<string, Map<string, string>> = new Map();
+
+  constructor(config: InputPolicyConfig = DEFAULT_INPUT_POLICY) {
+    this.rules = config.rules.map((rule, index) => ({
+      ...rule,
+      id: rule.id ?? `rule ${index}`,
+      pattern: rule.line !== undefined ? new RegExp(rule.line, rule.ignoreCase ? 'i' : '') : undefined,
+      windowPattern: rule.window !== undefined ? new RegExp(rule.window, rule.ignoreCase ? 'i' : '') : undefined,
+    }));
+  }
+
+  /**
+   * Check a TERMINAL_INPUT message
+   *
+   * @param data - Raw input string from the web client
+   * @param source - Who sent it and to which window
+   * @param now - Current time in ms, for rate rules
+   */
+  checkInput(data: string, source: InputSource, now: number = Date.now()): InputDecision {
+    // Defensive check for null/undefined at runtime boundaries
+    if (data == null) {
+      return { data: '', blocked: false, denied: [] };
+    }
+
+    const rules = this.rules.filter((rule) => !rule.roles || rule.roles.includes(source.role));
+    const denied: InputRuleMatch[] = [];
+
+    const limited = this.checkRate(rules, data.length, source.clientId, now);
+    if (limited) {
+      return { data: '', blocked: true, denied: [match(limited, 'rate')] };
+    }
+
+    // The first rule naming a sequence decides it
+    let filtered = data;
+    const decided = new Set<string>();
+    for (const rule of rules) {
+      if (rule.sequence === undefined || decided.has(rule.sequence)) continue;
+      decided.add(rule.sequence);
+      if (rule.action === 'deny' && filtered.includes(rule.sequence)) {
+        filtered = filtered.replaceAll(rule.sequence, '');
+        denied.push(match(rule, 'sequence'));
+      }
+    }
+
+    const submitted = this.trackLines(rules, filtered, source);
+    if (submitted.denied) {
+      denied.push(match(submitted.denied, 'line'));
+    }
+
+    return { data: submitted.data, blocked: denied.length > 0, denied };
+  }
+
+  /**
+   * Check a TERMINAL_SIGNAL message
+   */
+  checkSignal(signal: TerminalSignal, role: InputRole): SignalDecision {
+    if (!isTerminalSignal(signal)) return { allowed: false };
+    const rule = this.rules.find(
+      (candidate) => candidate.signal === signal && (!candidate.roles || candidate.roles.includes(role))
+    );
+    if (!rule) return { allowed: false };
+    return { allowed: rule.action === 'allow', match: match(rule, 'signal') };
+  }
+
+  /**
+   * Check a WINDOW_CREATE message
+   * @param commandLine - Command and arguments the window would run, space-separated
+   */
+  checkWindow(commandLine: string, role: InputRole): WindowDecision {
+    const rule = this.rules.find(
+      (candidate) => candidate.windowPattern?.test(commandLine) && (!candidate.roles || candidate.roles.includes(role))
+    );
+    if (!rule) return { allowed: false };
+    return { allowed: rule.action === 'allow', match: match(rule, 'window') };
+  }
+
+  /**
+   * Drop the state kept for a client that left
+   */
+  forget(clientId: string): void {
+    this.sent.delete(clientId);
+    this.lines.delete(clientId);
+  }
+
+  /**
+   * Count input against the rate rules
+   * @returns the rule the input would break, in which case it isn't counted
+   */
+  private checkRate(rules: CompiledRule[], bytes: number, clientId: string, now: number): CompiledRule | null {
+    const rateRules = rules.filter((rule) => rule.rate);
+    if (rateRules.length === 0) return null;
+
+    const longest = Math.max(...rateRules.map((rule) => rule.rate!.windowMs));
+    const history = (this.sent.get(clientId) ?? []).filter((entry) => now - entry.at < longest);
+    this.sent.set(clientId, history);
+
+    for (const rule of rateRules) {
+      const recent = history
+        .filter((entry) => now - entry.at < rule.rate!.windowMs)
+        .reduce((total, entry) => total + entry.bytes, 0);
+      if (recent + bytes > rule.rate!.bytes) return rule;
+    }
+
+    history.push({ at: now, bytes });
+    return null;
+  }
+
+  /**
+   * Follow the line being typed and check it against line rules on Enter
+   * Input after a denied Enter is dropped with it; the line stays typed in.
+   */
+  private trackLines(
+    rules: CompiledRule[],
+    data: string,
+    source: InputSource
+  ): { data: string; denied?: CompiledRule } {
+    const lineRules = rules.filter((rule) => rule.pattern);
+    let windows = this.lines.get(source.clientId);
+    if (!windows) {
+      windows = new Map();
+      this.lines.set(source.clientId, windows);
+    }
+    let line = windows.get(source.windowId) ?? '';
+
+    let i = 0;
+    while (i < data.length) {
+      const char = data[i];
+      if (char === '\r' || char === '\n') {
+        const rule = lineRules.find((candidate) => candidate.pattern!.test(line.trim()));
+        if (rule?.action === 'deny') {
+          windows.set(source.windowId, line);
+          return { data: data.slice(0, i), denied: rule };
+        }
+        line = '';
+        i++;
+      } else if (char === '\x1b') {
+        // Cursor keys, bracketed paste markers and the like: pass them on unread
+        i += escapeSequenceLength(data, i);
+      } else if (char === '\x7f' || char === '\x08') {
+        line = line.slice(0, -1);
+        i++;
+      } else if (char === '\x15' || char === '\x03') {
+        // Ctrl+U and Ctrl+C discard the line
+        line = '';
+        i++;
+      } else {
+        if (char >= ' ') line = (line + char).slice(-MAX_LINE_LENGTH);
+        i++;
+      }
+    }
+
+    windows.set(source.windowId, line);
+    return { data };
+  }
+}
+
+function match(rule: CompiledRule, kind: InputRuleKind): InputRuleMatch {
+  return { rule: rule.id, kind, action: rule.action };
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Length of the escape sequence starting at `start` (which holds ESC)
+ */
+function escapeSequenceLength(data: string, start: number): number {
+  const next = data[start + 1];
+  if (next === '[') {
+    // CSI: parameters, then a final byte in @..~
+    let end = start + 2;
+    while (end < data.length && !(data[end] >= '@' && data[end] <= '~')) end++;
+    return Math.min(end + 1, data.length) - start;
+  }
+  if (next === 'O') {
+    // SS3: one more character (application cursor keys)
+    return Math.min(3, data.length - start);
+  }
+  return next === undefined ? 1 : 2;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  negotiateEnvelopeVersion,
+  isBinaryEnvelope,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  BinaryEnvelopeError,
+} from './binary.js';
+import { fragmentEnvelope } from './fragment.js';
+import { createMessage, isEncryptedEnvelope } from './messages.js';
+import { createPair } from '../crypto/test-utils.js';
+import { MessageType } from '../types/message.js';
+
+describe('negotiateEnvelopeVersion', () => {
+  it('should use binary frames only when both the peer and transport can', () => {
+    expect(negotiateEnvelopeVersion([1, 2], true)).toBe(2);
+    expect(negotiateEnvelopeVersion([1, 2], false)).toBe(1);
+    expect(negotiateEnvelopeVersion([1], true)).toBe(1);
+    expect(negotiateEnvelopeVersion(undefined, true)).toBe(1);
+    expect(negotiateEnvelopeVersion('2', true)).toBe(1);
+  });
+});
+
+describe('binary envelopes', () => {
+  it('should round-trip an envelope and decrypt it', () => {
+    const { cli, web } = createPair();
+    const message = createMessage(MessageType.TERMINAL_INPUT, 'l', 1);
+    const envelope = cli.encrypt(message, 'abc123');
+
+    const bytes = encodeBinaryEnvelope(envelope);
+    const decoded = decodeBinaryEnvelope(bytes);
+
+    expect(isBinaryEnvelope(bytes)).toBe(true);
+    expect(decoded).toEqual({ ...envelope, version: 2 });
+    expect(isEncryptedEnvelope(decoded)).toBe(true);
+    expect(web.decrypt(decoded)).toEqual(message);
+  });
+
+  it('should be smaller than the JSON envelope', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'l', 1), 'abc123');
+
+    const json = new TextEncoder().encode(JSON.stringify(envelope)).length;
+
+    expect(encodeBinaryEnvelope(envelope).length).toBeLessThan(json * 0.6);
+  });
+
+  it('should keep routing fields and fragments', () => {
+    const { cli, web } = createPair();
+    const message = createMessage(MessageType.TERMINAL_OUTPUT, 'x'.repeat(200_000), 1);
+    const fragments = fragmentEnvelope({ ...cli.encrypt(message, 'abc123'), recipientId: 'conn-é' });
+
+    const decoded = fragments.map((fragment) =>
+      decodeBinaryEnvelope(encodeBinaryEnvelope({ ...fragment, connectionId: 'web-1' }))
+    );
+
+    expect(decoded.length).toBeGreaterThan(1);
+    expect(decoded[1].fragment).toEqual(fragments[1].fragment);
+    expect(decoded.every((env) => env.recipientId === 'conn-é' && env.connectionId === 'web-1')).toBe(true);
+    const ciphertext = decoded.map((env) => env.ciphertext).join('');
+    expect(web.decrypt({ ...decoded[0], fragment: undefined, ciphertext })).toEqual(message);
+  });
+
+  it('should decode frames that are views into a larger buffer', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'l', 1), 'abc123');
+    const bytes = encodeBinaryEnvelope(envelope);
+    const buffer = new Uint8Array(bytes.length + 10);
+    buffer.set(bytes, 10);
+
+    expect(decodeBinaryEnvelope(buffer.subarray(10)).ciphertext).toBe(envelope.ciphertext);
+  });
+
+  it('should reject truncated or foreign frames', () => {
+    const { cli } = createPair();
+    const bytes = encodeBinaryEnvelope(cli.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'l', 1), 'abc123'));
+
+    expect(() => decodeBinaryEnvelope(bytes.subarray(0, 20))).toThrow(BinaryEnvelopeError);
+    expect(() => decodeBinaryEnvelope(new Uint8Array([1, 0, 0]))).toThrow(BinaryEnvelopeError);
+    expect(() => decodeBinaryEnvelope(new Uint8Array())).toThrow(BinaryEnvelopeError);
+    expect(isBinaryEnvelope(new TextEncoder().encode('{"version":2}'))).toBe(false);
+  });
+
+  it('should refuse IDs too long for the header', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'l', 1), 'x'.repeat(256));
+
+    expect(() => encodeBinaryEnvelope(envelope)).toThrow(BinaryEnvelopeError);
+  });
+});
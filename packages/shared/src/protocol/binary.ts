@@ -0,0 +1,178 @@
+import util from 'tweetnacl-util';
+import type { EncryptedEnvelope, EnvelopeVersion } from '../types/message.js';
+import { ErrorCodes } from './messages.js';
+
+const { encodeBase64, decodeBase64 } = util;
+
+/**
+ * Envelope formats this build can read and write
+ */
+export const SUPPORTED_ENVELOPE_VERSIONS: readonly EnvelopeVersion[] = [1, 2];
+
+const NONCE_LENGTH = 24;
+// Longest session, connection or fragment ID: lengths are one byte
+const MAX_ID_LENGTH = 255;
+
+const FLAG_RECIPIENT = 0x01;
+const FLAG_CONNECTION = 0x02;
+const FLAG_FRAGMENT = 0x04;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * A binary frame that isn't a valid version 2 envelope
+ */
+export class BinaryEnvelopeError extends Error {
+  readonly code = ErrorCodes.INVALID_MESSAGE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BinaryEnvelopeError';
+  }
+}
+
+/**
+ * Pick the envelope format for a connection
+ * @param offered - envelopeVersions from the peer's handshake
+ * @param binaryFrames - whether the transport carries binary WebSocket frames
+ */
+export function negotiateEnvelopeVersion(offered: unknown, binaryFrames: boolean): EnvelopeVersion {
+  return binaryFrames && Array.isArray(offered) && offered.includes(2) ? 2 : 1;
+}
+
+/**
+ * Type guard for a frame holding a version 2 envelope
+ */
+export function isBinaryEnvelope(data: unknown): data is Uint8Array {
+  return data instanceof Uint8Array && data.length > 0 && data[0] === 2;
+}
+
+/**
+ * Encode an envelope as a version 2 binary frame
+ *
+ * Layout (integers big-endian):
+ *   u8 version (2) | u8 flags | u8 length + session ID | 24-byte nonce |
+ *   f64 timestamp | [u8 length + recipient ID] | [u8 length + connection ID] |
+ *   [u8 length + fragment ID, u16 index, u16 count] | ciphertext to the end
+ * Optional fields are present when their flag is set, in this order.
+ * @throws BinaryEnvelopeError if an ID is too long to fit
+ */
+export function encodeBinaryEnvelope(envelope: EncryptedEnvelope): Uint8Array {
+  const sessionId = encodeId(envelope.sessionId);
+  const nonce = decodeBase64(envelope.nonce);
+  const ciphertext = decodeBase64(envelope.ciphertext);
+  const recipientId = envelope.recipientId !== undefined ? encodeId(envelope.recipientId) : null;
+  const connectionId = envelope.connectionId !== undefined ? encodeId(envelope.connectionId) : null;
+  const fragmentId = envelope.fragment ? encodeId(envelope.fragment.id) : null;
+
+  if (nonce.length !== NONCE_LENGTH) {
+    throw new BinaryEnvelopeError('Invalid nonce length');
+  }
+
+  let flags = 0;
+  let size = 3 + sessionId.length + NONCE_LENGTH + 8 + ciphertext.length;
+  if (recipientId) {
+    flags |= FLAG_RECIPIENT;
+    size += 1 + recipientId.length;
+  }
+  if (connectionId) {
+    flags |= FLAG_CONNECTION;
+    size += 1 + connectionId.length;
+  }
+  if (fragmentId) {
+    flags |= FLAG_FRAGMENT;
+    size += 1 + fragmentId.length + 4;
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const writeId = (id: Uint8Array): void => {
+    bytes[offset++] = id.length;
+    bytes.set(id, offset);
+    offset += id.length;
+  };
+
+  bytes[offset++] = 2;
+  bytes[offset++] = flags;
+  writeId(sessionId);
+  bytes.set(nonce, offset);
+  offset += NONCE_LENGTH;
+  view.setFloat64(offset, envelope.timestamp);
+  offset += 8;
+  if (recipientId) writeId(recipientId);
+  if (connectionId) writeId(connectionId);
+  if (fragmentId && envelope.fragment) {
+    writeId(fragmentId);
+    view.setUint16(offset, envelope.fragment.index);
+    view.setUint16(offset + 2, envelope.fragment.count);
+    offset += 4;
+  }
+  bytes.set(ciphertext, offset);
+
+  return bytes;
+}
+
+/**
+ * Decode a version 2 binary frame
+ * @returns the envelope with base64 fields, as it would have arrived in JSON
+ * @throws BinaryEnvelopeError if the frame is truncated or malformed
+ */
+export function decodeBinaryEnvelope(bytes: Uint8Array): EncryptedEnvelope {
+  if (!isBinaryEnvelope(bytes)) {
+    throw new BinaryEnvelopeError('Unsupported envelope version');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 1;
+
+  const need = (length: number): void => {
+    if (offset + length > bytes.length) {
+      throw new BinaryEnvelopeError('Truncated envelope');
+    }
+  };
+  const readId = (): string => {
+    need(1);
+    const length = bytes[offset++];
+    need(length);
+    const id = bytes.subarray(offset, offset + length);
+    offset += length;
+    try {
+      return decoder.decode(id);
+    } catch {
+      throw new BinaryEnvelopeError('Invalid ID encoding');
+    }
+  };
+
+  need(1);
+  const flags = bytes[offset++];
+  const sessionId = readId();
+  need(NONCE_LENGTH + 8);
+  const nonce = encodeBase64(bytes.subarray(offset, offset + NONCE_LENGTH));
+  offset += NONCE_LENGTH;
+  const timestamp = view.getFloat64(offset);
+  offset += 8;
+
+  const envelope: EncryptedEnvelope = { version: 2, sessionId, nonce, ciphertext: '', timestamp };
+  if (flags & FLAG_RECIPIENT) envelope.recipientId = readId();
+  if (flags & FLAG_CONNECTION) envelope.connectionId = readId();
+  if (flags & FLAG_FRAGMENT) {
+    const id = readId();
+    need(4);
+    envelope.fragment = { id, index: view.getUint16(offset), count: view.getUint16(offset + 2) };
+    offset += 4;
+  }
+  envelope.ciphertext = encodeBase64(bytes.subarray(offset));
+
+  return envelope;
+}
+
+function encodeId(id: string): Uint8Array {
+  const bytes = encoder.encode(id);
+  if (bytes.length > MAX_ID_LENGTH) {
+    throw new BinaryEnvelopeError('ID too long for a binary envelope');
+  }
+  return bytes;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getCapabilities, checkCompatibility, supportsMessageType } from './capabilities.js';
+import { isCapabilities, PROTOCOL } from './messages.js';
+import { MessageType } from '../types/message.js';
+
+describe('getCapabilities', () => {
+  it('should describe this build', () => {
+    const capabilities = getCapabilities();
+
+    expect(isCapabilities(capabilities)).toBe(true);
+    expect(capabilities.protocolVersion).toBe(PROTOCOL.VERSION);
+    expect(capabilities.envelopeVersions).toEqual([1, 2]);
+    expect(capabilities.compression).toEqual(['deflate']);
+    expect(capabilities.messageTypes).toContain(MessageType.HISTORY_REQUEST);
+  });
+});
+
+describe('checkCompatibility', () => {
+  const local = { ...getCapabilities(), protocolVersion: 3, minProtocolVersion: 2 };
+
+  it('should accept peers in range, including ones that sent nothing at version 1', () => {
+    expect(checkCompatibility({ ...local, protocolVersion: 2, minProtocolVersion: 1 }, local)).toBeNull();
+    expect(checkCompatibility({ ...local, protocolVersion: 5, minProtocolVersion: 3 }, local)).toBeNull();
+    expect(checkCompatibility(undefined, getCapabilities())).toBeNull();
+    expect(checkCompatibility(getCapabilities(), undefined)).toBeNull();
+  });
+
+  it('should ask to upgrade the peer when it is too old', () => {
+    expect(checkCompatibility(undefined, local)).toEqual({ upgrade: 'remote', localVersion: 3, remoteVersion: 1 });
+    expect(checkCompatibility(local, undefined)).toEqual({ upgrade: 'local', localVersion: 1, remoteVersion: 3 });
+  });
+
+  it('should ask to upgrade this side when the peer needs a newer version', () => {
+    expect(checkCompatibility({ ...local, protocolVersion: 5, minProtocolVersion: 4 }, local)).toEqual({
+      upgrade: 'local',
+      localVersion: 3,
+      remoteVersion: 5,
+    });
+  });
+});
+
+describe('supportsMessageType', () => {
+  it('should go by the list a peer sent', () => {
+    const remote = { ...getCapabilities(), messageTypes: [MessageType.TERMINAL_INPUT] };
+
+    expect(supportsMessageType(remote, MessageType.TERMINAL_INPUT)).toBe(true);
+    expect(supportsMessageType(remote, MessageType.HISTORY_REQUEST)).toBe(false);
+    expect(supportsMessageType(undefined, MessageType.HISTORY_REQUEST)).toBe(true);
+  });
+});
+
+describe('isCapabilities', () => {
+  it('should reject malformed records', () => {
+    expect(isCapabilities(null)).toBe(false);
+    expect(isCapabilities({ ...getCapabilities(), messageTypes: 'all' })).toBe(false);
+    expect(isCapabilities({ ...getCapabilities(), fragments: undefined })).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { SUPPORTED_COMPRESSION } from '../crypto/compression.js';
+import { MessageType, type Capabilities } from '../types/message.js';
+import { SUPPORTED_ENVELOPE_VERSIONS } from './binary.js';
+import { PROTOCOL } from './messages.js';
+
+/**
+ * Which side of a connection has to be upgraded for the two to work together
+ */
+export interface CompatibilityProblem {
+  /** 'local' when this build is too old for the peer, 'remote' when the peer is too old */
+  upgrade: 'local' | 'remote';
+  localVersion: number;
+  remoteVersion: number;
+}
+
+/**
+ * Capabilities of this build, sent in the handshake
+ */
+export function getCapabilities(): Capabilities {
+  return {
+    protocolVersion: PROTOCOL.VERSION,
+    minProtocolVersion: PROTOCOL.MIN_VERSION,
+    envelopeVersions: [...SUPPORTED_ENVELOPE_VERSIONS],
+    compression: [...SUPPORTED_COMPRESSION],
+    fragments: true,
+    messageTypes: Object.values(MessageType),
+  };
+}
+
+/**
+ * Check that each side's protocol version is in the range the other accepts
+ * Either side may be undefined: a peer from before the exchange, taken as version 1.
+ * @param local - Usually getCapabilities(); the relay passes the side it checks from
+ * @returns null when the two can talk
+ */
+export function checkCompatibility(
+  remote: Capabilities | undefined,
+  local: Capabilities | undefined
+): CompatibilityProblem | null {
+  const localVersion = local?.protocolVersion ?? 1;
+  const remoteVersion = remote?.protocolVersion ?? 1;
+
+  if (remoteVersion < (local?.minProtocolVersion ?? 1)) {
+    return { upgrade: 'remote', localVersion, remoteVersion };
+  }
+  if (localVersion < (remote?.minProtocolVersion ?? 1)) {
+    return { upgrade: 'local', localVersion, remoteVersion };
+  }
+  return null;
+}
+
+/**
+ * Whether a peer handles a message type; sending it one it doesn't is skipped
+ * Peers that sent no capabilities are assumed to handle everything, as before.
+ */
+export function supportsMessageType(remote: Capabilities | undefined, type: string): boolean {
+  return !remote || remote.messageTypes.includes(type);
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { createPair } from '../crypto/test-utils.js';
+import { MessageType, type EncryptedEnvelope } from '../types/message.js';
+import { PROTOCOL, createMessage } from './messages.js';
+import { fragmentEnvelope, FragmentAssembler, FragmentError } from './fragment.js';
+
+// Terminal-like output with escape sequences and multi-byte characters
+function createOutput(size: number): string {
+  const line = '\x1b[32m✓\x1b[0m build step finished — 日本語 output line\r\n';
+  return line.repeat(Math.ceil(size / line.length)).slice(0, size);
+}
+
+describe('fragmentEnvelope', () => {
+  it('should leave envelopes that fit alone', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, { data: 'ls\r\n' }, 1), 'session');
+
+    expect(fragmentEnvelope(envelope)).toEqual([envelope]);
+  });
+
+  it('should split a multi-megabyte message into envelopes that fit', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(
+      createMessage(MessageType.TERMINAL_OUTPUT, { data: createOutput(3 * 1024 * 1024) }, 1),
+      'session'
+    );
+    envelope.recipientId = 'conn-1';
+
+    const fragments = fragmentEnvelope(envelope);
+
+    expect(fragments.length).toBeGreaterThan(40);
+    const id = fragments[0].fragment!.id;
+    fragments.forEach((fragment, index) => {
+      expect(JSON.stringify(fragment).length).toBeLessThanOrEqual(PROTOCOL.MAX_MESSAGE_SIZE);
+      expect(fragment.fragment).toEqual({ id, index, count: fragments.length });
+      expect(fragment.nonce).toBe(envelope.nonce);
+      expect(fragment.recipientId).toBe('conn-1');
+    });
+    expect(fragments.map((f) => f.ciphertext).join('')).toBe(envelope.ciphertext);
+  });
+
+  it('should give each message its own fragment id', () => {
+    const { cli } = createPair();
+    const message = createMessage(MessageType.TERMINAL_OUTPUT, { data: createOutput(200 * 1024) }, 1);
+
+    const a = fragmentEnvelope(cli.encrypt(message, 'session'));
+    const b = fragmentEnvelope(cli.encrypt(message, 'session'));
+
+    expect(a[0].fragment!.id).not.toBe(b[0].fragment!.id);
+  });
+
+  it('should refuse messages that need too many fragments', () => {
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      sessionId: 'session',
+      nonce: 'nonce',
+      ciphertext: 'A'.repeat(8 * 1024 * 1024),
+      timestamp: Date.now(),
+    };
+
+    expect(() => fragmentEnvelope(envelope, 4096)).toThrow(FragmentError);
+  });
+});
+
+describe('FragmentAssembler', () => {
+  it('should reassemble a multi-megabyte message that decrypts', () => {
+    const { cli, web } = createPair();
+    const data = createOutput(5 * 1024 * 1024);
+    const fragments = fragmentEnvelope(
+      cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, { data }, 1), 'session')
+    );
+    const assembler = new FragmentAssembler();
+
+    const results = fragments.map((fragment) => assembler.add(fragment));
+
+    expect(results.slice(0, -1).every((result) => result === null)).toBe(true);
+    const whole = results[results.length - 1]!;
+    expect(whole.fragment).toBeUndefined();
+    expect((web.decrypt(whole).payload as { data: string }).data).toBe(data);
+    expect(assembler.pending).toBe(0);
+  });
+
+  it('should reassemble fragments that arrive out of order or twice', () => {
+    const { cli, web } = createPair();
+    const data = createOutput(1024 * 1024);
+    const fragments = fragmentEnvelope(
+      cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, { data }, 1), 'session')
+    );
+    const assembler = new FragmentAssembler();
+
+    const reordered = [...fragments].reverse();
+    for (const fragment of reordered.slice(0, -1)) {
+      expect(assembler.add(fragment)).toBeNull();
+    }
+    expect(assembler.add(reordered[0])).toBeNull();
+    const whole = assembler.add(reordered[reordered.length - 1]);
+
+    expect((web.decrypt(whole!).payload as { data: string }).data).toBe(data);
+  });
+
+  it('should keep fragments from different connections apart', () => {
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      sessionId: 'session',
+      nonce: 'nonce',
+      ciphertext: 'A'.repeat(200 * 1024),
+      timestamp: Date.now(),
+    };
+    const fragments = fragmentEnvelope(envelope);
+    const assembler = new FragmentAssembler();
+
+    for (const fragment of fragments.slice(0, -1)) {
+      assembler.add({ ...fragment, connectionId: 'conn-1' });
+    }
+    expect(assembler.add({ ...fragments[fragments.length - 1], connectionId: 'conn-2' })).toBeNull();
+    expect(assembler.pending).toBe(2);
+
+    const whole = assembler.add({ ...fragments[fragments.length - 1], connectionId: 'conn-1' });
+    expect(whole?.ciphertext).toBe(envelope.ciphertext);
+    expect(whole?.connectionId).toBe('conn-1');
+  });
+
+  it('should pass unfragmented envelopes through', () => {
+    const { cli } = createPair();
+    const envelope = cli.encrypt(createMessage(MessageType.STATE_REQUEST, {}, 1), 'session');
+
+    expect(new FragmentAssembler().add(envelope)).toBe(envelope);
+  });
+
+  it('should drop partial messages after the timeout', () => {
+    let now = 1000;
+    const assembler = new FragmentAssembler({ timeout: 5000, now: () => now });
+    const { cli } = createPair();
+    const fragments = fragmentEnvelope(
+      cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, { data: createOutput(2 * 1024 * 1024) }, 1), 'session')
+    );
+
+    for (const fragment of fragments.slice(0, -1)) {
+      assembler.add(fragment);
+    }
+    expect(assembler.prune()).toBe(0);
+
+    now += 5000;
+    expect(assembler.prune()).toBe(1);
+    expect(assembler.pending).toBe(0);
+
+    // The last fragment now starts a new message that never completes
+    expect(assembler.add(fragments[fragments.length - 1])).toBeNull();
+  });
+
+  it('should reject malformed fragments', () => {
+    const assembler = new FragmentAssembler();
+    const base: EncryptedEnvelope = {
+      version: 1,
+      sessionId: 'session',
+      nonce: 'nonce',
+      ciphertext: 'AAAA',
+      timestamp: Date.now(),
+    };
+
+    for (const fragment of [
+      { id: '', index: 0, count: 2 },
+      { id: 'x', index: 2, count: 2 },
+      { id: 'x', index: -1, count: 2 },
+      { id: 'x', index: 0, count: PROTOCOL.MAX_FRAGMENTS + 1 },
+      { id: 'x', index: 0.5, count: 2 },
+    ]) {
+      expect(() => assembler.add({ ...base, fragment })).toThrow(FragmentError);
+    }
+
+    assembler.add({ ...base, fragment: { id: 'y', index: 0, count: 3 } });
+    expect(() => assembler.add({ ...base, fragment: { id: 'y', index: 1, count: 4 } })).toThrow(FragmentError);
+    expect(assembler.pending).toBe(0);
+  });
+
+  it('should cap the data held for partial messages', () => {
+    const assembler = new FragmentAssembler({ maxPendingSize: 100 * 1024 });
+    const fragments = fragmentEnvelope({
+      version: 1,
+      sessionId: 'session',
+      nonce: 'nonce',
+      ciphertext: 'A'.repeat(1024 * 1024),
+      timestamp: Date.now(),
+    });
+
+    assembler.add(fragments[0]);
+    expect(() => assembler.add(fragments[1])).toThrow(FragmentError);
+    expect(assembler.pending).toBe(0);
+  });
+});
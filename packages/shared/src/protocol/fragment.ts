@@ -0,0 +1,185 @@
+import { generateRandomId } from '../crypto/nacl.js';
+import type { EncryptedEnvelope } from '../types/message.js';
+import { PROTOCOL, ErrorCodes } from './messages.js';
+
+// Room left in each fragment for the envelope fields around its ciphertext slice
+const FRAGMENT_OVERHEAD = 1024;
+
+/**
+ * A message that can't be split, or a fragment that can't be put back together
+ */
+export class FragmentError extends Error {
+  readonly code = ErrorCodes.INVALID_MESSAGE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'FragmentError';
+  }
+}
+
+/**
+ * Split an envelope whose JSON exceeds maxSize into envelopes that fit
+ *
+ * Each fragment repeats the envelope fields with a slice of the ciphertext, so
+ * the relay routes fragments like any other envelope. The message is encrypted
+ * once, and only the reassembled ciphertext is decrypted.
+ * @returns the envelope itself when it already fits
+ * @throws FragmentError if it would take more than PROTOCOL.MAX_FRAGMENTS
+ */
+export function fragmentEnvelope(
+  envelope: EncryptedEnvelope,
+  maxSize: number = PROTOCOL.MAX_MESSAGE_SIZE
+): EncryptedEnvelope[] {
+  const size = JSON.stringify(envelope).length;
+  if (size <= maxSize) {
+    return [envelope];
+  }
+
+  // Whole base64 quads, so each slice decodes on its own in a binary envelope
+  const sliceSize = Math.floor((maxSize - FRAGMENT_OVERHEAD) / 4) * 4;
+  const count = Math.ceil(envelope.ciphertext.length / sliceSize);
+  if (sliceSize <= 0 || count > PROTOCOL.MAX_FRAGMENTS) {
+    throw new FragmentError(`Message too large to send (${size} bytes)`);
+  }
+
+  const id = generateRandomId(12);
+  return Array.from({ length: count }, (_, index) => ({
+    ...envelope,
+    ciphertext: envelope.ciphertext.slice(index * sliceSize, (index + 1) * sliceSize),
+    fragment: { id, index, count },
+  }));
+}
+
+export interface FragmentAssemblerOptions {
+  /** Drop a message whose fragments stopped coming after this long (ms) */
+  timeout?: number;
+  /** Most ciphertext held across all partial messages */
+  maxPendingSize?: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+interface PartialMessage {
+  parts: Array<string | undefined>;
+  received: number;
+  size: number;
+  startedAt: number;
+}
+
+/**
+ * Puts fragmented envelopes back together on the receiving side
+ *
+ * Partial messages are keyed by the sending connection and fragment id, so
+ * fragments from different web clients never mix. Messages that don't complete
+ * within the timeout are dropped, on the next add() or prune().
+ */
+export class FragmentAssembler {
+  private partials: Map<string, PartialMessage> = new Map();
+  private pendingSize = 0;
+  private timeout: number;
+  private maxPendingSize: number;
+  private now: () => number;
+
+  constructor(options: FragmentAssemblerOptions = {}) {
+    this.timeout = options.timeout ?? PROTOCOL.FRAGMENT_TIMEOUT;
+    this.maxPendingSize = options.maxPendingSize ?? PROTOCOL.MAX_FRAGMENTS * PROTOCOL.MAX_MESSAGE_SIZE;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Number of messages waiting for more fragments
+   */
+  get pending(): number {
+    return this.partials.size;
+  }
+
+  /**
+   * Take a received envelope
+   * @returns the whole envelope once complete (unfragmented ones pass straight through),
+   *   or null while fragments are missing
+   * @throws FragmentError for a malformed fragment or too much data pending
+   */
+  add(envelope: EncryptedEnvelope): EncryptedEnvelope | null {
+    const { fragment } = envelope;
+    if (!fragment) {
+      return envelope;
+    }
+
+    this.prune();
+
+    const { id, index, count } = fragment;
+    if (
+      typeof id !== 'string' || id.length === 0 || id.length > 64 ||
+      !Number.isInteger(count) || count < 1 || count > PROTOCOL.MAX_FRAGMENTS ||
+      !Number.isInteger(index) || index < 0 || index >= count ||
+      typeof envelope.ciphertext !== 'string'
+    ) {
+      throw new FragmentError('Invalid message fragment');
+    }
+
+    const key = `${envelope.connectionId ?? ''}/${id}`;
+    let partial = this.partials.get(key);
+    if (!partial) {
+      partial = { parts: new Array(count), received: 0, size: 0, startedAt: this.now() };
+      this.partials.set(key, partial);
+    } else if (partial.parts.length !== count) {
+      this.drop(key);
+      throw new FragmentError('Message fragment count changed');
+    }
+
+    // The relay may deliver a fragment twice; keep the first copy
+    if (partial.parts[index] !== undefined) {
+      return null;
+    }
+
+    partial.parts[index] = envelope.ciphertext;
+    partial.received++;
+    partial.size += envelope.ciphertext.length;
+    this.pendingSize += envelope.ciphertext.length;
+    if (this.pendingSize > this.maxPendingSize) {
+      this.drop(key);
+      throw new FragmentError('Too much fragmented data pending');
+    }
+
+    if (partial.received < count) {
+      return null;
+    }
+
+    this.drop(key);
+    const whole: EncryptedEnvelope = { ...envelope, ciphertext: partial.parts.join('') };
+    delete whole.fragment;
+    return whole;
+  }
+
+  /**
+   * Drop messages that did not complete in time
+   * @returns number of messages dropped
+   */
+  prune(): number {
+    const cutoff = this.now() - this.timeout;
+    let dropped = 0;
+    for (const [key, partial] of this.partials) {
+      if (partial.startedAt <= cutoff) {
+        this.drop(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  /**
+   * Drop all partial messages
+   */
+  clear(): void {
+    this.partials.clear();
+    this.pendingSize = 0;
+  }
+
+  private drop(key: string): void {
+    const partial = this.partials.get(key);
+    if (partial) {
+      this.pendingSize -= partial.size;
+      this.partials.delete(key);
+    }
+  }
+}
@@ -1,14 +1,46 @@
 export {
   PROTOCOL,
+  DEFAULT_WINDOW_ID,
   createMessage,
+  getMessageWindowId,
+  getEnvelopeSize,
   isEncryptedEnvelope,
+  isCapabilities,
   isSessionCreateRequest,
   isSessionReconnectRequest,
   isSessionJoinRequest,
+  isJoinApprovalRequest,
   isSessionListRequest,
   isSessionInfoRequest,
   isSessionUpdateRequest,
   isSessionDeleteRequest,
+  isSessionInviteRequest,
+  isPushKeyRequest,
+  isPushSubscriptionId,
+  isPushSubscribeRequest,
+  isPushUnsubscribeRequest,
+  isPushSendRequest,
   ErrorCodes,
   type ErrorCode,
 } from './messages.js';
+export { ReplayWindow, ReplayDetectedError } from './replay.js';
+export {
+  fragmentEnvelope,
+  FragmentAssembler,
+  FragmentError,
+  type FragmentAssemblerOptions,
+} from './fragment.js';
+export {
+  SUPPORTED_ENVELOPE_VERSIONS,
+  negotiateEnvelopeVersion,
+  isBinaryEnvelope,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  BinaryEnvelopeError,
+} from './binary.js';
+export {
+  getCapabilities,
+  checkCompatibility,
+  supportsMessageType,
+  type CompatibilityProblem,
+} from './capabilities.js';
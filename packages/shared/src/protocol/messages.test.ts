@@ -1,18 +1,26 @@
 import { describe, it, expect } from 'vitest';
 import {
   createMessage,
+  getMessageWindowId,
+  getEnvelopeSize,
+  DEFAULT_WINDOW_ID,
   isEncryptedEnvelope,
   isSessionCreateRequest,
   isSessionReconnectRequest,
   isSessionJoinRequest,
+  isJoinApprovalRequest,
   isSessionListRequest,
   isSessionInfoRequest,
   isSessionUpdateRequest,
   isSessionDeleteRequest,
+  isSessionInviteRequest,
+  isPushSubscribeRequest,
+  isPushSendRequest,
   PROTOCOL,
   ErrorCodes,
 } from './messages.js';
 import { MessageType } from '../types/message.js';
+import { E2ECrypto } from '../crypto/nacl.js';
 
 describe('Protocol Constants', () => {
   it('should have correct protocol version', () => {
@@ -55,6 +63,50 @@ describe('createMessage', () => {
     expect(msg.payload).toEqual(payload);
     expect(msg.seq).toBe(42);
   });
+
+  it('should include windowId only when given', () => {
+    const msg = createMessage(MessageType.TERMINAL_INPUT, 'ls', 1, 'w2');
+
+    expect(msg.windowId).toBe('w2');
+    expect(createMessage(MessageType.TERMINAL_INPUT, 'ls', 1)).not.toHaveProperty('windowId');
+  });
+
+  it('should name the sender only when given', () => {
+    expect(createMessage(MessageType.TERMINAL_INPUT, 'ls', 1, undefined, 'web').from).toBe('web');
+    expect(createMessage(MessageType.TERMINAL_INPUT, 'ls', 1)).not.toHaveProperty('from');
+  });
+});
+
+describe('getMessageWindowId', () => {
+  it('should return the message windowId', () => {
+    expect(getMessageWindowId(createMessage(MessageType.TERMINAL_OUTPUT, 'x', 1, 'w3'))).toBe('w3');
+  });
+
+  it('should default to the main window', () => {
+    expect(getMessageWindowId(createMessage(MessageType.TERMINAL_OUTPUT, 'x', 1))).toBe(
+      DEFAULT_WINDOW_ID
+    );
+    expect(
+      getMessageWindowId({ type: MessageType.TERMINAL_OUTPUT, payload: 'x', seq: 1, windowId: '' })
+    ).toBe(DEFAULT_WINDOW_ID);
+  });
+});
+
+describe('getEnvelopeSize', () => {
+  it('should not underestimate the encrypted size', () => {
+    const cli = new E2ECrypto();
+    const web = new E2ECrypto();
+    cli.establishSharedKey(web.getPublicKey());
+
+    for (const payload of ['x', 'é'.repeat(5000), '\x1b[31mred\x1b[0m\r\n'.repeat(2000)]) {
+      const message = createMessage(MessageType.TERMINAL_OUTPUT, payload, 1, 'main');
+      const envelope = { ...cli.encrypt(message, 'ABC234'), recipientId: 'connection-id-123456' };
+      const actual = JSON.stringify(envelope).length;
+
+      expect(getEnvelopeSize(message)).toBeGreaterThanOrEqual(actual);
+      expect(getEnvelopeSize(message)).toBeLessThan(actual + 300);
+    }
+  });
 });
 
 describe('isEncryptedEnvelope', () => {
@@ -84,9 +136,21 @@ describe('isEncryptedEnvelope', () => {
     expect(isEncryptedEnvelope(true)).toBe(false);
   });
 
+  it('should accept envelopes decoded from binary frames', () => {
+    const envelope = {
+      version: 2,
+      sessionId: 'ABC123',
+      nonce: 'base64nonce==',
+      ciphertext: 'base64ciphertext==',
+      timestamp: Date.now(),
+    };
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+  });
+
   it('should return false for wrong version', () => {
     const envelope = {
-      version: 2, // Wrong version
+      version: 3, // Wrong version
       sessionId: 'ABC123',
       nonce: 'base64nonce==',
       ciphertext: 'base64ciphertext==',
@@ -250,6 +314,60 @@ describe('isSessionJoinRequest', () => {
     ).toBe(false);
   });
 
+  it('should accept a viewer token only as a string', () => {
+    const request = {
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'ABC123',
+      publicKey: 'base64publickey==',
+    };
+
+    expect(isSessionJoinRequest({ ...request, viewerToken: 'share-secret' })).toBe(true);
+    expect(isSessionJoinRequest({ ...request, viewerToken: 42 })).toBe(false);
+  });
+
+  it('should accept a device identity only with a key and a signature', () => {
+    const request = {
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'ABC123',
+      publicKey: 'base64publickey==',
+    };
+
+    expect(isSessionJoinRequest({ ...request, device: { publicKey: 'id-key', signature: 'sig' } })).toBe(true);
+    expect(isSessionJoinRequest({ ...request, device: { publicKey: 'id-key' } })).toBe(false);
+    expect(isSessionJoinRequest({ ...request, device: 'id-key' })).toBe(false);
+  });
+
+  it('should accept advertised compression only as a list of strings', () => {
+    const request = {
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'ABC123',
+      publicKey: 'base64publickey==',
+    };
+
+    expect(isSessionJoinRequest({ ...request, compression: ['deflate', 'zstd'] })).toBe(true);
+    expect(isSessionJoinRequest({ ...request, compression: 'deflate' })).toBe(false);
+    expect(isSessionJoinRequest({ ...request, compression: [1] })).toBe(false);
+  });
+
+  it('should accept capabilities only when well-formed', () => {
+    const request = {
+      type: MessageType.SESSION_JOIN,
+      sessionId: 'ABC123',
+      publicKey: 'base64publickey==',
+    };
+    const capabilities = {
+      protocolVersion: 1,
+      minProtocolVersion: 1,
+      envelopeVersions: [1],
+      compression: [],
+      fragments: true,
+      messageTypes: [MessageType.TERMINAL_INPUT],
+    };
+
+    expect(isSessionJoinRequest({ ...request, capabilities })).toBe(true);
+    expect(isSessionJoinRequest({ ...request, capabilities: { ...capabilities, protocolVersion: '1' } })).toBe(false);
+  });
+
   it('should return false for wrong field types', () => {
     expect(
       isSessionJoinRequest({
@@ -261,6 +379,20 @@ describe('isSessionJoinRequest', () => {
   });
 });
 
+describe('isJoinApprovalRequest', () => {
+  it('should accept the three approval states', () => {
+    for (const status of ['pending', 'approved', 'rejected']) {
+      expect(isJoinApprovalRequest({ type: MessageType.JOIN_APPROVAL, connectionId: 'web-1', status })).toBe(true);
+    }
+  });
+
+  it('should reject unknown states and missing connection IDs', () => {
+    expect(isJoinApprovalRequest({ type: MessageType.JOIN_APPROVAL, connectionId: 'web-1', status: 'maybe' })).toBe(false);
+    expect(isJoinApprovalRequest({ type: MessageType.JOIN_APPROVAL, status: 'approved' })).toBe(false);
+    expect(isJoinApprovalRequest(null)).toBe(false);
+  });
+});
+
 describe('isSessionListRequest', () => {
   it('should return true for valid session list request', () => {
     const request = {
@@ -410,6 +542,57 @@ describe('isSessionDeleteRequest', () => {
   });
 });
 
+describe('isSessionInviteRequest', () => {
+  it('should return true with emails to add, remove or neither', () => {
+    expect(isSessionInviteRequest({ type: MessageType.SESSION_INVITE, sessionId: 'ABC123' })).toBe(true);
+    expect(
+      isSessionInviteRequest({
+        type: MessageType.SESSION_INVITE,
+        sessionId: 'ABC123',
+        add: ['alex@example.com'],
+        remove: ['sam@example.com'],
+      })
+    ).toBe(true);
+  });
+
+  it('should return false for malformed email lists', () => {
+    expect(isSessionInviteRequest({ type: MessageType.SESSION_INVITE, sessionId: 'ABC123', add: 'alex@example.com' })).toBe(false);
+    expect(isSessionInviteRequest({ type: MessageType.SESSION_INVITE, sessionId: 'ABC123', remove: [1] })).toBe(false);
+    expect(isSessionInviteRequest({ type: MessageType.SESSION_INVITE, add: [] })).toBe(false);
+  });
+});
+
+describe('isPushSubscribeRequest', () => {
+  it('should need a subscription id and endpoint', () => {
+    const endpoint = 'https://push.example.com/send/abc';
+    expect(isPushSubscribeRequest({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'sub-1', endpoint })).toBe(true);
+    expect(isPushSubscribeRequest({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: '', endpoint })).toBe(false);
+    expect(
+      isPushSubscribeRequest({
+        type: MessageType.PUSH_SUBSCRIBE,
+        subscriptionId: 'x'.repeat(PROTOCOL.MAX_PUSH_SUBSCRIPTION_ID + 1),
+        endpoint,
+      })
+    ).toBe(false);
+    expect(isPushSubscribeRequest({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId: 'sub-1' })).toBe(false);
+  });
+});
+
+describe('isPushSendRequest', () => {
+  it('should return true for a list of deliveries', () => {
+    expect(isPushSendRequest({ type: MessageType.PUSH_SEND, notifications: [] })).toBe(true);
+    expect(
+      isPushSendRequest({ type: MessageType.PUSH_SEND, notifications: [{ subscriptionId: 'sub-1', payload: 'AAAA' }] })
+    ).toBe(true);
+  });
+
+  it('should return false for malformed deliveries', () => {
+    expect(isPushSendRequest({ type: MessageType.PUSH_SEND })).toBe(false);
+    expect(isPushSendRequest({ type: MessageType.PUSH_SEND, notifications: [null] })).toBe(false);
+    expect(isPushSendRequest({ type: MessageType.PUSH_SEND, notifications: [{ subscriptionId: 'sub-1' }] })).toBe(false);
+  });
+});
+
 describe('ErrorCodes', () => {
   it('should have all expected error codes', () => {
     expect(ErrorCodes.SESSION_NOT_FOUND).toBe('SESSION_NOT_FOUND');
@@ -421,5 +604,6 @@ describe('ErrorCodes', () => {
     expect(ErrorCodes.INVALID_MESSAGE).toBe('INVALID_MESSAGE');
     expect(ErrorCodes.CONNECTION_FAILED).toBe('CONNECTION_FAILED');
     expect(ErrorCodes.UNAUTHORIZED).toBe('UNAUTHORIZED');
+    expect(ErrorCodes.READ_ONLY).toBe('READ_ONLY');
   });
 });
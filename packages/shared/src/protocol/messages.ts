@@ -1,10 +1,22 @@
-import { MessageType, type Message, type EncryptedEnvelope } from '../types/message.js';
+import {
+  MessageType,
+  type Message,
+  type MessageSender,
+  type Capabilities,
+  type DeviceIdentity,
+  type EncryptedEnvelope,
+  type JoinApprovalRequest,
+  type PushSubscribeRequestPayload,
+  type PushUnsubscribeRequestPayload,
+  type PushSendRequestPayload,
+} from '../types/message.js';
 
 /**
  * Protocol constants
  */
 export const PROTOCOL = {
   VERSION: 1,
+  MIN_VERSION: 1, // Oldest peer protocol version this build works with
   MAX_MESSAGE_SIZE: 64 * 1024, // 64KB max message size
   HEARTBEAT_INTERVAL: 30000, // 30 seconds
   HEARTBEAT_TIMEOUT: 90000, // 90 seconds
@@ -13,17 +25,69 @@ export const PROTOCOL = {
   MAX_CACHED_MESSAGES: 1000, // Max messages to cache per session
   RECONNECT_DELAY: 1000, // Initial reconnect delay in ms
   MAX_RECONNECT_DELAY: 30000, // Max reconnect delay in ms
+  MAX_WINDOWS: 8, // Max terminal windows per session
+  KEY_ROTATION_MESSAGES: 1000, // Rotate a client's key after this many CLI messages
+  KEY_ROTATION_INTERVAL: 10 * 60 * 1000, // ...or this long (ms), checked when sending
+  REPLAY_WINDOW: 64, // Out-of-order sequence numbers tolerated per direction
+  MAX_FRAGMENTS: 1024, // Envelopes one message may be split into (64MB)
+  FRAGMENT_TIMEOUT: 30000, // Partial messages are dropped after this long (ms)
+  MAX_INVITED_USERS: 50, // Invited users per session
+  MAX_PUSH_PAYLOAD: 4096, // Bytes of encrypted push message body push services accept
+  MAX_PUSH_NOTIFICATIONS: 20, // Deliveries per PUSH_SEND
+  MAX_PUSH_SUBSCRIPTION_ID: 64, // Characters in a push subscription id
 } as const;
 
+/**
+ * Window that runs the session command; TERMINAL_* messages without a
+ * windowId target it
+ */
+export const DEFAULT_WINDOW_ID = 'main';
+
 /**
  * Helper to create a message
  */
-export function createMessage<T>(type: MessageType, payload: T, seq: number): Message<T> {
-  return {
+export function createMessage<T>(
+  type: MessageType,
+  payload: T,
+  seq: number,
+  windowId?: string,
+  from?: MessageSender
+): Message<T> {
+  const message: Message<T> = {
     type,
     payload,
     seq,
   };
+  if (windowId !== undefined) {
+    message.windowId = windowId;
+  }
+  if (from !== undefined) {
+    message.from = from;
+  }
+  return message;
+}
+
+/**
+ * Terminal window a message targets
+ */
+export function getMessageWindowId(message: Message): string {
+  return typeof message.windowId === 'string' && message.windowId
+    ? message.windowId
+    : DEFAULT_WINDOW_ID;
+}
+
+// Envelope fields around the ciphertext: nonce, session and connection IDs, timestamp
+const ENVELOPE_OVERHEAD = 256;
+// Poly1305 authenticator added to every ciphertext
+const MAC_LENGTH = 16;
+
+/**
+ * Size of a message once encrypted and wrapped in an envelope, in bytes
+ * Compare with PROTOCOL.MAX_MESSAGE_SIZE before sending large payloads.
+ */
+export function getEnvelopeSize(message: Message): number {
+  const plaintext = new TextEncoder().encode(JSON.stringify(message)).length + MAC_LENGTH;
+  return Math.ceil(plaintext / 3) * 4 + ENVELOPE_OVERHEAD;
 }
 
 /**
@@ -33,7 +97,7 @@ export function isEncryptedEnvelope(data: unknown): data is EncryptedEnvelope {
   if (typeof data !== 'object' || data === null) return false;
   const envelope = data as Record<string, unknown>;
   return (
-    envelope.version === 1 &&
+    (envelope.version === 1 || envelope.version === 2) &&
     typeof envelope.sessionId === 'string' &&
     typeof envelope.nonce === 'string' &&
     typeof envelope.ciphertext === 'string' &&
@@ -41,18 +105,68 @@ export function isEncryptedEnvelope(data: unknown): data is EncryptedEnvelope {
   );
 }
 
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isOptionalNumberArray(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every((item) => typeof item === 'number'));
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Type guard for a capabilities record
+ */
+export function isCapabilities(data: unknown): data is Capabilities {
+  if (typeof data !== 'object' || data === null) return false;
+  const caps = data as Record<string, unknown>;
+  return (
+    typeof caps.protocolVersion === 'number' &&
+    typeof caps.minProtocolVersion === 'number' &&
+    Array.isArray(caps.envelopeVersions) &&
+    caps.envelopeVersions.every((version) => typeof version === 'number') &&
+    isStringArray(caps.compression) &&
+    typeof caps.fragments === 'boolean' &&
+    isStringArray(caps.messageTypes)
+  );
+}
+
+function isOptionalCapabilities(value: unknown): boolean {
+  return value === undefined || isCapabilities(value);
+}
+
+function isOptionalDeviceIdentity(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null) return false;
+  const device = value as Record<string, unknown>;
+  return typeof device.publicKey === 'string' && typeof device.signature === 'string';
+}
+
 /**
  * Type guard for session create request
  */
 export function isSessionCreateRequest(
   data: unknown
-): data is { type: MessageType.SESSION_CREATE; sessionId: string; publicKey: string } {
+): data is {
+  type: MessageType.SESSION_CREATE;
+  sessionId: string;
+  publicKey: string;
+  viewerToken?: string;
+  envelopeVersions?: number[];
+  capabilities?: Capabilities;
+} {
   if (typeof data !== 'object' || data === null) return false;
   const msg = data as Record<string, unknown>;
   return (
     msg.type === MessageType.SESSION_CREATE &&
     typeof msg.sessionId === 'string' &&
-    typeof msg.publicKey === 'string'
+    typeof msg.publicKey === 'string' &&
+    isOptionalString(msg.viewerToken) &&
+    isOptionalNumberArray(msg.envelopeVersions) &&
+    isOptionalCapabilities(msg.capabilities)
   );
 }
 
@@ -61,13 +175,23 @@ export function isSessionCreateRequest(
  */
 export function isSessionReconnectRequest(
   data: unknown
-): data is { type: MessageType.SESSION_RECONNECT; sessionId: string; publicKey: string } {
+): data is {
+  type: MessageType.SESSION_RECONNECT;
+  sessionId: string;
+  publicKey: string;
+  viewerToken?: string;
+  envelopeVersions?: number[];
+  capabilities?: Capabilities;
+} {
   if (typeof data !== 'object' || data === null) return false;
   const msg = data as Record<string, unknown>;
   return (
     msg.type === MessageType.SESSION_RECONNECT &&
     typeof msg.sessionId === 'string' &&
-    typeof msg.publicKey === 'string'
+    typeof msg.publicKey === 'string' &&
+    isOptionalString(msg.viewerToken) &&
+    isOptionalNumberArray(msg.envelopeVersions) &&
+    isOptionalCapabilities(msg.capabilities)
   );
 }
 
@@ -76,13 +200,40 @@ export function isSessionReconnectRequest(
  */
 export function isSessionJoinRequest(
   data: unknown
-): data is { type: MessageType.SESSION_JOIN; sessionId: string; publicKey: string } {
+): data is {
+  type: MessageType.SESSION_JOIN;
+  sessionId: string;
+  publicKey: string;
+  viewerToken?: string;
+  compression?: string[];
+  envelopeVersions?: number[];
+  capabilities?: Capabilities;
+  device?: DeviceIdentity;
+} {
   if (typeof data !== 'object' || data === null) return false;
   const msg = data as Record<string, unknown>;
   return (
     msg.type === MessageType.SESSION_JOIN &&
     typeof msg.sessionId === 'string' &&
-    typeof msg.publicKey === 'string'
+    typeof msg.publicKey === 'string' &&
+    isOptionalString(msg.viewerToken) &&
+    (msg.compression === undefined || isStringArray(msg.compression)) &&
+    isOptionalNumberArray(msg.envelopeVersions) &&
+    isOptionalCapabilities(msg.capabilities) &&
+    isOptionalDeviceIdentity(msg.device)
+  );
+}
+
+/**
+ * Type guard for join approval decisions
+ */
+export function isJoinApprovalRequest(data: unknown): data is JoinApprovalRequest {
+  if (typeof data !== 'object' || data === null) return false;
+  const msg = data as Record<string, unknown>;
+  return (
+    msg.type === MessageType.JOIN_APPROVAL &&
+    typeof msg.connectionId === 'string' &&
+    (msg.status === 'pending' || msg.status === 'approved' || msg.status === 'rejected')
   );
 }
 
@@ -138,6 +289,86 @@ export function isSessionDeleteRequest(
   return msg.type === MessageType.SESSION_DELETE_REQUEST && typeof msg.sessionId === 'string';
 }
 
+/**
+ * Type guard for session invite request
+ */
+export function isSessionInviteRequest(
+  data: unknown
+): data is { type: MessageType.SESSION_INVITE; sessionId: string; add?: string[]; remove?: string[] } {
+  if (typeof data !== 'object' || data === null) return false;
+  const msg = data as Record<string, unknown>;
+  return (
+    msg.type === MessageType.SESSION_INVITE &&
+    typeof msg.sessionId === 'string' &&
+    (msg.add === undefined || isStringArray(msg.add)) &&
+    (msg.remove === undefined || isStringArray(msg.remove))
+  );
+}
+
+/**
+ * Type guard for push key request
+ */
+export function isPushKeyRequest(data: unknown): data is { type: MessageType.PUSH_KEY_REQUEST } {
+  if (typeof data !== 'object' || data === null) return false;
+  return (data as Record<string, unknown>).type === MessageType.PUSH_KEY_REQUEST;
+}
+
+/**
+ * Whether a value can name a push subscription
+ */
+export function isPushSubscriptionId(value: unknown): value is string {
+  return typeof value === 'string' && value !== '' && value.length <= PROTOCOL.MAX_PUSH_SUBSCRIPTION_ID;
+}
+
+/**
+ * Type guard for push subscribe request
+ */
+export function isPushSubscribeRequest(
+  data: unknown
+): data is { type: MessageType.PUSH_SUBSCRIBE } & PushSubscribeRequestPayload {
+  if (typeof data !== 'object' || data === null) return false;
+  const msg = data as Record<string, unknown>;
+  return (
+    msg.type === MessageType.PUSH_SUBSCRIBE &&
+    isPushSubscriptionId(msg.subscriptionId) &&
+    typeof msg.endpoint === 'string'
+  );
+}
+
+/**
+ * Type guard for push unsubscribe request
+ */
+export function isPushUnsubscribeRequest(
+  data: unknown
+): data is { type: MessageType.PUSH_UNSUBSCRIBE } & PushUnsubscribeRequestPayload {
+  if (typeof data !== 'object' || data === null) return false;
+  const msg = data as Record<string, unknown>;
+  return msg.type === MessageType.PUSH_UNSUBSCRIBE && isPushSubscriptionId(msg.subscriptionId);
+}
+
+/**
+ * Type guard for push send request
+ */
+export function isPushSendRequest(
+  data: unknown
+): data is { type: MessageType.PUSH_SEND } & PushSendRequestPayload {
+  if (typeof data !== 'object' || data === null) return false;
+  const msg = data as Record<string, unknown>;
+  return (
+    msg.type === MessageType.PUSH_SEND &&
+    Array.isArray(msg.notifications) &&
+    msg.notifications.every((item: unknown) => {
+      const delivery = item as Record<string, unknown> | null;
+      return (
+        typeof delivery === 'object' &&
+        delivery !== null &&
+        typeof delivery.subscriptionId === 'string' &&
+        typeof delivery.payload === 'string'
+      );
+    })
+  );
+}
+
 /**
  * Error codes
  */
@@ -151,6 +382,9 @@ export const ErrorCodes = {
   INVALID_MESSAGE: 'INVALID_MESSAGE',
   CONNECTION_FAILED: 'CONNECTION_FAILED',
   UNAUTHORIZED: 'UNAUTHORIZED',
+  READ_ONLY: 'READ_ONLY',
+  REPLAY_DETECTED: 'REPLAY_DETECTED',
+  UPGRADE_REQUIRED: 'UPGRADE_REQUIRED',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { E2ECrypto } from '../crypto/nacl.js';
+import { MessageType } from '../types/message.js';
+import { createMessage, ErrorCodes } from './messages.js';
+import { ReplayWindow, ReplayDetectedError } from './replay.js';
+
+describe('ReplayWindow', () => {
+  it('should accept increasing sequence numbers with gaps', () => {
+    const window = new ReplayWindow(4);
+
+    for (const seq of [1, 2, 5, 9, 100]) {
+      expect(() => window.check(seq)).not.toThrow();
+    }
+  });
+
+  it('should reject sequence numbers it has seen', () => {
+    const window = new ReplayWindow(4);
+    window.check(1);
+    window.check(2);
+
+    expect(() => window.check(2)).toThrow(ReplayDetectedError);
+    expect(() => window.check(1)).toThrow(ReplayDetectedError);
+  });
+
+  it('should accept reordering inside the window once', () => {
+    const window = new ReplayWindow(4);
+    window.check(5);
+
+    window.check(3);
+    window.check(2);
+
+    expect(() => window.check(3)).toThrow(ReplayDetectedError);
+    // 1 is four behind the highest, outside the window
+    expect(() => window.check(1)).toThrow(ReplayDetectedError);
+  });
+
+  it('should reject invalid sequence numbers', () => {
+    const window = new ReplayWindow();
+
+    for (const seq of [0, -1, 1.5, NaN]) {
+      expect(() => window.check(seq)).toThrow(ReplayDetectedError);
+    }
+  });
+
+  it('should reject a message reflected back to the side that sent it', () => {
+    const cli = new E2ECrypto();
+    const web = new E2ECrypto();
+    cli.establishSharedKey(web.getPublicKey());
+    web.establishSharedKey(cli.getPublicKey());
+    const fromWeb = new ReplayWindow();
+
+    // Both directions share the key, so the CLI's own output decrypts fine
+    const output = cli.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'ls\r', 1, undefined, 'cli'), 'ABC234');
+    expect(() => fromWeb.accept(cli.decrypt(output), 'web')).toThrow(ReplayDetectedError);
+
+    fromWeb.accept(cli.decrypt(web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'a', 1, undefined, 'web'))), 'web');
+    // Older builds name no sender
+    fromWeb.accept(cli.decrypt(web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'b', 2))), 'web');
+    expect(() => fromWeb.accept({ seq: 3, from: 'relay' as never }, 'web')).toThrow('Reflected message');
+  });
+
+  it('should catch a captured envelope sent again', () => {
+    const cli = new E2ECrypto();
+    const web = new E2ECrypto();
+    cli.establishSharedKey(web.getPublicKey());
+    web.establishSharedKey(cli.getPublicKey());
+    const window = new ReplayWindow();
+
+    const captured = web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'rm -rf build\r', 1), 'ABC234');
+    window.check(cli.decrypt(captured).seq);
+    window.check(cli.decrypt(web.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls\r', 2), 'ABC234')).seq);
+
+    // The ciphertext is still valid, only the sequence number gives it away
+    const replayed = cli.decrypt(captured);
+    expect(replayed.payload).toBe('rm -rf build\r');
+    let error: unknown;
+    try {
+      window.check(replayed.seq);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ReplayDetectedError);
+    expect((error as ReplayDetectedError).code).toBe(ErrorCodes.REPLAY_DETECTED);
+  });
+});
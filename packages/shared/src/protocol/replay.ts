@@ -0,0 +1,67 @@
+import type { Message, MessageSender } from '../types/message.js';
+import { PROTOCOL, ErrorCodes } from './messages.js';
+
+/**
+ * A decrypted message whose sequence number was already seen or is too old,
+ * or that the relay reflected back to the side that sent it
+ */
+export class ReplayDetectedError extends Error {
+  readonly code = ErrorCodes.REPLAY_DETECTED;
+
+  constructor(
+    readonly seq: number,
+    reason = 'Replayed or stale message'
+  ) {
+    super(`${reason} (seq ${seq})`);
+    this.name = 'ReplayDetectedError';
+  }
+}
+
+/**
+ * Sliding window over the sequence numbers received in one direction
+ *
+ * `Message.seq` sits inside the ciphertext, so the relay can't forge it; it can
+ * only resend or reorder envelopes. Sequence numbers must grow, but anything
+ * within `size` of the highest one seen is accepted once, out of order.
+ * `Message.from` is inside the ciphertext too: a message naming any other
+ * sender than the expected one was reflected back to its own side.
+ */
+export class ReplayWindow {
+  private highest = 0;
+  private seen: Set<number> = new Set();
+
+  constructor(private size: number = PROTOCOL.REPLAY_WINDOW) {}
+
+  /**
+   * Record a decrypted message
+   * @param from - Side this window receives from; messages from older builds name none
+   * @throws ReplayDetectedError if it came from another side, was seen before
+   *   or fell behind the window
+   */
+  accept(message: Pick<Message, 'seq' | 'from'>, from: MessageSender): void {
+    if (message.from !== undefined && message.from !== from) {
+      throw new ReplayDetectedError(message.seq, `Reflected message from ${String(message.from)}`);
+    }
+    this.check(message.seq);
+  }
+
+  /**
+   * Record a sequence number
+   * @throws ReplayDetectedError if it was seen before or fell behind the window
+   */
+  check(seq: number): void {
+    if (!Number.isSafeInteger(seq) || seq <= 0 || seq <= this.highest - this.size || this.seen.has(seq)) {
+      throw new ReplayDetectedError(seq);
+    }
+
+    this.seen.add(seq);
+    if (seq > this.highest) {
+      this.highest = seq;
+      for (const old of this.seen) {
+        if (old <= this.highest - this.size) {
+          this.seen.delete(old);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAsciicastHeader,
+  formatAsciicastEvent,
+  formatResize,
+  parseResize,
+  parseAsciicast,
+  getAsciicastDuration,
+} from './asciicast.js';
+
+describe('asciicast', () => {
+  describe('format', () => {
+    it('should write one JSON document per line', () => {
+      const content =
+        formatAsciicastHeader({ version: 2, width: 80, height: 24, command: 'claude' }) +
+        formatAsciicastEvent(0.1234567, 'o', 'hello\r\n') +
+        formatAsciicastEvent(1.5, 'r', formatResize(100, 30));
+
+      expect(content.split('\n')).toEqual([
+        '{"version":2,"width":80,"height":24,"command":"claude"}',
+        '[0.123457,"o","hello\\r\\n"]',
+        '[1.5,"r","100x30"]',
+        '',
+      ]);
+    });
+  });
+
+  describe('parseAsciicast', () => {
+    it('should round-trip formatted recordings', () => {
+      const content =
+        formatAsciicastHeader({ version: 2, width: 120, height: 40, timestamp: 1700000000 }) +
+        formatAsciicastEvent(0.5, 'o', '\x1b[31mred\x1b[0m') +
+        formatAsciicastEvent(0.75, 'i', 'ls\r') +
+        formatAsciicastEvent(1, 'm', 'window: tests');
+
+      const cast = parseAsciicast(content);
+
+      expect(cast.header).toEqual({ version: 2, width: 120, height: 40, timestamp: 1700000000 });
+      expect(cast.events).toEqual([
+        [0.5, 'o', '\x1b[31mred\x1b[0m'],
+        [0.75, 'i', 'ls\r'],
+        [1, 'm', 'window: tests'],
+      ]);
+    });
+
+    it('should skip blank lines and unknown event codes', () => {
+      const cast = parseAsciicast('{"version":2,"width":80,"height":24}\n\n[1,"x","?"]\n[2,"o","a"]\n');
+
+      expect(cast.events).toEqual([[2, 'o', 'a']]);
+    });
+
+    it('should reject empty files and other versions', () => {
+      expect(() => parseAsciicast('')).toThrow('Empty recording');
+      expect(() => parseAsciicast('not json')).toThrow('Invalid asciicast header');
+      expect(() => parseAsciicast('{"version":1,"width":80,"height":24}')).toThrow('asciicast v2');
+    });
+
+    it('should report the line of a malformed event', () => {
+      const content = '{"version":2,"width":80,"height":24}\n[0.1,"o","ok"]\n[0.2,"o"]\n';
+
+      expect(() => parseAsciicast(content)).toThrow('line 3');
+    });
+  });
+
+  describe('parseResize', () => {
+    it('should parse COLSxROWS', () => {
+      expect(parseResize('100x30')).toEqual({ cols: 100, rows: 30 });
+      expect(parseResize('0x30')).toBeNull();
+      expect(parseResize('wide')).toBeNull();
+    });
+  });
+
+  describe('getAsciicastDuration', () => {
+    it('should cap idle gaps at the limit', () => {
+      const events = parseAsciicast(
+        '{"version":2,"width":80,"height":24}\n[1,"o","a"]\n[61,"o","b"]\n[62,"o","c"]\n'
+      ).events;
+
+      expect(getAsciicastDuration(events)).toBe(62);
+      expect(getAsciicastDuration(events, 2)).toBe(4);
+    });
+  });
+});
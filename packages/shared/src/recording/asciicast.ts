@@ -0,0 +1,144 @@
+/**
+ * asciicast v2 recordings
+ * @see https://docs.asciinema.org/manual/asciicast/v2/
+ */
+
+/**
+ * First line of an asciicast v2 file
+ */
+export interface AsciicastHeader {
+  version: 2;
+  /** Terminal width in columns at the start of the recording */
+  width: number;
+  /** Terminal height in rows at the start of the recording */
+  height: number;
+  /** Unix timestamp (seconds) of the start of the recording */
+  timestamp?: number;
+  /** Total duration in seconds */
+  duration?: number;
+  /** Idle time limit in seconds suggested for playback */
+  idle_time_limit?: number;
+  command?: string;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Event codes: output, input, resize ("COLSxROWS") and marker
+ */
+export type AsciicastEventCode = 'o' | 'i' | 'r' | 'm';
+
+/**
+ * [seconds since start, code, data]
+ */
+export type AsciicastEvent = [number, AsciicastEventCode, string];
+
+/**
+ * Parsed recording
+ */
+export interface Asciicast {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+}
+
+const EVENT_CODES: readonly string[] = ['o', 'i', 'r', 'm'];
+
+/**
+ * Serialize the header line (including the trailing newline)
+ */
+export function formatAsciicastHeader(header: AsciicastHeader): string {
+  return JSON.stringify(header) + '\n';
+}
+
+/**
+ * Serialize an event line (including the trailing newline)
+ * Times are rounded to microseconds like asciinema does.
+ */
+export function formatAsciicastEvent(time: number, code: AsciicastEventCode, data: string): string {
+  return JSON.stringify([Math.round(time * 1e6) / 1e6, code, data]) + '\n';
+}
+
+/**
+ * Serialize a resize event's data
+ */
+export function formatResize(cols: number, rows: number): string {
+  return `${cols}x${rows}`;
+}
+
+/**
+ * Parse a resize event's data
+ * @returns null if the data is not "COLSxROWS"
+ */
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data);
+  if (!match) return null;
+  const cols = Number(match[1]);
+  const rows = Number(match[2]);
+  return cols > 0 && rows > 0 ? { cols, rows } : null;
+}
+
+/**
+ * Parse an asciicast v2 file
+ * Events with unknown codes are skipped, as the format allows.
+ * @throws Error if the header or an event line is malformed
+ */
+export function parseAsciicast(content: string): Asciicast {
+  const lines = content.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Empty recording');
+  }
+
+  let header: AsciicastHeader;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new Error('Invalid asciicast header');
+  }
+  if (
+    typeof header !== 'object' ||
+    header === null ||
+    header.version !== 2 ||
+    typeof header.width !== 'number' ||
+    typeof header.height !== 'number'
+  ) {
+    throw new Error('Unsupported recording: expected an asciicast v2 header');
+  }
+
+  const events: AsciicastEvent[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    let event: unknown;
+    try {
+      event = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Invalid asciicast event on line ${i + 1}`);
+    }
+    if (
+      !Array.isArray(event) ||
+      event.length < 3 ||
+      typeof event[0] !== 'number' ||
+      typeof event[1] !== 'string' ||
+      typeof event[2] !== 'string'
+    ) {
+      throw new Error(`Invalid asciicast event on line ${i + 1}`);
+    }
+    if (EVENT_CODES.includes(event[1])) {
+      events.push([event[0], event[1] as AsciicastEventCode, event[2]]);
+    }
+  }
+
+  return { header, events };
+}
+
+/**
+ * Playback length in seconds, with idle gaps capped at idleTimeLimit
+ */
+export function getAsciicastDuration(events: AsciicastEvent[], idleTimeLimit?: number): number {
+  let duration = 0;
+  let previous = 0;
+  for (const [time] of events) {
+    const gap = Math.max(0, time - previous);
+    duration += idleTimeLimit !== undefined ? Math.min(gap, idleTimeLimit) : gap;
+    previous = time;
+  }
+  return duration;
+}
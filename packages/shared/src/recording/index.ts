@@ -0,0 +1,12 @@
+export {
+  type AsciicastHeader,
+  type AsciicastEventCode,
+  type AsciicastEvent,
+  type Asciicast,
+  formatAsciicastHeader,
+  formatAsciicastEvent,
+  formatResize,
+  parseResize,
+  parseAsciicast,
+  getAsciicastDuration,
+} from './asciicast.js';
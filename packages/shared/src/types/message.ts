@@ -20,21 +20,52 @@ export enum MessageType {
   SESSION_UPDATE = 'session:update',
   SESSION_DELETE_REQUEST = 'session:delete:request',
   SESSION_DELETE_RESPONSE = 'session:delete:response',
+  SESSION_INVITE = 'session:invite',
+  SESSION_INVITE_RESPONSE = 'session:invite:response',
 
   // Connection events
   WEB_CONNECTED = 'web:connected',
   WEB_DISCONNECTED = 'web:disconnected',
   CLI_DISCONNECTED = 'cli:disconnected',
+  JOIN_APPROVAL = 'join:approval',
 
   // Terminal data
   TERMINAL_OUTPUT = 'terminal:output',
   TERMINAL_INPUT = 'terminal:input',
   TERMINAL_RESIZE = 'terminal:resize',
+  TERMINAL_SIGNAL = 'terminal:signal',
+  INPUT_BLOCKED = 'input:blocked', // CLI -> Web: the input policy dropped some input
+
+  // Terminal windows (several PTYs in one session)
+  WINDOW_CREATE = 'window:create',
+  WINDOW_CLOSE = 'window:close',
+  WINDOW_SWITCH = 'window:switch',
+  WINDOW_LIST = 'window:list',
+
+  // Key rotation (encrypted, CLI -> Web)
+  KEY_ROTATE = 'key:rotate',
 
   // State synchronization
   STATE_SYNC = 'state:sync',
   STATE_REQUEST = 'state:request',
 
+  // Older output, paged in on demand (encrypted)
+  HISTORY_REQUEST = 'history:request',
+  HISTORY_CHUNK = 'history:chunk',
+
+  // What a coding agent in a window is doing (encrypted, CLI -> Web)
+  AGENT_STATE = 'agent:state',
+
+  // Web Push notifications
+  PUSH_KEY_REQUEST = 'push:key:request', // Web -> Server: the user's VAPID public key
+  PUSH_KEY_RESPONSE = 'push:key:response',
+  PUSH_SUBSCRIBE = 'push:subscribe', // Web -> Server: where to deliver the user's notifications
+  PUSH_UNSUBSCRIBE = 'push:unsubscribe',
+  PUSH_SUBSCRIBE_RESPONSE = 'push:subscribe:response',
+  PUSH_SEND = 'push:send', // CLI -> Server: notifications already encrypted for each device
+  PUSH_SEND_RESPONSE = 'push:send:response',
+  NOTIFY_SUBSCRIPTION = 'notify:subscription', // Web -> CLI (encrypted): the device's push keys
+
   // Heartbeat
   PING = 'ping',
   PONG = 'pong',
@@ -43,15 +74,34 @@ export enum MessageType {
   ERROR = 'error',
 }
 
+/**
+ * Envelope wire format: 1 is JSON with base64 fields in a text frame, 2 is a
+ * binary frame with a compact header and raw ciphertext
+ */
+export type EnvelopeVersion = 1 | 2;
+
 /**
  * Encrypted message envelope sent over WebSocket
  */
 export interface EncryptedEnvelope {
-  version: 1;
+  version: EnvelopeVersion; // 2 when it arrived as a binary frame (see encodeBinaryEnvelope)
   sessionId: string;
   nonce: string; // Base64 encoded random nonce
   ciphertext: string; // Base64 encoded ciphertext
   timestamp: number;
+  connectionId?: string; // Sending web connection, set by the relay on Web -> CLI messages
+  recipientId?: string; // Target web connection on CLI -> Web messages encrypted for one client
+  fragment?: EnvelopeFragment; // Set when the ciphertext is split across several envelopes
+}
+
+/**
+ * Position of one envelope in a message split to fit PROTOCOL.MAX_MESSAGE_SIZE
+ * Every fragment repeats the envelope fields and carries a slice of the ciphertext.
+ */
+export interface EnvelopeFragment {
+  id: string; // Same for all fragments of a message
+  index: number;
+  count: number;
 }
 
 /**
@@ -61,8 +111,16 @@ export interface Message<T = unknown> {
   type: MessageType;
   payload: T;
   seq: number; // Sequence number for ordering
+  windowId?: string; // Terminal window for TERMINAL_* messages (default: DEFAULT_WINDOW_ID)
+  from?: MessageSender; // Side that encrypted it; older builds leave it out
 }
 
+/**
+ * Side of the end-to-end channel a message comes from
+ * Both directions share one key, so only this tells a reflected message apart.
+ */
+export type MessageSender = 'cli' | 'web';
+
 /**
  * Terminal resize payload
  */
@@ -71,6 +129,130 @@ export interface TerminalResizePayload {
   rows: number;
 }
 
+/**
+ * Signals a web client can send to the terminal's foreground process
+ */
+export type TerminalSignal = 'SIGINT' | 'SIGTSTP' | 'SIGTERM' | 'SIGKILL';
+
+/**
+ * Terminal signal payload
+ * Web -> CLI asks for the signal; CLI -> Web answers the sender with delivered set.
+ */
+export interface TerminalSignalPayload {
+  signal: TerminalSignal;
+  delivered?: boolean; // false when the CLI's input policy doesn't allow it
+}
+
+/**
+ * Input the CLI's input policy dropped, sent back to the client that typed it
+ */
+export interface InputBlockedPayload {
+  rule: string; // Id of the rule that fired
+  kind: 'sequence' | 'line' | 'rate' | 'window';
+}
+
+/**
+ * What a coding agent is doing, as read from its terminal output
+ * - starting: launched, nothing recognized yet
+ * - idle: at its prompt, waiting for the next instruction
+ * - working: thinking or running tools
+ * - approval: asking the user to approve an action
+ * - error: showing an error
+ */
+export type AgentState = 'starting' | 'idle' | 'working' | 'approval' | 'error';
+
+/**
+ * Agent state of one window, sent when it changes and to clients that join
+ */
+export interface AgentStatePayload {
+  agent: string; // Adapter that recognized the agent, e.g. 'claude'
+  state: AgentState;
+  detail?: string; // Line that gave the state away, e.g. the approval question
+  since: number; // When the agent entered this state (ms since epoch)
+}
+
+/**
+ * A device's push subscription keys, sent to the CLI only (encrypted)
+ * With them the CLI encrypts notifications that just this device can read;
+ * the relay only ever learns the subscription's endpoint.
+ */
+export interface NotifySubscriptionPayload {
+  subscriptionId: string; // As registered with PUSH_SUBSCRIBE
+  p256dh: string; // Base64url P-256 public key from PushSubscription.toJSON()
+  auth: string; // Base64url authentication secret
+}
+
+/**
+ * Notification a push message carries, once the device has decrypted it
+ */
+export interface PushNotification {
+  title: string;
+  body: string;
+  sessionId: string;
+  windowId?: string;
+  tag?: string; // A newer notification with the same tag replaces the older one
+  url?: string; // Page to open when the notification is clicked: the session's join link
+}
+
+/**
+ * Terminal window info
+ */
+export interface WindowInfo {
+  windowId: string;
+  name: string;
+  command: string;
+  cols: number;
+  rows: number;
+  createdAt: number;
+}
+
+/**
+ * Window create payload (web asks the CLI to open a new window)
+ */
+export interface WindowCreatePayload {
+  name?: string;
+  command?: string; // Default: the user's shell
+  args?: string[];
+}
+
+/**
+ * Window close/switch payload
+ */
+export interface WindowTargetPayload {
+  windowId: string;
+}
+
+/**
+ * Window list payload (CLI -> Web, sent whenever windows change;
+ * an empty WINDOW_LIST from web requests it)
+ */
+export interface WindowListPayload {
+  windows: WindowInfo[];
+  activeWindowId: string;
+}
+
+/**
+ * Key rotation payload (CLI -> Web, encrypted with the key being replaced)
+ */
+export interface KeyRotatePayload {
+  publicKey: string; // Base64 ephemeral X25519 public key of the CLI
+  compression?: string[]; // Codecs the CLI can decompress (see SUPPORTED_COMPRESSION)
+}
+
+/**
+ * What a client build supports, exchanged at SESSION_CREATE and SESSION_JOIN
+ * Peers from before the exchange send none: treat them as protocol version 1
+ * with every message type they knew.
+ */
+export interface Capabilities {
+  protocolVersion: number; // PROTOCOL.VERSION of the sender
+  minProtocolVersion: number; // Oldest peer version the sender still works with
+  envelopeVersions: EnvelopeVersion[];
+  compression: string[];
+  fragments: boolean; // Reassembles envelopes split by fragmentEnvelope
+  messageTypes: string[]; // Encrypted message types the sender handles
+}
+
 /**
  * Session create request (unencrypted, used for initial handshake)
  */
@@ -78,6 +260,9 @@ export interface SessionCreateRequest {
   type: MessageType.SESSION_CREATE;
   sessionId: string;
   publicKey: string;
+  viewerToken?: string; // Secret of the read-only share link
+  envelopeVersions?: EnvelopeVersion[]; // Wire formats the CLI can read (see SUPPORTED_ENVELOPE_VERSIONS)
+  capabilities?: Capabilities;
 }
 
 /**
@@ -87,6 +272,9 @@ export interface SessionReconnectRequest {
   type: MessageType.SESSION_RECONNECT;
   sessionId: string;
   publicKey: string;
+  viewerToken?: string;
+  envelopeVersions?: EnvelopeVersion[];
+  capabilities?: Capabilities;
 }
 
 /**
@@ -96,6 +284,21 @@ export interface SessionJoinRequest {
   type: MessageType.SESSION_JOIN;
   sessionId: string;
   publicKey: string;
+  device?: DeviceIdentity; // Vouches for publicKey, which is new on every page load
+  viewerToken?: string; // Present when joining through a read-only share link
+  compression?: string[]; // Codecs the browser can decompress (see SUPPORTED_COMPRESSION)
+  envelopeVersions?: EnvelopeVersion[]; // Wire formats the browser can read
+  capabilities?: Capabilities;
+}
+
+/**
+ * A browser's long-term identity key and its signature over the connection's key
+ * The identity key only signs (ECDSA P-256); it never takes part in encryption,
+ * so trusting a device doesn't depend on keeping an encryption key around.
+ */
+export interface DeviceIdentity {
+  publicKey: string; // Base64 uncompressed P-256 point
+  signature: string; // Base64 IEEE P1363 signature over getDeviceKeyProofData(connection key)
 }
 
 /**
@@ -104,6 +307,29 @@ export interface SessionJoinRequest {
 export interface WebConnectedPayload {
   publicKey: string;
   connectionId: string;
+  role?: WebConnectionRole; // Absent from older servers: treat as 'web'
+  userEmail?: string; // Signed-in user of the joining browser, when the server knows it
+  userAgent?: string;
+  compression?: string[]; // Codecs the browser advertised in SESSION_JOIN
+  capabilities?: Capabilities; // As the browser sent them in SESSION_JOIN
+  owner?: boolean; // false when someone other than the session owner joined; absent means owner
+  device?: DeviceIdentity; // As the browser sent it in SESSION_JOIN; the CLI checks the signature
+}
+
+/**
+ * Where a join stands while the CLI asks its user to approve it
+ */
+export type JoinApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Join approval decision (CLI -> Server, unencrypted)
+ * The server forwards { type, status } to the web connection and drops it from
+ * the session when rejected.
+ */
+export interface JoinApprovalRequest {
+  type: MessageType.JOIN_APPROVAL;
+  connectionId: string;
+  status: JoinApprovalStatus;
 }
 
 /**
@@ -112,6 +338,7 @@ export interface WebConnectedPayload {
 export interface SessionCreatedPayload {
   sessionId: string;
   wsEndpoint: string;
+  envelopeVersion?: EnvelopeVersion; // Format to use on this connection; absent means 1
 }
 
 /**
@@ -120,6 +347,9 @@ export interface SessionCreatedPayload {
 export interface SessionJoinedPayload {
   sessionId: string;
   cliPublicKey: string;
+  role?: WebConnectionRole;
+  envelopeVersion?: EnvelopeVersion;
+  cliCapabilities?: Capabilities; // As the CLI sent them at SESSION_CREATE or SESSION_RECONNECT
 }
 
 /**
@@ -131,18 +361,63 @@ export interface ErrorPayload {
 }
 
 /**
- * State sync payload (for new web connections to receive recent output)
+ * Byte offsets into a window's output since it started
+ */
+export interface ScrollbackRange {
+  /** Oldest output the CLI still holds */
+  start: number;
+  /** Where the output just sent begins; [start, from) can be requested */
+  from: number;
+  /** End of the output so far */
+  end: number;
+}
+
+/**
+ * State sync payload
+ * Sent after the buffered output of every window (for new web connections).
  */
 export interface StateSyncPayload {
-  terminalHistory: string;
   cols: number;
   rows: number;
+  /** Some buffered output was sent */
+  hasHistory?: boolean;
+  /** Scrollback held per window */
+  scrollback?: Record<string, ScrollbackRange>;
+}
+
+/**
+ * History request payload (window from the message's windowId)
+ */
+export interface HistoryRequestPayload {
+  /** Send the output just before this offset */
+  before: number;
+}
+
+/**
+ * History chunk payload (window from the message's windowId)
+ */
+export interface HistoryChunkPayload {
+  /** Offset of the first byte of `data` (a line start where possible) */
+  start: number;
+  /** Offset after the last byte of `data`: the request's `before` */
+  end: number;
+  data: string;
+  /** Oldest output the CLI holds; nothing older is left once `start` reaches it */
+  oldest: number;
 }
 
 /**
  * Connection role
+ * - cli: the terminal host
+ * - web: browser client with full control
+ * - viewer: browser client that only receives output (read-only share link)
+ */
+export type ConnectionRole = 'cli' | 'web' | 'viewer';
+
+/**
+ * Roles of browser connections
  */
-export type ConnectionRole = 'cli' | 'web';
+export type WebConnectionRole = Exclude<ConnectionRole, 'cli'>;
 
 /**
  * QR code data structure
@@ -151,6 +426,8 @@ export interface QRCodeData {
   sessionId: string;
   publicKey: string;
   wsEndpoint: string;
+  /** Share link secret; joins as a read-only viewer */
+  viewerToken?: string;
 }
 
 /**
@@ -224,3 +501,77 @@ export interface SessionDeleteResponsePayload {
   success: boolean;
   message?: string;
 }
+
+/**
+ * Session invite payload (owner adds or removes users who may join)
+ */
+export interface SessionInviteRequestPayload {
+  sessionId: string;
+  add?: string[]; // Emails to invite
+  remove?: string[]; // Emails to uninvite
+}
+
+/**
+ * Session invite response payload
+ */
+export interface SessionInviteResponsePayload {
+  sessionId: string;
+  success: boolean;
+  invitedUsers?: string[]; // The full list after the change
+  message?: string;
+}
+
+/**
+ * Push key response payload
+ */
+export interface PushKeyResponsePayload {
+  publicKey: string; // Base64url VAPID public key, the applicationServerKey to subscribe with
+}
+
+/**
+ * Push subscribe request payload (Web -> Server)
+ * The subscription's keys go to the CLI in NOTIFY_SUBSCRIPTION instead.
+ */
+export interface PushSubscribeRequestPayload {
+  subscriptionId: string;
+  endpoint: string; // Push service URL from PushSubscription.endpoint
+}
+
+/**
+ * Push unsubscribe request payload (Web -> Server)
+ */
+export interface PushUnsubscribeRequestPayload {
+  subscriptionId: string;
+}
+
+/**
+ * Push subscribe/unsubscribe response payload
+ */
+export interface PushSubscribeResponsePayload {
+  subscriptionId: string;
+  success: boolean;
+  message?: string;
+}
+
+/**
+ * One notification for one device, encrypted by the CLI
+ */
+export interface PushDelivery {
+  subscriptionId: string;
+  payload: string; // Base64url aes128gcm message body (RFC 8291), under PROTOCOL.MAX_PUSH_PAYLOAD bytes
+}
+
+/**
+ * Push send request payload (CLI -> Server)
+ * Delivered to subscriptions of the session owner.
+ */
+export interface PushSendRequestPayload {
+  notifications: PushDelivery[];
+}
+
+/**
+ * Push send response payload
+ */
+export interface PushSendResponsePayload {
+  expired: string[]; // Subscriptions that are gone; don't send to them again
+}
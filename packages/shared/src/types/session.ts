@@ -1,6 +1,7 @@
 /**
  * Session-related type definitions
  */
+import type { Capabilities, ConnectionRole } from './message.js';
 
 /**
  * Session status
@@ -24,7 +25,10 @@ export interface Session {
   createdAt: number;
   lastActiveAt: number;
   ttl: number;
-  userId?: string; // Optional, for authenticated sessions
+  userId?: string; // Optional, for authenticated sessions; only this user may join
+  invitedUsers?: string[]; // Lowercased emails of other users the owner let join
+  viewerToken?: string; // Secret of the read-only share link (set by CLI)
+  cliCapabilities?: Capabilities; // From the CLI's latest SESSION_CREATE or SESSION_RECONNECT
   // Instance identification (set by CLI)
   instanceId?: string;
   instanceLabel?: string;
@@ -40,11 +44,12 @@ export interface Session {
 export interface Connection {
   connectionId: string;
   sessionId: string;
-  role: 'cli' | 'web';
+  role: ConnectionRole;
   publicKey?: string;
   connectedAt: number;
   ttl: number;
   userId?: string;
+  capabilities?: Capabilities; // From the client's handshake
 }
 
 /**
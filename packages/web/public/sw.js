@@ -0,0 +1,57 @@
+// Shows notifications sent by CLI sessions.
+// The browser decrypts push messages before they get here; the relay only
+// ever saw ciphertext.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+function isSessionPage(client, sessionId) {
+  const url = new URL(client.url);
+  return /^\/(session|join)\b/.test(url.pathname) && url.searchParams.get('id') === sessionId;
+}
+
+self.addEventListener('push', (event) => {
+  let notification;
+  try {
+    notification = event.data ? event.data.json() : null;
+  } catch {
+    notification = null;
+  }
+  if (!notification || typeof notification.title !== 'string') return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // The user is already looking at the session
+      if (clients.some((client) => client.focused && isSessionPage(client, notification.sessionId))) return;
+
+      return self.registration.showNotification(notification.title, {
+        body: notification.body,
+        tag: notification.tag,
+        renotify: Boolean(notification.tag),
+        icon: '/icon-192.png',
+        data: {
+          sessionId: notification.sessionId,
+          url: notification.url || `/session?id=${encodeURIComponent(notification.sessionId)}`,
+        },
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { sessionId, url } = event.notification.data || {};
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => isSessionPage(client, sessionId));
+      if (open) return open.focus();
+      return self.clients.openWindow(url || '/');
+    })
+  );
+});
@@ -15,6 +15,7 @@ function JoinContent() {
   useEffect(() => {
     const urlSessionId = searchParams.get('id');
     const urlPublicKey = searchParams.get('key');
+    const urlViewerToken = searchParams.get('view');
 
     if (urlSessionId) {
       setSessionId(urlSessionId.toUpperCase());
@@ -29,6 +30,10 @@ function JoinContent() {
         id: urlSessionId.toUpperCase(),
         key: urlPublicKey,
       });
+      // Share links join read-only
+      if (urlViewerToken) {
+        params.set('view', urlViewerToken);
+      }
       router.push(`/session?${params.toString()}`);
     }
   }, [searchParams, router]);
@@ -132,12 +132,16 @@ function HomeContent() {
   useEffect(() => {
     const sessionId = searchParams.get('id');
     const publicKey = searchParams.get('key');
+    const viewerToken = searchParams.get('view');
 
     if (sessionId && publicKey) {
       const params = new URLSearchParams({
         id: sessionId.toUpperCase(),
         key: publicKey,
       });
+      if (viewerToken) {
+        params.set('view', viewerToken);
+      }
       router.push(`/session?${params.toString()}`);
     }
   }, [searchParams, router]);
@@ -202,6 +206,13 @@ function HomeContent() {
           >
             Enter Session ID Manually
           </Link>
+
+          <Link
+            href="/replay"
+            className="block text-sm text-terminal-fg/50 hover:text-terminal-fg transition-colors"
+          >
+            Replay a recorded session
+          </Link>
         </div>
 
         <div className="mt-12 text-sm text-terminal-fg/40">
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { parseAsciicast, type Asciicast } from '@always-coder/shared';
+
+// Dynamic import ReplayPlayer to avoid SSR issues with xterm.js
+const ReplayPlayer = dynamic(
+  () => import('@/components/Replay/ReplayPlayer').then((mod) => mod.ReplayPlayer),
+  { ssr: false, loading: () => <div className="w-full h-80 bg-terminal-black/50 rounded-lg animate-pulse" /> }
+);
+
+// Default pause cap so overnight recordings don't sit on idle stretches
+const DEFAULT_IDLE_TIME_LIMIT = 2;
+
+export default function ReplayPage() {
+  const [cast, setCast] = useState<Asciicast | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [skipIdle, setSkipIdle] = useState(true);
+
+  const handleFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      // Recordings are parsed locally and never uploaded
+      setCast(parseAsciicast(await file.text()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setCast(null);
+      setError(err instanceof Error ? err.message : 'Failed to read recording');
+    }
+  }, []);
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 bg-terminal-bg">
+      <div className={`w-full ${cast ? 'max-w-6xl' : 'max-w-lg'}`}>
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 text-terminal-fg/60 hover:text-terminal-fg mb-8 transition-colors"
+        >
+          ← Back to Home
+        </Link>
+
+        <h1 className="text-2xl font-bold text-terminal-fg mb-2">Replay Recording</h1>
+        <p className="text-terminal-fg/60 mb-6">
+          Open a file recorded with <code className="text-terminal-cyan">always run --record session.cast</code>
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <label className="px-4 py-2 bg-terminal-blue hover:bg-terminal-blue/80 text-white rounded-lg font-medium transition-colors cursor-pointer">
+            Choose recording
+            <input
+              type="file"
+              accept=".cast,.json,application/x-asciicast"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-terminal-fg/70">
+            <input type="checkbox" checked={skipIdle} onChange={(e) => setSkipIdle(e.target.checked)} />
+            Skip idle time
+          </label>
+          {fileName && <span className="text-sm text-terminal-fg/50 font-mono">{fileName}</span>}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-terminal-red/10 border border-terminal-red/30 rounded-lg text-terminal-red">
+            {error}
+          </div>
+        )}
+
+        {cast && (
+          <ReplayPlayer cast={cast} idleTimeLimit={skipIdle ? DEFAULT_IDLE_TIME_LIMIT : undefined} />
+        )}
+      </div>
+    </main>
+  );
+}
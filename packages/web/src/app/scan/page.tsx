@@ -15,6 +15,7 @@ interface QRCodeData {
   sessionId: string;
   publicKey: string;
   wsEndpoint: string;
+  viewerToken?: string;
 }
 
 export default function ScanPage() {
@@ -26,6 +27,9 @@ export default function ScanPage() {
       id: data.sessionId,
       key: data.publicKey,
     });
+    if (data.viewerToken) {
+      params.set('view', data.viewerToken);
+    }
     router.push(`/session?${params.toString()}`);
   }, [router]);
 
@@ -3,9 +3,22 @@
 import { Suspense, useEffect, useCallback, useState, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
-import { TerminalToolbar } from '@/components/Terminal/TerminalToolbar';
+import {
+  PROTOCOL,
+  DEFAULT_WINDOW_ID,
+  formatShortAuthString,
+  type HistoryChunkPayload,
+  type InputBlockedPayload,
+  type StateSyncPayload,
+  type TerminalSignal,
+  type TerminalSignalPayload,
+} from '@always-coder/shared';
+import { TerminalToolbar, SIGNAL_LABELS } from '@/components/Terminal/TerminalToolbar';
+import { WindowTabs } from '@/components/Terminal/WindowTabs';
 import { useSession } from '@/hooks/useSession';
 import { useSessionStore } from '@/stores/session';
+import { HistoryTracker } from '@/lib/history';
+import type { TerminalHandle } from '@/components/Terminal/Terminal';
 
 // Dynamic import Terminal to avoid SSR issues with xterm.js
 const Terminal = dynamic(
@@ -19,9 +32,10 @@ function SessionContent() {
 
   const sessionIdFromUrl = searchParams.get('id');
   const publicKey = searchParams.get('key');
+  const viewerToken = searchParams.get('view') ?? undefined;
 
   // Get stored session state (for reconnection after refresh)
-  const { connectionStatus, errorMessage, sessionId: storedSessionId, cliPublicKey: storedCliPublicKey } = useSessionStore();
+  const { connectionStatus, errorMessage, sessionId: storedSessionId, cliPublicKey: storedCliPublicKey, windows, activeWindowId, agentStates, readOnly, awaitingApproval, terminalVerified, notificationStatus } = useSessionStore();
   const [initialized, setInitialized] = useState(false);
 
   // Use URL session ID, or fall back to stored session ID (for reconnection)
@@ -30,22 +44,98 @@ function SessionContent() {
   // Detect if this is a reconnection scenario (have stored encryption state)
   const isReconnect = !!(storedSessionId && storedCliPublicKey && sessionId === storedSessionId);
 
+  // Output for windows whose terminal has not mounted yet
+  const pendingOutputRef = useRef<Map<string, string>>(new Map());
+
   // Handle terminal output from CLI
-  const handleTerminalOutput = useCallback((data: string) => {
-    const handle = (window as unknown as Record<string, unknown>).__terminalHandle as { write: (data: string) => void } | undefined;
-    handle?.write(data);
+  const handleTerminalOutput = useCallback((data: string, windowId: string) => {
+    const handle = getTerminalHandle(windowId);
+    if (handle) {
+      handle.write(data);
+    } else {
+      const pending = pendingOutputRef.current;
+      pending.set(windowId, (pending.get(windowId) ?? '') + data);
+    }
+  }, []);
+
+  const handleTerminalReady = useCallback((windowId: string) => {
+    const pending = pendingOutputRef.current.get(windowId);
+    if (pending) {
+      pendingOutputRef.current.delete(windowId);
+      getTerminalHandle(windowId)?.write(pending);
+    }
   }, []);
 
+  // How far back each window's output goes, for loading older output on scroll up
+  const historyRef = useRef(new HistoryTracker());
+
   // Handle state sync
-  const handleStateSync = useCallback((state: { cols: number; rows: number }) => {
-    console.log('Received state sync:', state);
+  const handleStateSync = useCallback((state: StateSyncPayload) => {
+    console.log('Received state sync:', { cols: state.cols, rows: state.rows });
+    historyRef.current.sync(state.scrollback);
+  }, []);
+
+  const handleHistoryChunk = useCallback((chunk: HistoryChunkPayload, windowId: string) => {
+    const data = historyRef.current.receive(windowId, chunk);
+    if (data) {
+      getTerminalHandle(windowId)?.prepend(data);
+    }
   }, []);
 
-  const { connectToSession, disconnectSession, sendInput, sendResize } = useSession({
+  // Outcome of the last signal sent from the toolbar, or input the CLI dropped
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const showNotice = useCallback((text: string) => {
+    setNotice(text);
+    clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = setTimeout(() => setNotice(null), 4000);
+  }, []);
+
+  useEffect(() => () => clearTimeout(noticeTimerRef.current), []);
+
+  const handleSignalResult = useCallback(({ signal, delivered }: TerminalSignalPayload) => {
+    showNotice(delivered ? `${signal} sent` : `${signal} blocked by the CLI's input policy`);
+  }, [showNotice]);
+
+  const handleInputBlocked = useCallback(({ rule, kind }: InputBlockedPayload) => {
+    const what =
+      kind === 'line' ? 'Command' : kind === 'rate' ? 'Input (too fast)' : kind === 'window' ? 'New window' : 'Keystroke';
+    showNotice(`${what} blocked by the CLI's input policy: ${rule}`);
+  }, [showNotice]);
+
+  const {
+    connectToSession,
+    disconnectSession,
+    sendInput,
+    sendResize,
+    sendSignal,
+    requestHistory,
+    createWindow,
+    closeWindow,
+    switchWindow,
+    getDeviceFingerprint,
+    getShortAuth,
+    markVerified,
+    enableNotifications,
+    disableNotifications,
+  } = useSession({
     onTerminalOutput: handleTerminalOutput,
     onStateSync: handleStateSync,
+    onHistoryChunk: handleHistoryChunk,
+    onSignalResult: handleSignalResult,
+    onInputBlocked: handleInputBlocked,
+    onNotificationError: showNotice,
   });
 
+  // The user scrolled to the top of a window: fetch the output before it
+  const handleScrollTop = useCallback((windowId: string) => {
+    const before = historyRef.current.nextRequest(windowId);
+    if (before !== null) {
+      requestHistory(before, windowId);
+    }
+  }, [requestHistory]);
+
   // Store functions in refs to avoid dependency issues causing reconnects
   const connectRef = useRef(connectToSession);
   connectRef.current = connectToSession;
@@ -58,14 +148,14 @@ function SessionContent() {
   const isMountedRef = useRef(true);
 
   // Store session params in ref for use in effects
-  const sessionParamsRef = useRef({ sessionId, publicKey, isReconnect });
-  sessionParamsRef.current = { sessionId, publicKey, isReconnect };
+  const sessionParamsRef = useRef({ sessionId, publicKey, isReconnect, viewerToken });
+  sessionParamsRef.current = { sessionId, publicKey, isReconnect, viewerToken };
 
   // Connect to session - runs only once on mount
   useEffect(() => {
     isMountedRef.current = true;
 
-    const { sessionId, publicKey, isReconnect } = sessionParamsRef.current;
+    const { sessionId, publicKey, isReconnect, viewerToken } = sessionParamsRef.current;
 
     // For initial connection, need both sessionId and publicKey from URL
     // For reconnection, only need sessionId (either from URL or stored)
@@ -83,8 +173,8 @@ function SessionContent() {
     // Only connect once per component lifecycle
     if (!hasConnectedRef.current) {
       hasConnectedRef.current = true;
-      console.log('Connecting to session:', { sessionId, isReconnect });
-      connectRef.current(sessionId, isReconnect);
+      console.log('Connecting to session:', { sessionId, isReconnect, viewer: !!viewerToken });
+      connectRef.current(sessionId, isReconnect, viewerToken);
     }
 
     // Cleanup on unmount - use setTimeout to allow React StrictMode to re-mount
@@ -100,15 +190,18 @@ function SessionContent() {
     };
   }, [router]); // Only depend on router for navigation
 
-  // Handle terminal input
-  const handleTerminalData = useCallback((data: string) => {
-    sendInput(data);
-  }, [sendInput]);
+  // Close a window after confirmation - this kills its process on the CLI
+  const handleCloseWindow = useCallback((windowId: string) => {
+    const win = useSessionStore.getState().windows.find((w) => w.windowId === windowId);
+    if (win && window.confirm(`Close "${win.name}"? Its process will be terminated.`)) {
+      closeWindow(windowId);
+    }
+  }, [closeWindow]);
 
-  // Handle terminal resize
-  const handleTerminalResize = useCallback((cols: number, rows: number) => {
-    sendResize(cols, rows);
-  }, [sendResize]);
+  // Focus the terminal of the newly active window
+  useEffect(() => {
+    getTerminalHandle(activeWindowId)?.focus();
+  }, [activeWindowId]);
 
   // Handle disconnect - clear all state when user explicitly disconnects
   const handleDisconnect = useCallback(() => {
@@ -116,6 +209,20 @@ function SessionContent() {
     router.push('/');
   }, [disconnectSession, router]);
 
+  const handleVerify = useCallback(() => {
+    if (window.confirm('Do these symbols match the ones printed by the CLI?\n\n' + formatShortAuthString(getShortAuth()))) {
+      markVerified();
+    }
+  }, [getShortAuth, markVerified]);
+
+  // Signals reach the program even though Ctrl+C keystrokes are filtered, so ask first
+  const handleSignal = useCallback((signal: TerminalSignal) => {
+    const windowId = activeWindowId || DEFAULT_WINDOW_ID;
+    if (window.confirm(`Send ${signal} (${SIGNAL_LABELS[signal]}) to the program running in this window?`)) {
+      sendSignal(signal, windowId);
+    }
+  }, [activeWindowId, sendSignal]);
+
   // Validate params - need sessionId (and either publicKey for initial connection or stored state for reconnection)
   if (!sessionId || (!publicKey && !isReconnect)) {
     return (
@@ -149,6 +256,22 @@ function SessionContent() {
     );
   }
 
+  // The CLI user is deciding whether to let this device in
+  if (awaitingApproval) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center p-4 bg-terminal-bg">
+        <div className="max-w-md w-full text-center">
+          <div className="animate-spin w-8 h-8 border-2 border-terminal-yellow border-t-transparent rounded-full mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-terminal-fg mb-2">Waiting for approval</h1>
+          <p className="text-terminal-fg/60 mb-6">
+            Confirm this device on the terminal running the session. It should show this device key:
+          </p>
+          <p className="font-mono text-lg tracking-wider text-terminal-cyan">{getDeviceFingerprint()}</p>
+        </div>
+      </main>
+    );
+  }
+
   // Show connecting state
   if (connectionStatus === 'connecting' || connectionStatus === 'disconnected') {
     return (
@@ -166,18 +289,59 @@ function SessionContent() {
       <TerminalToolbar
         sessionId={sessionId}
         connectionStatus={connectionStatus}
+        readOnly={readOnly}
+        shortAuth={getShortAuth()}
+        verified={terminalVerified}
+        onVerify={handleVerify}
         onDisconnect={handleDisconnect}
+        onSignal={handleSignal}
+        notice={notice}
+        notificationStatus={notificationStatus}
+        onToggleNotifications={notificationStatus === 'on' ? disableNotifications : enableNotifications}
       />
-      <div className="flex-1 overflow-hidden">
-        <Terminal
-          onData={handleTerminalData}
-          onResize={handleTerminalResize}
+      {windows.length > 0 && (
+        <WindowTabs
+          windows={windows}
+          activeWindowId={activeWindowId}
+          onSwitch={switchWindow}
+          onClose={handleCloseWindow}
+          onCreate={() => createWindow()}
+          canCreate={windows.length < PROTOCOL.MAX_WINDOWS}
+          readOnly={readOnly}
+          agentStates={agentStates}
         />
+      )}
+      <div className="flex-1 overflow-hidden relative">
+        {/* CLIs without window support never send a window list: show the main window only */}
+        {(windows.length > 0 ? windows.map((w) => w.windowId) : [DEFAULT_WINDOW_ID]).map((windowId) => (
+          <div
+            key={windowId}
+            className={`absolute inset-0 ${windowId === activeWindowId || windows.length === 0 ? '' : 'invisible'}`}
+          >
+            <Terminal
+              windowId={windowId}
+              onData={readOnly ? undefined : (data) => sendInput(data, windowId)}
+              onResize={(cols, rows) => sendResize(cols, rows, windowId)}
+              onReady={() => handleTerminalReady(windowId)}
+              onScrollTop={readOnly ? undefined : () => handleScrollTop(windowId)}
+            />
+          </div>
+        ))}
       </div>
     </main>
   );
 }
 
+/**
+ * Handle registered by a mounted Terminal for its window
+ */
+function getTerminalHandle(windowId: string): TerminalHandle | undefined {
+  const handles = (window as unknown as Record<string, unknown>).__terminalHandles as
+    | Record<string, TerminalHandle>
+    | undefined;
+  return handles?.[windowId];
+}
+
 function LoadingFallback() {
   return (
     <main className="min-h-screen flex flex-col items-center justify-center p-4 bg-terminal-bg">
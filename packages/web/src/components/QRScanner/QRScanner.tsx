@@ -7,6 +7,7 @@ interface QRCodeData {
   sessionId: string;
   publicKey: string;
   wsEndpoint: string;
+  viewerToken?: string;
 }
 
 interface QRScannerProps {
@@ -44,6 +45,7 @@ export function QRScanner({ onScan, onError }: QRScannerProps) {
                 const url = new URL(decodedText);
                 const sessionId = url.searchParams.get('id');
                 const publicKey = url.searchParams.get('key');
+                const viewerToken = url.searchParams.get('view');
 
                 if (!sessionId || !publicKey) {
                   throw new Error('Invalid URL parameters');
@@ -53,6 +55,7 @@ export function QRScanner({ onScan, onError }: QRScannerProps) {
                   sessionId,
                   publicKey,
                   wsEndpoint: '', // Not needed for URL format
+                  ...(viewerToken && { viewerToken }),
                 };
               } else {
                 // Fallback to JSON format (legacy)
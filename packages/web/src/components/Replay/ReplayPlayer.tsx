@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import type { Asciicast } from '@always-coder/shared';
+import { TERMINAL_OPTIONS, VSCODE_DARK_MODERN_THEME } from '@/components/Terminal/Terminal';
+import { buildReplayFrames, findFrameIndex, formatReplayTime, type ReplayFrame } from '@/lib/replay';
+
+interface ReplayPlayerProps {
+  cast: Asciicast;
+  /** Cap on pauses between output, in seconds */
+  idleTimeLimit?: number;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * Plays an asciicast recording in a read-only terminal at the recorded size
+ */
+export function ReplayPlayer({ cast, idleTimeLimit }: ReplayPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const frames = useMemo(
+    () => buildReplayFrames(cast.events, idleTimeLimit ?? cast.header.idle_time_limit),
+    [cast, idleTimeLimit]
+  );
+  const duration = frames.length > 0 ? frames[frames.length - 1].time : 0;
+
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  const [marker, setMarker] = useState<string | null>(null);
+  // Index of the next frame to apply
+  const nextFrameRef = useRef(0);
+  const positionRef = useRef(0);
+
+  const applyFrame = useCallback((frame: ReplayFrame) => {
+    const term = xtermRef.current;
+    if (!term) return;
+    if (frame.type === 'output') {
+      term.write(frame.data);
+    } else if (frame.type === 'resize') {
+      term.resize(frame.cols, frame.rows);
+    } else {
+      setMarker(frame.label);
+    }
+  }, []);
+
+  // Apply every frame up to the given time
+  const advanceTo = useCallback(
+    (time: number) => {
+      const end = findFrameIndex(frames, time);
+      for (let i = nextFrameRef.current; i < end; i++) {
+        applyFrame(frames[i]);
+      }
+      nextFrameRef.current = end;
+      positionRef.current = time;
+      setPosition(time);
+    },
+    [frames, applyFrame]
+  );
+
+  // Redraw from the start up to the given time
+  const seek = useCallback(
+    (time: number) => {
+      const term = xtermRef.current;
+      if (!term) return;
+      term.reset();
+      term.resize(cast.header.width, cast.header.height);
+      nextFrameRef.current = 0;
+      setMarker(null);
+      advanceTo(Math.min(Math.max(0, time), duration));
+    },
+    [cast, duration, advanceTo]
+  );
+
+  // Create a fresh terminal for each recording
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const term = new XTerm({
+      ...TERMINAL_OPTIONS,
+      cols: cast.header.width,
+      rows: cast.header.height,
+      cursorBlink: false,
+      disableStdin: true,
+    });
+    term.open(containerRef.current);
+    xtermRef.current = term;
+    nextFrameRef.current = 0;
+    positionRef.current = 0;
+    setPosition(0);
+    setMarker(null);
+    setPlaying(true);
+
+    return () => {
+      term.dispose();
+      xtermRef.current = null;
+    };
+  }, [cast]);
+
+  // Drive the playback clock while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    const startedAt = performance.now();
+    const startPosition = positionRef.current >= duration ? 0 : positionRef.current;
+    if (startPosition === 0 && positionRef.current > 0) {
+      seek(0);
+    }
+
+    const timer = setInterval(() => {
+      const time = startPosition + ((performance.now() - startedAt) / 1000) * speed;
+      advanceTo(Math.min(time, duration));
+      if (time >= duration) {
+        setPlaying(false);
+      }
+    }, 50);
+
+    return () => clearInterval(timer);
+  }, [playing, speed, duration, advanceTo, seek]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        className="overflow-auto rounded-lg border border-terminal-fg/10 p-2"
+        style={{ backgroundColor: VSCODE_DARK_MODERN_THEME.background }}
+      >
+        <div ref={containerRef} className="inline-block" />
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-terminal-fg/70">
+        <button
+          onClick={() => setPlaying((value) => !value)}
+          className="px-3 py-1.5 rounded-lg bg-terminal-blue hover:bg-terminal-blue/80 text-white font-medium transition-colors"
+        >
+          {playing ? 'Pause' : position >= duration ? 'Replay' : 'Play'}
+        </button>
+        <span className="font-mono tabular-nums">
+          {formatReplayTime(position)} / {formatReplayTime(duration)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false);
+            seek(Number(e.target.value));
+          }}
+          className="flex-1"
+          aria-label="Playback position"
+        />
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-terminal-black/50 border border-terminal-fg/20 rounded px-2 py-1"
+          aria-label="Playback speed"
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}×
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {marker && <div className="text-xs text-terminal-fg/50 font-mono">{marker}</div>}
+    </div>
+  );
+}
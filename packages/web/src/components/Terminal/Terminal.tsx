@@ -6,13 +6,14 @@ import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import { WebglAddon } from '@xterm/addon-webgl';
 import '@xterm/xterm/css/xterm.css';
+import { DEFAULT_WINDOW_ID } from '@always-coder/shared';
 
 /**
  * VS Code Dark Modern Theme
  * Extracted from: https://github.com/microsoft/vscode/blob/main/extensions/theme-defaults/themes/dark_modern.json
  * This provides pixel-perfect visual consistency with VS Code's integrated terminal.
  */
-const VSCODE_DARK_MODERN_THEME = {
+export const VSCODE_DARK_MODERN_THEME = {
   background: '#181818',
   foreground: '#CCCCCC',
   cursor: '#FFFFFF',
@@ -43,7 +44,7 @@ const VSCODE_DARK_MODERN_THEME = {
  * Terminal configuration options optimized for Claude Code output.
  * Based on xterm.js best practices and VS Code terminal settings.
  */
-const TERMINAL_OPTIONS = {
+export const TERMINAL_OPTIONS = {
   // Font settings - VS Code default monospace stack
   fontFamily: "'Menlo', 'Monaco', 'Courier New', monospace",
   fontSize: 14,
@@ -74,18 +75,40 @@ const TERMINAL_OPTIONS = {
 };
 
 interface TerminalProps {
+  /** Terminal window shown by this instance (default: the main window) */
+  windowId?: string;
   onData?: (data: string) => void;
   onResize?: (cols: number, rows: number) => void;
+  /** Called once xterm is mounted and the handle can write */
+  onReady?: () => void;
+  /** Called when the user scrolls up past the oldest line, to load older output */
+  onScrollTop?: () => void;
 }
 
 export interface TerminalHandle {
   write: (data: string) => void;
+  /** Put older output in front of what was written, keeping the scroll position */
+  prepend: (data: string) => void;
   clear: () => void;
   focus: () => void;
 }
 
-export function Terminal({ onData, onResize }: TerminalProps) {
+// Output kept to redraw the terminal when older output is put in front of it
+const MAX_TRANSCRIPT_SIZE = 4 * 1024 * 1024;
+
+export function Terminal({ windowId = DEFAULT_WINDOW_ID, onData, onResize, onReady, onScrollTop }: TerminalProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  // Callbacks live in refs so new closures don't re-create the xterm instance
+  const onDataRef = useRef(onData);
+  onDataRef.current = onData;
+  const onResizeRef = useRef(onResize);
+  onResizeRef.current = onResize;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  const onScrollTopRef = useRef(onScrollTop);
+  onScrollTopRef.current = onScrollTop;
+  // Everything written so far; dropped once too large, which also ends loading older output
+  const transcriptRef = useRef<string | null>('');
   const xtermRef = useRef<XTerm | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
   const webglAddonRef = useRef<WebglAddon | null>(null);
@@ -93,6 +116,25 @@ export function Terminal({ onData, onResize }: TerminalProps) {
   // Write data to terminal
   const write = useCallback((data: string) => {
     xtermRef.current?.write(data);
+    if (transcriptRef.current !== null) {
+      transcriptRef.current += data;
+      if (transcriptRef.current.length > MAX_TRANSCRIPT_SIZE) {
+        transcriptRef.current = null;
+      }
+    }
+  }, []);
+
+  // xterm can only append, so redraw everything with the older output first
+  const prepend = useCallback((data: string) => {
+    const term = xtermRef.current;
+    if (!term || !data || transcriptRef.current === null) return;
+
+    const linesFromBottom = term.buffer.active.length - term.buffer.active.viewportY;
+    transcriptRef.current = data + transcriptRef.current;
+    term.reset();
+    term.write(transcriptRef.current, () => {
+      term.scrollToLine(Math.max(0, term.buffer.active.length - linesFromBottom));
+    });
   }, []);
 
   // Clear terminal
@@ -107,12 +149,14 @@ export function Terminal({ onData, onResize }: TerminalProps) {
 
   // Expose methods via ref
   useEffect(() => {
-    // Attach methods to window for parent component access
-    (window as unknown as Record<string, unknown>).__terminalHandle = { write, clear, focus };
+    // Attach methods to window for parent component access, one handle per terminal window
+    const globals = window as unknown as Record<string, unknown>;
+    const handles = (globals.__terminalHandles ??= {}) as Record<string, TerminalHandle>;
+    handles[windowId] = { write, prepend, clear, focus };
     return () => {
-      delete (window as unknown as Record<string, unknown>).__terminalHandle;
+      delete handles[windowId];
     };
-  }, [write, clear, focus]);
+  }, [windowId, write, prepend, clear, focus]);
 
   // Initialize terminal
   useEffect(() => {
@@ -158,7 +202,22 @@ export function Terminal({ onData, onResize }: TerminalProps) {
 
     // E. Handle user input
     term.onData((data) => {
-      onData?.(data);
+      onDataRef.current?.(data);
+    });
+
+    // Ask for older output at the top of the scrollback (or of a screen with none yet),
+    // while xterm still has room to keep it
+    const reachedTop = () => {
+      if (transcriptRef.current !== null && term.buffer.active.length < TERMINAL_OPTIONS.scrollback) {
+        onScrollTopRef.current?.();
+      }
+    };
+    term.onScroll((position) => {
+      if (position === 0) reachedTop();
+    });
+    term.attachCustomWheelEventHandler((event) => {
+      if (event.deltaY < 0 && term.buffer.active.viewportY === 0) reachedTop();
+      return true;
     });
 
     // F. Optimized resize handling with ResizeObserver + requestAnimationFrame
@@ -182,7 +241,7 @@ export function Terminal({ onData, onResize }: TerminalProps) {
             if (cols !== lastCols || rows !== lastRows) {
               lastCols = cols;
               lastRows = rows;
-              onResize?.(cols, rows);
+              onResizeRef.current?.(cols, rows);
             }
           } catch {
             // Ignore errors during resize (e.g., disposed terminal)
@@ -211,7 +270,7 @@ export function Terminal({ onData, onResize }: TerminalProps) {
           const { cols, rows } = term;
           lastCols = cols;
           lastRows = rows;
-          onResize?.(cols, rows);
+          onResizeRef.current?.(cols, rows);
         } catch {
           // Ignore errors during initial fit
         }
@@ -220,6 +279,7 @@ export function Terminal({ onData, onResize }: TerminalProps) {
 
     // Focus terminal on mount
     term.focus();
+    onReadyRef.current?.();
 
     // I. Cleanup function - critical for React 18 Strict Mode
     return () => {
@@ -240,7 +300,7 @@ export function Terminal({ onData, onResize }: TerminalProps) {
       xtermRef.current = null;
       fitAddonRef.current = null;
     };
-  }, [onData, onResize]);
+  }, []);
 
   return (
     <div
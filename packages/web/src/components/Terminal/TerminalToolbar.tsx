@@ -1,14 +1,35 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { ConnectionStatus } from '@/stores/session';
+import { formatShortAuthString, TERMINAL_SIGNALS, type SasSymbol, type TerminalSignal } from '@always-coder/shared';
+import type { ConnectionStatus, NotificationStatus } from '@/stores/session';
 
 interface TerminalToolbarProps {
   sessionId: string;
   connectionStatus: ConnectionStatus;
+  /** Joined through a share link */
+  readOnly?: boolean;
+  /** Short authentication string to compare with the CLI output */
+  shortAuth?: SasSymbol[];
+  verified?: boolean;
+  onVerify?: () => void;
   onDisconnect?: () => void;
+  /** Send a signal to the active window's program; asks for confirmation first */
+  onSignal?: (signal: TerminalSignal) => void;
+  /** Outcome of the last signal or blocked input, shown for a few seconds */
+  notice?: string | null;
+  notificationStatus?: NotificationStatus;
+  /** Turn push notifications from this session on or off */
+  onToggleNotifications?: () => void;
 }
 
+export const SIGNAL_LABELS: Record<TerminalSignal, string> = {
+  SIGINT: 'Interrupt (Ctrl+C)',
+  SIGTSTP: 'Suspend (Ctrl+Z)',
+  SIGTERM: 'Terminate',
+  SIGKILL: 'Kill',
+};
+
 function handleLogout() {
   // Redirect to server-side logout endpoint to clear HttpOnly cookies
   window.location.href = '/auth/logout';
@@ -20,12 +41,29 @@ function getUserEmail(): string {
   return match ? decodeURIComponent(match[1]) : '';
 }
 
+const NOTIFICATION_TITLES: Record<NotificationStatus, string> = {
+  unsupported: 'This browser cannot show notifications (on iOS, add the app to the home screen first)',
+  off: 'Get a notification when the agent needs you',
+  pending: 'Turning notifications on...',
+  on: 'Notifications are on; click to turn them off',
+  denied: "Notifications are blocked in this browser's site settings",
+};
+
 export function TerminalToolbar({
   sessionId,
   connectionStatus,
+  readOnly = false,
+  shortAuth = [],
+  verified = false,
+  onVerify,
   onDisconnect,
+  onSignal,
+  notice,
+  notificationStatus = 'off',
+  onToggleNotifications,
 }: TerminalToolbarProps) {
   const [userEmail, setUserEmail] = useState('');
+  const [signalMenuOpen, setSignalMenuOpen] = useState(false);
 
   useEffect(() => {
     setUserEmail(getUserEmail());
@@ -63,10 +101,77 @@ export function TerminalToolbar({
         <span className="text-sm text-terminal-fg/60 font-mono">
           Session: <span className="text-terminal-cyan">{sessionId}</span>
         </span>
+        {readOnly && (
+          <span className="px-2 py-0.5 text-xs rounded bg-terminal-yellow/10 border border-terminal-yellow/30 text-terminal-yellow">
+            View only
+          </span>
+        )}
       </div>
 
-      {/* Connection status, user info and logout */}
+      {/* Signals, key verification, connection status, user info and logout */}
       <div className="flex items-center gap-4">
+        {notice && (
+          <span className="text-xs text-terminal-yellow">{notice}</span>
+        )}
+        {onSignal && !readOnly && (
+          <div className="relative">
+            <button
+              onClick={() => setSignalMenuOpen((open) => !open)}
+              className="px-2 py-0.5 text-xs rounded border border-terminal-fg/20 text-terminal-fg/60 hover:text-terminal-fg transition-colors"
+              title="Send a signal to the running program"
+            >
+              Signal ▾
+            </button>
+            {signalMenuOpen && (
+              <div className="absolute right-0 mt-1 z-10 min-w-max rounded border border-terminal-fg/20 bg-terminal-black py-1">
+                {TERMINAL_SIGNALS.map((signal) => (
+                  <button
+                    key={signal}
+                    onClick={() => {
+                      setSignalMenuOpen(false);
+                      onSignal(signal);
+                    }}
+                    className="block w-full px-3 py-1 text-left text-xs text-terminal-fg/80 hover:bg-terminal-fg/10"
+                  >
+                    {SIGNAL_LABELS[signal]} <span className="text-terminal-fg/40">{signal}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {onToggleNotifications && !readOnly && (
+          <button
+            onClick={onToggleNotifications}
+            disabled={notificationStatus !== 'off' && notificationStatus !== 'on'}
+            className={`px-2 py-0.5 text-xs rounded border transition-colors disabled:opacity-50 ${
+              notificationStatus === 'on'
+                ? 'bg-terminal-green/10 border-terminal-green/30 text-terminal-green'
+                : 'border-terminal-fg/20 text-terminal-fg/60 hover:text-terminal-fg'
+            }`}
+            title={NOTIFICATION_TITLES[notificationStatus]}
+          >
+            {notificationStatus === 'on' ? 'Notifying' : 'Notify me'}
+          </button>
+        )}
+        {shortAuth.length > 0 && (
+          <div className="flex items-center gap-2" title={formatShortAuthString(shortAuth)}>
+            <span className="text-sm tracking-wider">{formatShortAuthString(shortAuth, false)}</span>
+            {verified ? (
+              <span className="px-2 py-0.5 text-xs rounded bg-terminal-green/10 border border-terminal-green/30 text-terminal-green">
+                ✓ Verified
+              </span>
+            ) : (
+              <button
+                onClick={onVerify}
+                className="px-2 py-0.5 text-xs rounded border border-terminal-fg/20 text-terminal-fg/60 hover:text-terminal-fg transition-colors"
+                title="Confirm these symbols match the ones printed by the CLI"
+              >
+                Verify
+              </button>
+            )}
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <div className={`w-2 h-2 rounded-full ${statusColors[connectionStatus]}`} />
           <span className="text-sm text-terminal-fg/60">{statusText[connectionStatus]}</span>
@@ -0,0 +1,87 @@
+'use client';
+
+import type { AgentState, AgentStatePayload, WindowInfo } from '@always-coder/shared';
+
+interface WindowTabsProps {
+  windows: WindowInfo[];
+  activeWindowId: string;
+  onSwitch: (windowId: string) => void;
+  onClose: (windowId: string) => void;
+  onCreate: () => void;
+  /** Hide the new-window button (e.g. at the window limit) */
+  canCreate?: boolean;
+  /** Viewers can switch tabs but not open or close windows */
+  readOnly?: boolean;
+  /** What the coding agent in each window is doing, for windows running one */
+  agentStates?: Record<string, AgentStatePayload>;
+}
+
+const AGENT_STATE_STYLES: Record<AgentState, { dot: string; label: string }> = {
+  starting: { dot: 'bg-terminal-fg/40', label: 'starting' },
+  idle: { dot: 'bg-terminal-green', label: 'idle' },
+  working: { dot: 'bg-terminal-cyan animate-pulse', label: 'working' },
+  approval: { dot: 'bg-terminal-yellow animate-pulse', label: 'needs approval' },
+  error: { dot: 'bg-terminal-red', label: 'error' },
+};
+
+export function WindowTabs({
+  windows,
+  activeWindowId,
+  onSwitch,
+  onClose,
+  onCreate,
+  canCreate = true,
+  readOnly = false,
+  agentStates = {},
+}: WindowTabsProps) {
+  return (
+    <div className="flex items-stretch bg-terminal-black/60 border-b border-terminal-fg/10 overflow-x-auto">
+      {windows.map((win) => {
+        const isActive = win.windowId === activeWindowId;
+        const agent = agentStates[win.windowId];
+        const agentStyle = agent && AGENT_STATE_STYLES[agent.state];
+        return (
+          <div
+            key={win.windowId}
+            className={`flex items-center gap-2 pl-3 pr-2 py-1.5 text-sm font-mono border-r border-terminal-fg/10 whitespace-nowrap ${
+              isActive
+                ? 'bg-terminal-bg text-terminal-fg'
+                : 'text-terminal-fg/50 hover:text-terminal-fg/80'
+            }`}
+          >
+            <button onClick={() => onSwitch(win.windowId)} title={win.command} className="flex items-center gap-2">
+              {agentStyle && (
+                <span
+                  className={`w-2 h-2 rounded-full ${agentStyle.dot}`}
+                  title={`${agent.agent}: ${agentStyle.label}${agent.detail ? ` - ${agent.detail}` : ''}`}
+                />
+              )}
+              {win.name}
+              {agent?.state === 'approval' && (
+                <span className="text-xs text-terminal-yellow">{agentStyle.label}</span>
+              )}
+            </button>
+            {!readOnly && (
+              <button
+                onClick={() => onClose(win.windowId)}
+                className="px-1 rounded text-terminal-fg/40 hover:text-terminal-red hover:bg-terminal-fg/10"
+                title={`Close ${win.name}`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {canCreate && !readOnly && (
+        <button
+          onClick={onCreate}
+          className="px-3 py-1.5 text-sm text-terminal-fg/50 hover:text-terminal-fg"
+          title="New window"
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+}
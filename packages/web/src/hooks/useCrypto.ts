@@ -7,8 +7,7 @@ import type { EncryptedEnvelope, Message } from '@always-coder/shared';
 export function useCrypto() {
   const cryptoRef = useRef<WebCrypto | null>(null);
 
-  // Initialize crypto lazily, restoring shared key from sessionStorage if available.
-  // Note: Private key is NEVER stored - only the derived shared key is persisted.
+  // Initialize crypto lazily, with a keypair new to this page load
   const getCrypto = useCallback(() => {
     if (!cryptoRef.current) {
       cryptoRef.current = new WebCrypto(true);
@@ -29,6 +28,16 @@ export function useCrypto() {
     getCrypto().reestablishSharedKey(cliPublicKey);
   }, [getCrypto]);
 
+  // Follow a KEY_ROTATE from the CLI
+  const acceptRotatedKey = useCallback((cliEphemeralPublicKey: string, keepPrevious?: boolean) => {
+    getCrypto().acceptRotatedKey(cliEphemeralPublicKey, keepPrevious);
+  }, [getCrypto]);
+
+  // Codecs the CLI can decompress, from its binding KEY_ROTATE
+  const setCliCompression = useCallback((offered: unknown) => {
+    getCrypto().setCliCompression(offered);
+  }, [getCrypto]);
+
   // Check if CLI's public key changed since we stored the shared key
   const isCliKeyChanged = useCallback((cliPublicKey: string) => {
     return getCrypto().isCliKeyChanged(cliPublicKey);
@@ -62,6 +71,8 @@ export function useCrypto() {
     getPublicKey,
     establishSharedKey,
     reestablishSharedKey,
+    acceptRotatedKey,
+    setCliCompression,
     isCliKeyChanged,
     getStoredCliPublicKey,
     isReady,
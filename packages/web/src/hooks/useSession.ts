@@ -1,8 +1,41 @@
 'use client';
 
 import { useCallback, useRef } from 'react';
-import { MessageType, type EncryptedEnvelope, type Message } from '@always-coder/shared';
+import {
+  MessageType,
+  DEFAULT_WINDOW_ID,
+  createMessage,
+  getMessageWindowId,
+  getKeyFingerprint,
+  getShortAuthString,
+  ReplayDetectedError,
+  fragmentEnvelope,
+  FragmentAssembler,
+  FragmentError,
+  getCapabilities,
+  checkCompatibility,
+  supportsMessageType,
+  type Capabilities,
+  type DeviceIdentity,
+  type EncryptedEnvelope,
+  type AgentStatePayload,
+  type HistoryChunkPayload,
+  type InputBlockedPayload,
+  type JoinApprovalStatus,
+  type KeyRotatePayload,
+  type NotifySubscriptionPayload,
+  type PushSubscribeResponsePayload,
+  type StateSyncPayload,
+  type TerminalSignal,
+  type TerminalSignalPayload,
+  type WindowCreatePayload,
+  type WindowListPayload,
+  type WebConnectionRole,
+} from '@always-coder/shared';
 import { useSessionStore } from '@/stores/session';
+import { isVerifiedKey, markKeyVerified } from '@/lib/verification';
+import { createDeviceIdentity, loadIdentityKeyPair } from '@/lib/identity';
+import { getPushSubscription, isPushSupported, subscribePush, toNotifySubscription } from '@/lib/push';
 import { useCrypto } from './useCrypto';
 import { useWebSocket } from './useWebSocket';
 
@@ -10,18 +43,33 @@ import { useWebSocket } from './useWebSocket';
 const MAX_DECRYPTION_FAILURES = 3;
 
 interface UseSessionOptions {
-  onTerminalOutput?: (data: string) => void;
-  onStateSync?: (state: { cols: number; rows: number }) => void;
+  onTerminalOutput?: (data: string, windowId: string) => void;
+  onStateSync?: (state: StateSyncPayload) => void;
+  onHistoryChunk?: (chunk: HistoryChunkPayload, windowId: string) => void;
+  /** The CLI delivered or refused a signal this client sent */
+  onSignalResult?: (result: TerminalSignalPayload) => void;
+  /** The CLI's input policy dropped some of this client's input */
+  onInputBlocked?: (blocked: InputBlockedPayload) => void;
+  /** Turning notifications on failed */
+  onNotificationError?: (message: string) => void;
 }
 
 export function useSession(options: UseSessionOptions = {}) {
   const {
     sessionId,
     connectionStatus,
+    cliPublicKey,
     setSessionId,
     setCliPublicKey,
     setConnectionStatus,
     setEncryptionReady,
+    setWindows,
+    setActiveWindow,
+    setAgentState,
+    setReadOnly,
+    setAwaitingApproval,
+    setTerminalVerified,
+    setNotificationStatus,
     setError,
     clearError,
     reset,
@@ -31,6 +79,8 @@ export function useSession(options: UseSessionOptions = {}) {
     getPublicKey,
     establishSharedKey,
     reestablishSharedKey,
+    acceptRotatedKey,
+    setCliCompression,
     isCliKeyChanged,
     isReady,
     encrypt,
@@ -40,8 +90,36 @@ export function useSession(options: UseSessionOptions = {}) {
 
   const seqRef = useRef(0);
   const decryptionFailuresRef = useRef(0);
+  // Rejoining after the CLI reconnected: the CLI kept our (rotated) key, so keep it too
+  const keepKeyOnRejoinRef = useRef(false);
+  // A fresh shared key is bound to this connection by the CLI's first KEY_ROTATE;
+  // messages are held until then so none go out under the unbound key
+  const keyBoundRef = useRef(false);
+  const heldMessagesRef = useRef<{ type: MessageType; payload: unknown; windowId?: string }[]>([]);
+  const flushHeldMessagesRef = useRef<() => void>(() => {});
+  // Large CLI messages (e.g. a state sync of long output) arrive in fragments
+  const fragmentsRef = useRef(new FragmentAssembler());
+  // What the CLI sent in its handshake; undefined for CLIs from before the exchange
+  const cliCapabilitiesRef = useRef<Capabilities | undefined>(undefined);
+  // This browser's identity key, loaded once; its public half once known
+  const identityKeyPairRef = useRef<Promise<CryptoKeyPair | null> | null>(null);
+  const deviceKeyRef = useRef<string | null>(null);
+  // Subscription waiting for the relay to accept its endpoint before the CLI gets its keys
+  const pendingSubscriptionRef = useRef<NotifySubscriptionPayload | null>(null);
+  const notifyCliRef = useRef<(subscription: NotifySubscriptionPayload) => void>(() => {});
+  const restoreNotificationsRef = useRef<(role?: WebConnectionRole) => void>(() => {});
+
+  const handleEncrypted = useCallback((received: EncryptedEnvelope) => {
+    let envelope: EncryptedEnvelope | null;
+    try {
+      envelope = fragmentsRef.current.add(received);
+    } catch (error) {
+      if (!(error instanceof FragmentError)) throw error;
+      console.warn(`${error.code}: dropped message fragment: ${error.message}`);
+      return;
+    }
+    if (!envelope) return;
 
-  const handleEncrypted = useCallback((envelope: EncryptedEnvelope) => {
     if (!isReady()) {
       console.warn('Received encrypted message before encryption is ready');
       return;
@@ -54,17 +132,61 @@ export function useSession(options: UseSessionOptions = {}) {
 
       switch (message.type) {
         case MessageType.TERMINAL_OUTPUT:
-          options.onTerminalOutput?.(message.payload as string);
+          options.onTerminalOutput?.(message.payload as string, getMessageWindowId(message));
           break;
 
+        case MessageType.WINDOW_LIST: {
+          const { windows, activeWindowId } = message.payload as WindowListPayload;
+          if (Array.isArray(windows) && typeof activeWindowId === 'string') {
+            setWindows(windows, activeWindowId);
+          }
+          break;
+        }
+
         case MessageType.STATE_SYNC:
-          options.onStateSync?.(message.payload as { cols: number; rows: number });
+          options.onStateSync?.(message.payload as StateSyncPayload);
+          break;
+
+        case MessageType.HISTORY_CHUNK:
+          options.onHistoryChunk?.(message.payload as HistoryChunkPayload, getMessageWindowId(message));
+          break;
+
+        case MessageType.TERMINAL_SIGNAL:
+          options.onSignalResult?.(message.payload as TerminalSignalPayload);
+          break;
+
+        case MessageType.AGENT_STATE:
+          setAgentState(getMessageWindowId(message), message.payload as AgentStatePayload);
+          break;
+
+        case MessageType.INPUT_BLOCKED:
+          options.onInputBlocked?.(message.payload as InputBlockedPayload);
           break;
 
+        case MessageType.KEY_ROTATE: {
+          const { publicKey, compression } = message.payload as KeyRotatePayload;
+          if (typeof publicKey === 'string') {
+            const binding = !keyBoundRef.current;
+            acceptRotatedKey(publicKey, !binding);
+            if (binding) {
+              setCliCompression(compression);
+              keyBoundRef.current = true;
+              flushHeldMessagesRef.current();
+            }
+          }
+          break;
+        }
+
         default:
           console.log('Unknown message type:', message.type);
       }
     } catch (error) {
+      if (error instanceof ReplayDetectedError) {
+        // Resent by the relay: authentic but already handled, so not a key problem
+        console.warn(`${error.code}: dropped CLI message seq ${error.seq}`);
+        return;
+      }
+
       decryptionFailuresRef.current++;
       console.error('Failed to decrypt message:', error, {
         consecutiveFailures: decryptionFailuresRef.current,
@@ -81,24 +203,52 @@ export function useSession(options: UseSessionOptions = {}) {
         clearCrypto();
       }
     }
-  }, [isReady, decrypt, options, setError, clearCrypto]);
-
-  const handleSessionJoined = useCallback((data: { sessionId: string; cliPublicKey: string; cliDisconnected?: boolean }) => {
-    console.log('Session joined:', data.sessionId, { cliDisconnected: data.cliDisconnected });
+  }, [isReady, decrypt, acceptRotatedKey, setCliCompression, options, setWindows, setAgentState, setError, clearCrypto]);
+
+  const handleSessionJoined = useCallback((data: {
+    sessionId: string;
+    cliPublicKey: string;
+    cliDisconnected?: boolean;
+    role?: WebConnectionRole;
+    cliCapabilities?: Capabilities;
+  }) => {
+    console.log('Session joined:', data.sessionId, { cliDisconnected: data.cliDisconnected, role: data.role });
+
+    // Relays from before the capabilities exchange don't check versions themselves
+    const problem = checkCompatibility(data.cliCapabilities, getCapabilities());
+    if (problem) {
+      setError(
+        problem.upgrade === 'remote'
+          ? 'The CLI running this session is too old for this web app. Upgrade always-coder on that machine and start the session again.'
+          : 'This web app is too old for the CLI running this session. Reload the page to update it.'
+      );
+      return;
+    }
+    cliCapabilitiesRef.current = data.cliCapabilities;
     setCliPublicKey(data.cliPublicKey);
+    setTerminalVerified(isVerifiedKey(data.cliPublicKey));
+    setReadOnly(data.role === 'viewer');
 
     // Always (re-)establish the shared key because:
-    // 1. We always generate a new keypair on page load (for security)
-    // 2. Even if CLI's public key is the same, our private key is different
-    // 3. CLI will also re-establish when it sees our new public key
-    if (isCliKeyChanged(data.cliPublicKey)) {
-      console.log('CLI public key changed, re-establishing shared key');
-      reestablishSharedKey(data.cliPublicKey);
+    // 1. The keypair may be new (fresh browser or cleared storage)
+    // 2. A restored shared key is never trusted
+    // 3. CLI will also re-establish when it sees our public key
+    // The exception is rejoining the same connection after the CLI reconnected:
+    // the CLI keeps that connection's (possibly rotated) key, so we keep ours.
+    const keepKey = keepKeyOnRejoinRef.current && isReady() && !isCliKeyChanged(data.cliPublicKey);
+    keepKeyOnRejoinRef.current = false;
+    if (keepKey) {
+      console.log('Keeping current shared key after CLI reconnect');
     } else {
-      // Either first time OR reconnecting with new keypair
-      // Either way, we need to establish/re-establish because our private key is new
-      console.log('Establishing shared key with current keypair');
+      if (isCliKeyChanged(data.cliPublicKey)) {
+        console.log('CLI public key changed, re-establishing shared key');
+      } else {
+        // Either first time OR reconnecting - derive the shared key afresh either way
+        console.log('Establishing shared key with current keypair');
+      }
       reestablishSharedKey(data.cliPublicKey);
+      // Hold outgoing messages until the CLI binds the new key
+      keyBoundRef.current = false;
     }
 
     // Reset decryption failure counter on successful connection
@@ -118,12 +268,19 @@ export function useSession(options: UseSessionOptions = {}) {
       setConnectionStatus('connected');
       clearError();
     }
+
+    // A CLI only knows the subscriptions sent to it since it started
+    restoreNotificationsRef.current(data.role);
   }, [
     setCliPublicKey,
+    setTerminalVerified,
+    setReadOnly,
+    isReady,
     isCliKeyChanged,
     reestablishSharedKey,
     setEncryptionReady,
     setConnectionStatus,
+    setError,
     clearError,
   ]);
 
@@ -136,10 +293,30 @@ export function useSession(options: UseSessionOptions = {}) {
     setConnectionStatus('connecting');
   }, [setConnectionStatus]);
 
+  // Signs the key this page joins with, so a CLI that trusted this device recognizes it
+  const getDeviceIdentity = useCallback(async (): Promise<DeviceIdentity | undefined> => {
+    identityKeyPairRef.current ??= loadIdentityKeyPair();
+    const keyPair = await identityKeyPairRef.current;
+    if (!keyPair) return undefined;
+
+    try {
+      const device = await createDeviceIdentity(keyPair, getPublicKey());
+      deviceKeyRef.current = device.publicKey;
+      return device;
+    } catch (error) {
+      console.warn('Failed to sign with the device identity key:', error);
+      return undefined;
+    }
+  }, [getPublicKey]);
+
   // Store refs for use in handleCliReconnected
   const sessionIdRef = useRef(sessionId);
   sessionIdRef.current = sessionId;
-  const joinSessionRef = useRef<((sessionId: string, publicKey: string) => void) | null>(null);
+  const joinSessionRef = useRef<
+    ((sessionId: string, publicKey: string, viewerToken?: string, device?: DeviceIdentity) => void) | null
+  >(null);
+  // Share link secret to rejoin with after the CLI reconnects
+  const viewerTokenRef = useRef<string | undefined>(undefined);
 
   const handleCliReconnected = useCallback((data: { cliPublicKey: string }) => {
     console.log('CLI reconnected, re-establishing encryption');
@@ -148,9 +325,15 @@ export function useSession(options: UseSessionOptions = {}) {
     cliDisconnectedRef.current = false;
 
     setCliPublicKey(data.cliPublicKey);
+    setTerminalVerified(isVerifiedKey(data.cliPublicKey));
 
-    // Re-establish the shared key with CLI's new/current public key
-    reestablishSharedKey(data.cliPublicKey);
+    // Same CLI process, same key pair: keep the (possibly rotated) shared key it still holds
+    if (isReady() && !isCliKeyChanged(data.cliPublicKey)) {
+      keepKeyOnRejoinRef.current = true;
+    } else {
+      reestablishSharedKey(data.cliPublicKey);
+      keyBoundRef.current = false;
+    }
 
     // Reset decryption failure counter
     decryptionFailuresRef.current = 0;
@@ -162,18 +345,32 @@ export function useSession(options: UseSessionOptions = {}) {
 
     // Re-send our public key to CLI so it can establish encryption with us
     // The server will relay this to CLI via web:connected notification
-    if (sessionIdRef.current && joinSessionRef.current) {
-      joinSessionRef.current(sessionIdRef.current, getPublicKey());
+    const targetSessionId = sessionIdRef.current;
+    const join = joinSessionRef.current;
+    if (targetSessionId && join) {
+      getDeviceIdentity().then((device) => join(targetSessionId, getPublicKey(), viewerTokenRef.current, device));
     }
   }, [
     setCliPublicKey,
+    setTerminalVerified,
+    isReady,
+    isCliKeyChanged,
     reestablishSharedKey,
     setEncryptionReady,
     setConnectionStatus,
     clearError,
     getPublicKey,
+    getDeviceIdentity,
   ]);
 
+  const handleJoinApproval = useCallback((status: JoinApprovalStatus) => {
+    console.log('Join approval:', status);
+    setAwaitingApproval(status === 'pending');
+    if (status === 'rejected') {
+      setError('This device was declined on the terminal running the session.');
+    }
+  }, [setAwaitingApproval, setError]);
+
   const handleStatusChange = useCallback((connected: boolean) => {
     // Use getState() to avoid dependency on connectionStatus which causes infinite loops
     const currentStatus = useSessionStore.getState().connectionStatus;
@@ -193,6 +390,10 @@ export function useSession(options: UseSessionOptions = {}) {
       clearCrypto();
       reset();
       setError('Session not found or expired. Please scan the QR code again.');
+    } else if (code === 'UNAUTHORIZED' && useSessionStore.getState().notificationStatus === 'pending') {
+      // Only the notification request was refused (not logged in); the session is fine
+      setNotificationStatus('off');
+      options.onNotificationError?.(message);
     } else if (code === 'CONNECTION_FAILED') {
       // If CLI is temporarily disconnected, don't show error - just wait for reconnection
       // This handles the race condition where web sends a message while CLI is reconnecting
@@ -205,68 +406,217 @@ export function useSession(options: UseSessionOptions = {}) {
     } else {
       setError(message || 'An error occurred');
     }
-  }, [clearCrypto, reset, setError]);
+  }, [clearCrypto, reset, setError, setNotificationStatus, options]);
+
+  // The relay answered PUSH_KEY_REQUEST: subscribe with the user's key, then register the endpoint
+  const handlePushKey = useCallback(async (publicKey: string) => {
+    if (useSessionStore.getState().notificationStatus !== 'pending') return;
+
+    try {
+      const subscription = await subscribePush(publicKey);
+      const payload = await toNotifySubscription(subscription);
+      pendingSubscriptionRef.current = payload;
+      sendPushSubscribeRef.current(payload.subscriptionId, subscription.endpoint);
+    } catch (error) {
+      console.error('Failed to subscribe to push notifications:', error);
+      setNotificationStatus('off');
+      options.onNotificationError?.('This browser could not subscribe to notifications');
+    }
+  }, [setNotificationStatus, options]);
+
+  const handlePushSubscribed = useCallback(({ subscriptionId, success, message }: PushSubscribeResponsePayload) => {
+    const subscription = pendingSubscriptionRef.current;
+    if (subscription?.subscriptionId !== subscriptionId) return;
+    pendingSubscriptionRef.current = null;
+
+    if (!success) {
+      setNotificationStatus('off');
+      options.onNotificationError?.(message || 'The relay refused the notification subscription');
+      return;
+    }
+    notifyCliRef.current(subscription);
+    setNotificationStatus('on');
+  }, [setNotificationStatus, options]);
 
-  const { connect, disconnect, joinSession, sendEncrypted } = useWebSocket({
+  const {
+    connect,
+    disconnect,
+    joinSession,
+    requestPushKey,
+    sendPushSubscribe,
+    sendPushUnsubscribe,
+    sendEncrypted,
+  } = useWebSocket({
     onSessionJoined: handleSessionJoined,
     onEncrypted: handleEncrypted,
     onCliDisconnected: handleCliDisconnected,
     onCliReconnected: handleCliReconnected,
+    onJoinApproval: handleJoinApproval,
+    onPushKey: handlePushKey,
+    onPushSubscribed: handlePushSubscribed,
     onStatusChange: handleStatusChange,
     onServerError: handleServerError,
   });
 
   // Set up ref for use in handleCliReconnected
   joinSessionRef.current = joinSession;
+  const sendPushSubscribeRef = useRef(sendPushSubscribe);
+  sendPushSubscribeRef.current = sendPushSubscribe;
 
-  const connectToSession = useCallback(async (targetSessionId: string, _isReconnect = false) => {
+  const connectToSession = useCallback(async (targetSessionId: string, _isReconnect = false, viewerToken?: string) => {
+    viewerTokenRef.current = viewerToken;
     setSessionId(targetSessionId);
     setConnectionStatus('connecting');
 
     try {
       await connect();
 
-      // Always send SESSION_JOIN to server with our fresh public key.
-      // Since we regenerate our keypair on each page load for security,
-      // the shared key will be established in handleSessionJoined.
-      joinSession(targetSessionId, getPublicKey());
+      // Always send SESSION_JOIN to server with our device public key.
+      // The shared key is established in handleSessionJoined.
+      joinSession(targetSessionId, getPublicKey(), viewerToken, await getDeviceIdentity());
     } catch (error) {
       console.error('Failed to connect:', error);
       setError('Failed to connect to server');
       setConnectionStatus('error');
     }
-  }, [connect, joinSession, getPublicKey, setSessionId, setConnectionStatus, setError]);
+  }, [connect, joinSession, getPublicKey, getDeviceIdentity, setSessionId, setConnectionStatus, setError]);
 
-  const sendInput = useCallback((data: string) => {
-    if (!isReady() || !sessionId) return;
+  const sendMessage = useCallback(<T>(type: MessageType, payload: T, windowId?: string) => {
+    // Viewers never send; the relay and CLI would refuse it anyway
+    if (!isReady() || !sessionId || useSessionStore.getState().readOnly) return;
+    // An older CLI is spared message types it doesn't know
+    if (!supportsMessageType(cliCapabilitiesRef.current, type)) return;
 
-    const message: Message<string> = {
-      type: MessageType.TERMINAL_INPUT,
-      payload: data,
-      seq: ++seqRef.current,
-    };
+    if (!keyBoundRef.current) {
+      heldMessagesRef.current.push({ type, payload, windowId });
+      return;
+    }
 
-    const envelope = encrypt(message, sessionId);
-    sendEncrypted(envelope);
+    const message = createMessage(type, payload, ++seqRef.current, windowId, 'web');
+    for (const fragment of fragmentEnvelope(encrypt(message, sessionId))) {
+      sendEncrypted(fragment);
+    }
   }, [isReady, sessionId, encrypt, sendEncrypted]);
 
-  const sendResize = useCallback((cols: number, rows: number) => {
-    if (!isReady() || !sessionId) return;
+  flushHeldMessagesRef.current = () => {
+    for (const { type, payload, windowId } of heldMessagesRef.current.splice(0)) {
+      sendMessage(type, payload, windowId);
+    }
+  };
+
+  // The subscription keys only ever travel encrypted to the CLI, which encrypts each notification with them
+  notifyCliRef.current = (subscription) => {
+    sendMessage(MessageType.NOTIFY_SUBSCRIPTION, subscription);
+  };
 
-    const message: Message<{ cols: number; rows: number }> = {
-      type: MessageType.TERMINAL_RESIZE,
-      payload: { cols, rows },
-      seq: ++seqRef.current,
-    };
+  restoreNotificationsRef.current = (role) => {
+    if (!isPushSupported()) {
+      setNotificationStatus('unsupported');
+      return;
+    }
+    if (Notification.permission === 'denied') {
+      setNotificationStatus('denied');
+      return;
+    }
+    if (role === 'viewer' || Notification.permission !== 'granted') return;
+
+    getPushSubscription()
+      .then((subscription) => (subscription ? toNotifySubscription(subscription) : null))
+      .then((subscription) => {
+        if (!subscription) return;
+        notifyCliRef.current(subscription);
+        setNotificationStatus('on');
+      })
+      .catch((error) => console.warn('Failed to restore notifications:', error));
+  };
 
-    const envelope = encrypt(message, sessionId);
-    sendEncrypted(envelope);
-  }, [isReady, sessionId, encrypt, sendEncrypted]);
+  // Ask for permission from the click itself; browsers ignore requests made later
+  const enableNotifications = useCallback(async () => {
+    if (!isPushSupported()) {
+      setNotificationStatus('unsupported');
+      return;
+    }
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      setNotificationStatus(permission === 'denied' ? 'denied' : 'off');
+      return;
+    }
+
+    setNotificationStatus('pending');
+    requestPushKey();
+  }, [requestPushKey, setNotificationStatus]);
+
+  // The CLI learns the subscription is gone when the relay reports it expired
+  const disableNotifications = useCallback(async () => {
+    try {
+      const subscription = await getPushSubscription();
+      if (subscription) {
+        sendPushUnsubscribe((await toNotifySubscription(subscription)).subscriptionId);
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      console.warn('Failed to unsubscribe from notifications:', error);
+    }
+    setNotificationStatus('off');
+  }, [sendPushUnsubscribe, setNotificationStatus]);
+
+  const sendInput = useCallback((data: string, windowId: string = DEFAULT_WINDOW_ID) => {
+    sendMessage(MessageType.TERMINAL_INPUT, data, windowId);
+  }, [sendMessage]);
+
+  const sendResize = useCallback((cols: number, rows: number, windowId: string = DEFAULT_WINDOW_ID) => {
+    sendMessage(MessageType.TERMINAL_RESIZE, { cols, rows }, windowId);
+  }, [sendMessage]);
+
+  // CLI answers with the same message type, saying whether it delivered the signal
+  const sendSignal = useCallback((signal: TerminalSignal, windowId: string = DEFAULT_WINDOW_ID) => {
+    sendMessage(MessageType.TERMINAL_SIGNAL, { signal }, windowId);
+  }, [sendMessage]);
+
+  // CLI answers with a HISTORY_CHUNK ending at `before`
+  const requestHistory = useCallback((before: number, windowId: string = DEFAULT_WINDOW_ID) => {
+    sendMessage(MessageType.HISTORY_REQUEST, { before }, windowId);
+  }, [sendMessage]);
+
+  // CLI answers window requests with an updated WINDOW_LIST
+  const createWindow = useCallback((request: WindowCreatePayload = {}) => {
+    sendMessage(MessageType.WINDOW_CREATE, request);
+  }, [sendMessage]);
+
+  const closeWindow = useCallback((windowId: string) => {
+    sendMessage(MessageType.WINDOW_CLOSE, { windowId });
+  }, [sendMessage]);
+
+  const switchWindow = useCallback((windowId: string) => {
+    // Switch locally right away; the CLI follows so its local view matches
+    setActiveWindow(windowId);
+    sendMessage(MessageType.WINDOW_SWITCH, { windowId });
+  }, [sendMessage, setActiveWindow]);
+
+  // Shown while waiting for approval so it can be matched against the CLI prompt
+  // The identity key's when the browser has one, as it is what a CLI trusts
+  const getDeviceFingerprint = useCallback(
+    () => getKeyFingerprint(deviceKeyRef.current ?? getPublicKey()),
+    [getPublicKey]
+  );
+
+  // Symbols the CLI prints for this connection; they only match if neither key was swapped
+  const getShortAuth = useCallback(
+    () => (cliPublicKey ? getShortAuthString(cliPublicKey, getPublicKey()) : []),
+    [cliPublicKey, getPublicKey]
+  );
+
+  const markVerified = useCallback(() => {
+    if (!cliPublicKey) return;
+    markKeyVerified(cliPublicKey);
+    setTerminalVerified(true);
+  }, [cliPublicKey, setTerminalVerified]);
 
   const disconnectSession = useCallback((clearState = false) => {
     disconnect();
     setConnectionStatus('disconnected');
     cliDisconnectedRef.current = false;
+    fragmentsRef.current.clear();
 
     // Optionally clear all stored state (e.g., when user explicitly disconnects)
     if (clearState) {
@@ -282,5 +632,15 @@ export function useSession(options: UseSessionOptions = {}) {
     disconnectSession,
     sendInput,
     sendResize,
+    sendSignal,
+    requestHistory,
+    createWindow,
+    closeWindow,
+    switchWindow,
+    getDeviceFingerprint,
+    getShortAuth,
+    markVerified,
+    enableNotifications,
+    disableNotifications,
   };
 }
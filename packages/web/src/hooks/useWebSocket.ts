@@ -2,15 +2,29 @@
 
 import { useRef, useCallback, useEffect } from 'react';
 import { WebSocketManager } from '@/lib/websocket';
-import type { EncryptedEnvelope } from '@always-coder/shared';
+import type {
+  DeviceIdentity,
+  EncryptedEnvelope,
+  JoinApprovalStatus,
+  PushSubscribeResponsePayload,
+  WebConnectionRole,
+} from '@always-coder/shared';
 
 const WS_ENDPOINT = process.env.NEXT_PUBLIC_WS_ENDPOINT || 'wss://your-api.execute-api.us-east-1.amazonaws.com/prod';
 
 interface UseWebSocketOptions {
-  onSessionJoined?: (data: { sessionId: string; cliPublicKey: string; cliDisconnected?: boolean }) => void;
+  onSessionJoined?: (data: {
+    sessionId: string;
+    cliPublicKey: string;
+    cliDisconnected?: boolean;
+    role?: WebConnectionRole;
+  }) => void;
   onEncrypted?: (envelope: EncryptedEnvelope) => void;
   onCliDisconnected?: () => void;
   onCliReconnected?: (data: { cliPublicKey: string }) => void;
+  onJoinApproval?: (status: JoinApprovalStatus) => void;
+  onPushKey?: (publicKey: string) => void;
+  onPushSubscribed?: (response: PushSubscribeResponsePayload) => void;
   onStatusChange?: (connected: boolean) => void;
   onServerError?: (code: string, message: string) => void;
 }
@@ -40,6 +54,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       onEncrypted: (envelope) => optionsRef.current.onEncrypted?.(envelope),
       onCliDisconnected: () => optionsRef.current.onCliDisconnected?.(),
       onCliReconnected: (data) => optionsRef.current.onCliReconnected?.(data),
+      onJoinApproval: (status) => optionsRef.current.onJoinApproval?.(status),
+      onPushKey: (publicKey) => optionsRef.current.onPushKey?.(publicKey),
+      onPushSubscribed: (response) => optionsRef.current.onPushSubscribed?.(response),
       onServerError: (code, message) => optionsRef.current.onServerError?.(code, message),
     });
 
@@ -53,8 +70,20 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     isConnectedRef.current = false;
   }, []);
 
-  const joinSession = useCallback((sessionId: string, publicKey: string) => {
-    wsRef.current?.sendSessionJoin(sessionId, publicKey);
+  const joinSession = useCallback((sessionId: string, publicKey: string, viewerToken?: string, device?: DeviceIdentity) => {
+    wsRef.current?.sendSessionJoin(sessionId, publicKey, viewerToken, device);
+  }, []);
+
+  const requestPushKey = useCallback(() => {
+    wsRef.current?.sendPushKeyRequest();
+  }, []);
+
+  const sendPushSubscribe = useCallback((subscriptionId: string, endpoint: string) => {
+    wsRef.current?.sendPushSubscribe(subscriptionId, endpoint);
+  }, []);
+
+  const sendPushUnsubscribe = useCallback((subscriptionId: string) => {
+    wsRef.current?.sendPushUnsubscribe(subscriptionId);
   }, []);
 
   const sendEncrypted = useCallback((envelope: EncryptedEnvelope) => {
@@ -76,6 +105,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     connect,
     disconnect,
     joinSession,
+    requestPushKey,
+    sendPushSubscribe,
+    sendPushUnsubscribe,
     sendEncrypted,
     isConnected,
   };
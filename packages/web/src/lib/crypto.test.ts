@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import nacl from 'tweetnacl';
 import { encodeBase64 } from 'tweetnacl-util';
-import { MessageType, type Message } from '@always-coder/shared';
+import { E2ECrypto, MessageType, ReplayDetectedError, createMessage, type Message } from '@always-coder/shared';
 import { WebCrypto } from './crypto.js';
 
 // Mock sessionStorage
@@ -62,6 +62,29 @@ describe('WebCrypto', () => {
       expect(crypto.getStoredCliPublicKey()).toBe(cliPublicKey);
     });
 
+    it('should never persist the keypair and drop one stored by earlier versions', () => {
+      const stored: Record<string, string> = { 'always-coder:deviceKey': encodeBase64(new Uint8Array(32)) };
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => stored[key] ?? null,
+        setItem: (key: string, value: string) => {
+          stored[key] = value;
+        },
+        removeItem: (key: string) => {
+          delete stored[key];
+        },
+      });
+
+      try {
+        const first = new WebCrypto(true);
+        const second = new WebCrypto(true);
+
+        expect(second.getPublicKey()).not.toBe(first.getPublicKey());
+        expect(stored).toEqual({});
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
     it('should not restore shared key (security requirement)', () => {
       // Even if shared key is in storage, it should not be used
       mockSessionStorage['always-coder:sharedKey'] = encodeBase64(new Uint8Array(32));
@@ -293,6 +316,119 @@ describe('WebCrypto', () => {
     });
   });
 
+  describe('acceptRotatedKey', () => {
+    it('should follow a key rotation started by the CLI', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      const beforeRotation = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'old', 1), 'session-123');
+
+      const ephemeral = new E2ECrypto();
+      const ephemeralPublicKey = ephemeral.getPublicKey();
+      cliCrypto.rotateSharedKey(ephemeral.getSecretKey());
+      webCrypto.acceptRotatedKey(ephemeralPublicKey);
+
+      const afterRotation = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'new', 2), 'session-123');
+      expect(webCrypto.decrypt(afterRotation).payload).toBe('new');
+      // Output sent before the switch can still arrive late
+      expect(webCrypto.decrypt(beforeRotation).payload).toBe('old');
+      // And the CLI reads input encrypted with the new key
+      const input = webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'ls', 1), 'session-123');
+      expect(cliCrypto.decrypt(input).payload).toBe('ls');
+    });
+
+    it('should drop the unbound key when told to', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      const unbound = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'stale', 1), 'session-123');
+
+      const ephemeral = new E2ECrypto();
+      const ephemeralPublicKey = ephemeral.getPublicKey();
+      cliCrypto.rotateSharedKey(ephemeral.getSecretKey(), false);
+      webCrypto.acceptRotatedKey(ephemeralPublicKey, false);
+
+      expect(() => webCrypto.decrypt(unbound)).toThrow('Decryption failed');
+    });
+
+    it('should throw before a shared key is established', () => {
+      const crypto = new WebCrypto(false);
+
+      expect(() => crypto.acceptRotatedKey(new E2ECrypto().getPublicKey())).toThrow('Shared key not established');
+    });
+  });
+
+  describe('compression', () => {
+    it('should read compressed output and compress input once the CLI advertised it', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      const paste = 'const value = compute(input);\n'.repeat(100);
+
+      const output = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, paste, 1), 'session-123', 'deflate');
+      expect(webCrypto.decrypt(output).payload).toBe(paste);
+
+      const plain = webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, paste, 1), 'session-123');
+      webCrypto.setCliCompression(['deflate']);
+      const compressed = webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, paste, 2), 'session-123');
+
+      expect(compressed.ciphertext.length).toBeLessThan(plain.ciphertext.length / 10);
+      expect(cliCrypto.decrypt(compressed).payload).toBe(paste);
+    });
+
+    it('should stop compressing with a new shared key', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      webCrypto.setCliCompression(['deflate']);
+      const message = createMessage(MessageType.TERMINAL_INPUT, 'x'.repeat(4096), 1);
+      const compressedSize = webCrypto.encrypt(message, 'session-123').ciphertext.length;
+
+      webCrypto.reestablishSharedKey(cliCrypto.getPublicKey());
+
+      expect(webCrypto.encrypt(message, 'session-123').ciphertext.length).toBeGreaterThan(compressedSize);
+    });
+  });
+
+  describe('replay protection', () => {
+    it('should reject a captured CLI envelope sent again', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      const captured = cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'Password: ', 7), 'session-123');
+
+      expect(webCrypto.decrypt(captured).payload).toBe('Password: ');
+      expect(() => webCrypto.decrypt(captured)).toThrow(ReplayDetectedError);
+    });
+
+    it('should reject its own input reflected back by the relay', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      const input = webCrypto.encrypt(createMessage(MessageType.TERMINAL_INPUT, 'y', 1, undefined, 'web'), 'session-123');
+
+      expect(() => webCrypto.decrypt(input)).toThrow(ReplayDetectedError);
+      expect(webCrypto.decrypt(cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'y', 1, undefined, 'cli'), 'session-123')).payload).toBe('y');
+    });
+
+    it('should start a new window with a new shared key', () => {
+      const webCrypto = new WebCrypto(false);
+      const cliCrypto = new E2ECrypto();
+      webCrypto.establishSharedKey(cliCrypto.getPublicKey());
+      cliCrypto.establishSharedKey(webCrypto.getPublicKey());
+      webCrypto.decrypt(cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'a', 500), 'session-123'));
+
+      webCrypto.reestablishSharedKey(cliCrypto.getPublicKey());
+
+      expect(webCrypto.decrypt(cliCrypto.encrypt(createMessage(MessageType.TERMINAL_OUTPUT, 'b', 1), 'session-123')).payload).toBe('b');
+    });
+  });
+
   describe('bidirectional encryption', () => {
     it('should allow Web and CLI to communicate', () => {
       // Setup Web side
@@ -1,41 +1,68 @@
 import nacl from 'tweetnacl';
 import { encodeBase64, decodeBase64, encodeUTF8, decodeUTF8 } from 'tweetnacl-util';
-import type { EncryptedEnvelope, Message } from '@always-coder/shared';
+import {
+  ReplayWindow,
+  deriveRotatedKey,
+  negotiateCompression,
+  compressPayload,
+  decompressPayload,
+  type CompressionCodec,
+  type EncryptedEnvelope,
+  type Message,
+} from '@always-coder/shared';
 
 // Storage keys - SECURITY NOTE: We only store the shared key (derived, session-specific)
 // and CLI's public key (to detect key changes). We NEVER store our private key.
 const STORAGE_KEY_SHARED = 'always-coder:sharedKey';
 const STORAGE_KEY_CLI_PUBLIC = 'always-coder:cliPublicKey';
+// Where earlier versions kept the secret key; removed wherever it is still found
+const LEGACY_STORAGE_KEY_DEVICE = 'always-coder:deviceKey';
 
 interface RestoredState {
   sharedKey: Uint8Array;
   cliPublicKey: string;
 }
 
+function removeLegacyDeviceKey(): void {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(LEGACY_STORAGE_KEY_DEVICE);
+  } catch {
+    // Storage unavailable: nothing was stored either
+  }
+}
+
 /**
  * E2E Crypto for Web client
  *
  * Security model:
- * - Private key (secretKey) is NEVER persisted - regenerated on each page load
+ * - Private key (secretKey) is NEVER persisted - regenerated on each page load.
+ *   Device trust uses a separate signing key instead (see lib/identity.ts)
  * - CLI's public key is stored to detect if CLI restarted (for logging purposes)
- * - Since we always generate a fresh keypair, we MUST always derive a new shared key
- * - The shared key depends on our private key, so restoring an old shared key is invalid
+ * - We always derive a new shared key on join rather than restoring an old one
+ * - The CLI rotates the shared key with KEY_ROTATE; the key before the last
+ *   rotation is kept only to decrypt messages sent before the switch
+ * - Sequence numbers of decrypted CLI messages go through a replay window, which
+ *   also refuses our own messages reflected back (they name the web as sender)
+ * - Messages are compressed before encryption only once the CLI advertised a codec
  */
 export class WebCrypto {
   private keyPair: nacl.BoxKeyPair;
   private sharedKey: Uint8Array | null = null;
+  private previousSharedKey: Uint8Array | null = null;
+  private replay = new ReplayWindow();
   private storedCliPublicKey: string | null = null;
+  private compression?: CompressionCodec;
 
   constructor(restoreFromStorage = true) {
     // Always generate a fresh keypair - never restore private keys from storage
     this.keyPair = nacl.box.keyPair();
+    removeLegacyDeviceKey();
 
     if (restoreFromStorage) {
       const restored = this.restoreFromStorage();
       if (restored) {
         // Only restore CLI public key (for logging/debugging)
-        // Do NOT restore shared key - it was derived with our OLD private key
-        // and is mathematically invalid for our NEW private key
+        // The shared key is re-derived on join, which also covers a CLI that restarted
         this.storedCliPublicKey = restored.cliPublicKey;
         console.log('Restored CLI public key from sessionStorage (will re-derive shared key)');
       }
@@ -52,9 +79,7 @@ export class WebCrypto {
         return null;
       }
 
-      // Note: We no longer restore/use the shared key since we always generate
-      // a new keypair and must derive a new shared key. The stored shared key
-      // (if any) was derived with our old private key and is invalid.
+      // Note: We no longer restore/use the shared key; it is always re-derived on join
       return { sharedKey: new Uint8Array(0), cliPublicKey: storedCliPublicKey };
     } catch (error) {
       console.error('Failed to restore crypto state:', error);
@@ -110,10 +135,40 @@ export class WebCrypto {
     }
 
     this.sharedKey = nacl.box.before(cliPublicKey, this.keyPair.secretKey);
+    this.previousSharedKey = null;
+    this.replay = new ReplayWindow();
+    this.compression = undefined;
     this.storedCliPublicKey = cliPublicKeyBase64;
     this.saveToStorage(cliPublicKeyBase64);
   }
 
+  /**
+   * Switch to the next shared key announced by the CLI's KEY_ROTATE message
+   * @param keepPrevious - Keep decrypting with the old key until the next rotation
+   *   (off for the rotation that binds a fresh key to the connection)
+   */
+  acceptRotatedKey(cliEphemeralPublicKeyBase64: string, keepPrevious = true): void {
+    if (!this.sharedKey) {
+      throw new Error('Shared key not established');
+    }
+
+    const cliEphemeralPublicKey = decodeBase64(cliEphemeralPublicKeyBase64);
+    if (cliEphemeralPublicKey.length !== nacl.box.publicKeyLength) {
+      throw new Error('Invalid CLI ephemeral key length');
+    }
+
+    const ephemeralSecret = nacl.box.before(cliEphemeralPublicKey, this.keyPair.secretKey);
+    const nextKey = deriveRotatedKey(this.sharedKey, ephemeralSecret);
+    ephemeralSecret.fill(0);
+    // Keys older than one rotation are wiped
+    this.previousSharedKey?.fill(0);
+    this.previousSharedKey = keepPrevious ? this.sharedKey : null;
+    if (!keepPrevious) {
+      this.sharedKey.fill(0);
+    }
+    this.sharedKey = nextKey;
+  }
+
   /**
    * Force re-establishment of shared key (e.g., when CLI restarted)
    */
@@ -131,13 +186,20 @@ export class WebCrypto {
     return this.sharedKey !== null;
   }
 
+  /**
+   * Compress what we send with a codec the CLI advertised in its binding KEY_ROTATE
+   */
+  setCliCompression(offered: unknown): void {
+    this.compression = negotiateCompression(offered);
+  }
+
   encrypt<T>(message: Message<T>, sessionId: string): EncryptedEnvelope {
     if (!this.sharedKey) {
       throw new Error('Shared key not established');
     }
 
     const nonce = nacl.randomBytes(nacl.box.nonceLength);
-    const messageBytes = decodeUTF8(JSON.stringify(message));
+    const messageBytes = compressPayload(decodeUTF8(JSON.stringify(message)), this.compression);
     const ciphertext = nacl.box.after(messageBytes, nonce, this.sharedKey);
 
     return {
@@ -156,12 +218,17 @@ export class WebCrypto {
 
     const nonce = decodeBase64(envelope.nonce);
     const ciphertext = decodeBase64(envelope.ciphertext);
-    const decrypted = nacl.box.open.after(ciphertext, nonce, this.sharedKey);
+    const decrypted =
+      nacl.box.open.after(ciphertext, nonce, this.sharedKey) ||
+      (this.previousSharedKey && nacl.box.open.after(ciphertext, nonce, this.previousSharedKey));
 
     if (!decrypted) {
       throw new Error('Decryption failed');
     }
 
-    return JSON.parse(encodeUTF8(decrypted)) as Message;
+    const message = JSON.parse(encodeUTF8(decompressPayload(decrypted))) as Message;
+    // Throws ReplayDetectedError for anything the relay resent, or reflected from what we sent
+    this.replay.accept(message, 'cli');
+    return message;
   }
 }
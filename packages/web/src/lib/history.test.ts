@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HistoryTracker } from './history.js';
+
+describe('HistoryTracker', () => {
+  let history: HistoryTracker;
+
+  beforeEach(() => {
+    history = new HistoryTracker();
+    history.sync({ main: { start: 100, from: 500, end: 900 }, w1: { start: 0, from: 0, end: 40 } });
+  });
+
+  it('should request output older than what was sent on join', () => {
+    expect(history.hasMore('main')).toBe(true);
+    expect(history.hasMore('w1')).toBe(false);
+    expect(history.nextRequest('w1')).toBeNull();
+    expect(history.nextRequest('missing')).toBeNull();
+
+    expect(history.nextRequest('main')).toBe(500);
+    // One request at a time
+    expect(history.nextRequest('main')).toBeNull();
+  });
+
+  it('should page back until the oldest output', () => {
+    history.nextRequest('main');
+    expect(history.receive('main', { start: 300, end: 500, data: 'b', oldest: 100 })).toBe('b');
+    expect(history.nextRequest('main')).toBe(300);
+
+    expect(history.receive('main', { start: 100, end: 300, data: 'a', oldest: 100 })).toBe('a');
+    expect(history.hasMore('main')).toBe(false);
+    expect(history.nextRequest('main')).toBeNull();
+  });
+
+  it('should ignore chunks it did not ask for', () => {
+    expect(history.receive('main', { start: 300, end: 500, data: 'b', oldest: 100 })).toBeNull();
+
+    history.nextRequest('main');
+    expect(history.receive('main', { start: 0, end: 200, data: 'x', oldest: 0 })).toBeNull();
+    expect(history.receive('w1', { start: 0, end: 0, data: '', oldest: 0 })).toBeNull();
+  });
+
+  it('should stop when the CLI trimmed past the request or made no progress', () => {
+    history.nextRequest('main');
+    expect(history.receive('main', { start: 500, end: 500, data: '', oldest: 100 })).toBe('');
+    expect(history.hasMore('main')).toBe(false);
+  });
+
+  it('should start over on the next sync', () => {
+    history.nextRequest('main');
+    history.sync({ main: { start: 100, from: 700, end: 1000 } });
+
+    expect(history.nextRequest('main')).toBe(700);
+  });
+});
@@ -0,0 +1,66 @@
+import type { HistoryChunkPayload, ScrollbackRange } from '@always-coder/shared';
+
+interface WindowHistory {
+  /** Oldest output loaded into the terminal */
+  from: number;
+  /** Oldest output the CLI holds */
+  oldest: number;
+  loading: boolean;
+}
+
+/**
+ * Tracks how far back each window's output has been loaded
+ *
+ * On join the CLI sends recent output and, per window, the offset it begins
+ * at. Older output is fetched one HISTORY_REQUEST at a time as the user
+ * scrolls to the top, until the oldest output the CLI holds is reached.
+ */
+export class HistoryTracker {
+  private windows: Map<string, WindowHistory> = new Map();
+
+  /**
+   * Start over from the ranges in a STATE_SYNC (the terminals were just refilled)
+   */
+  sync(scrollback: Record<string, ScrollbackRange> = {}): void {
+    this.windows.clear();
+    for (const [windowId, range] of Object.entries(scrollback)) {
+      if (Number.isInteger(range?.from) && Number.isInteger(range?.start)) {
+        this.windows.set(windowId, { from: range.from, oldest: range.start, loading: false });
+      }
+    }
+  }
+
+  /**
+   * Check if older output can still be fetched for a window
+   */
+  hasMore(windowId: string): boolean {
+    const history = this.windows.get(windowId);
+    return !!history && history.from > history.oldest;
+  }
+
+  /**
+   * Offset to request older output before, marking the window as loading
+   * @returns null while a request is out or when nothing older is left
+   */
+  nextRequest(windowId: string): number | null {
+    const history = this.windows.get(windowId);
+    if (!history || history.loading || history.from <= history.oldest) return null;
+    history.loading = true;
+    return history.from;
+  }
+
+  /**
+   * Take a chunk the CLI sent
+   * @returns the output to put in front of the terminal's, or null for a chunk not asked for
+   */
+  receive(windowId: string, chunk: HistoryChunkPayload): string | null {
+    const history = this.windows.get(windowId);
+    if (!history?.loading || chunk.end !== history.from || typeof chunk.data !== 'string') return null;
+
+    history.loading = false;
+    history.oldest = chunk.oldest;
+    // A chunk that didn't get any further means the rest can't be read
+    history.from = chunk.start < chunk.end ? chunk.start : history.oldest;
+    return chunk.data;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBase64 } from 'tweetnacl-util';
+import { getDeviceKeyProofData } from '@always-coder/shared';
+import { createDeviceIdentity, loadIdentityKeyPair } from './identity.js';
+
+describe('device identity', () => {
+  async function generateKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+  }
+
+  it('should sign the connection key without giving out the private key', async () => {
+    const keyPair = await generateKeyPair();
+
+    const device = await createDeviceIdentity(keyPair, 'connection-key');
+
+    expect(decodeBase64(device.publicKey)).toHaveLength(65);
+    expect(
+      await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        keyPair.publicKey,
+        new Uint8Array(decodeBase64(device.signature)),
+        new Uint8Array(getDeviceKeyProofData('connection-key'))
+      )
+    ).toBe(true);
+    await expect(crypto.subtle.exportKey('jwk', keyPair.privateKey)).rejects.toThrow();
+  });
+
+  it('should keep the identity key when each page load connects with a new key', async () => {
+    const keyPair = await generateKeyPair();
+
+    const first = await createDeviceIdentity(keyPair, 'connection-key-1');
+    const second = await createDeviceIdentity(keyPair, 'connection-key-2');
+
+    expect(second.publicKey).toBe(first.publicKey);
+    expect(second.signature).not.toBe(first.signature);
+  });
+
+  it('should do without an identity where IndexedDB is unavailable', async () => {
+    expect(await loadIdentityKeyPair()).toBeNull();
+  });
+});
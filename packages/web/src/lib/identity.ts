@@ -0,0 +1,64 @@
+import { encodeBase64 } from 'tweetnacl-util';
+import { getDeviceKeyProofData, type DeviceIdentity } from '@always-coder/shared';
+
+// This browser's identity key pair. The private key is created non-extractable,
+// so even script running on the page can only sign with it, never read it.
+const DB_NAME = 'always-coder';
+const DB_STORE = 'keys';
+const DB_KEY_IDENTITY = 'deviceIdentity';
+
+const SIGN_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(DB_STORE);
+  return request(open);
+}
+
+/**
+ * Load this browser's identity key pair, creating it on first use
+ * @returns null where IndexedDB or WebCrypto is unavailable
+ */
+export async function loadIdentityKeyPair(): Promise<CryptoKeyPair | null> {
+  if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  try {
+    const db = await openDatabase();
+    try {
+      const stored = await request<CryptoKeyPair | undefined>(
+        db.transaction(DB_STORE).objectStore(DB_STORE).get(DB_KEY_IDENTITY)
+      );
+      if (stored) return stored;
+
+      const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+      await request(db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).put(keyPair, DB_KEY_IDENTITY));
+      return keyPair;
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    // Not critical - the CLI just can't recognize this browser next time
+    console.warn('Failed to load device identity key:', error);
+    return null;
+  }
+}
+
+/**
+ * Vouch for the key this page connects with, so the CLI can tell which device it is
+ * @param connectionKey - Base64 X25519 public key sent in SESSION_JOIN
+ */
+export async function createDeviceIdentity(keyPair: CryptoKeyPair, connectionKey: string): Promise<DeviceIdentity> {
+  const data = getDeviceKeyProofData(connectionKey);
+  const [publicKey, signature] = await Promise.all([
+    crypto.subtle.exportKey('raw', keyPair.publicKey),
+    crypto.subtle.sign(SIGN_ALGORITHM, keyPair.privateKey, new Uint8Array(data)),
+  ]);
+  return { publicKey: encodeBase64(new Uint8Array(publicKey)), signature: encodeBase64(new Uint8Array(signature)) };
+}
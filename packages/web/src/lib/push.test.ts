@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { base64UrlToBytes, getSubscriptionId, toNotifySubscription } from './push.js';
+
+const KEYS = {
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+};
+
+function subscription(endpoint: string, keys?: Record<string, string>): PushSubscription {
+  return { endpoint, toJSON: () => ({ endpoint, keys }) } as unknown as PushSubscription;
+}
+
+describe('push subscriptions', () => {
+  it('should decode unpadded base64url keys', () => {
+    const bytes = base64UrlToBytes(KEYS.p256dh);
+
+    expect(bytes).toHaveLength(65);
+    expect(bytes[0]).toBe(0x04);
+    expect(Array.from(base64UrlToBytes('-_8'))).toEqual([0xfb, 0xff]);
+  });
+
+  it('should name a subscription after its endpoint without revealing it', async () => {
+    const id = await getSubscriptionId('https://push.example.com/send/token-1');
+
+    expect(id).toMatch(/^[\w-]{32}$/);
+    expect(id).not.toContain('token');
+    expect(await getSubscriptionId('https://push.example.com/send/token-1')).toBe(id);
+    expect(await getSubscriptionId('https://push.example.com/send/token-2')).not.toBe(id);
+  });
+
+  it('should give the CLI only the id and the encryption keys', async () => {
+    const endpoint = 'https://push.example.com/send/token-1';
+
+    expect(await toNotifySubscription(subscription(endpoint, KEYS))).toEqual({
+      subscriptionId: await getSubscriptionId(endpoint),
+      ...KEYS,
+    });
+    await expect(toNotifySubscription(subscription(endpoint))).rejects.toThrow('no encryption keys');
+  });
+});
@@ -0,0 +1,79 @@
+import type { NotifySubscriptionPayload } from '@always-coder/shared';
+
+// Handles push events; served from the site root so it covers every page
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Whether this browser can receive push notifications
+ * iOS only offers them to web apps added to the home screen.
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Decode a base64url string, as the relay sends VAPID keys
+ */
+export function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function bytesToBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const binary = String.fromCharCode(...new Uint8Array(bytes));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Stable id for a subscription, derived from its endpoint
+ * Push service endpoints embed a long token; the id names the subscription
+ * without repeating it to the CLI.
+ */
+export async function getSubscriptionId(endpoint: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(endpoint));
+  return bytesToBase64Url(digest).slice(0, 32);
+}
+
+/**
+ * What the CLI needs to encrypt notifications for a subscription
+ * @throws Error if the subscription has no encryption keys
+ */
+export async function toNotifySubscription(subscription: PushSubscription): Promise<NotifySubscriptionPayload> {
+  const { p256dh, auth } = subscription.toJSON().keys ?? {};
+  if (!p256dh || !auth) throw new Error('Push subscription has no encryption keys');
+
+  return { subscriptionId: await getSubscriptionId(subscription.endpoint), p256dh, auth };
+}
+
+/**
+ * This browser's current push subscription, if it has one
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Subscribe this browser to push messages signed with the user's VAPID key
+ * An existing subscription for another key (another user) is replaced.
+ */
+export async function subscribePush(vapidPublicKey: string): Promise<PushSubscription> {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const applicationServerKey = base64UrlToBytes(vapidPublicKey);
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) {
+    const key = existing.options.applicationServerKey;
+    if (key && bytesToBase64Url(key) === bytesToBase64Url(applicationServerKey)) return existing;
+    await existing.unsubscribe();
+  }
+
+  return registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+}
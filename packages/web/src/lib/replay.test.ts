@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { AsciicastEvent } from '@always-coder/shared';
+import { buildReplayFrames, findFrameIndex, formatReplayTime } from './replay.js';
+
+const events: AsciicastEvent[] = [
+  [0.5, 'o', 'a'],
+  [1, 'i', 'typed'],
+  [30, 'r', '100x30'],
+  [30.5, 'm', 'window: tests'],
+  [31, 'o', 'b'],
+];
+
+describe('replay', () => {
+  describe('buildReplayFrames', () => {
+    it('should keep output, resizes and markers on the recorded clock', () => {
+      expect(buildReplayFrames(events)).toEqual([
+        { time: 0.5, type: 'output', data: 'a' },
+        { time: 30, type: 'resize', cols: 100, rows: 30 },
+        { time: 30.5, type: 'marker', label: 'window: tests' },
+        { time: 31, type: 'output', data: 'b' },
+      ]);
+    });
+
+    it('should shorten idle gaps', () => {
+      const frames = buildReplayFrames(events, 2);
+
+      expect(frames.map((frame) => frame.time)).toEqual([0.5, 3, 3.5, 4]);
+    });
+  });
+
+  describe('findFrameIndex', () => {
+    it('should return the first frame after the time', () => {
+      const frames = buildReplayFrames(events);
+
+      expect(findFrameIndex(frames, 0)).toBe(0);
+      expect(findFrameIndex(frames, 0.5)).toBe(1);
+      expect(findFrameIndex(frames, 30.7)).toBe(3);
+      expect(findFrameIndex(frames, 100)).toBe(4);
+    });
+  });
+
+  describe('formatReplayTime', () => {
+    it('should format minutes and seconds', () => {
+      expect(formatReplayTime(0)).toBe('0:00');
+      expect(formatReplayTime(75.9)).toBe('1:15');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { parseResize, type AsciicastEvent } from '@always-coder/shared';
+
+/**
+ * Something the replay view applies to its terminal at a point in playback time
+ */
+export type ReplayFrame =
+  | { time: number; type: 'output'; data: string }
+  | { time: number; type: 'resize'; cols: number; rows: number }
+  | { time: number; type: 'marker'; label: string };
+
+/**
+ * Turn recorded events into frames on the playback clock
+ * Gaps longer than idleTimeLimit are shortened to it; input events are dropped.
+ */
+export function buildReplayFrames(events: AsciicastEvent[], idleTimeLimit?: number): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  let clock = 0;
+  let previous = 0;
+
+  for (const [time, code, data] of events) {
+    const gap = Math.max(0, time - previous);
+    clock += idleTimeLimit !== undefined ? Math.min(gap, idleTimeLimit) : gap;
+    previous = time;
+
+    if (code === 'o') {
+      frames.push({ time: clock, type: 'output', data });
+    } else if (code === 'r') {
+      const size = parseResize(data);
+      if (size) {
+        frames.push({ time: clock, type: 'resize', ...size });
+      }
+    } else if (code === 'm') {
+      frames.push({ time: clock, type: 'marker', label: data });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Index of the first frame after the given playback time
+ */
+export function findFrameIndex(frames: ReplayFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatReplayTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
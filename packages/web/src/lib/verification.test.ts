@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isVerifiedKey, markKeyVerified } from './verification.js';
+
+describe('verified CLI keys', () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored[key] ?? null,
+      setItem: (key: string, value: string) => {
+        stored[key] = value;
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should remember verified keys', () => {
+    expect(isVerifiedKey('cli-key')).toBe(false);
+
+    markKeyVerified('cli-key');
+    markKeyVerified('cli-key');
+
+    expect(isVerifiedKey('cli-key')).toBe(true);
+    expect(isVerifiedKey('other-key')).toBe(false);
+    expect(JSON.parse(stored['always-coder:verifiedKeys'])).toEqual(['cli-key']);
+  });
+
+  it('should keep only the most recent keys', () => {
+    for (let i = 0; i < 60; i++) {
+      markKeyVerified(`cli-key-${i}`);
+    }
+
+    expect(isVerifiedKey('cli-key-0')).toBe(false);
+    expect(isVerifiedKey('cli-key-59')).toBe(true);
+  });
+
+  it('should ignore corrupt storage', () => {
+    stored['always-coder:verifiedKeys'] = 'not json';
+
+    expect(isVerifiedKey('cli-key')).toBe(false);
+  });
+});
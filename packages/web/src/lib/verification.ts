@@ -0,0 +1,39 @@
+// CLI public keys the user compared against the terminal's short authentication string.
+// A CLI keeps its key for the whole session, so reconnects stay verified.
+const STORAGE_KEY_VERIFIED = 'always-coder:verifiedKeys';
+
+// Oldest entries are dropped beyond this; sessions don't outlive many new ones
+const MAX_VERIFIED_KEYS = 50;
+
+function loadVerifiedKeys(): string[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const keys = JSON.parse(localStorage.getItem(STORAGE_KEY_VERIFIED) || '[]');
+    return Array.isArray(keys) ? keys : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the user verified this CLI key before
+ */
+export function isVerifiedKey(cliPublicKey: string): boolean {
+  return loadVerifiedKeys().includes(cliPublicKey);
+}
+
+/**
+ * Remember that the user verified this CLI key
+ */
+export function markKeyVerified(cliPublicKey: string): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const keys = [...loadVerifiedKeys().filter((key) => key !== cliPublicKey), cliPublicKey];
+  try {
+    localStorage.setItem(STORAGE_KEY_VERIFIED, JSON.stringify(keys.slice(-MAX_VERIFIED_KEYS)));
+  } catch (error) {
+    // Not critical - the user is just asked to verify again next time
+    console.warn('Failed to save verified key:', error);
+  }
+}
@@ -1,14 +1,42 @@
-import { MessageType, isEncryptedEnvelope, PROTOCOL, type EncryptedEnvelope } from '@always-coder/shared';
+import {
+  MessageType,
+  SUPPORTED_COMPRESSION,
+  SUPPORTED_ENVELOPE_VERSIONS,
+  getCapabilities,
+  isEncryptedEnvelope,
+  isBinaryEnvelope,
+  encodeBinaryEnvelope,
+  decodeBinaryEnvelope,
+  PROTOCOL,
+  type Capabilities,
+  type DeviceIdentity,
+  type EncryptedEnvelope,
+  type EnvelopeVersion,
+  type JoinApprovalStatus,
+  type PushSubscribeResponsePayload,
+  type WebConnectionRole,
+} from '@always-coder/shared';
 
 export type WebSocketEventHandler = {
   onOpen?: () => void;
   onClose?: (code: number, reason: string) => void;
   onError?: (error: Event) => void;
-  onSessionJoined?: (data: { sessionId: string; cliPublicKey: string; cliDisconnected?: boolean }) => void;
+  onSessionJoined?: (data: {
+    sessionId: string;
+    cliPublicKey: string;
+    cliDisconnected?: boolean;
+    role?: WebConnectionRole;
+    envelopeVersion?: EnvelopeVersion;
+    cliCapabilities?: Capabilities;
+  }) => void;
   onEncrypted?: (envelope: EncryptedEnvelope) => void;
   onCliDisconnected?: () => void;
   onCliReconnected?: (data: { cliPublicKey: string }) => void;
+  onJoinApproval?: (status: JoinApprovalStatus) => void;
   onPong?: () => void;
+  /** The user's VAPID public key, asked for with sendPushKeyRequest */
+  onPushKey?: (publicKey: string) => void;
+  onPushSubscribed?: (response: PushSubscribeResponsePayload) => void;
   onServerError?: (code: string, message: string) => void;
 };
 
@@ -20,6 +48,8 @@ export class WebSocketManager {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private isClosing = false;
+  // Envelope format the relay agreed to in SESSION_JOINED
+  private envelopeVersion: EnvelopeVersion = 1;
 
   constructor(endpoint: string, handlers: WebSocketEventHandler) {
     this.endpoint = endpoint;
@@ -30,6 +60,7 @@ export class WebSocketManager {
     return new Promise((resolve, reject) => {
       try {
         this.ws = new WebSocket(this.endpoint);
+        this.ws.binaryType = 'arraybuffer';
 
         this.ws.onopen = () => {
           console.log('WebSocket connected');
@@ -42,6 +73,7 @@ export class WebSocketManager {
         this.ws.onclose = (event) => {
           console.log('WebSocket closed:', event.code, event.reason);
           this.stopPingInterval();
+          this.envelopeVersion = 1;
           this.handlers.onClose?.(event.code, event.reason);
 
           if (!this.isClosing && this.reconnectAttempts < this.maxReconnectAttempts) {
@@ -56,7 +88,11 @@ export class WebSocketManager {
         };
 
         this.ws.onmessage = (event) => {
-          this.handleMessage(event.data);
+          if (event.data instanceof ArrayBuffer) {
+            this.handleBinaryMessage(new Uint8Array(event.data));
+          } else {
+            this.handleMessage(event.data);
+          }
         };
       } catch (error) {
         reject(error);
@@ -69,6 +105,7 @@ export class WebSocketManager {
       const message = JSON.parse(data);
 
       if (message.type === MessageType.SESSION_JOINED) {
+        this.envelopeVersion = message.envelopeVersion === 2 ? 2 : 1;
         this.handlers.onSessionJoined?.(message);
       } else if (message.type === MessageType.ERROR) {
         console.error('Server error:', message.code, message.message);
@@ -77,8 +114,14 @@ export class WebSocketManager {
         this.handlers.onCliDisconnected?.();
       } else if (message.type === 'cli:reconnected') {
         this.handlers.onCliReconnected?.(message);
+      } else if (message.type === MessageType.JOIN_APPROVAL) {
+        this.handlers.onJoinApproval?.(message.status);
       } else if (message.type === MessageType.PONG) {
         this.handlers.onPong?.();
+      } else if (message.type === MessageType.PUSH_KEY_RESPONSE) {
+        this.handlers.onPushKey?.(message.publicKey);
+      } else if (message.type === MessageType.PUSH_SUBSCRIBE_RESPONSE) {
+        this.handlers.onPushSubscribed?.(message);
       } else if (isEncryptedEnvelope(message)) {
         this.handlers.onEncrypted?.(message);
       }
@@ -87,6 +130,19 @@ export class WebSocketManager {
     }
   }
 
+  // Binary frames carry version 2 envelopes
+  private handleBinaryMessage(data: Uint8Array): void {
+    if (!isBinaryEnvelope(data)) {
+      console.error('Ignoring unknown binary frame');
+      return;
+    }
+    try {
+      this.handlers.onEncrypted?.(decodeBinaryEnvelope(data));
+    } catch (error) {
+      console.error('Failed to decode binary envelope:', error);
+    }
+  }
+
   send(data: unknown): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       throw new Error('WebSocket is not connected');
@@ -94,16 +150,41 @@ export class WebSocketManager {
     this.ws.send(JSON.stringify(data));
   }
 
-  sendSessionJoin(sessionId: string, publicKey: string): void {
+  sendSessionJoin(sessionId: string, publicKey: string, viewerToken?: string, device?: DeviceIdentity): void {
     this.send({
       type: MessageType.SESSION_JOIN,
       sessionId,
       publicKey,
+      device,
+      viewerToken,
+      compression: [...SUPPORTED_COMPRESSION],
+      envelopeVersions: [...SUPPORTED_ENVELOPE_VERSIONS],
+      capabilities: getCapabilities(),
     });
   }
 
+  sendPushKeyRequest(): void {
+    this.send({ type: MessageType.PUSH_KEY_REQUEST });
+  }
+
+  // Only the endpoint goes to the relay; the subscription's keys go to the CLI
+  sendPushSubscribe(subscriptionId: string, endpoint: string): void {
+    this.send({ type: MessageType.PUSH_SUBSCRIBE, subscriptionId, endpoint });
+  }
+
+  sendPushUnsubscribe(subscriptionId: string): void {
+    this.send({ type: MessageType.PUSH_UNSUBSCRIBE, subscriptionId });
+  }
+
   sendEncrypted(envelope: EncryptedEnvelope): void {
-    this.send(envelope);
+    if (this.envelopeVersion !== 2) {
+      this.send(envelope);
+      return;
+    }
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not connected');
+    }
+    this.ws.send(encodeBinaryEnvelope(envelope));
   }
 
   private startPingInterval(): void {
@@ -1,14 +1,29 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { DEFAULT_WINDOW_ID, type AgentStatePayload, type WindowInfo } from '@always-coder/shared';
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+// Push notifications from this session; 'pending' while subscribing
+export type NotificationStatus = 'unsupported' | 'off' | 'pending' | 'on' | 'denied';
+
 interface SessionState {
   sessionId: string | null;
   cliPublicKey: string | null;
   connectionStatus: ConnectionStatus;
   errorMessage: string | null;
   isEncryptionReady: boolean;
+  windows: WindowInfo[];
+  activeWindowId: string;
+  // What the coding agent in each window is doing, for windows running one
+  agentStates: Record<string, AgentStatePayload>;
+  // Joined through a share link: output only, input is never sent
+  readOnly: boolean;
+  // The CLI asked its user to approve this device and hasn't answered yet
+  awaitingApproval: boolean;
+  // The user matched the CLI's key against the short authentication string
+  terminalVerified: boolean;
+  notificationStatus: NotificationStatus;
 
   // Actions
   setSessionId: (sessionId: string) => void;
@@ -17,6 +32,13 @@ interface SessionState {
   setError: (message: string) => void;
   clearError: () => void;
   setEncryptionReady: (ready: boolean) => void;
+  setWindows: (windows: WindowInfo[], activeWindowId: string) => void;
+  setActiveWindow: (windowId: string) => void;
+  setAgentState: (windowId: string, state: AgentStatePayload) => void;
+  setReadOnly: (readOnly: boolean) => void;
+  setAwaitingApproval: (awaitingApproval: boolean) => void;
+  setTerminalVerified: (terminalVerified: boolean) => void;
+  setNotificationStatus: (notificationStatus: NotificationStatus) => void;
   reset: () => void;
 }
 
@@ -26,6 +48,13 @@ const initialState = {
   connectionStatus: 'disconnected' as ConnectionStatus,
   errorMessage: null,
   isEncryptionReady: false,
+  windows: [] as WindowInfo[],
+  activeWindowId: DEFAULT_WINDOW_ID,
+  agentStates: {} as Record<string, AgentStatePayload>,
+  readOnly: false,
+  awaitingApproval: false,
+  terminalVerified: false,
+  notificationStatus: 'off' as NotificationStatus,
 };
 
 export const useSessionStore = create<SessionState>()(
@@ -45,6 +74,29 @@ export const useSessionStore = create<SessionState>()(
 
       setEncryptionReady: (isEncryptionReady) => set({ isEncryptionReady }),
 
+      // Closed windows take their agent state with them
+      setWindows: (windows, activeWindowId) =>
+        set((state) => ({
+          windows,
+          activeWindowId,
+          agentStates: Object.fromEntries(
+            Object.entries(state.agentStates).filter(([windowId]) => windows.some((w) => w.windowId === windowId))
+          ),
+        })),
+
+      setActiveWindow: (activeWindowId) => set({ activeWindowId }),
+
+      setAgentState: (windowId, agentState) =>
+        set((state) => ({ agentStates: { ...state.agentStates, [windowId]: agentState } })),
+
+      setReadOnly: (readOnly) => set({ readOnly }),
+
+      setAwaitingApproval: (awaitingApproval) => set({ awaitingApproval }),
+
+      setTerminalVerified: (terminalVerified) => set({ terminalVerified }),
+
+      setNotificationStatus: (notificationStatus) => set({ notificationStatus }),
+
       reset: () => set(initialState),
     }),
     {